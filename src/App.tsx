@@ -1,27 +1,87 @@
-import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import ParameterSidebar from './components/ParameterSidebar';
 import Scene3D from './components/Scene3D';
 import OptimizedHornGeometry from './components/OptimizedHornGeometry';
+import SegmentedHornPreview, { useSegmentedAssembly } from './components/SegmentedHornPreview';
 import Profile2DView from './components/Profile2DView';
 import PerformanceMonitor, { usePerformanceAdapter } from './components/PerformanceMonitor';
 import {AcousticSidePanel} from './components/AcousticSidePanel';
-import { AppState } from './types';
-import { MATERIALS, DEFAULT_HORN_PARAMS, DEFAULT_PLATE_PARAMS, DEFAULT_DRIVER_PARAMS } from './constants';
+import CostBreakdown from './components/CostBreakdown';
+import ProjectMenu from './components/ProjectMenu';
+import HistoryPanel from './components/HistoryPanel';
+import ComparisonMenu from './components/ComparisonMenu';
+import ComparisonHornGeometry from './components/ComparisonHornGeometry';
+import { AppState, MaterialType, DriverSpec, ProjectInfo, PinnedDesign } from './types';
 import { DispersionAnalyzer } from './acoustic/analysis/Dispersion';
 import { FrequencyResponseAnalyzer } from './acoustic/analysis/FrequencyResponse';
-// import { calculateCost } from './utils/costCalculator'; // Temporarily disabled
+import { exportAssemblyToSTL } from './utils/stlExporter';
+import { exportAssemblyTo3MF } from './utils/threeMfExporter';
+import { exportAssemblyToSTEP } from './utils/stepExporter';
+import { exportSegmentedAssembly } from './utils/segmentExporter';
+import { measureAssembly, calculateCostFromMeasurements } from './utils/costCalculator';
+import { loadMaterialLibrary, saveMaterialLibrary } from './utils/materialLibrary';
+import { loadDriverLibrary, saveDriverLibrary, applyDriverSpec } from './utils/driverLibrary';
+import { checkManufacturability } from './utils/manufacturability';
+import { createDefaultAppState, decodeDesignFragment, encodeDesignFragment } from './utils/designLink';
+import { createProjectInfo } from './utils/projectFile';
+import { createHistory, DesignHistory, HistorySection, recordHistory } from './utils/designHistory';
+import {
+  calculateDesignCost,
+  calculateSideBySideOffsets,
+  ComparedDesign,
+  ComparisonLayout,
+  createPinnedDesign,
+  MAX_PINNED_DESIGNS
+} from './utils/designComparison';
+import { setPrintMaterialColor } from './components/horn-geometry/MaterialFactory';
+import { resolveMouthParams } from './components/horn-geometry/HornProfileGenerator';
+
+const EXPORT_FORMAT_LABELS = {
+  'stl-binary': 'STL',
+  'stl-ascii': 'STL',
+  '3mf': '3MF',
+  'step': 'STEP',
+  'segments': 'Pieces'
+} as const;
+
+const DESIGN_LINK_DELAY = 300; // ms
+
+// Inputs that take no typing, where Ctrl+Z can go to the design history
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'range', 'color', 'file', 'button', 'submit', 'reset', 'image'];
+
+// Fields being typed in (number inputs included) keep the browser's own undo
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(target.type)) ||
+  (target instanceof HTMLElement && target.isContentEditable);
 
 function App() {
-  // State management for all horn parameters
-  const [appState, setAppState] = useState<AppState>({
-    hornParams: DEFAULT_HORN_PARAMS,
-    plateParams: DEFAULT_PLATE_PARAMS,
-    driverParams: DEFAULT_DRIVER_PARAMS,
-    selectedMaterial: MATERIALS[0], // Default to PLA
-    showMountingPlate: true,
-    showDriverMount: true
-  });
+  // User-editable material library, persisted in localStorage
+  const [materialLibrary, setMaterialLibrary] = useState<MaterialType[]>(loadMaterialLibrary);
+
+  // User-editable driver catalog, persisted in localStorage
+  const [driverLibrary, setDriverLibrary] = useState<DriverSpec[]>(loadDriverLibrary);
+
+  // State management for all horn parameters, restored from a design link when there is one
+  const [appState, setAppState] = useState<AppState>(() =>
+    decodeDesignFragment(window.location.hash, materialLibrary) ?? createDefaultAppState(materialLibrary[0])
+  );
   
+  // Latest design for handlers that record history; set during render and by edits
+  const appStateRef = useRef(appState);
+  appStateRef.current = appState;
+
+  // Undo/redo steps for horn, plate, driver and material edits
+  const [history, setHistory] = useState<DesignHistory>(() => createHistory(appState));
+
+  // Designs pinned for comparison with the live one
+  const [pinnedDesigns, setPinnedDesigns] = useState<PinnedDesign[]>([]);
+  const [showComparison, setShowComparison] = useState(true);
+  const [comparisonLayout, setComparisonLayout] = useState<ComparisonLayout>('side-by-side');
+
+  // Name, notes and timestamps saved with the design in .horn.json files
+  const [projectInfo, setProjectInfo] = useState<ProjectInfo>(() => createProjectInfo());
+
   // View mode state
   const [viewMode, setViewMode] = useState<'2d' | '3d'>('3d');
   
@@ -29,19 +89,134 @@ function App() {
   const [performanceMode, setPerformanceMode] = useState<'high' | 'medium' | 'low'>('high');
   const [showPerformanceMonitor, setShowPerformanceMonitor] = useState(false);
   
+  // Export state
+  const [exportFormat, setExportFormat] = useState<keyof typeof EXPORT_FORMAT_LABELS>('stl-binary');
+  
   // Use performance adapter for automatic quality adjustment
   const { handlePerformanceChange } = usePerformanceAdapter(50, (quality) => {
     setPerformanceMode(quality);
   });
 
-  // Calculate cost in real-time (simplified for now)
-  const estimatedCost = useMemo(() => {
-    // Simple cost estimation based on approximate volume
-    const volume = appState.hornParams.length * appState.hornParams.mouthWidth * appState.hornParams.mouthWidth * 0.1; // mm³
-    const mass = (volume / 1000) * appState.selectedMaterial.density; // grams
-    const materialCost = mass * appState.selectedMaterial.costPerGram;
-    return materialCost + 15; // Add $15 labor cost
-  }, [appState.hornParams, appState.selectedMaterial]);
+  // Measure the rendered parts once; costs per material reuse the measurements
+  const partMeasurements = useMemo(() => measureAssembly(
+    appState.hornParams,
+    appState.plateParams,
+    appState.driverParams,
+    {
+      includeMountingPlate: appState.showMountingPlate,
+      includeDriverMount: appState.showDriverMount
+    }
+  ), [
+    appState.hornParams,
+    appState.plateParams,
+    appState.driverParams,
+    appState.showMountingPlate,
+    appState.showDriverMount
+  ]);
+
+  const materialCosts = useMemo(() => materialLibrary.map(material => ({
+    material,
+    cost: calculateCostFromMeasurements(partMeasurements, material, appState.printSettings)
+  })), [partMeasurements, materialLibrary, appState.printSettings]);
+
+  const estimatedCost = useMemo(
+    () => calculateCostFromMeasurements(partMeasurements, appState.selectedMaterial, appState.printSettings),
+    [partMeasurements, appState.selectedMaterial, appState.printSettings]
+  );
+
+  const manufacturabilityIssues = useMemo(() => checkManufacturability(
+    appState.hornParams,
+    appState.plateParams,
+    appState.driverParams,
+    appState.selectedMaterial,
+    {
+      includeMountingPlate: appState.showMountingPlate,
+      includeDriverMount: appState.showDriverMount
+    }
+  ), [
+    appState.hornParams,
+    appState.plateParams,
+    appState.driverParams,
+    appState.selectedMaterial,
+    appState.showMountingPlate,
+    appState.showDriverMount
+  ]);
+
+  // Pinned designs with their print costs, while the comparison is shown
+  const comparedDesigns = useMemo<ComparedDesign[]>(() => showComparison
+    ? pinnedDesigns.map(design => ({ ...design, cost: calculateDesignCost(design.state) }))
+    : [],
+  [pinnedDesigns, showComparison]);
+
+  // Live design first; ghosts share its origin
+  const comparisonOffsets = useMemo(() => comparisonLayout === 'side-by-side'
+    ? calculateSideBySideOffsets([appState, ...comparedDesigns.map(design => design.state)])
+    : [0, ...comparedDesigns.map(() => 0)],
+  [appState, comparedDesigns, comparisonLayout]);
+
+  useEffect(() => {
+    saveMaterialLibrary(materialLibrary);
+  }, [materialLibrary]);
+
+  useEffect(() => {
+    saveDriverLibrary(driverLibrary);
+  }, [driverLibrary]);
+
+  useEffect(() => {
+    setPrintMaterialColor(appState.selectedMaterial.color);
+  }, [appState.selectedMaterial.color]);
+
+  // Keep the URL fragment on the current design; browsers throttle history updates, so wait out drags
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const fragment = encodeDesignFragment(appState);
+      if (`#${fragment}` === window.location.hash || (!fragment && !window.location.hash)) return;
+      window.history.replaceState(null, '', fragment ? `#${fragment}` : window.location.pathname + window.location.search);
+    }, DESIGN_LINK_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [appState]);
+
+  // A design link pasted into an open tab only changes the fragment
+  useEffect(() => {
+    const handleHashChange = () => {
+      const design = decodeDesignFragment(window.location.hash, materialLibrary);
+      if (design) {
+        setAppState(design);
+        setHistory(createHistory(design, 'Opened design link'));
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [materialLibrary]);
+
+  // Printable pieces for the segmentation preview (only built while the mode is on)
+  const segmentationRequest = useMemo(() => {
+    if (!appState.segmentationParams.enabled || viewMode !== '3d') {
+      return null;
+    }
+
+    return {
+      hornParams: appState.hornParams,
+      plateParams: appState.plateParams,
+      driverParams: appState.driverParams,
+      options: {
+        includeMountingPlate: appState.showMountingPlate,
+        includeDriverMount: appState.showDriverMount,
+        detailLevel: performanceMode
+      },
+      segmentation: appState.segmentationParams
+    };
+  }, [
+    appState.hornParams,
+    appState.plateParams,
+    appState.driverParams,
+    appState.showMountingPlate,
+    appState.showDriverMount,
+    appState.segmentationParams,
+    performanceMode,
+    viewMode
+  ]);
+  const { result: segmentation, pending: segmentationPending, error: segmentationError } = useSegmentedAssembly(segmentationRequest);
 
   // Calculate acoustic properties when parameters change
   useEffect(() => {
@@ -49,13 +224,15 @@ function App() {
     const mode = params.acousticCalculationMode || 'size-to-dispersion';
     
     if (mode === 'size-to-dispersion') {
-      // Calculate dispersion from current horn size
+      // Calculate dispersion from current horn size, measured at the front
+      // of a rolled-back lip
       const targetFreq = params.targetFrequency || 1000;
-      const mouthHeight = params.mouthHeight || params.mouthWidth;
+      const mouth = resolveMouthParams(params);
+      const mouthHeight = mouth.mouthHeight || mouth.mouthWidth;
       
       // Calculate beamwidth
       const horizontalBeamwidth = DispersionAnalyzer.calculateBeamwidth(
-        params.mouthWidth,
+        mouth.mouthWidth,
         targetFreq
       );
       const verticalBeamwidth = DispersionAnalyzer.calculateBeamwidth(
@@ -117,12 +294,23 @@ function App() {
     appState.hornParams.targetHorizontalDispersion,
     appState.hornParams.targetVerticalDispersion,
     appState.hornParams.cutoffFrequency,
+    appState.hornParams.flareType,
+    appState.hornParams.heightFlareType,
+    appState.hornParams.mouthTermination,
     appState.hornParams.acousticCalculationMode
   ]);
 
+  // Apply an edit and add it to the undo history
+  const recordEdit = useCallback((section: HistorySection, update: (prev: AppState) => AppState, label?: string) => {
+    const next = update(appStateRef.current);
+    appStateRef.current = next;
+    setAppState(next);
+    setHistory(prev => recordHistory(prev, section, next, Date.now(), label));
+  }, []);
+
   // Event handlers for parameter updates
   const handleHornParamsChange = useCallback((hornParams: typeof appState.hornParams) => {
-    setAppState(prev => ({ 
+    recordEdit('horn', prev => ({ 
       ...prev, 
       hornParams,
       plateParams: {
@@ -130,20 +318,98 @@ function App() {
         type: hornParams.roundMouth ? 'circle' : 'rect'
       }
     }));
-  }, []);
+  }, [recordEdit]);
 
   const handlePlateParamsChange = useCallback((plateParams: typeof appState.plateParams) => {
-    setAppState(prev => ({ ...prev, plateParams }));
-  }, []);
+    recordEdit('plate', prev => ({ ...prev, plateParams }));
+  }, [recordEdit]);
 
   const handleDriverParamsChange = useCallback((driverParams: typeof appState.driverParams) => {
-    setAppState(prev => ({ ...prev, driverParams }));
-  }, []);
+    recordEdit('driver', prev => ({ ...prev, driverParams }));
+  }, [recordEdit]);
 
   const handleMaterialChange = useCallback((selectedMaterial: typeof appState.selectedMaterial) => {
-    setAppState(prev => ({ ...prev, selectedMaterial }));
+    recordEdit('material', prev => ({ ...prev, selectedMaterial }));
+  }, [recordEdit]);
+
+  const handlePinDesign = useCallback(() => {
+    setPinnedDesigns(prev => prev.length < MAX_PINNED_DESIGNS ? [...prev, createPinnedDesign(appState, prev)] : prev);
+    setShowComparison(true);
+  }, [appState]);
+
+  // Loading a pinned design replaces the live one as a single undoable step
+  const handleLoadPinnedDesign = useCallback((design: PinnedDesign) => {
+    recordEdit('design', () => ({
+      ...design.state,
+      selectedMaterial: materialLibrary.find(material => material.id === design.state.selectedMaterial.id) ?? design.state.selectedMaterial
+    }), `Loaded ${design.name}`);
+  }, [recordEdit, materialLibrary]);
+
+  // Restore a step's design, resolving its material against the current library
+  const handleHistoryJump = useCallback((index: number) => {
+    const entry = history.entries[index];
+    if (!entry) return;
+    const { snapshot } = entry;
+    setHistory(prev => ({ ...prev, index }));
+    setAppState(prev => ({
+      ...prev,
+      ...snapshot,
+      selectedMaterial: materialLibrary.find(material => material.id === snapshot.selectedMaterial.id) ?? snapshot.selectedMaterial
+    }));
+  }, [history, materialLibrary]);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextEntry(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        handleHistoryJump(history.index + (event.shiftKey ? 1 : -1));
+      } else if (key === 'y') {
+        event.preventDefault();
+        handleHistoryJump(history.index + 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleHistoryJump, history.index]);
+
+  // Keep the selection pointing at the edited entry, or the first one if it was removed
+  const handleMaterialLibraryChange = useCallback((materials: MaterialType[]) => {
+    setMaterialLibrary(materials);
+    setAppState(prev => ({
+      ...prev,
+      selectedMaterial: materials.find(material => material.id === prev.selectedMaterial.id) ?? materials[0]
+    }));
   }, []);
 
+  // Picking a driver fills the mount and the horn throat
+  const handleDriverSelect = useCallback((driver: DriverSpec) => {
+    recordEdit(
+      'driver',
+      prev => ({ ...prev, ...applyDriverSpec(driver, prev.driverParams, prev.hornParams) }),
+      `Driver: ${driver.name}`
+    );
+  }, [recordEdit]);
+
+  // Edits to the picked driver flow into the mount; removing it detaches the mount
+  const handleDriverLibraryChange = useCallback((drivers: DriverSpec[]) => {
+    setDriverLibrary(drivers);
+    setAppState(prev => {
+      const current = drivers.find(driver => driver.id === prev.driverParams.driverId);
+      if (!current) {
+        return prev.driverParams.driverId
+          ? { ...prev, driverParams: { ...prev.driverParams, driverId: undefined } }
+          : prev;
+      }
+      if (driverLibrary.includes(current)) {
+        return prev;
+      }
+      return { ...prev, ...applyDriverSpec(current, prev.driverParams, prev.hornParams) };
+    });
+  }, [driverLibrary]);
+
   const handleToggleMountingPlate = useCallback((showMountingPlate: boolean) => {
     setAppState(prev => ({ ...prev, showMountingPlate }));
   }, []);
@@ -152,11 +418,80 @@ function App() {
     setAppState(prev => ({ ...prev, showDriverMount }));
   }, []);
 
-  // STL Export handler (temporarily disabled)
-  const handleExportSTL = useCallback(() => {
-    alert('STL export temporarily disabled while fixing geometry generation. Feature will be restored soon!');
+  const handlePrintSettingsChange = useCallback((printSettings: typeof appState.printSettings) => {
+    setAppState(prev => ({ ...prev, printSettings }));
   }, []);
 
+  const handleSegmentationParamsChange = useCallback((segmentationParams: typeof appState.segmentationParams) => {
+    setAppState(prev => ({ ...prev, segmentationParams }));
+  }, []);
+
+  // Export handler - exports the same geometry the viewport renders
+  const handleExport = useCallback(() => {
+    const assemblyOptions = {
+      includeMountingPlate: appState.showMountingPlate,
+      includeDriverMount: appState.showDriverMount
+    };
+    
+    try {
+      if (exportFormat === '3mf') {
+        exportAssemblyTo3MF(
+          appState.hornParams,
+          appState.plateParams,
+          appState.driverParams,
+          appState.selectedMaterial,
+          assemblyOptions
+        );
+      } else if (exportFormat === 'segments') {
+        exportSegmentedAssembly(
+          appState.hornParams,
+          appState.plateParams,
+          appState.driverParams,
+          assemblyOptions,
+          appState.segmentationParams
+        );
+      } else if (exportFormat === 'step') {
+        exportAssemblyToSTEP(
+          appState.hornParams,
+          appState.plateParams,
+          appState.driverParams,
+          assemblyOptions
+        );
+      } else {
+        exportAssemblyToSTL(
+          appState.hornParams,
+          appState.plateParams,
+          appState.driverParams,
+          {
+            ...assemblyOptions,
+            format: exportFormat === 'stl-ascii' ? 'ascii' : 'binary'
+          }
+        );
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Export failed');
+    }
+  }, [appState, exportFormat]);
+
+  const handleProjectOpen = useCallback((state: AppState, info: ProjectInfo) => {
+    setAppState(state);
+    setProjectInfo(info);
+    setHistory(createHistory(state, `Opened ${info.name}`));
+  }, []);
+
+  const handleCopyLink = useCallback(async () => {
+    const fragment = encodeDesignFragment(appState);
+    const { origin, pathname, search } = window.location;
+    const link = `${origin}${pathname}${search}${fragment ? `#${fragment}` : ''}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      alert('Design link copied to the clipboard');
+    } catch (error) {
+      console.error('Copy link failed:', error);
+      window.prompt('Copy the design link:', link);
+    }
+  }, [appState]);
+
   // Add to Cart handler
   const handleAddToCart = useCallback(() => {
     alert('Add to cart feature isn\'t built yet!');
@@ -175,8 +510,18 @@ function App() {
         onPlateParamsChange={handlePlateParamsChange}
         onDriverParamsChange={handleDriverParamsChange}
         onMaterialChange={handleMaterialChange}
+        materialLibrary={materialLibrary}
+        onMaterialLibraryChange={handleMaterialLibraryChange}
+        driverLibrary={driverLibrary}
+        onDriverLibraryChange={handleDriverLibraryChange}
+        onDriverSelect={handleDriverSelect}
+        manufacturabilityIssues={manufacturabilityIssues}
+        printSettings={appState.printSettings}
+        onPrintSettingsChange={handlePrintSettingsChange}
         onToggleMountingPlate={handleToggleMountingPlate}
         onToggleDriverMount={handleToggleDriverMount}
+        segmentationParams={appState.segmentationParams}
+        onSegmentationParamsChange={handleSegmentationParamsChange}
         performanceMode={performanceMode}
         onPerformanceModeChange={setPerformanceMode}
         showPerformanceMonitor={showPerformanceMonitor}
@@ -188,11 +533,12 @@ function App() {
         <div className="glass-dark mx-4 mt-4 rounded-2xl px-6 py-4 shadow-xl">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-6">
-              <div className="px-4 py-2 glass-input rounded-xl">
-                <span className="text-xl font-bold text-gray-300">
-                  Cost as configured: <span className="bg-gradient-to-r from-green-400 to-blue-400 bg-clip-text text-transparent">${estimatedCost.toFixed(2)}</span>
-                </span>
-              </div>
+              <CostBreakdown
+                cost={estimatedCost}
+                selectedMaterial={appState.selectedMaterial}
+                materialCosts={materialCosts}
+                onMaterialChange={handleMaterialChange}
+              />
               <div className="flex items-center space-x-2">
                 <span className="text-sm text-gray-400">Type:</span>
                 <span className="text-blue-300 font-medium capitalize">{appState.hornParams.flareType}</span>
@@ -211,14 +557,54 @@ function App() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <HistoryPanel history={history} onJump={handleHistoryJump} />
+              <ComparisonMenu
+                pinnedDesigns={pinnedDesigns}
+                showComparison={showComparison}
+                layout={comparisonLayout}
+                onPin={handlePinDesign}
+                onPinnedDesignsChange={setPinnedDesigns}
+                onLoad={handleLoadPinnedDesign}
+                onShowComparisonChange={setShowComparison}
+                onLayoutChange={setComparisonLayout}
+              />
+              <ProjectMenu
+                appState={appState}
+                projectInfo={projectInfo}
+                materialLibrary={materialLibrary}
+                onProjectInfoChange={setProjectInfo}
+                onProjectOpen={handleProjectOpen}
+              />
+              <button
+                onClick={handleCopyLink}
+                className="glass-button px-4 py-3 rounded-xl font-medium text-white flex items-center space-x-2 shadow-lg hover:shadow-xl transition-all duration-300"
+                title="Copy a link that opens this exact design"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+                <span>Copy Link</span>
+              </button>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as typeof exportFormat)}
+                className="px-3 py-3 glass-input rounded-xl text-white outline-none text-sm"
+                title="Export format"
+              >
+                <option value="stl-binary" className="bg-gray-800 text-white">STL (binary)</option>
+                <option value="stl-ascii" className="bg-gray-800 text-white">STL (ASCII)</option>
+                <option value="3mf" className="bg-gray-800 text-white">3MF (separate parts)</option>
+                <option value="step" className="bg-gray-800 text-white">STEP (NURBS surfaces)</option>
+                <option value="segments" className="bg-gray-800 text-white">STL pieces (bed-sized ZIP)</option>
+              </select>
               <button
-                onClick={handleExportSTL}
+                onClick={handleExport}
                 className="glass-button px-6 py-3 rounded-xl font-medium text-white flex items-center space-x-3 shadow-lg hover:shadow-xl transition-all duration-300"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
-                <span>Export STL</span>
+                <span>Export {EXPORT_FORMAT_LABELS[exportFormat]}</span>
               </button>
               <button
                 onClick={handleAddToCart}
@@ -239,15 +625,33 @@ function App() {
             {viewMode === '3d' ? (
               <>
                 <Scene3D>
-                  <OptimizedHornGeometry
-                    hornParams={appState.hornParams}
-                    plateParams={appState.plateParams}
-                    driverParams={appState.driverParams}
-                    showMountingPlate={appState.showMountingPlate}
-                    showDriverMount={appState.showDriverMount}
-                    performanceMode={performanceMode}
-                    enableLOD={true}
-                  />
+                  {segmentation ? (
+                    <SegmentedHornPreview result={segmentation} />
+                  ) : (
+                    <>
+                      <group position={[comparisonOffsets[0], 0, 0]}>
+                        <OptimizedHornGeometry
+                          hornParams={appState.hornParams}
+                          plateParams={appState.plateParams}
+                          driverParams={appState.driverParams}
+                          showMountingPlate={appState.showMountingPlate}
+                          showDriverMount={appState.showDriverMount}
+                          performanceMode={performanceMode}
+                          enableLOD={true}
+                        />
+                      </group>
+                      {comparedDesigns.map((design, i) => (
+                        <group key={design.id} position={[comparisonOffsets[i + 1], 0, 0]}>
+                          <ComparisonHornGeometry
+                            hornParams={design.state.hornParams}
+                            driverParams={design.state.driverParams}
+                            color={design.color}
+                            ghost={comparisonLayout === 'ghost'}
+                          />
+                        </group>
+                      ))}
+                    </>
+                  )}
                   {showPerformanceMonitor && (
                     <PerformanceMonitor
                       visible={showPerformanceMonitor}
@@ -258,6 +662,32 @@ function App() {
                     />
                   )}
                 </Scene3D>
+                {/* Segmentation summary - top right in 3D view */}
+                {segmentationRequest && (segmentation || segmentationPending || segmentationError) && (
+                  <div className="absolute top-4 right-4 z-10 glass-dark rounded-xl px-4 py-3 text-sm max-w-xs">
+                    {segmentationPending && (
+                      <div className="text-gray-400 text-xs mb-1">Splitting into pieces…</div>
+                    )}
+                    {segmentationError && (
+                      <div className="text-red-300 text-xs">Segmentation failed: {segmentationError}</div>
+                    )}
+                    {segmentation && (
+                      <>
+                        <div className="text-white font-medium mb-1">
+                          {segmentation.segments.length} pieces · {segmentation.axialSegments} slice{segmentation.axialSegments === 1 ? '' : 's'} · {segmentation.keyCount} keys
+                        </div>
+                        {segmentation.dowels && (
+                          <div className="text-gray-300">
+                            {segmentation.dowels.count} dowels Ø{segmentation.dowels.diameter.toFixed(1)} × {segmentation.dowels.length.toFixed(1)}mm
+                          </div>
+                        )}
+                        {segmentation.warnings.map((warning) => (
+                          <div key={warning} className="text-red-300 text-xs mt-1">{warning}</div>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                )}
                 {/* View Toggle Buttons - bottom left in 3D view */}
                 <div className="absolute bottom-4 left-4 z-10 flex flex-col gap-2">
                   <button
@@ -275,6 +705,9 @@ function App() {
             ) : (
               <Profile2DView 
                 hornParams={appState.hornParams}
+                driverParams={appState.driverParams}
+                comparisons={comparedDesigns}
+                onHornParamsChange={handleHornParamsChange}
                 onToggle3D={() => setViewMode('3d')}
               />
             )}
@@ -283,7 +716,14 @@ function App() {
 
       </div>
 
-      <AcousticSidePanel hornParams={appState.hornParams}/>
+      <AcousticSidePanel
+        hornParams={appState.hornParams}
+        driverParams={appState.driverParams}
+        driver={driverLibrary.find(driver => driver.id === appState.driverParams.driverId)}
+        comparisons={comparedDesigns}
+        cost={estimatedCost}
+        onHornParamsChange={handleHornParamsChange}
+      />
 
     </div>
   );
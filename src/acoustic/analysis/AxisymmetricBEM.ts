@@ -0,0 +1,514 @@
+/**
+ * Axisymmetric Boundary Element Solver
+ * Exterior Helmholtz problem around a rigid horn of revolution driven by a
+ * piston at the throat. Constant conical-ring elements with collocation at
+ * their midpoints; the static part of each ring kernel is integrated in
+ * closed form with complete elliptic integrals, the dynamic remainder
+ * numerically, and the polar response follows from the surface pressure.
+ * References:
+ * - B. Soenarko, "A boundary element formulation for radiation of acoustic waves from axisymmetric bodies with arbitrary boundary conditions", JASA 93(2), 1993
+ * - A. F. Seybert et al., "An advanced computational method for radiation and scattering of acoustic waves in three dimensions", JASA 77(2), 1985
+ */
+
+import {
+  BEMMeridian,
+  ComplexNumber,
+  DirectivityMap,
+  SPEED_OF_SOUND
+} from '../types';
+
+const ELEMENTS_PER_WAVELENGTH = 6;
+const MAX_ELEMENT_LENGTH = 0.01; // m - low-frequency meshes still follow the wall
+const MAX_ELEMENTS = 360; // beyond this the mesh coarsens instead of growing
+const MIN_WALL_THICKNESS = 0.008; // m - see createMesh
+const NEAR_FIELD_FACTOR = 1.5; // element lengths within which quadrature is graded
+const GRADING_RATIO = 4;
+const MIN_GRADED_STEP = 1 / 512; // of the element length
+const MIN_LEVEL = -60; // dB
+const FOUR_PI = 4 * Math.PI;
+
+// Gauss-Legendre nodes and weights on [0, 1]
+const GAUSS_3 = {
+  nodes: [0.5 - Math.sqrt(0.15), 0.5, 0.5 + Math.sqrt(0.15)],
+  weights: [5 / 18, 8 / 18, 5 / 18],
+};
+const GAUSS_4 = {
+  nodes: [0.0694318442029737, 0.3300094782075719, 0.6699905217924281, 0.9305681557970263],
+  weights: [0.1739274225687269, 0.3260725774312731, 0.3260725774312731, 0.1739274225687269],
+};
+
+/**
+ * Closed generator of the body, split into straight elements (m).
+ * Elements run clockwise in the (r, z) plane so that (-tz, tr) points into the air.
+ */
+interface BoundaryMesh {
+  count: number;
+  r0: Float64Array;
+  z0: Float64Array;
+  r1: Float64Array;
+  z1: Float64Array;
+  nr: Float64Array;
+  nz: Float64Array;
+  length: Float64Array;
+  velocity: Float64Array; // normal velocity, 1 on the throat piston
+}
+
+interface SurfacePressure {
+  real: Float64Array;
+  imaginary: Float64Array;
+}
+
+export class AxisymmetricBEM {
+  /**
+   * Polar responses of one meridian over a set of frequencies
+   */
+  static calculateDirectivityMap(
+    meridian: BEMMeridian,
+    frequencies: number[],
+    angles: number[],
+    onProgress?: (progress: number) => void
+  ): DirectivityMap {
+    const levels = frequencies.map((frequency, i) => {
+      const polar = this.calculatePolarResponse(meridian, frequency, angles);
+      onProgress?.((i + 1) / frequencies.length);
+      return polar;
+    });
+
+    return { frequencies, angles, levels };
+  }
+
+  /**
+   * Far-field level (dB re on-axis) at each angle off axis, in degrees
+   */
+  static calculatePolarResponse(meridian: BEMMeridian, frequency: number, angles: number[]): number[] {
+    const k = 2 * Math.PI * frequency / SPEED_OF_SOUND;
+    const mesh = this.createMesh(meridian, frequency);
+    const pressure = this.solveSurfacePressure(mesh, k);
+
+    const onAxis = magnitude(this.calculateFarField(mesh, pressure, k, 0));
+    return angles.map(angle => {
+      const level = magnitude(this.calculateFarField(mesh, pressure, k, angle * Math.PI / 180));
+      return onAxis > 0 && level > 0 ? Math.max(MIN_LEVEL, 20 * Math.log10(level / onAxis)) : MIN_LEVEL;
+    });
+  }
+
+  /**
+   * Body generator from the meridian: the throat piston out from the axis,
+   * the interior wall to the mouth, the exterior wall back, and a plate
+   * behind the throat back to the axis.
+   * Walls much thinner than an element make the two faces' equations nearly
+   * identical and the solution drifts, so the exterior is set out to at
+   * least MIN_WALL_THICKNESS; the radiation barely depends on it.
+   */
+  private static createMesh(meridian: BEMMeridian, frequency: number): BoundaryMesh {
+    const { inner, outer } = meridian;
+    const exterior = outer.map((point, i) => point.x === inner[i].x
+      ? { r: Math.max(point.radius / 1000, inner[i].radius / 1000 + MIN_WALL_THICKNESS), z: point.x / 1000 }
+      : { r: point.radius / 1000, z: point.x / 1000 });
+    const throat = { r: inner[0].radius / 1000, z: inner[0].x / 1000 };
+    const back = exterior[0];
+    const plate = Math.max(back.r - throat.r, MIN_WALL_THICKNESS);
+
+    const points: Array<{ r: number; z: number }> = [{ r: 0, z: throat.z }];
+    for (const point of inner) points.push({ r: point.radius / 1000, z: point.x / 1000 });
+    for (let i = exterior.length - 1; i >= 0; i--) points.push(exterior[i]);
+    points.push({ r: back.r, z: back.z - plate });
+    points.push({ r: 0, z: back.z - plate });
+
+    const segments = points.slice(1).map((point, i) => ({
+      start: points[i],
+      end: point,
+      length: Math.hypot(point.r - points[i].r, point.z - points[i].z),
+    }));
+    const perimeter = segments.reduce((total, segment) => total + segment.length, 0);
+    const wavelength = SPEED_OF_SOUND / frequency;
+    const elementLength = Math.max(
+      Math.min(wavelength / ELEMENTS_PER_WAVELENGTH, MAX_ELEMENT_LENGTH),
+      perimeter / MAX_ELEMENTS
+    );
+
+    const elements: Array<[number, number, number, number, boolean]> = [];
+    segments.forEach((segment, i) => {
+      if (segment.length < 1e-9) return;
+      const divisions = Math.ceil(segment.length / elementLength - 1e-9);
+      for (let j = 0; j < divisions; j++) {
+        const a = j / divisions;
+        const b = (j + 1) / divisions;
+        elements.push([
+          segment.start.r + (segment.end.r - segment.start.r) * a,
+          segment.start.z + (segment.end.z - segment.start.z) * a,
+          segment.start.r + (segment.end.r - segment.start.r) * b,
+          segment.start.z + (segment.end.z - segment.start.z) * b,
+          i === 0,
+        ]);
+      }
+    });
+
+    const count = elements.length;
+    const mesh: BoundaryMesh = {
+      count,
+      r0: new Float64Array(count),
+      z0: new Float64Array(count),
+      r1: new Float64Array(count),
+      z1: new Float64Array(count),
+      nr: new Float64Array(count),
+      nz: new Float64Array(count),
+      length: new Float64Array(count),
+      velocity: new Float64Array(count),
+    };
+    elements.forEach(([r0, z0, r1, z1, piston], i) => {
+      const length = Math.hypot(r1 - r0, z1 - z0);
+      mesh.r0[i] = r0;
+      mesh.z0[i] = z0;
+      mesh.r1[i] = r1;
+      mesh.z1[i] = z1;
+      mesh.length[i] = length;
+      mesh.nr[i] = -(z1 - z0) / length;
+      mesh.nz[i] = (r1 - r0) / length;
+      mesh.velocity[i] = piston ? 1 : 0;
+    });
+    return mesh;
+  }
+
+  /**
+   * Collocate the Kirchhoff-Helmholtz equation at the element midpoints,
+   * (1/2 - D) p = -S q, with q the normal pressure gradient from the piston
+   * velocity (scaled by jωρ, which drops out of the normalized polars)
+   */
+  private static solveSurfacePressure(mesh: BoundaryMesh, k: number): SurfacePressure {
+    const n = mesh.count;
+    const matrixReal = new Float64Array(n * n);
+    const matrixImaginary = new Float64Array(n * n);
+    const rhsReal = new Float64Array(n);
+    const rhsImaginary = new Float64Array(n);
+    const nodes = new Float64Array(128);
+    const weights = new Float64Array(128);
+    const ring = new Float64Array(4);
+
+    for (let i = 0; i < n; i++) {
+      const rx = (mesh.r0[i] + mesh.r1[i]) / 2;
+      const zx = (mesh.z0[i] + mesh.z1[i]) / 2;
+      matrixReal[i * n + i] = 0.5;
+
+      for (let j = 0; j < n; j++) {
+        const points = collectQuadrature(mesh, j, rx, zx, i === j, nodes, weights);
+        let sReal = 0;
+        let sImaginary = 0;
+        let dReal = 0;
+        let dImaginary = 0;
+
+        for (let g = 0; g < points; g++) {
+          const t = nodes[g];
+          const ry = mesh.r0[j] + (mesh.r1[j] - mesh.r0[j]) * t;
+          const zy = mesh.z0[j] + (mesh.z1[j] - mesh.z0[j]) * t;
+          integrateRing(rx, zx, ry, zy, mesh.nr[j], mesh.nz[j], k, ring);
+          const weight = weights[g] * mesh.length[j] * ry;
+          sReal += weight * ring[0];
+          sImaginary += weight * ring[1];
+          dReal += weight * ring[2];
+          dImaginary += weight * ring[3];
+        }
+
+        matrixReal[i * n + j] -= dReal;
+        matrixImaginary[i * n + j] -= dImaginary;
+        rhsReal[i] -= sReal * mesh.velocity[j];
+        rhsImaginary[i] -= sImaginary * mesh.velocity[j];
+      }
+    }
+
+    solveComplex(matrixReal, matrixImaginary, rhsReal, rhsImaginary, n);
+    return { real: rhsReal, imaginary: rhsImaginary };
+  }
+
+  /**
+   * Far-field pressure in the direction theta off axis, without the
+   * spherical spreading e^(jkR) / 4πR:
+   * P = ∫ [p ∂/∂n - q] e^(-jk x̂·y) dS, the ring integrals being Bessel functions
+   */
+  private static calculateFarField(
+    mesh: BoundaryMesh,
+    pressure: SurfacePressure,
+    k: number,
+    theta: number
+  ): ComplexNumber {
+    const cosTheta = Math.cos(theta);
+    const sinTheta = Math.sin(theta);
+    let real = 0;
+    let imaginary = 0;
+
+    for (let j = 0; j < mesh.count; j++) {
+      for (let g = 0; g < GAUSS_3.nodes.length; g++) {
+        const t = GAUSS_3.nodes[g];
+        const ry = mesh.r0[j] + (mesh.r1[j] - mesh.r0[j]) * t;
+        const zy = mesh.z0[j] + (mesh.z1[j] - mesh.z0[j]) * t;
+        const weight = GAUSS_3.weights[g] * mesh.length[j] * ry * 2 * Math.PI;
+
+        const [j0, j1] = ringBessel(k * ry * sinTheta);
+        const phase = k * zy * cosTheta;
+        const eReal = Math.cos(phase);
+        const eImaginary = -Math.sin(phase);
+
+        // ∂/∂n e^(-jk x̂·y) around the ring: -jk e (nz cosθ J0 - j nr sinθ J1)
+        const tReal = mesh.nz[j] * cosTheta * j0;
+        const tImaginary = -mesh.nr[j] * sinTheta * j1;
+        const gradientReal = k * (eReal * tImaginary + eImaginary * tReal);
+        const gradientImaginary = -k * (eReal * tReal - eImaginary * tImaginary);
+
+        const p = { real: pressure.real[j], imaginary: pressure.imaginary[j] };
+        real += weight * (
+          p.real * gradientReal - p.imaginary * gradientImaginary - mesh.velocity[j] * eReal * j0
+        );
+        imaginary += weight * (
+          p.real * gradientImaginary + p.imaginary * gradientReal - mesh.velocity[j] * eImaginary * j0
+        );
+      }
+    }
+
+    return { real, imaginary };
+  }
+}
+
+/**
+ * Quadrature points (element parameter t in [0, 1]) for integrating element j
+ * as seen from the collocation point. Distant elements get plain Gauss points;
+ * near and self elements are split at the closest point and graded towards
+ * it, which resolves the logarithmic singularity of the ring kernels.
+ */
+function collectQuadrature(
+  mesh: BoundaryMesh,
+  j: number,
+  rx: number,
+  zx: number,
+  self: boolean,
+  nodes: Float64Array,
+  weights: Float64Array
+): number {
+  const dr = mesh.r1[j] - mesh.r0[j];
+  const dz = mesh.z1[j] - mesh.z0[j];
+  const length = mesh.length[j];
+  const closest = self ? 0.5 : Math.min(1, Math.max(0, ((rx - mesh.r0[j]) * dr + (zx - mesh.z0[j]) * dz) / (length * length)));
+  const distance = self ? 0 : Math.hypot(mesh.r0[j] + dr * closest - rx, mesh.z0[j] + dz * closest - zx);
+
+  if (distance > NEAR_FIELD_FACTOR * length) {
+    for (let g = 0; g < GAUSS_3.nodes.length; g++) {
+      nodes[g] = GAUSS_3.nodes[g];
+      weights[g] = GAUSS_3.weights[g];
+    }
+    return GAUSS_3.nodes.length;
+  }
+
+  let count = 0;
+  const firstStep = Math.max(distance / length / 2, MIN_GRADED_STEP);
+  for (const [side, span] of [[-1, closest], [1, 1 - closest]]) {
+    let inner = 0;
+    let step = firstStep;
+    while (span - inner > 1e-12) {
+      const outer = Math.min(span, inner + step);
+      for (let g = 0; g < GAUSS_4.nodes.length; g++) {
+        nodes[count] = closest + side * (inner + (outer - inner) * GAUSS_4.nodes[g]);
+        weights[count] = (outer - inner) * GAUSS_4.weights[g];
+        count++;
+      }
+      inner = outer;
+      step = inner * (GRADING_RATIO - 1);
+    }
+  }
+  return count;
+}
+
+/**
+ * Single- and double-layer kernels integrated around the source ring at
+ * (ry, zy) for the field point (rx, zx), per unit ring radius:
+ * out = [∫G dφ, ∫∂G/∂n dφ] as [re, im, re, im], G = e^(jkR) / 4πR.
+ * The static 1/4πR part uses the elliptic integrals, the rest the
+ * trapezoidal rule, which is spectrally accurate for periodic integrands.
+ */
+function integrateRing(
+  rx: number,
+  zx: number,
+  ry: number,
+  zy: number,
+  nr: number,
+  nz: number,
+  k: number,
+  out: Float64Array
+): void {
+  const dz = zx - zy;
+  const sum = rx + ry;
+  const difference = ry - rx;
+  const a = sum * sum + dz * dz;
+  const b = difference * difference + dz * dz;
+  const sqrtA = Math.sqrt(a);
+  const [K, E] = ellipticIntegrals(b / a);
+
+  // ∫dφ/R and ∫dφ/R³; the cos φ / R³ term is folded into the J3 coefficient
+  const i0 = 4 * K / sqrtA;
+  const j3 = 4 * E / (sqrtA * b);
+  let sReal = i0 / FOUR_PI;
+  let sImaginary = 0;
+  let dReal = -(j3 * (nr * (difference * sum - dz * dz) / (2 * ry) - nz * dz) + nr * i0 / (2 * ry)) / FOUR_PI;
+  let dImaginary = 0;
+
+  const steps = Math.ceil(2 * k * sqrtA) + 16;
+  const cosines = getCosineTable(steps);
+  const spacing = Math.PI / steps;
+  const squared = rx * rx + ry * ry + dz * dz;
+  const product = 2 * rx * ry;
+  for (let m = 0; m <= steps; m++) {
+    const weight = (m === 0 || m === steps ? 1 : 2) * spacing / FOUR_PI;
+    const cosPhi = cosines[m];
+    const R = Math.sqrt(Math.max(squared - product * cosPhi, 0));
+    if (R < 1e-12) {
+      sImaginary += weight * k;
+      continue;
+    }
+    const kR = k * R;
+    const sin = Math.sin(kR);
+    const cos = Math.cos(kR);
+    const half = Math.sin(kR / 2);
+    const oneMinusCos = 2 * half * half;
+
+    // (e^(jkR) - 1) / R and d/dR of it, minus the static derivative
+    sReal -= weight * oneMinusCos / R;
+    sImaginary += weight * sin / R;
+    const projection = (nr * (ry - rx * cosPhi) - nz * dz) / (R * R * R);
+    dReal += weight * projection * (oneMinusCos - kR * sin);
+    dImaginary += weight * projection * (kR * cos - sin);
+  }
+
+  out[0] = sReal;
+  out[1] = sImaginary;
+  out[2] = dReal;
+  out[3] = dImaginary;
+}
+
+/**
+ * Complete elliptic integrals K and E from the complementary parameter 1 - m
+ * by the arithmetic-geometric mean
+ */
+function ellipticIntegrals(complement: number): [number, number] {
+  let a = 1;
+  let g = Math.sqrt(complement);
+  let power = 0.5;
+  let sum = power * (1 - complement);
+  for (let i = 0; i < 40 && Math.abs(a - g) > 1e-15 * a; i++) {
+    const c = (a - g) / 2;
+    g = Math.sqrt(a * g);
+    a = a - c;
+    power *= 2;
+    sum += power * c * c;
+  }
+  const K = Math.PI / (2 * a);
+  return [K, K * (1 - sum)];
+}
+
+const cosineTables = new Map<number, Float64Array>();
+
+function getCosineTable(steps: number): Float64Array {
+  let table = cosineTables.get(steps);
+  if (!table) {
+    table = new Float64Array(steps + 1);
+    for (let m = 0; m <= steps; m++) {
+      table[m] = Math.cos(m * Math.PI / steps);
+    }
+    cosineTables.set(steps, table);
+  }
+  return table;
+}
+
+/**
+ * J0(x) and J1(x) from their integral forms around the ring,
+ * J0 = 1/π ∫ cos(x cos φ) dφ and J1 = 1/π ∫ sin(x cos φ) cos φ dφ over [0, π]
+ */
+function ringBessel(x: number): [number, number] {
+  const steps = Math.ceil(Math.abs(x)) + 12;
+  const cosines = getCosineTable(steps);
+  let j0 = 0;
+  let j1 = 0;
+  for (let m = 0; m <= steps; m++) {
+    const weight = m === 0 || m === steps ? 0.5 : 1;
+    const argument = x * cosines[m];
+    j0 += weight * Math.cos(argument);
+    j1 += weight * Math.sin(argument) * cosines[m];
+  }
+  return [j0 / steps, j1 / steps];
+}
+
+/**
+ * Gaussian elimination with partial pivoting; the solution replaces the right-hand side
+ */
+function solveComplex(
+  matrixReal: Float64Array,
+  matrixImaginary: Float64Array,
+  rhsReal: Float64Array,
+  rhsImaginary: Float64Array,
+  n: number
+): void {
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    let largest = 0;
+    for (let row = column; row < n; row++) {
+      const size = Math.hypot(matrixReal[row * n + column], matrixImaginary[row * n + column]);
+      if (size > largest) {
+        largest = size;
+        pivot = row;
+      }
+    }
+    if (pivot !== column) {
+      swapRows(matrixReal, column, pivot, n);
+      swapRows(matrixImaginary, column, pivot, n);
+      [rhsReal[column], rhsReal[pivot]] = [rhsReal[pivot], rhsReal[column]];
+      [rhsImaginary[column], rhsImaginary[pivot]] = [rhsImaginary[pivot], rhsImaginary[column]];
+    }
+
+    const pivotReal = matrixReal[column * n + column];
+    const pivotImaginary = matrixImaginary[column * n + column];
+    const pivotNorm = pivotReal * pivotReal + pivotImaginary * pivotImaginary;
+
+    for (let row = column + 1; row < n; row++) {
+      const entryReal = matrixReal[row * n + column];
+      const entryImaginary = matrixImaginary[row * n + column];
+      // factor = entry / pivot
+      const factorReal = (entryReal * pivotReal + entryImaginary * pivotImaginary) / pivotNorm;
+      const factorImaginary = (entryImaginary * pivotReal - entryReal * pivotImaginary) / pivotNorm;
+      if (factorReal === 0 && factorImaginary === 0) continue;
+
+      for (let c = column; c < n; c++) {
+        const sourceReal = matrixReal[column * n + c];
+        const sourceImaginary = matrixImaginary[column * n + c];
+        matrixReal[row * n + c] -= factorReal * sourceReal - factorImaginary * sourceImaginary;
+        matrixImaginary[row * n + c] -= factorReal * sourceImaginary + factorImaginary * sourceReal;
+      }
+      rhsReal[row] -= factorReal * rhsReal[column] - factorImaginary * rhsImaginary[column];
+      rhsImaginary[row] -= factorReal * rhsImaginary[column] + factorImaginary * rhsReal[column];
+    }
+  }
+
+  for (let row = n - 1; row >= 0; row--) {
+    let real = rhsReal[row];
+    let imaginary = rhsImaginary[row];
+    for (let c = row + 1; c < n; c++) {
+      const aReal = matrixReal[row * n + c];
+      const aImaginary = matrixImaginary[row * n + c];
+      real -= aReal * rhsReal[c] - aImaginary * rhsImaginary[c];
+      imaginary -= aReal * rhsImaginary[c] + aImaginary * rhsReal[c];
+    }
+    const pivotReal = matrixReal[row * n + row];
+    const pivotImaginary = matrixImaginary[row * n + row];
+    const pivotNorm = pivotReal * pivotReal + pivotImaginary * pivotImaginary;
+    rhsReal[row] = (real * pivotReal + imaginary * pivotImaginary) / pivotNorm;
+    rhsImaginary[row] = (imaginary * pivotReal - real * pivotImaginary) / pivotNorm;
+  }
+}
+
+function swapRows(matrix: Float64Array, a: number, b: number, n: number): void {
+  for (let c = 0; c < n; c++) {
+    const value = matrix[a * n + c];
+    matrix[a * n + c] = matrix[b * n + c];
+    matrix[b * n + c] = value;
+  }
+}
+
+function magnitude(value: ComplexNumber): number {
+  return Math.hypot(value.real, value.imaginary);
+}
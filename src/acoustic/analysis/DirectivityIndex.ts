@@ -3,7 +3,7 @@
  * Calculates DI and Q factor for horn loudspeakers
  */
 
-import { DirectivityResult, PolarData } from '../types';
+import { DirectivityMap, DirectivityPoint, DirectivityResult, PolarData } from '../types';
 
 export class DirectivityCalculator {
   /**
@@ -62,6 +62,67 @@ export class DirectivityCalculator {
     };
   }
 
+  /**
+   * Beamwidth and DI at each frequency from polar maps. A plane without a
+   * map is taken to match the other, as it does for a round horn.
+   */
+  static calculateFromDirectivityMaps(
+    horizontal: DirectivityMap | null,
+    vertical: DirectivityMap | null,
+    frequencies: number[]
+  ): DirectivityPoint[] {
+    const horizontalMap = horizontal ?? vertical;
+    const verticalMap = vertical ?? horizontal;
+    if (!horizontalMap || !verticalMap) return [];
+
+    return frequencies.map(frequency => {
+      const result = this.calculateFromPolarPattern(
+        this.getPolarData(horizontalMap, frequency, 'horizontal'),
+        this.getPolarData(verticalMap, frequency, 'vertical')
+      );
+      return {
+        frequency,
+        horizontalBeamwidth: result.coverage.horizontal,
+        verticalBeamwidth: result.coverage.vertical,
+        directivityIndex: result.directivityIndex
+      };
+    });
+  }
+
+  /**
+   * Polar pattern at one frequency of a map, interpolated in log frequency.
+   * One-sided maps are mirrored so both sides of the axis are covered.
+   */
+  static getPolarData(
+    map: DirectivityMap,
+    frequency: number,
+    axis: 'horizontal' | 'vertical'
+  ): PolarData {
+    const { frequencies, levels } = map;
+    let i = 1;
+    while (i < frequencies.length - 1 && frequencies[i] < frequency) i++;
+    const t = frequencies.length > 1
+      ? Math.min(1, Math.max(0, Math.log(frequency / frequencies[i - 1]) / Math.log(frequencies[i] / frequencies[i - 1])))
+      : 0;
+    const low = levels[i - 1];
+    const high = levels[Math.min(i, levels.length - 1)];
+
+    let angles = map.angles;
+    let dB = angles.map((_, j) => low[j] + (high[j] - low[j]) * t);
+    if (angles[0] >= 0) {
+      const mirrored = angles.map((angle, j) => ({ angle: -angle, level: dB[j] })).filter(point => point.angle < 0).reverse();
+      angles = [...mirrored.map(point => point.angle), ...angles];
+      dB = [...mirrored.map(point => point.level), ...dB];
+    }
+
+    return {
+      angles: angles.map(angle => angle * Math.PI / 180),
+      magnitudes: dB.map(level => Math.pow(10, level / 20)),
+      frequency,
+      axis
+    };
+  }
+
   /**
    * Calculate frequency-dependent directivity
    */
@@ -96,28 +157,31 @@ export class DirectivityCalculator {
 
   /**
    * Integrate directivity factor from polar patterns
-   * Q = 4π / ∫∫ |p(θ,φ)|² sin(θ) dθ dφ
+   * Q = 4π / ∫∫ |p(θ,φ)|² sin(θ) dθ dφ, θ off the horn axis and φ around it.
+   * Between the planes the power is blended as H² cos²φ + V² sin²φ; each
+   * plane's signed angles give the two sides of the axis.
    */
   private static integrateDirectivityFactor(
     horizontalPattern: PolarData,
     verticalPattern: PolarData
   ): number {
-    // Simplified integration assuming symmetry
+    const dTheta = Math.PI / 180; // 1 degree steps off axis
+    const dPhi = Math.PI / 36;    // 5 degree steps around it
     let integral = 0;
-    const dTheta = Math.PI / 180; // 1 degree steps
-    
-    // Integrate over hemisphere (0 to π for elevation, 0 to 2π for azimuth)
-    for (let theta = 0; theta <= Math.PI; theta += dTheta) {
-      for (let phi = 0; phi <= 2 * Math.PI; phi += dTheta) {
-        // Get pattern values
-        const hValue = this.interpolatePattern(horizontalPattern, phi);
-        const vValue = this.interpolatePattern(verticalPattern, theta);
-        
-        // Combined directivity (assuming separable patterns)
-        const directivity = hValue * vValue;
-        
-        // Integrate: |p|² sin(θ) dθ dφ
-        integral += directivity * directivity * Math.sin(theta) * dTheta * dTheta;
+
+    for (let theta = dTheta / 2; theta < Math.PI; theta += dTheta) {
+      const ring = Math.sin(theta) * dTheta * dPhi;
+      const sides = [theta, -theta].map(angle => ({
+        h: this.interpolatePattern(horizontalPattern, angle) ** 2,
+        v: this.interpolatePattern(verticalPattern, angle) ** 2
+      }));
+
+      for (let phi = dPhi / 2; phi < 2 * Math.PI; phi += dPhi) {
+        const cos = Math.cos(phi);
+        const sin = Math.sin(phi);
+        const h = sides[cos >= 0 ? 0 : 1].h;
+        const v = sides[sin >= 0 ? 0 : 1].v;
+        integral += (h * cos * cos + v * sin * sin) * ring;
       }
     }
     
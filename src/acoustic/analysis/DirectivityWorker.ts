@@ -0,0 +1,25 @@
+/**
+ * Directivity Worker
+ * Runs the axisymmetric BEM off the main thread, one map per meridian,
+ * reporting progress after every solved frequency
+ */
+
+import { AxisymmetricBEM } from './AxisymmetricBEM';
+import { BEMWorkerRequest, BEMWorkerResponse, DirectivityMap } from '../types';
+
+const post = (message: BEMWorkerResponse) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (event: MessageEvent<BEMWorkerRequest>) => {
+  const { meridians, frequencies, angles } = event.data;
+
+  try {
+    const maps: DirectivityMap[] = meridians.map((meridian, i) =>
+      AxisymmetricBEM.calculateDirectivityMap(meridian, frequencies, angles, (progress) =>
+        post({ type: 'progress', progress: (i + progress) / meridians.length })
+      )
+    );
+    post({ type: 'result', maps });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
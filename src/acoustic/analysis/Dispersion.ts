@@ -4,19 +4,23 @@
  */
 
 import { 
+  ApertureParams,
+  DirectivityMap,
+  DirectivityModel,
   DispersionParameters, 
   DispersionResult, 
   PolarData,
-  SPEED_OF_SOUND 
+  SPEED_OF_SOUND
 } from '../types';
-import { ProfilePoint } from '../../profiles/types';
-import { BesselFunctions } from '../profiles/BesselFunctions';
+import { AxisymmetricBEM } from './AxisymmetricBEM';
 
 export class DispersionAnalyzer {
   // Constants for dispersion calculations
   private static readonly K_CONSTANT = 29000; // Empirical constant for inches/degrees
   private static readonly MM_TO_INCH = 0.0393701;
   private static readonly INCH_TO_MM = 25.4;
+  private static readonly MIN_LEVEL = -60; // dB
+  private static readonly APERTURE_POINTS_PER_WAVELENGTH = 8;
 
   /**
    * Calculate required mouth size for target dispersion angles
@@ -76,66 +80,96 @@ export class DispersionAnalyzer {
 
   /**
    * Calculate dispersion pattern at a specific frequency
-   * Returns polar data for visualization
+   * Returns polar data for visualization: round horns are solved with the
+   * axisymmetric BEM, rectangular horns radiate from their mouth aperture
    */
   static calculateDispersionPattern(
-    _profile: ProfilePoint[],
+    model: DirectivityModel,
     frequency: number,
-    axis: 'horizontal' | 'vertical',
-    mouthDimension: number
+    axis: 'horizontal' | 'vertical'
   ): PolarData {
-    const angles: number[] = [];
-    const magnitudes: number[] = [];
-    
-    // Calculate wavelength in mm
-    const wavelength = (SPEED_OF_SOUND * 1000) / frequency;
-    
-    // Calculate ka (wave number × aperture radius)
-    const ka = (2 * Math.PI * mouthDimension / 2) / wavelength;
-    
-    // Generate polar pattern from -90 to +90 degrees
+    const degrees: number[] = [];
     for (let angle = -90; angle <= 90; angle += 5) {
-      const theta = angle * Math.PI / 180; // Convert to radians
-      angles.push(theta);
-      
-      // Calculate directivity using diffraction theory
-      const magnitude = this.calculateDirectivityAtAngle(ka, theta);
-      magnitudes.push(magnitude);
+      degrees.push(angle);
     }
     
+    // Both models are symmetric about the axis
+    const offAxis = degrees.map(angle => Math.abs(angle));
+    const levels = model.type === 'bem'
+      ? AxisymmetricBEM.calculatePolarResponse(model.meridian, frequency, offAxis)
+      : this.calculateApertureResponse(model.aperture, frequency, offAxis);
+    
     return {
-      angles,
-      magnitudes,
+      angles: degrees.map(angle => angle * Math.PI / 180),
+      magnitudes: levels.map(dB => Math.min(1, Math.pow(10, dB / 20))),
       frequency,
       axis
     };
   }
 
   /**
-   * Calculate directivity at a specific angle using diffraction theory
-   * Based on circular aperture diffraction pattern
+   * Aperture polar responses over a set of frequencies
    */
-  private static calculateDirectivityAtAngle(ka: number, theta: number): number {
-    if (ka === 0) return 1; // No directivity
-    
-    const u = ka * Math.sin(Math.abs(theta));
+  static calculateApertureDirectivityMap(
+    aperture: ApertureParams,
+    frequencies: number[],
+    angles: number[]
+  ): DirectivityMap {
+    return {
+      frequencies,
+      angles,
+      levels: frequencies.map(frequency => this.calculateApertureResponse(aperture, frequency, angles))
+    };
+  }
+
+  /**
+   * Level (dB re on-axis) of a rectangular aperture in the plane across its
+   * size, at angles off axis in degrees. A plane wavefront gives the sinc
+   * pattern; a curved one lags towards the edges and is summed across the
+   * aperture. Both include the Kirchhoff obliquity factor (1 + cos θ) / 2.
+   */
+  static calculateApertureResponse(aperture: ApertureParams, frequency: number, angles: number[]): number[] {
+    const k = 2 * Math.PI * frequency / SPEED_OF_SOUND;
+    const onAxis = this.calculateApertureField(aperture, k, 0);
+    
+    return angles.map(angle => {
+      const theta = angle * Math.PI / 180;
+      const level = this.calculateApertureField(aperture, k, theta) * (1 + Math.cos(theta)) / 2;
+      return onAxis > 0 && level > 0
+        ? Math.max(this.MIN_LEVEL, 20 * Math.log10(level / onAxis))
+        : this.MIN_LEVEL;
+    });
+  }
+
+  /**
+   * Far-field magnitude of the aperture, without obliquity, normalized to
+   * a uniform in-phase aperture of the same size
+   */
+  private static calculateApertureField(aperture: ApertureParams, k: number, theta: number): number {
+    const halfSize = aperture.size / 2000; // mm to m
+    const u = k * halfSize * Math.sin(theta);
     
-    if (u === 0) {
-      return 1; // On-axis response
+    if (!aperture.wavefrontRadius) {
+      return u === 0 ? 1 : Math.abs(Math.sin(u) / u);
     }
     
-    // Use Bessel function for circular aperture
-    // Directivity pattern: |2 * J1(u) / u|
-    const j1 = BesselFunctions.besselJ(1, u);
-    const directivity = Math.abs(2 * j1 / u);
-    
-    // Convert to dB and normalize
-    const dB = 20 * Math.log10(Math.max(0.0001, directivity));
-    
-    // Normalize so on-axis = 1 (0 dB)
-    const normalized = Math.pow(10, dB / 20);
+    // Path lag of the spherical wavefront behind the mouth plane, sampled finely enough for its phase
+    const radius = aperture.wavefrontRadius / 1000;
+    const edgeLag = Math.sqrt(radius * radius + halfSize * halfSize) - radius;
+    const points = Math.max(
+      32,
+      Math.ceil(this.APERTURE_POINTS_PER_WAVELENGTH * k * (2 * halfSize + edgeLag) / (2 * Math.PI))
+    );
     
-    return Math.min(1, Math.max(0, normalized));
+    let real = 0;
+    let imaginary = 0;
+    for (let i = 0; i < points; i++) {
+      const x = halfSize * (2 * (i + 0.5) / points - 1);
+      const phase = k * (x * Math.sin(theta) - (Math.sqrt(radius * radius + x * x) - radius));
+      real += Math.cos(phase);
+      imaginary += Math.sin(phase);
+    }
+    return Math.hypot(real, imaginary) / points;
   }
 
   /**
@@ -1,17 +1,20 @@
 /**
  * Frequency Response Analysis Module
- * Calculates horn acoustic frequency response using Webster equation
+ * Calculates horn acoustic frequency response by solving the Webster equation
  */
 
 import { 
   FrequencyResponseData,
   FrequencyPoint,
   ComplexNumber,
-  SPEED_OF_SOUND,
-  AIR_DENSITY
+  WebsterParams,
+  WebsterSolution,
+  SPEED_OF_SOUND
 } from '../types';
 import { ProfilePoint } from '../../profiles/types';
 import { HornProfileParams } from '../../lib/types';
+import { WebsterSolver } from './WebsterSolver';
+import { MeasurementComparison } from './MeasurementComparison';
 
 export class FrequencyResponseAnalyzer {
   /**
@@ -19,23 +22,23 @@ export class FrequencyResponseAnalyzer {
    */
   static calculateResponse(
     profile: ProfilePoint[],
-    params: HornProfileParams
+    params: HornProfileParams,
+    boundaryCondition: WebsterParams['boundaryCondition'] = 'infinite'
   ): FrequencyResponseData {
     // Convert dimensions to meters for calculations
-    const throatRadius = params.throatDiameter / 2000; // mm to m
+    const throatRadius = profile[0].radius / 1000; // mm to m
+    const throatImpedance = WebsterSolver.calculateCharacteristicImpedance(throatRadius);
     
     // Calculate cutoff frequency
-    const cutoffFrequency = this.calculateCutoffFrequency(throatRadius);
+    const cutoffFrequency = this.calculateCutoffFrequency(params.throatDiameter / 2000);
     
-    // Generate frequency points (logarithmic spacing)
-    const frequencies = this.generateLogFrequencies(20, 20000, 100);
+    // Generate frequency points (logarithmic spacing, dense enough to resolve throat impedance ripple)
+    const frequencies = this.generateLogFrequencies(20, 20000, 200);
     
     // Calculate response at each frequency
     const response: FrequencyPoint[] = frequencies.map(frequency => {
-      const loading = this.calculateHornLoading(profile, frequency);
-      const efficiency = this.calculateEfficiency(loading, frequency, cutoffFrequency);
-      const phase = this.calculatePhase(profile, frequency);
-      const impedance = this.calculateAcousticImpedance(profile, frequency);
+      const solution = WebsterSolver.solve({ profile, frequency, boundaryCondition });
+      const efficiency = this.calculateEfficiency(solution, throatImpedance);
       
       // Convert efficiency to SPL (dB)
       // Reference: 1W input at 1m distance
@@ -45,21 +48,21 @@ export class FrequencyResponseAnalyzer {
       return {
         frequency,
         spl,
-        phase,
-        impedance
+        phase: this.calculatePhase(solution, throatImpedance),
+        impedance: {
+          real: solution.throatImpedance.real / throatImpedance,
+          imaginary: solution.throatImpedance.imaginary / throatImpedance
+        }
       };
     });
     
-    // Calculate throat impedance
-    const impedanceAtThroat = this.calculateThroatImpedance(throatRadius, cutoffFrequency);
-    
     // Calculate overall efficiency
     const avgEfficiency = this.calculateAverageEfficiency(response);
     
     return {
       cutoffFrequency,
       response,
-      impedanceAtThroat,
+      impedanceAtThroat: { real: throatImpedance, imaginary: 0 },
       efficiency: avgEfficiency
     };
   }
@@ -73,156 +76,58 @@ export class FrequencyResponseAnalyzer {
   }
 
   /**
-   * Calculate horn loading at a specific frequency
-   * Based on Webster horn equation solution
-   */
-  private static calculateHornLoading(
-    profile: ProfilePoint[],
-    frequency: number
-  ): number {
-    // Wave number
-    const k = 2 * Math.PI * frequency / SPEED_OF_SOUND;
-    
-    // Convert profile to meters
-    const profileMeters = profile.map(p => ({
-      x: p.x / 1000,
-      radius: p.radius / 1000
-    }));
-    
-    // Solve Webster equation using WKB approximation
-    // This is a simplified solution for computational efficiency
-    let loading = 1;
-    
-    for (let i = 1; i < profileMeters.length; i++) {
-      const dx = profileMeters[i].x - profileMeters[i - 1].x;
-      const r1 = profileMeters[i - 1].radius;
-      const r2 = profileMeters[i].radius;
-      
-      // Area expansion
-      const S1 = Math.PI * r1 * r1;
-      const S2 = Math.PI * r2 * r2;
-      
-      // Local impedance change
-      const dZ = this.calculateLocalImpedance(S1, S2, k, dx);
-      
-      // Accumulate loading factor
-      loading *= dZ;
-    }
-    
-    // Normalize loading (0 to 1)
-    return Math.min(1, Math.abs(loading));
-  }
-
-  /**
-   * Calculate local impedance for Webster equation
+   * Lower -3 dB point of a simulated response: the lowest frequency where
+   * the 1/3-octave smoothed SPL comes within dropDb of the passband, taken
+   * as the median level over the upper half of the band in log frequency.
+   * Unlike the throat cutoff it depends on the whole flare and the mouth.
    */
-  private static calculateLocalImpedance(
-    S1: number,
-    S2: number,
-    k: number,
-    dx: number
-  ): number {
-    // Characteristic impedance: Z = ρc/S
-    const Z1 = (AIR_DENSITY * SPEED_OF_SOUND) / S1;
-    const Z2 = (AIR_DENSITY * SPEED_OF_SOUND) / S2;
-    
-    // Transmission coefficient
-    const r = (Z2 - Z1) / (Z2 + Z1);
-    
-    // Phase shift
-    const phase = k * dx;
-    
-    // Complex transmission including phase
-    const transmission = Math.sqrt(1 - r * r) * Math.cos(phase);
-    
-    return transmission;
+  static calculateResponseCutoff(response: FrequencyPoint[], dropDb: number = 3): number {
+    const smoothed = MeasurementComparison.smooth(response, 3);
+    const middle = Math.sqrt(smoothed[0].frequency * smoothed[smoothed.length - 1].frequency);
+    const passband = smoothed.filter(point => point.frequency >= middle).map(point => point.spl).sort((a, b) => a - b);
+    const threshold = passband[Math.floor(passband.length / 2)] - dropDb;
+    const index = smoothed.findIndex(point => point.spl >= threshold);
+    if (index <= 0) return smoothed[0].frequency;
+    
+    // Interpolate in log frequency across the crossing
+    const below = smoothed[index - 1];
+    const above = smoothed[index];
+    const t = (threshold - below.spl) / (above.spl - below.spl);
+    return below.frequency * Math.pow(above.frequency / below.frequency, t);
   }
 
   /**
-   * Calculate efficiency based on loading and frequency
+   * Fraction of the available source power delivered into the throat.
+   * The driver is a pressure source whose internal resistance equals ρc/S
+   * at the throat, so a horn loading it with ρc/S transfers all of it.
    */
   private static calculateEfficiency(
-    loading: number,
-    frequency: number,
-    cutoffFrequency: number
+    solution: WebsterSolution,
+    sourceResistance: number
   ): number {
-    // Below cutoff, efficiency drops rapidly
-    if (frequency < cutoffFrequency) {
-      const rolloff = Math.pow(frequency / cutoffFrequency, 4);
-      return loading * rolloff;
-    }
-    
-    // Above cutoff, efficiency is primarily determined by loading
-    // with some high-frequency rolloff
-    const hfRolloff = 1 / (1 + Math.pow(frequency / (10 * cutoffFrequency), 2));
-    
-    return loading * hfRolloff;
+    const load = solution.throatImpedance;
+    const total = { real: sourceResistance + load.real, imaginary: load.imaginary };
+    return (4 * sourceResistance * load.real) / (total.real * total.real + total.imaginary * total.imaginary);
   }
 
   /**
-   * Calculate phase response
+   * Phase of the radiated pressure relative to the source: the far field
+   * follows j·U at the mouth, which is the source pressure divided by the
+   * loop impedance and carried along the horn
    */
   private static calculatePhase(
-    profile: ProfilePoint[],
-    frequency: number
+    solution: WebsterSolution,
+    sourceResistance: number
   ): number {
-    // Calculate wavelength
-    const wavelength = SPEED_OF_SOUND / frequency;
-    
-    // Get horn length in meters
-    const lengthMeters = profile[profile.length - 1].x / 1000;
-    
-    // Phase delay through horn
-    const phaseDelay = (lengthMeters / wavelength) * 360;
+    const load = solution.throatImpedance;
+    const ratio = solution.volumeVelocityRatio;
+    const radiated: ComplexNumber = { real: -ratio.imaginary, imaginary: ratio.real };
+    const phase = Math.atan2(radiated.imaginary, radiated.real) -
+      Math.atan2(load.imaginary, sourceResistance + load.real);
+    const degrees = phase * 180 / Math.PI;
     
     // Wrap phase to -180 to +180 degrees
-    return ((phaseDelay % 360) + 360) % 360 - 180;
-  }
-
-  /**
-   * Calculate acoustic impedance at a frequency
-   */
-  private static calculateAcousticImpedance(
-    profile: ProfilePoint[],
-    frequency: number
-  ): ComplexNumber {
-    const k = 2 * Math.PI * frequency / SPEED_OF_SOUND;
-    
-    // Get throat and mouth areas
-    const throatArea = Math.PI * Math.pow(profile[0].radius / 1000, 2);
-    const mouthArea = Math.PI * Math.pow(profile[profile.length - 1].radius / 1000, 2);
-    
-    // Characteristic impedance at throat
-    const Z0 = (AIR_DENSITY * SPEED_OF_SOUND) / throatArea;
-    
-    // Radiation impedance at mouth (simplified)
-    const ka = k * Math.sqrt(mouthArea / Math.PI);
-    
-    // Radiation resistance and reactance (Beranek formulas)
-    const radiationResistance = Z0 * (1 - BesselJ1(2 * ka) / ka);
-    const radiationReactance = Z0 * StruveH1(2 * ka) / ka;
-    
-    return {
-      real: radiationResistance,
-      imaginary: radiationReactance
-    };
-  }
-
-  /**
-   * Calculate throat impedance
-   */
-  private static calculateThroatImpedance(
-    throatRadius: number,
-    _cutoffFrequency: number
-  ): ComplexNumber {
-    const throatArea = Math.PI * throatRadius * throatRadius;
-    const Z0 = (AIR_DENSITY * SPEED_OF_SOUND) / throatArea;
-    
-    // At cutoff, reactance equals resistance
-    return {
-      real: Z0,
-      imaginary: Z0
-    };
+    return ((degrees + 180) % 360 + 360) % 360 - 180;
   }
 
   /**
@@ -311,24 +216,3 @@ export class FrequencyResponseAnalyzer {
     }));
   }
 }
-
-// Helper functions for Bessel and Struve functions
-function BesselJ1(x: number): number {
-  // Simplified Bessel function J1 for radiation impedance
-  if (x < 3.0) {
-    const x2 = x * x;
-    return x * (0.5 - x2 / 16 + x2 * x2 / 384);
-  } else {
-    return Math.sqrt(2 / (Math.PI * x)) * Math.cos(x - 3 * Math.PI / 4);
-  }
-}
-
-function StruveH1(x: number): number {
-  // Simplified Struve function H1 for radiation reactance
-  if (x < 3.0) {
-    const x2 = x * x;
-    return 2 * x / Math.PI * (1 + x2 / 6);
-  } else {
-    return Math.sqrt(2 / (Math.PI * x)) * Math.sin(x - 3 * Math.PI / 4);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * Measurement Comparison Module
+ * Smooths, aligns and differences measured data against the simulation
+ */
+
+import { FrequencyPoint, MeasurementData, OctaveSmoothing } from '../types';
+
+export class MeasurementComparison {
+  /**
+   * Fractional-octave smoothing over f·2^(±1/2N). SPL is averaged as power,
+   * phase as unit phasors so it survives wrapping, impedance as real and
+   * imaginary parts.
+   */
+  static smooth(points: FrequencyPoint[], smoothing: OctaveSmoothing): FrequencyPoint[] {
+    if (smoothing === 0 || points.length < 3) return points;
+    const halfWidth = Math.pow(2, 1 / (2 * smoothing));
+
+    let start = 0;
+    let end = 0;
+    return points.map(point => {
+      const low = point.frequency / halfWidth;
+      const high = point.frequency * halfWidth;
+      while (points[start].frequency < low) start++;
+      while (end < points.length && points[end].frequency <= high) end++;
+
+      let power = 0;
+      let phaseX = 0;
+      let phaseY = 0;
+      let real = 0;
+      let imaginary = 0;
+      for (let i = start; i < end; i++) {
+        const sample = points[i];
+        power += Math.pow(10, sample.spl / 10);
+        if (sample.phase !== undefined) {
+          phaseX += Math.cos(sample.phase * Math.PI / 180);
+          phaseY += Math.sin(sample.phase * Math.PI / 180);
+        }
+        real += sample.impedance?.real ?? 0;
+        imaginary += sample.impedance?.imaginary ?? 0;
+      }
+      const count = end - start;
+
+      return {
+        frequency: point.frequency,
+        spl: 10 * Math.log10(power / count),
+        phase: point.phase === undefined ? undefined : Math.atan2(phaseY, phaseX) * 180 / Math.PI,
+        impedance: point.impedance && { real: real / count, imaginary: imaginary / count },
+      };
+    });
+  }
+
+  /**
+   * Shift a measurement by a level offset (dB). Impedance is scaled by the
+   * same amount, so a file in ohms can be brought onto the ρc/S scale.
+   */
+  static applyOffset(measurement: MeasurementData, points: FrequencyPoint[], offset: number): FrequencyPoint[] {
+    if (offset === 0) return points;
+    if (measurement.kind === 'response') {
+      return points.map(point => ({ ...point, spl: point.spl + offset }));
+    }
+    const scale = Math.pow(10, offset / 20);
+    return points.map(point => ({
+      ...point,
+      impedance: point.impedance && { real: point.impedance.real * scale, imaginary: point.impedance.imaginary * scale },
+    }));
+  }
+
+  /**
+   * Measured minus simulated level (dB) at each measured frequency inside the
+   * simulated range: SPL for responses, |Z| for impedance
+   */
+  static calculateDifference(
+    simulated: FrequencyPoint[],
+    measured: FrequencyPoint[],
+    kind: MeasurementData['kind']
+  ): FrequencyPoint[] {
+    const level = (point: FrequencyPoint) => kind === 'response'
+      ? point.spl
+      : 20 * Math.log10(Math.max(1e-12, Math.hypot(point.impedance?.real ?? 0, point.impedance?.imaginary ?? 0)));
+    const simulatedLevels = simulated.map(point => ({ frequency: point.frequency, level: level(point) }));
+
+    return measured
+      .filter(point => point.frequency >= simulated[0].frequency && point.frequency <= simulated[simulated.length - 1].frequency)
+      .map(point => ({
+        frequency: point.frequency,
+        spl: level(point) - interpolateLevel(simulatedLevels, point.frequency),
+      }));
+  }
+
+  /**
+   * Level offset (dB) that lines the measurement up with the simulation,
+   * averaged evenly over log frequency
+   */
+  static calculateAlignmentOffset(
+    simulated: FrequencyPoint[],
+    measured: FrequencyPoint[],
+    kind: MeasurementData['kind']
+  ): number {
+    const difference = this.calculateDifference(simulated, measured, kind);
+    if (difference.length < 2) return 0;
+
+    let weighted = 0;
+    let weights = 0;
+    for (let i = 1; i < difference.length; i++) {
+      const weight = Math.log(difference[i].frequency / difference[i - 1].frequency);
+      weighted += weight * (difference[i].spl + difference[i - 1].spl) / 2;
+      weights += weight;
+    }
+    return weights > 0 ? -weighted / weights : 0;
+  }
+}
+
+/**
+ * Level at a frequency, linear in log frequency between samples
+ */
+function interpolateLevel(levels: Array<{ frequency: number; level: number }>, frequency: number): number {
+  let i = 1;
+  while (i < levels.length - 1 && levels[i].frequency < frequency) i++;
+  const a = levels[i - 1];
+  const b = levels[i];
+  const t = Math.log(frequency / a.frequency) / Math.log(b.frequency / a.frequency);
+  return a.level + (b.level - a.level) * Math.min(1, Math.max(0, t));
+}
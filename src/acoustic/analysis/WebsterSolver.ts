@@ -0,0 +1,206 @@
+/**
+ * Webster Horn Equation Solver
+ * Transfer-matrix solution over cascaded conical segments of the profile,
+ * terminated by the mouth radiation impedance
+ * References:
+ * - D. Mapes-Riordan, "Horn Modeling with Conical and Cylindrical Transmission-Line Elements", JAES 41(6), 1993
+ * - F. Silva et al., "Approximation formulae for the acoustic radiation impedance of a cylindrical pipe", JSV 322, 2009
+ * - R. M. Aarts & A. J. E. M. Janssen, "Approximation of the Struve function H1", JASA 113(5), 2003
+ */
+
+import {
+  ComplexNumber,
+  WebsterParams,
+  WebsterSolution,
+  SPEED_OF_SOUND,
+  AIR_DENSITY
+} from '../types';
+import { BesselFunctions } from '../profiles/BesselFunctions';
+
+type Matrix2 = [ComplexNumber, ComplexNumber, ComplexNumber, ComplexNumber]; // row-major [a, b; c, d]
+
+const CYLINDER_TOLERANCE = 1e-9; // m - radius change below which a segment is treated as a tube
+
+export class WebsterSolver {
+  /**
+   * Throat impedance and mouth transfer of a horn at one frequency.
+   * Each profile interval is an exact conical (or cylindrical) segment, so
+   * the solution holds for any profile sampled finely enough to follow its flare.
+   */
+  static solve(params: WebsterParams): WebsterSolution {
+    const { profile, frequency, boundaryCondition } = params;
+    const k = 2 * Math.PI * frequency / SPEED_OF_SOUND;
+    const omega = 2 * Math.PI * frequency;
+
+    const mouthRadius = profile[profile.length - 1].radius / 1000;
+    const mouthImpedance = this.calculateRadiationImpedance(mouthRadius, frequency, boundaryCondition);
+
+    // Chain the segments throat to mouth: [p, U] at the throat = M [p, U] at the mouth
+    let chain: Matrix2 = [complex(1), complex(0), complex(0), complex(1)];
+    for (let i = 1; i < profile.length; i++) {
+      const length = (profile[i].x - profile[i - 1].x) / 1000;
+      if (length <= 0) continue;
+      chain = multiply(
+        chain,
+        this.calculateSegmentMatrix(profile[i - 1].radius / 1000, profile[i].radius / 1000, length, k, omega)
+      );
+    }
+
+    // Unit mouth volume velocity, mouth pressure from the radiation load
+    const [a, b, c, d] = chain;
+    const throatPressure = add(mul(a, mouthImpedance), b);
+    const throatVelocity = add(mul(c, mouthImpedance), d);
+
+    return {
+      throatImpedance: div(throatPressure, throatVelocity),
+      mouthImpedance,
+      volumeVelocityRatio: div(complex(1), throatVelocity),
+    };
+  }
+
+  /**
+   * Characteristic impedance ρc/S of a duct of the given radius (m)
+   */
+  static calculateCharacteristicImpedance(radius: number): number {
+    return (AIR_DENSITY * SPEED_OF_SOUND) / (Math.PI * radius * radius);
+  }
+
+  /**
+   * Radiation impedance of the mouth (acoustic ohms)
+   * - infinite: rigid piston in an infinite baffle (Rayleigh)
+   * - flanged: open pipe end in an infinite flange
+   * - finite: unflanged open pipe end radiating into free space
+   */
+  static calculateRadiationImpedance(
+    radius: number,
+    frequency: number,
+    boundaryCondition: WebsterParams['boundaryCondition']
+  ): ComplexNumber {
+    const z0 = this.calculateCharacteristicImpedance(radius);
+    const ka = 2 * Math.PI * frequency / SPEED_OF_SOUND * radius;
+
+    if (boundaryCondition === 'infinite') {
+      const x = 2 * ka;
+      return {
+        real: z0 * (1 - (2 * BesselFunctions.besselJ(1, x)) / x),
+        imaginary: z0 * (2 * struveH1(x)) / x,
+      };
+    }
+
+    // Pipe ends: reflection coefficient magnitude and end correction, fitted up to ka ≈ 3.8
+    const ka2 = ka * ka;
+    const magnitude = boundaryCondition === 'flanged'
+      ? (1 + 0.323 * ka - 0.077 * ka2) / (1 + 0.323 * ka + (1 - 0.077) * ka2)
+      : (1 + 0.2 * ka - 0.084 * ka2) / (1 + 0.2 * ka + (0.5 - 0.084) * ka2);
+    const endCorrection = boundaryCondition === 'flanged'
+      ? 0.8216 / (1 + (0.77 * ka) ** 2 / (1 + 0.77 * ka))
+      : (0.6133 * (1 + 0.044 * ka2)) / (1 + 0.19 * ka2) - 0.02 * Math.sin(2.5 * ka) ** 2;
+
+    // R = -|R| e^(-2jkl), Z = Z0 (1 + R) / (1 - R)
+    const phase = -2 * ka * endCorrection;
+    const reflection = {
+      real: -Math.max(0, magnitude) * Math.cos(phase),
+      imaginary: -Math.max(0, magnitude) * Math.sin(phase),
+    };
+    return scale(div(add(complex(1), reflection), sub(complex(1), reflection)), z0);
+  }
+
+  /**
+   * Transfer matrix of a conical segment from radius r1 to r2 over length l (m).
+   * Spherical waves p = (A cos ks + B sin ks) / x about the cone apex; the
+   * matrix maps the [p, U] state at the outlet back to the inlet.
+   */
+  private static calculateSegmentMatrix(
+    r1: number,
+    r2: number,
+    length: number,
+    k: number,
+    omega: number
+  ): Matrix2 {
+    if (Math.abs(r2 - r1) < CYLINDER_TOLERANCE) {
+      const zc = this.calculateCharacteristicImpedance((r1 + r2) / 2);
+      const cos = Math.cos(k * length);
+      const sin = Math.sin(k * length);
+      return [complex(cos), { real: 0, imaginary: zc * sin }, { real: 0, imaginary: sin / zc }, complex(cos)];
+    }
+
+    // Signed distances from the apex; negative for contracting segments
+    const x1 = (r1 * length) / (r2 - r1);
+    const x2 = x1 + length;
+    const basisAt = (x: number, r: number): Matrix2 => {
+      const s = x - x1;
+      const cos = Math.cos(k * s);
+      const sin = Math.sin(k * s);
+      // U = j S / (ωρ) dp/dx
+      const admittance = (Math.PI * r * r) / (omega * AIR_DENSITY);
+      return [
+        complex(cos / x),
+        complex(sin / x),
+        { real: 0, imaginary: admittance * (-k * sin / x - cos / (x * x)) },
+        { real: 0, imaginary: admittance * (k * cos / x - sin / (x * x)) },
+      ];
+    };
+
+    return multiply(basisAt(x1, r1), invert(basisAt(x2, r2)));
+  }
+}
+
+/**
+ * Struve function H1 (Aarts & Janssen approximation, error below 0.005 everywhere)
+ */
+function struveH1(x: number): number {
+  if (x === 0) return 0;
+  return 2 / Math.PI - BesselFunctions.besselJ(0, x) +
+    (16 / Math.PI - 5) * Math.sin(x) / x +
+    (12 - 36 / Math.PI) * (1 - Math.cos(x)) / (x * x);
+}
+
+function complex(real: number): ComplexNumber {
+  return { real, imaginary: 0 };
+}
+
+function add(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+  return { real: a.real + b.real, imaginary: a.imaginary + b.imaginary };
+}
+
+function sub(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+  return { real: a.real - b.real, imaginary: a.imaginary - b.imaginary };
+}
+
+function mul(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+  return {
+    real: a.real * b.real - a.imaginary * b.imaginary,
+    imaginary: a.real * b.imaginary + a.imaginary * b.real,
+  };
+}
+
+function div(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+  const denominator = b.real * b.real + b.imaginary * b.imaginary;
+  return {
+    real: (a.real * b.real + a.imaginary * b.imaginary) / denominator,
+    imaginary: (a.imaginary * b.real - a.real * b.imaginary) / denominator,
+  };
+}
+
+function scale(a: ComplexNumber, factor: number): ComplexNumber {
+  return { real: a.real * factor, imaginary: a.imaginary * factor };
+}
+
+function multiply(m: Matrix2, n: Matrix2): Matrix2 {
+  return [
+    add(mul(m[0], n[0]), mul(m[1], n[2])),
+    add(mul(m[0], n[1]), mul(m[1], n[3])),
+    add(mul(m[2], n[0]), mul(m[3], n[2])),
+    add(mul(m[2], n[1]), mul(m[3], n[3])),
+  ];
+}
+
+function invert(m: Matrix2): Matrix2 {
+  const determinant = sub(mul(m[0], m[3]), mul(m[1], m[2]));
+  return [
+    div(m[3], determinant),
+    div(scale(m[1], -1), determinant),
+    div(scale(m[2], -1), determinant),
+    div(m[0], determinant),
+  ];
+}
@@ -49,7 +49,7 @@ export interface FrequencyPoint {
   frequency: number;          // Hz
   spl: number;               // dB SPL
   phase?: number;            // degrees
-  impedance?: ComplexNumber;  // acoustic impedance
+  impedance?: ComplexNumber;  // throat impedance normalized to ρc/S at the throat
 }
 
 /**
@@ -58,7 +58,7 @@ export interface FrequencyPoint {
 export interface FrequencyResponseData {
   cutoffFrequency: number;    // Hz
   response: FrequencyPoint[];
-  impedanceAtThroat?: ComplexNumber;
+  impedanceAtThroat?: ComplexNumber; // characteristic impedance ρc/S of the throat, acoustic ohms
   efficiency?: number;        // percentage
 }
 
@@ -109,9 +109,93 @@ export interface DirectivityResult {
 export interface WebsterParams {
   profile: ProfilePoint[];
   frequency: number;          // Hz
-  boundaryCondition: 'infinite' | 'finite' | 'flanged';
+  boundaryCondition: 'infinite' | 'finite' | 'flanged'; // mouth in an infinite baffle, free space, or an infinite flange
 }
 
+/**
+ * Webster equation solution at one frequency
+ */
+export interface WebsterSolution {
+  throatImpedance: ComplexNumber;     // acoustic ohms (Pa·s/m³)
+  mouthImpedance: ComplexNumber;      // radiation load, acoustic ohms
+  volumeVelocityRatio: ComplexNumber; // mouth / throat volume velocity
+}
+
+/**
+ * Horn wall in one axial plane for the axisymmetric BEM. Both curves run
+ * throat to mouth and may turn back along the axis around a rolled lip.
+ */
+export interface BEMMeridian {
+  inner: ProfilePoint[];      // interior wall, mm
+  outer: ProfilePoint[];      // exterior wall at the same stations, mm
+}
+
+/**
+ * Mouth of a rectangular horn as a radiating aperture in one plane
+ */
+export interface ApertureParams {
+  size: number;               // mm across the plane
+  wavefrontRadius?: number;   // mm from the wavefront's center of curvature to the mouth; plane wave when absent
+}
+
+/**
+ * Model for the polar response in one plane
+ */
+export type DirectivityModel =
+  | { type: 'bem'; meridian: BEMMeridian }          // round horns
+  | { type: 'aperture'; aperture: ApertureParams }; // rectangular horns
+
+/**
+ * Far-field polar responses against frequency
+ */
+export interface DirectivityMap {
+  frequencies: number[];      // Hz, ascending
+  angles: number[];           // degrees off axis, ascending; signed when both sides were measured
+  levels: number[][];         // dB re on-axis, [frequency][angle]
+}
+
+/**
+ * Beamwidth and directivity index at one frequency
+ */
+export interface DirectivityPoint {
+  frequency: number;          // Hz
+  horizontalBeamwidth: number; // degrees at -6dB
+  verticalBeamwidth: number;   // degrees at -6dB
+  directivityIndex: number;    // dB
+}
+
+/**
+ * Job posted to the BEM worker, one map per meridian
+ */
+export interface BEMWorkerRequest {
+  meridians: BEMMeridian[];
+  frequencies: number[];      // Hz
+  angles: number[];           // degrees off axis
+}
+
+/**
+ * Messages posted back by the BEM worker
+ */
+export type BEMWorkerResponse =
+  | { type: 'progress'; progress: number } // 0-1
+  | { type: 'result'; maps: DirectivityMap[] }
+  | { type: 'error'; message: string };
+
+/**
+ * Measured response or impedance loaded from a file
+ */
+export interface MeasurementData {
+  name: string;               // source file name
+  kind: 'response' | 'impedance'; // SPL and phase, or impedance in the file's units
+  points: FrequencyPoint[];   // ascending frequency; spl is 0 for impedance files
+  hasPhase: boolean;          // file carried a phase column
+}
+
+/**
+ * Fractional-octave smoothing width, 1/N octave (0 = unsmoothed)
+ */
+export type OctaveSmoothing = 0 | 3 | 6 | 12;
+
 /**
  * Profile optimization parameters
  */
@@ -204,7 +288,8 @@ export enum ExportFormat {
   CSV = 'csv',
   MATLAB = 'mat',
   REW = 'rew',              // Room EQ Wizard format
-  FRD = 'frd'               // Frequency response data format
+  FRD = 'frd',              // Frequency response data format
+  ZMA = 'zma'               // Impedance data format
 }
 
 /**
@@ -1,14 +1,23 @@
 /**
  * ContourPlot Component
- * Visualizes dispersion patterns as frequency vs angle contour plots
+ * Visualizes dispersion patterns as frequency vs angle contour plots:
+ * round horns solved with the axisymmetric BEM in a web worker,
+ * rectangular horns from their mouth aperture in each plane
  */
 
-import React, { useRef, useEffect } from 'react';
-import { HornProfileParams } from '../../lib/types';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { BEMMeridian, BEMWorkerRequest, BEMWorkerResponse, DirectivityMap, DirectivityModel } from '../types';
+import { DispersionAnalyzer } from '../analysis/Dispersion';
+
+// Solver grid: the plots interpolate between these
+const BEM_FREQUENCIES = Array.from({ length: 48 }, (_, i) => 20 * Math.pow(1000, i / 47));
+const BEM_ANGLES = Array.from({ length: 46 }, (_, i) => i * 2);
+const SOLVE_DELAY = 400; // ms of quiet before a parameter change restarts the solver
 
 interface ContourPlotProps {
-  hornParams: HornProfileParams;
+  map: DirectivityMap | null;
   axis: 'horizontal' | 'vertical';
+  progress?: number; // 0-1 while a solve is running
   width?: number;
   height?: number;
   title?: string;
@@ -16,8 +25,9 @@ interface ContourPlotProps {
 }
 
 export const ContourPlot: React.FC<ContourPlotProps> = ({
-  hornParams,
+  map,
   axis,
+  progress,
   width = 400,
   height = 300,
   title = '',
@@ -49,23 +59,16 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
     ctx.fillStyle = '#0a0a0a';
     ctx.fillRect(0, 0, width * renderScale, height * renderScale);
 
-    // Generate frequency and angle ranges (higher resolution)
-    const frequencies = generateLogFrequencies(20, 20000, 200);
-    const angles = generateLinearAngles(-90, 90, 200);
-
-    // Get mouth dimension for this axis
-    const mouthDimension = axis === 'horizontal'
-      ? hornParams.mouthWidth
-      : (hornParams.mouthHeight || hornParams.mouthWidth);
-
-    // Calculate dispersion data for contour
-    const contourData = calculateDispersionContour(frequencies, angles, mouthDimension);
-
-    // Draw contour plot
-    drawContour(ctx, contourData, frequencies, angles, margin, plotWidth, plotHeight);
+    // Draw the solved polars, or a status line until the first solve finishes
+    if (map) {
+      drawContour(ctx, map, margin, plotWidth, plotHeight);
+    }
+    if (progress !== undefined) {
+      drawStatus(ctx, `Solving BEM… ${Math.round(progress * 100)}%`, margin, plotWidth, plotHeight);
+    }
 
     // Draw grid and axes
-    drawAxes(ctx, frequencies, angles, margin, plotWidth, plotHeight);
+    drawAxes(ctx, margin, plotWidth, plotHeight);
 
     // Draw labels
     drawLabels(ctx, margin, plotWidth, plotHeight, title, axis, height * renderScale);
@@ -74,102 +77,72 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
     if (showColorbar) {
       drawColorbar(ctx, margin, plotWidth, plotHeight);
     }
-  }, [hornParams, axis, width, height, title, showColorbar]);
-
-  const generateLogFrequencies = (min: number, max: number, points: number): number[] => {
-    const frequencies: number[] = [];
-    const logMin = Math.log10(min);
-    const logMax = Math.log10(max);
-    const step = (logMax - logMin) / (points - 1);
-    for (let i = 0; i < points; i++) {
-      frequencies.push(Math.pow(10, logMin + i * step));
-    }
-    return frequencies;
-  };
-
-  const generateLinearAngles = (min: number, max: number, points: number): number[] => {
-    const angles: number[] = [];
-    const step = (max - min) / (points - 1);
-    for (let i = 0; i < points; i++) {
-      angles.push(min + i * step);
-    }
-    return angles;
-  };
-
-  const calculateDispersionContour = (
-    frequencies: number[],
-    angles: number[],
-    mouthDimension: number
-  ): number[][] => {
-    const K_CONSTANT = 29000; // Empirical constant
-    const MM_TO_INCH = 0.0393701;
-    
-    const contour: number[][] = [];
-    
-    frequencies.forEach(freq => {
-      const row: number[] = [];
-      
-      angles.forEach(angle => {
-        // Calculate beamwidth for this frequency
-        const dimensionInches = mouthDimension * MM_TO_INCH;
-        const beamwidth = K_CONSTANT / (dimensionInches * freq);
-        
-        // Calculate response at this angle relative to beamwidth
-        const normalizedAngle = Math.abs(angle) / (beamwidth / 2);
-        
-        // Use a directivity pattern approximation
-        let response: number;
-        if (normalizedAngle <= 1) {
-          // Main lobe - cosine rolloff
-          response = Math.cos(normalizedAngle * Math.PI / 2);
-        } else if (normalizedAngle <= 2) {
-          // First sidelobe
-          response = -0.2 * Math.cos((normalizedAngle - 1) * Math.PI);
-        } else {
-          // Far field rolloff
-          response = 0.05 / normalizedAngle;
-        }
-        
-        // Convert to dB (0 to -40 dB range)
-        const dB = Math.max(-40, 20 * Math.log10(Math.max(0.01, Math.abs(response))));
-        row.push(dB);
-      });
-      
-      contour.push(row);
-    });
-    
-    return contour;
-  };
+  }, [map, progress, axis, width, height, title, showColorbar]);
 
+  /**
+   * Bilinear between solver points: log frequency across, angle down.
+   * One-sided maps read the same polar at ±angle; frequencies outside the
+   * map (a measurement's band edges) are left blank.
+   */
   const drawContour = (
     ctx: CanvasRenderingContext2D,
-    data: number[][],
-    _frequencies: number[],
-    _angles: number[],
+    data: DirectivityMap,
     margin: any,
     plotWidth: number,
     plotHeight: number
   ) => {
+    const logFrequencies = data.frequencies.map(Math.log);
+    const columnFrequencies = Array.from({ length: plotWidth }, (_, x) =>
+      Math.log(20 * Math.pow(20000 / 20, x / (plotWidth - 1)))
+    );
+    const columns = columnFrequencies.map(value => locate(logFrequencies, value));
+    const signed = data.angles[0] < 0;
+    const rows = Array.from({ length: plotHeight }, (_, y) => {
+      const angle = 90 - (y / (plotHeight - 1)) * 180;
+      return locate(data.angles, signed ? angle : Math.abs(angle));
+    });
+    const first = logFrequencies[0] - 1e-9;
+    const last = logFrequencies[logFrequencies.length - 1] + 1e-9;
+
     const imageData = ctx.createImageData(plotWidth, plotHeight);
     for (let x = 0; x < plotWidth; x++) {
+      if (columnFrequencies[x] < first || columnFrequencies[x] > last) continue;
+      const f = columns[x];
+      const low = data.levels[f.index];
+      const high = data.levels[f.index + 1];
       for (let y = 0; y < plotHeight; y++) {
-        // Map pixel coordinates to data indices
-        const freqIndex = Math.floor((x / plotWidth) * (data.length - 1));
-        const angleIndex = Math.floor(((plotHeight - y - 1) / plotHeight) * (data[0]?.length - 1 || 0));
-        if (freqIndex < data.length && angleIndex < data[freqIndex].length) {
-          const dBValue = data[freqIndex][angleIndex];
-          const color = dBToColor(dBValue);
-          const pixelIndex = (y * plotWidth + x) * 4;
-          imageData.data[pixelIndex] = color.r;
-          imageData.data[pixelIndex + 1] = color.g;
-          imageData.data[pixelIndex + 2] = color.b;
-          imageData.data[pixelIndex + 3] = 255;
-        }
+        const a = rows[y];
+        const level =
+          (low[a.index] * (1 - a.fraction) + low[a.index + 1] * a.fraction) * (1 - f.fraction) +
+          (high[a.index] * (1 - a.fraction) + high[a.index + 1] * a.fraction) * f.fraction;
+        const color = dBToColor(level);
+        const pixelIndex = (y * plotWidth + x) * 4;
+        imageData.data[pixelIndex] = color.r;
+        imageData.data[pixelIndex + 1] = color.g;
+        imageData.data[pixelIndex + 2] = color.b;
+        imageData.data[pixelIndex + 3] = 255;
       }
     }
     ctx.putImageData(imageData, margin.left, margin.top);
   };
 
+  const drawStatus = (
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    margin: any,
+    plotWidth: number,
+    plotHeight: number
+  ) => {
+    ctx.fillStyle = 'rgba(10, 10, 10, 0.6)';
+    ctx.fillRect(margin.left, margin.top, plotWidth, plotHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `${11 * renderScale}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, margin.left + plotWidth / 2, margin.top + plotHeight / 2);
+    ctx.textBaseline = 'alphabetic';
+  };
+
   const dBToColor = (dB: number): { r: number; g: number; b: number } => {
     // Standard dB color scale: red (-40dB) -> yellow (-20dB) -> green (-10dB) -> blue (0dB)
     const normalized = Math.max(0, Math.min(1, (dB + 40) / 40)); // Normalize -40 to 0 dB to 0-1
@@ -195,8 +168,6 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
 
   const drawAxes = (
     ctx: CanvasRenderingContext2D,
-    _frequencies: number[],
-    _angles: number[],
     margin: any,
     plotWidth: number,
     plotHeight: number
@@ -349,38 +320,136 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
   );
 };
 
+/**
+ * Interval of an ascending grid holding value, and the fraction across it
+ */
+const locate = (values: number[], value: number): { index: number; fraction: number } => {
+  let index = 0;
+  while (index < values.length - 2 && values[index + 1] < value) index++;
+  const fraction = (value - values[index]) / (values[index + 1] - values[index]);
+  return { index, fraction: Math.min(1, Math.max(0, fraction)) };
+};
+
+/**
+ * Polar maps for each plane's model. Aperture models are evaluated directly;
+ * distinct BEM meridians go to the worker, and edits restart that solve after
+ * a short pause while the previous maps stay up.
+ */
+export const useDirectivityMaps = (models: DirectivityModel[]) => {
+  const [solved, setSolved] = useState<DirectivityMap[] | null>(null);
+  const [progress, setProgress] = useState<number | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const key = JSON.stringify(models);
+
+  // Round horns have one meridian for both planes
+  const { meridians, solvedIndex, apertureMaps } = useMemo(() => {
+    const parsed: DirectivityModel[] = JSON.parse(key);
+    const meridianKeys: string[] = [];
+    const meridians: BEMMeridian[] = [];
+    const solvedIndex = parsed.map(model => {
+      if (model.type !== 'bem') return -1;
+      const meridianKey = JSON.stringify(model.meridian);
+      if (!meridianKeys.includes(meridianKey)) {
+        meridianKeys.push(meridianKey);
+        meridians.push(model.meridian);
+      }
+      return meridianKeys.indexOf(meridianKey);
+    });
+    const apertureMaps = parsed.map(model => model.type === 'aperture'
+      ? DispersionAnalyzer.calculateApertureDirectivityMap(model.aperture, BEM_FREQUENCIES, BEM_ANGLES)
+      : null
+    );
+    return { meridians, solvedIndex, apertureMaps };
+  }, [key]);
+
+  useEffect(() => {
+    setError(null);
+    if (meridians.length === 0) {
+      setProgress(undefined);
+      return;
+    }
+
+    let worker: Worker | null = null;
+    setProgress(0);
+
+    const timer = window.setTimeout(() => {
+      worker = new Worker(new URL('../analysis/DirectivityWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<BEMWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          setProgress(message.progress);
+        } else if (message.type === 'result') {
+          setSolved(message.maps);
+          setProgress(undefined);
+        } else {
+          setError(message.message);
+          setProgress(undefined);
+        }
+      };
+      // A worker that fails to load or throws outside its handler never posts an error
+      const fail = (message: string) => {
+        setError(message);
+        setProgress(undefined);
+        worker?.terminate();
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        fail(event.message || 'The directivity solver stopped unexpectedly');
+      };
+      worker.onmessageerror = () => fail('The directivity solver sent a message that could not be read');
+      const request: BEMWorkerRequest = { meridians, frequencies: BEM_FREQUENCIES, angles: BEM_ANGLES };
+      worker.postMessage(request);
+    }, SOLVE_DELAY);
+
+    return () => {
+      window.clearTimeout(timer);
+      worker?.terminate();
+    };
+  }, [meridians]);
+
+  const maps = apertureMaps.map((map, i) => map ?? solved?.[Math.min(solvedIndex[i], solved.length - 1)] ?? null);
+  return { maps, progress, error };
+};
+
 /**
  * Combined contour plots for horizontal and vertical dispersion
  */
 interface DispersionContourPlotsProps {
-  hornParams: HornProfileParams;
+  models: { horizontal: DirectivityModel; vertical: DirectivityModel };
   width?: number;
   height?: number;
 }
 
 export const DispersionContourPlots: React.FC<DispersionContourPlotsProps> = ({
-  hornParams,
+  models,
   width = 400,
   height = 300
 }) => {
+  const { maps, progress, error } = useDirectivityMaps([models.horizontal, models.vertical]);
+
   return (
     <div className="space-y-4">
       <ContourPlot
-        hornParams={hornParams}
+        map={maps[0]}
         axis="horizontal"
+        progress={models.horizontal.type === 'bem' ? progress : undefined}
         width={width}
         height={height}
         title="Horizontal Dispersion"
         showColorbar={false}
       />
       <ContourPlot
-        hornParams={hornParams}
+        map={maps[1]}
         axis="vertical"
+        progress={models.vertical.type === 'bem' ? progress : undefined}
         width={width}
         height={height}
         title="Vertical Dispersion"
         showColorbar={false}
       />
+      {error && (
+        <div className="text-xs text-red-300">BEM solve failed: {error}</div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
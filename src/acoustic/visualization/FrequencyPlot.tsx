@@ -6,26 +6,41 @@
 import React, { useRef, useEffect } from 'react';
 import { FrequencyResponseData, FrequencyPoint } from '../types';
 
+/**
+ * Extra curve drawn over the main data, e.g. an imported measurement
+ */
+export interface FrequencyPlotOverlay {
+  points: FrequencyPoint[];
+  color: string;
+  label: string;
+}
+
+const NO_OVERLAYS: FrequencyPlotOverlay[] = [];
+
 interface FrequencyPlotProps {
   data: FrequencyResponseData | FrequencyPoint[];
+  overlays?: FrequencyPlotOverlay[];
   width?: number;
   height?: number;
   title?: string;
   yAxisLabel?: string;
   xAxisLabel?: string;
-  plotType?: 'spl' | 'phase' | 'impedance' | 'directivity';
+  plotType?: 'spl' | 'phase' | 'impedance' | 'resistance' | 'reactance' | 'directivity';
   showGrid?: boolean;
   showLegend?: boolean;
+  legendLabel?: string; // main curve's legend entry; defaults to the plot type
   color?: string;
   backgroundColor?: string;
   minFreq?: number;
   maxFreq?: number;
   minDb?: number;
   maxDb?: number;
+  yStep?: number;
 }
 
 export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
   data,
+  overlays = NO_OVERLAYS,
   width = 800,
   height = 400,
   title = 'Frequency Response',
@@ -34,12 +49,14 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
   plotType = 'spl',
   showGrid = true,
   showLegend = false,
+  legendLabel,
   color = '#00ff41',
   backgroundColor = '#0a0a0a',
   minFreq = 20,
   maxFreq = 20000,
   minDb = 60,
-  maxDb = 120
+  maxDb = 120,
+  yStep = 10
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -75,6 +92,12 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
     drawFrequencyResponse(ctx, response, margin, plotWidth, plotHeight, 
                          minFreq, maxFreq, minDb, maxDb, plotType, color);
 
+    // Draw overlays without the glow so the simulation stays on top visually
+    overlays.forEach(overlay => {
+      drawFrequencyResponse(ctx, overlay.points, margin, plotWidth, plotHeight,
+                           minFreq, maxFreq, minDb, maxDb, plotType, overlay.color, false);
+    });
+
     // Draw labels
     drawLabels(ctx, margin, plotWidth, plotHeight, title, xAxisLabel, yAxisLabel,
               minFreq, maxFreq, minDb, maxDb);
@@ -85,12 +108,12 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
                     minFreq, maxFreq);
     }
 
-    // Draw legend if enabled
-    if (showLegend) {
-      drawLegend(ctx, margin, plotType, color);
+    // Draw legend if enabled; overlays always need one to tell the curves apart
+    if (showLegend || overlays.length > 0) {
+      drawLegend(ctx, margin, legendLabel, plotType, color, overlays);
     }
-  }, [data, width, height, title, yAxisLabel, xAxisLabel, plotType, 
-      showGrid, showLegend, color, backgroundColor, minFreq, maxFreq, minDb, maxDb]);
+  }, [data, overlays, width, height, title, yAxisLabel, xAxisLabel, plotType, 
+      showGrid, showLegend, legendLabel, color, backgroundColor, minFreq, maxFreq, minDb, maxDb, yStep]);
 
   const drawGrid = (
     ctx: CanvasRenderingContext2D,
@@ -119,8 +142,7 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
     });
 
     // Horizontal dB grid lines
-    const dbStep = 10;
-    for (let db = minDb; db <= maxDb; db += dbStep) {
+    for (let db = minDb; db <= maxDb; db += yStep) {
       const y = margin.top + plotHeight * (1 - (db - minDb) / (maxDb - minDb));
       ctx.beginPath();
       ctx.moveTo(margin.left, y);
@@ -162,10 +184,11 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
     minDb: number,
     maxDb: number,
     plotType: string,
-    color: string
+    color: string,
+    glow: boolean = true
   ) => {
     ctx.strokeStyle = color;
-    ctx.lineWidth = 2;
+    ctx.lineWidth = glow ? 2 : 1.5;
     ctx.beginPath();
 
     let firstPoint = true;
@@ -189,6 +212,12 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
               20 * Math.log10(Math.sqrt(point.impedance.real * point.impedance.real + 
                                        point.impedance.imaginary * point.impedance.imaginary)) : 0;
             break;
+          case 'resistance':
+            value = point.impedance ? point.impedance.real : 0;
+            break;
+          case 'reactance':
+            value = point.impedance ? point.impedance.imaginary : 0;
+            break;
           case 'directivity':
             value = point.spl || 0; // Use SPL as proxy for directivity
             break;
@@ -206,6 +235,7 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
     });
 
     ctx.stroke();
+    if (!glow) return;
 
     // Add glow effect
     ctx.shadowBlur = 5;
@@ -262,8 +292,7 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
 
     // dB labels
     ctx.textAlign = 'right';
-    const dbStep = 10;
-    for (let db = minDb; db <= maxDb; db += dbStep) {
+    for (let db = minDb; db <= maxDb; db += yStep) {
       const y = margin.top + plotHeight * (1 - (db - minDb) / (maxDb - minDb));
       ctx.fillText(db.toString(), margin.left - 10, y + 3);
     }
@@ -304,34 +333,46 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
   const drawLegend = (
     ctx: CanvasRenderingContext2D,
     margin: any,
+    label: string | undefined,
     plotType: string,
-    color: string
+    color: string,
+    overlays: FrequencyPlotOverlay[]
   ) => {
     const legendX = margin.left + 20;
     const legendY = margin.top + 20;
+    const rowHeight = 16;
+    
+    ctx.font = '12px monospace';
+    ctx.textAlign = 'left';
+    const labelWidth = Math.max(0, ...[label ?? '', ...overlays.map(overlay => overlay.label)].map(text => ctx.measureText(text).width));
     
     ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.fillRect(legendX - 5, legendY - 15, 120, 30);
+    ctx.fillRect(legendX - 5, legendY - 15, Math.max(120, labelWidth + 35), 30 + overlays.length * rowHeight);
     
-    ctx.strokeStyle = color;
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(legendX, legendY);
-    ctx.lineTo(legendX + 20, legendY);
-    ctx.stroke();
+    [{ color }, ...overlays].forEach((entry, i) => {
+      ctx.strokeStyle = entry.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(legendX, legendY + i * rowHeight);
+      ctx.lineTo(legendX + 20, legendY + i * rowHeight);
+      ctx.stroke();
+    });
     
     ctx.fillStyle = '#ffffff';
-    ctx.font = '12px monospace';
-    ctx.textAlign = 'left';
+    overlays.forEach((overlay, i) => {
+      ctx.fillText(overlay.label, legendX + 25, legendY + (i + 1) * rowHeight + 3);
+    });
     
     const legendText: Record<string, string> = {
       'spl': 'SPL',
       'phase': 'Phase',
       'impedance': 'Impedance',
+      'resistance': 'Resistance',
+      'reactance': 'Reactance',
       'directivity': 'Directivity'
     };
     
-    ctx.fillText(legendText[plotType] || plotType, legendX + 25, legendY + 3);
+    ctx.fillText(label || legendText[plotType] || plotType, legendX + 25, legendY + 3);
   };
 
   return (
@@ -352,12 +393,14 @@ export const FrequencyPlot: React.FC<FrequencyPlotProps> = ({
  */
 interface MultiFrequencyPlotProps {
   responseData: FrequencyResponseData;
+  overlays?: FrequencyPlotOverlay[]; // drawn on both plots, e.g. pinned designs
   width?: number;
   height?: number;
 }
 
 export const MultiFrequencyPlot: React.FC<MultiFrequencyPlotProps> = ({
   responseData,
+  overlays = NO_OVERLAYS,
   width = 800,
   height = 600
 }) => {
@@ -365,6 +408,7 @@ export const MultiFrequencyPlot: React.FC<MultiFrequencyPlotProps> = ({
     <div className="space-y-4">
       <FrequencyPlot
         data={responseData}
+        overlays={overlays}
         width={width}
         height={height / 2}
         title="Frequency Response"
@@ -376,6 +420,7 @@ export const MultiFrequencyPlot: React.FC<MultiFrequencyPlotProps> = ({
       />
       <FrequencyPlot
         data={responseData}
+        overlays={overlays}
         width={width}
         height={height / 2}
         title="Phase Response"
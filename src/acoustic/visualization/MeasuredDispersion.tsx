@@ -0,0 +1,143 @@
+/**
+ * MeasuredDispersion Component
+ * Imported polar measurements as contour maps, polars at the analysis
+ * frequency, and the beamwidth and DI curves they imply
+ */
+
+import React, { useMemo } from 'react';
+import { DirectivityMap, FrequencyPoint } from '../types';
+import { DirectivityCalculator } from '../analysis/DirectivityIndex';
+import { ContourPlot } from './ContourPlot';
+import { FrequencyPlot } from './FrequencyPlot';
+import { MultiPolarPlot, PolarPlot } from './PolarPlot';
+
+const DIRECTIVITY_STEPS_PER_OCTAVE = 3;
+const HORIZONTAL_COLOR = '#00ff41';
+const VERTICAL_COLOR = '#41a0ff';
+
+interface MeasuredDispersionPlotsProps {
+  horizontal: DirectivityMap | null;
+  vertical: DirectivityMap | null;
+  frequency: number; // Hz - polar plot frequency
+  width?: number;
+  height?: number;
+}
+
+export const MeasuredDispersionPlots: React.FC<MeasuredDispersionPlotsProps> = ({
+  horizontal,
+  vertical,
+  frequency,
+  width = 400,
+  height = 300
+}) => {
+  // Beamwidth and DI at 1/3 octave over the band every measured plane covers
+  const directivity = useMemo(() => {
+    const maps = [horizontal, vertical].filter((map): map is DirectivityMap => map !== null);
+    if (maps.length === 0) return [];
+    const minFrequency = Math.max(...maps.map(map => map.frequencies[0]));
+    const maxFrequency = Math.min(...maps.map(map => map.frequencies[map.frequencies.length - 1]));
+    const frequencies: number[] = [];
+    for (let i = 0; minFrequency * Math.pow(2, i / DIRECTIVITY_STEPS_PER_OCTAVE) <= maxFrequency; i++) {
+      frequencies.push(minFrequency * Math.pow(2, i / DIRECTIVITY_STEPS_PER_OCTAVE));
+    }
+    return DirectivityCalculator.calculateFromDirectivityMaps(horizontal, vertical, frequencies);
+  }, [horizontal, vertical]);
+
+  const curves = useMemo(() => {
+    const curve = (value: (point: typeof directivity[number]) => number): FrequencyPoint[] =>
+      directivity.map(point => ({ frequency: point.frequency, spl: value(point) }));
+    return {
+      horizontal: curve(point => point.horizontalBeamwidth),
+      vertical: curve(point => point.verticalBeamwidth),
+      directivityIndex: curve(point => point.directivityIndex),
+    };
+  }, [directivity]);
+
+  const polars = useMemo(() => ({
+    horizontal: horizontal && DirectivityCalculator.getPolarData(horizontal, frequency, 'horizontal'),
+    vertical: vertical && DirectivityCalculator.getPolarData(vertical, frequency, 'vertical'),
+  }), [horizontal, vertical, frequency]);
+
+  // Only planes that were measured get a beamwidth curve
+  const beamwidth = horizontal
+    ? { data: curves.horizontal, label: 'Horizontal', color: HORIZONTAL_COLOR }
+    : { data: curves.vertical, label: 'Vertical', color: VERTICAL_COLOR };
+  const beamwidthOverlays = useMemo(() => (
+    horizontal && vertical ? [{ points: curves.vertical, color: VERTICAL_COLOR, label: 'Vertical' }] : undefined
+  ), [horizontal, vertical, curves]);
+
+  if (!horizontal && !vertical) return null;
+
+  return (
+    <div className="space-y-4">
+      {horizontal && (
+        <ContourPlot
+          map={horizontal}
+          axis="horizontal"
+          width={width}
+          height={height}
+          title="Measured Horizontal"
+          showColorbar={false}
+        />
+      )}
+      {vertical && (
+        <ContourPlot
+          map={vertical}
+          axis="vertical"
+          width={width}
+          height={height}
+          title="Measured Vertical"
+          showColorbar={false}
+        />
+      )}
+
+      {polars.horizontal && polars.vertical ? (
+        <MultiPolarPlot
+          horizontalData={polars.horizontal}
+          verticalData={polars.vertical}
+          width={width}
+          height={width / 2}
+          title=""
+        />
+      ) : (
+        <PolarPlot
+          data={(polars.horizontal ?? polars.vertical)!}
+          width={width}
+          height={width}
+          title={horizontal ? 'Measured Horizontal' : 'Measured Vertical'}
+          color={horizontal ? HORIZONTAL_COLOR : VERTICAL_COLOR}
+        />
+      )}
+
+      <FrequencyPlot
+        data={beamwidth.data}
+        overlays={beamwidthOverlays}
+        width={width}
+        height={200}
+        title="Measured Beamwidth (-6 dB)"
+        plotType="directivity"
+        yAxisLabel="Beamwidth (°)"
+        showLegend
+        legendLabel={beamwidth.label}
+        minDb={0}
+        maxDb={180}
+        yStep={30}
+        color={beamwidth.color}
+        backgroundColor="#0a0a0a"
+      />
+      <FrequencyPlot
+        data={curves.directivityIndex}
+        width={width}
+        height={200}
+        title={horizontal && vertical ? 'Measured DI' : 'Measured DI (both planes alike)'}
+        plotType="directivity"
+        yAxisLabel="DI (dB)"
+        minDb={0}
+        maxDb={20}
+        yStep={5}
+        color="#f59e0b"
+        backgroundColor="#0a0a0a"
+      />
+    </div>
+  );
+};
@@ -3,34 +3,197 @@
  * Toggleable side panel containing acoustic visualizations
  */
 
-import React, { useState } from 'react';
-import { HornProfileParams } from '../lib/types';
+import React, { useRef, useState } from 'react';
+import { HornProfileParams, DriverMountParams } from '../lib/types';
+import { DriverSpec } from '../types';
 import { DispersionContourPlots } from '../acoustic/visualization/ContourPlot';
-import { FrequencyPlot } from '../acoustic/visualization/FrequencyPlot';
+import { FrequencyPlot, FrequencyPlotOverlay } from '../acoustic/visualization/FrequencyPlot';
+import { MeasuredDispersionPlots } from '../acoustic/visualization/MeasuredDispersion';
 import { FrequencyResponseAnalyzer } from '../acoustic/analysis/FrequencyResponse';
-import { getProfile } from '../profiles';
+import { DirectivityMap, ExportFormat, MeasurementData, OctaveSmoothing, WebsterParams } from '../acoustic/types';
+import { MeasurementComparison } from '../acoustic/analysis/MeasurementComparison';
+import { calculateAcousticProfile, calculateDirectivityModel } from './horn-geometry/HornProfileGenerator';
+import { DesignComparison, DesignComparisonEntry } from './DesignComparison';
+import { exportHornrespRecord, importHornrespRecord } from '../utils/hornresp';
+import { exportResponseData, RESPONSE_EXPORT_FORMATS, ResponseExportFormat } from '../utils/responseExporter';
+import { parseMeasurementFile, parsePolarMeasurement } from '../utils/measurementImport';
+import { ComparedDesign, CURRENT_DESIGN_COLOR, CURRENT_DESIGN_NAME } from '../utils/designComparison';
+import { CostCalculationResult } from '../utils/costCalculator';
+
+const MOUTH_LOADS: Record<WebsterParams['boundaryCondition'], string> = {
+  infinite: 'Infinite baffle',
+  flanged: 'Flanged',
+  finite: 'Free space',
+};
+
+const SMOOTHING_OPTIONS: Record<OctaveSmoothing, string> = {
+  0: 'None',
+  3: '1/3 octave',
+  6: '1/6 octave',
+  12: '1/12 octave',
+};
+
+const MEASUREMENT_COLOR = '#ffffff';
+
+const NO_COMPARISONS: ComparedDesign[] = [];
 
 interface AcousticSidePanelProps {
   hornParams: HornProfileParams;
+  driverParams?: DriverMountParams;
+  driver?: DriverSpec;
+  comparisons?: ComparedDesign[]; // pinned designs overlaid on the plots and tabulated
+  cost?: CostCalculationResult;   // live design's print cost, for the comparison table
+  onHornParamsChange: (params: HornProfileParams) => void;
 }
 
 export const AcousticSidePanel: React.FC<AcousticSidePanelProps> = ({
   hornParams,
+  driverParams,
+  driver,
+  comparisons = NO_COMPARISONS,
+  cost,
+  onHornParamsChange,
 }) => {
-  const [activeTab, setActiveTab] = useState<'dispersion' | 'frequency'>('dispersion');
+  const [activeTab, setActiveTab] = useState<'dispersion' | 'frequency' | 'compare'>('dispersion');
+  const [mouthLoad, setMouthLoad] = useState<WebsterParams['boundaryCondition']>('infinite');
+  const [responseFormat, setResponseFormat] = useState<ResponseExportFormat>(ExportFormat.FRD);
+  const [measurement, setMeasurement] = useState<MeasurementData | null>(null);
+  const [smoothing, setSmoothing] = useState<OctaveSmoothing>(6);
+  const [measurementOffset, setMeasurementOffset] = useState(0);
+  const [polarMeasurements, setPolarMeasurements] = useState<{
+    horizontal: DirectivityMap | null;
+    vertical: DirectivityMap | null;
+  }>({ horizontal: null, vertical: null });
+  const hornrespInputRef = useRef<HTMLInputElement>(null);
+  const measurementInputRef = useRef<HTMLInputElement>(null);
+  const polarInputRef = useRef<HTMLInputElement>(null);
+  const polarAxisRef = useRef<'horizontal' | 'vertical'>('horizontal');
+
+  const handlePolarImport = async (files: File[]) => {
+    if (files.length === 0) return;
+    const axis = polarAxisRef.current;
+    try {
+      const map = parsePolarMeasurement(await Promise.all(
+        files.map(async file => ({ name: file.name, text: await file.text() }))
+      ));
+      setPolarMeasurements(previous => ({ ...previous, [axis]: map }));
+    } catch (error) {
+      console.error('Polar import failed:', error);
+      alert(`Polar import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const importPolars = (axis: 'horizontal' | 'vertical') => {
+    polarAxisRef.current = axis;
+    polarInputRef.current?.click();
+  };
+
+  const handleMeasurementImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setMeasurement(parseMeasurementFile(await file.text(), file.name));
+      setMeasurementOffset(0);
+    } catch (error) {
+      console.error('Measurement import failed:', error);
+      alert(`Measurement import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleHornrespImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { hornParams: imported, notes } = importHornrespRecord(await file.text(), hornParams);
+      onHornParamsChange(imported);
+      if (notes.length > 0) {
+        alert(`Hornresp record imported:\n${notes.join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Hornresp import failed:', error);
+      alert(`Hornresp import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Directivity model per plane: BEM for round horns, mouth aperture for rectangular
+  const directivityModels = React.useMemo(() => ({
+    horizontal: calculateDirectivityModel(hornParams, 'horizontal', driverParams),
+    vertical: calculateDirectivityModel(hornParams, 'vertical', driverParams),
+  }), [hornParams, driverParams]);
 
   // Calculate frequency response data
   const frequencyResponseData = React.useMemo(() => {
-    const profilePoints = getProfile(hornParams.flareType, {
-      throatRadius: hornParams.throatDiameter / 2,
-      mouthRadius: hornParams.mouthWidth / 2,
-      length: hornParams.length,
-      segments: 100,
-      cutoffFrequency: hornParams.cutoffFrequency
-    });
+    const profilePoints = calculateAcousticProfile(hornParams, driverParams);
+
+    return FrequencyResponseAnalyzer.calculateResponse(profilePoints, hornParams, mouthLoad);
+  }, [hornParams, driverParams, mouthLoad]);
+
+  // Pinned designs simulated under the same mouth load
+  const comparisonResponses = React.useMemo(() => comparisons.map(design => FrequencyResponseAnalyzer.calculateResponse(
+    calculateAcousticProfile(design.state.hornParams, design.state.driverParams),
+    design.state.hornParams,
+    mouthLoad
+  )), [comparisons, mouthLoad]);
+
+  const comparisonDesigns = React.useMemo((): DesignComparisonEntry[] | null => (
+    comparisons.length > 0 && cost ? [
+      { id: 'current', name: CURRENT_DESIGN_NAME, color: CURRENT_DESIGN_COLOR, hornParams, driverParams, response: frequencyResponseData, cost },
+      ...comparisons.map((design, i) => ({
+        id: design.id,
+        name: design.name,
+        color: design.color,
+        hornParams: design.state.hornParams,
+        driverParams: design.state.driverParams,
+        response: comparisonResponses[i],
+        cost: design.cost,
+      })),
+    ] : null
+  ), [comparisons, comparisonResponses, cost, hornParams, driverParams, frequencyResponseData]);
+
+  // Imported measurement, smoothed and shifted onto the simulation
+  const smoothedMeasurement = React.useMemo(() => (
+    measurement ? MeasurementComparison.smooth(measurement.points, smoothing) : null
+  ), [measurement, smoothing]);
+
+  const measuredPoints = React.useMemo(() => (
+    measurement && smoothedMeasurement
+      ? MeasurementComparison.applyOffset(measurement, smoothedMeasurement, measurementOffset)
+      : null
+  ), [measurement, smoothedMeasurement, measurementOffset]);
+
+  const measurementDifference = React.useMemo(() => (
+    measurement && measuredPoints
+      ? MeasurementComparison.calculateDifference(frequencyResponseData.response, measuredPoints, measurement.kind)
+      : null
+  ), [measurement, measuredPoints, frequencyResponseData]);
 
-    return FrequencyResponseAnalyzer.calculateResponse(profilePoints, hornParams);
-  }, [hornParams]);
+  // Pinned designs first, then the measurement
+  const measurementOverlays = React.useMemo(() => {
+    const pinned: FrequencyPlotOverlay[] = comparisons.map((design, i) => ({
+      points: comparisonResponses[i].response,
+      color: design.color,
+      label: design.name,
+    }));
+    const overlays = measurement && measuredPoints
+      ? [...pinned, { points: measuredPoints, color: MEASUREMENT_COLOR, label: measurement.name }]
+      : pinned;
+    return {
+      spl: measurement?.kind === 'response' ? overlays : pinned,
+      phase: measurement?.kind === 'response' && measurement.hasPhase ? overlays : pinned,
+      impedance: measurement?.kind === 'impedance' ? overlays : pinned,
+    };
+  }, [comparisons, comparisonResponses, measurement, measuredPoints]);
+
+  // Leave the comparison tab once nothing is pinned
+  const visibleTab = activeTab === 'compare' && !comparisonDesigns ? 'dispersion' : activeTab;
+
+  const alignMeasurement = () => {
+    if (!measurement || !smoothedMeasurement) return;
+    const offset = MeasurementComparison.calculateAlignmentOffset(
+      frequencyResponseData.response,
+      smoothedMeasurement,
+      measurement.kind
+    );
+    setMeasurementOffset(Math.round(offset * 10) / 10);
+  };
 
   return (
     <div className="w-[28rem] glass-dark rounded-l-3xl m-4 mr-0 flex flex-col h-[calc(100vh-2rem)] shadow-2xl">
@@ -52,7 +215,7 @@ export const AcousticSidePanel: React.FC<AcousticSidePanelProps> = ({
             <button
               onClick={() => setActiveTab('dispersion')}
               className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-all ${
-                activeTab === 'dispersion'
+                visibleTab === 'dispersion'
                   ? 'bg-purple-600 text-white'
                   : 'text-gray-400 hover:text-white hover:bg-white/10'
               }`}
@@ -62,27 +225,89 @@ export const AcousticSidePanel: React.FC<AcousticSidePanelProps> = ({
             <button
               onClick={() => setActiveTab('frequency')}
               className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-all ${
-                activeTab === 'frequency'
+                visibleTab === 'frequency'
                   ? 'bg-purple-600 text-white'
                   : 'text-gray-400 hover:text-white hover:bg-white/10'
               }`}
             >
               Response
             </button>
+            {comparisonDesigns && (
+              <button
+                onClick={() => setActiveTab('compare')}
+                className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-all ${
+                  visibleTab === 'compare'
+                    ? 'bg-purple-600 text-white'
+                    : 'text-gray-400 hover:text-white hover:bg-white/10'
+                }`}
+              >
+                Compare
+              </button>
+            )}
           </div>
         </div>
 
         {/* Scrollable Content */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
-          {activeTab === 'dispersion' && (
+          {visibleTab === 'dispersion' && (
             <div className="space-y-4">
               <div className="text-sm text-gray-400 mb-4">
-                Frequency vs angle contour plots showing dispersion patterns at different frequencies.
-                Color represents SPL relative to on-axis response.
+                Frequency vs angle contour plots. Round horns are solved with the boundary element
+                method driven at the throat; rectangular horns radiate from their mouth width and
+                height, with the wavefront curved by the final flare. Color represents SPL relative
+                to on-axis response.
               </div>
               
               <DispersionContourPlots
-                hornParams={hornParams}
+                models={directivityModels}
+                width={350}
+                height={250}
+              />
+
+              {/* Measured Polars */}
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Measured Polars
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['horizontal', 'vertical'] as const).map(axis => (
+                    <button
+                      key={axis}
+                      type="button"
+                      onClick={() => importPolars(axis)}
+                      className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+                      title="One FRD per angle with the angle ending the file name (hor 30.frd, hor-30.frd), or one CSV with a column per angle"
+                    >
+                      {polarMeasurements[axis] ? 'Replace' : 'Import'} {axis === 'horizontal' ? 'Horizontal' : 'Vertical'}
+                    </button>
+                  ))}
+                </div>
+                {(polarMeasurements.horizontal || polarMeasurements.vertical) && (
+                  <button
+                    type="button"
+                    onClick={() => setPolarMeasurements({ horizontal: null, vertical: null })}
+                    className="text-sm text-purple-300 hover:text-purple-200 transition-colors"
+                  >
+                    Clear measured polars
+                  </button>
+                )}
+                <input
+                  ref={polarInputRef}
+                  type="file"
+                  multiple
+                  accept=".frd,.txt,.csv,text/plain,text/csv"
+                  onChange={(e) => {
+                    handlePolarImport(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                />
+              </div>
+
+              <MeasuredDispersionPlots
+                horizontal={polarMeasurements.horizontal}
+                vertical={polarMeasurements.vertical}
+                frequency={hornParams.targetFrequency || 1000}
                 width={350}
                 height={250}
               />
@@ -118,17 +343,131 @@ export const AcousticSidePanel: React.FC<AcousticSidePanelProps> = ({
             </div>
           )}
           
-          {activeTab === 'frequency' && (
+          {visibleTab === 'compare' && comparisonDesigns && (
             <div className="space-y-4">
               <div className="text-sm text-gray-400 mb-4">
-                Frequency response showing SPL and phase characteristics across the audio spectrum.
+                The live design against the pinned ones. Cutoff is where the simulated response
+                falls 3 dB below its passband level under the selected mouth load; beamwidth and DI
+                come from the same BEM and aperture models as the dispersion plots.
+              </div>
+
+              <DesignComparison
+                designs={comparisonDesigns}
+                frequency={hornParams.targetFrequency || 1000}
+                width={350}
+              />
+            </div>
+          )}
+
+          {visibleTab === 'frequency' && (
+            <div className="space-y-4">
+              <div className="text-sm text-gray-400 mb-4">
+                Webster-equation solution over the horn profile: power delivered into the throat,
+                phase, and the throat impedance normalized to ρc/S. Imported measurements are drawn
+                in white over the matching plots.
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Mouth Load
+                </label>
+                <select
+                  value={mouthLoad}
+                  onChange={(e) => setMouthLoad(e.target.value as WebsterParams['boundaryCondition'])}
+                  className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none"
+                >
+                  {(Object.keys(MOUTH_LOADS) as WebsterParams['boundaryCondition'][]).map(load => (
+                    <option key={load} value={load} className="bg-gray-800 text-white">{MOUTH_LOADS[load]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Measurement */}
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Measurement
+                </label>
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => measurementInputRef.current?.click()}
+                    className="flex-1 px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+                    title="FRD, ZMA, REW text or CSV file"
+                  >
+                    {measurement ? 'Replace Measurement' : 'Import Measurement'}
+                  </button>
+                  {measurement && (
+                    <button
+                      type="button"
+                      onClick={() => setMeasurement(null)}
+                      className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <input
+                  ref={measurementInputRef}
+                  type="file"
+                  accept=".frd,.zma,.txt,.csv,text/plain,text/csv"
+                  onChange={(e) => {
+                    handleMeasurementImport(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                />
+                {measurement && (
+                  <>
+                    <div className="text-xs text-gray-400 truncate">
+                      {measurement.name} · {measurement.kind === 'response' ? 'SPL' : 'impedance'} · {measurement.points.length} points
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs text-gray-400 mb-1">Smoothing</label>
+                        <select
+                          value={smoothing}
+                          onChange={(e) => setSmoothing(Number(e.target.value) as OctaveSmoothing)}
+                          className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none text-sm"
+                        >
+                          {(Object.keys(SMOOTHING_OPTIONS).map(Number) as OctaveSmoothing[]).map(option => (
+                            <option key={option} value={option} className="bg-gray-800 text-white">
+                              {SMOOTHING_OPTIONS[option]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-400 mb-1">Level Offset (dB)</label>
+                        <div className="flex space-x-1">
+                          <input
+                            type="number"
+                            step={0.5}
+                            value={measurementOffset}
+                            onChange={(e) => setMeasurementOffset(Number(e.target.value))}
+                            className="w-full min-w-0 px-3 py-2 glass-input rounded-lg text-white outline-none text-sm"
+                          />
+                          <button
+                            type="button"
+                            onClick={alignMeasurement}
+                            className="px-2 py-2 rounded-lg text-xs font-medium glass-button text-gray-300 hover:text-white"
+                            title="Match the measurement's average level to the simulation"
+                          >
+                            Auto
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                )}
               </div>
               
               <FrequencyPlot
                 data={frequencyResponseData}
+                overlays={measurementOverlays.spl}
                 width={350}
                 height={200}
                 title="SPL Response"
+                legendLabel={comparisons.length > 0 ? CURRENT_DESIGN_NAME : undefined}
                 plotType="spl"
                 yAxisLabel="SPL (dB)"
                 minDb={60}
@@ -139,9 +478,11 @@ export const AcousticSidePanel: React.FC<AcousticSidePanelProps> = ({
               
               <FrequencyPlot
                 data={frequencyResponseData}
+                overlays={measurementOverlays.phase}
                 width={350}
                 height={200}
                 title="Phase Response"
+                legendLabel={comparisons.length > 0 ? CURRENT_DESIGN_NAME : undefined}
                 plotType="phase"
                 yAxisLabel="Phase (°)"
                 minDb={-180}
@@ -150,6 +491,122 @@ export const AcousticSidePanel: React.FC<AcousticSidePanelProps> = ({
                 backgroundColor="#0a0a0a"
               />
               
+              <FrequencyPlot
+                data={frequencyResponseData}
+                overlays={measurementOverlays.impedance}
+                width={350}
+                height={200}
+                title="Throat Resistance"
+                legendLabel={comparisons.length > 0 ? CURRENT_DESIGN_NAME : undefined}
+                plotType="resistance"
+                yAxisLabel="R / (ρc/S)"
+                minDb={0}
+                maxDb={2}
+                yStep={0.5}
+                color="#f59e0b"
+                backgroundColor="#0a0a0a"
+              />
+
+              <FrequencyPlot
+                data={frequencyResponseData}
+                overlays={measurementOverlays.impedance}
+                width={350}
+                height={200}
+                title="Throat Reactance"
+                legendLabel={comparisons.length > 0 ? CURRENT_DESIGN_NAME : undefined}
+                plotType="reactance"
+                yAxisLabel="X / (ρc/S)"
+                minDb={-1}
+                maxDb={1.5}
+                yStep={0.5}
+                color="#ec4899"
+                backgroundColor="#0a0a0a"
+              />
+
+              {measurementDifference && measurement && (
+                <FrequencyPlot
+                  data={measurementDifference}
+                  width={350}
+                  height={200}
+                  title={measurement.kind === 'response' ? 'Measured − Simulated SPL' : 'Measured − Simulated |Z|'}
+                  plotType="spl"
+                  yAxisLabel="Difference (dB)"
+                  minDb={-20}
+                  maxDb={20}
+                  yStep={5}
+                  color={MEASUREMENT_COLOR}
+                  backgroundColor="#0a0a0a"
+                />
+              )}
+              
+              {/* Download */}
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Download Simulation
+                </label>
+                <div className="flex space-x-2">
+                  <select
+                    value={responseFormat}
+                    onChange={(e) => setResponseFormat(e.target.value as ResponseExportFormat)}
+                    className="flex-1 px-3 py-2 glass-input rounded-lg text-white outline-none text-sm"
+                  >
+                    {(Object.keys(RESPONSE_EXPORT_FORMATS) as ResponseExportFormat[]).map(format => (
+                      <option key={format} value={format} className="bg-gray-800 text-white">
+                        {RESPONSE_EXPORT_FORMATS[format].label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => exportResponseData(
+                      frequencyResponseData,
+                      responseFormat,
+                      `${hornParams.flareType} horn, ${hornParams.length} mm, ${MOUTH_LOADS[mouthLoad]} mouth load`
+                    )}
+                    className="px-4 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+                  >
+                    Download
+                  </button>
+                </div>
+                {RESPONSE_EXPORT_FORMATS[responseFormat].note && (
+                  <div className="text-xs text-gray-400 mt-1">{RESPONSE_EXPORT_FORMATS[responseFormat].note}</div>
+                )}
+              </div>
+
+              {/* Hornresp */}
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Hornresp
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => hornrespInputRef.current?.click()}
+                    className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+                  >
+                    Import Record
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => exportHornrespRecord(hornParams, driverParams, driver, mouthLoad)}
+                    className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+                    title="Horn segments S1-S5 and a driver section from the selected driver's datasheet values"
+                  >
+                    Export Record
+                  </button>
+                </div>
+                <input
+                  ref={hornrespInputRef}
+                  type="file"
+                  accept=".txt,text/plain"
+                  onChange={(e) => {
+                    handleHornrespImport(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                />
+              </div>
+
               {/* Response Summary */}
               <div className="mt-6 bg-green-900/20 rounded-lg p-4 border border-green-600/30">
                 <h3 className="text-sm font-bold text-green-300 mb-3">Response Summary</h3>
@@ -0,0 +1,54 @@
+import React, { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import { HornProfileParams, DriverMountParams } from "../types";
+import { HORN_GEOMETRY_CONSTANTS } from "./horn-geometry/HornGeometryConstants";
+import {
+  createOptimizedCircularHorn,
+  createOptimizedRectangularHorn,
+} from "./horn-geometry/HornProfileGenerator";
+
+const GHOST_OPACITY = 0.3;
+
+interface ComparisonHornGeometryProps {
+  hornParams: HornProfileParams;
+  driverParams: DriverMountParams;
+  color: string;
+  ghost?: boolean; // see-through, for overlaying on the live design
+}
+
+/**
+ * Horn of a pinned design in its comparison color. Only the horn is drawn;
+ * plate and driver mount stay with the live design.
+ */
+const ComparisonHornGeometry = React.memo(({
+  hornParams,
+  driverParams,
+  color,
+  ghost = false,
+}: ComparisonHornGeometryProps) => {
+  const geometry = useMemo(() => {
+    const steps = HORN_GEOMETRY_CONSTANTS.PERFORMANCE_SETTINGS.medium.hornSteps;
+    return hornParams.roundMouth
+      ? createOptimizedCircularHorn(hornParams, steps, driverParams)
+      : createOptimizedRectangularHorn(hornParams, steps, driverParams);
+  }, [hornParams, driverParams]);
+
+  const material = useMemo(() => new THREE.MeshStandardMaterial({
+    color,
+    metalness: HORN_GEOMETRY_CONSTANTS.MATERIALS.horn.metalness,
+    roughness: HORN_GEOMETRY_CONSTANTS.MATERIALS.horn.roughness,
+    side: THREE.DoubleSide,
+    transparent: ghost,
+    opacity: ghost ? GHOST_OPACITY : 1,
+    depthWrite: !ghost,
+  }), [color, ghost]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  return <mesh geometry={geometry} material={material} castShadow={!ghost} receiveShadow={!ghost} />;
+});
+
+ComparisonHornGeometry.displayName = "ComparisonHornGeometry";
+
+export default ComparisonHornGeometry;
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { PinnedDesign } from '../types';
+import { ComparisonLayout, MAX_PINNED_DESIGNS } from '../utils/designComparison';
+
+interface ComparisonMenuProps {
+  pinnedDesigns: PinnedDesign[];
+  showComparison: boolean;
+  layout: ComparisonLayout;
+  onPin: () => void;
+  onPinnedDesignsChange: (designs: PinnedDesign[]) => void;
+  onLoad: (design: PinnedDesign) => void;
+  onShowComparisonChange: (show: boolean) => void;
+  onLayoutChange: (layout: ComparisonLayout) => void;
+}
+
+export default function ComparisonMenu({
+  pinnedDesigns,
+  showComparison,
+  layout,
+  onPin,
+  onPinnedDesignsChange,
+  onLoad,
+  onShowComparisonChange,
+  onLayoutChange
+}: ComparisonMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const canPin = pinnedDesigns.length < MAX_PINNED_DESIGNS;
+
+  const renameDesign = (id: string, name: string) => {
+    onPinnedDesignsChange(pinnedDesigns.map(design => design.id === id ? { ...design, name } : design));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className={`glass-button px-4 py-3 rounded-xl font-medium flex items-center space-x-2 shadow-lg hover:shadow-xl transition-all duration-300 ${
+          showComparison && pinnedDesigns.length > 0 ? 'text-purple-300' : 'text-white'
+        }`}
+        title="Pin designs and compare them with the live one"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+        </svg>
+        <span>Compare{pinnedDesigns.length > 0 ? ` (${pinnedDesigns.length + 1})` : ''}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-20 glass-dark rounded-2xl p-5 shadow-2xl w-96 text-sm space-y-3">
+          <p className="text-xs text-gray-400">
+            Pinned designs are drawn over the live one in the profile, 3D view and acoustic plots.
+          </p>
+
+          {pinnedDesigns.length === 0 ? (
+            <div className="text-gray-500 text-xs">Nothing pinned yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {pinnedDesigns.map(design => (
+                <div key={design.id} className="flex items-center space-x-2">
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: design.color }}></span>
+                  <input
+                    type="text"
+                    value={design.name}
+                    onChange={(e) => renameDesign(design.id, e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1 glass-input rounded-lg text-white outline-none text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onLoad(design)}
+                    className="px-2 py-1 rounded-lg text-xs font-medium glass-button text-gray-300 hover:text-white"
+                    title="Make this the live design (undoable)"
+                  >
+                    Load
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onPinnedDesignsChange(pinnedDesigns.filter(pinned => pinned.id !== design.id))}
+                    className="px-2 py-1 rounded-lg text-xs font-medium glass-button text-gray-300 hover:text-red-300"
+                    title="Unpin"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={onPin}
+            disabled={!canPin}
+            className="w-full px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {canPin ? 'Pin Current Design' : `${MAX_PINNED_DESIGNS} designs pinned`}
+          </button>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 cursor-pointer text-gray-300">
+              <input
+                type="checkbox"
+                checked={showComparison}
+                onChange={(e) => onShowComparisonChange(e.target.checked)}
+                className="sr-only"
+              />
+              <div className={`relative w-11 h-6 rounded-full transition-all duration-200 ease-in-out ${
+                showComparison ? 'bg-blue-600 shadow-lg' : 'bg-gray-600'
+              }`}>
+                <div className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-all duration-200 ease-in-out transform ${
+                  showComparison ? 'translate-x-5 scale-105' : 'translate-x-0 scale-100'
+                } shadow-md`}></div>
+              </div>
+              <span>Show comparison</span>
+            </label>
+            <select
+              value={layout}
+              onChange={(e) => onLayoutChange(e.target.value as ComparisonLayout)}
+              className="px-3 py-2 glass-input rounded-lg text-white outline-none text-sm"
+              title="How pinned designs appear in 3D"
+            >
+              <option value="side-by-side" className="bg-gray-800 text-white">3D side by side</option>
+              <option value="ghost" className="bg-gray-800 text-white">3D ghost overlay</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { MaterialType } from '../types';
+import { CostCalculationResult } from '../utils/costCalculator';
+import { ASSEMBLY_PART_LABELS } from './horn-geometry/AssemblyGeometry';
+
+interface CostBreakdownProps {
+  cost: CostCalculationResult;
+  selectedMaterial: MaterialType;
+  materialCosts: { material: MaterialType; cost: CostCalculationResult }[];
+  onMaterialChange?: (material: MaterialType) => void;
+}
+
+function formatHours(hours: number): string {
+  const wholeHours = Math.floor(hours);
+  const minutes = Math.round((hours - wholeHours) * 60);
+  return `${wholeHours}h ${minutes.toString().padStart(2, '0')}m`;
+}
+
+export default function CostBreakdown({
+  cost,
+  selectedMaterial,
+  materialCosts,
+  onMaterialChange
+}: CostBreakdownProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="px-4 py-2 glass-input rounded-xl flex items-center space-x-3"
+        title="Show cost breakdown"
+      >
+        <span className="text-xl font-bold text-gray-300">
+          Cost as configured: <span className="bg-gradient-to-r from-green-400 to-blue-400 bg-clip-text text-transparent">${cost.totalCost.toFixed(2)}</span>
+        </span>
+        <span className="text-xs text-gray-400">
+          {cost.mass.toFixed(0)}g · {formatHours(cost.printTime)}
+        </span>
+        <svg className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 z-20 glass-dark rounded-2xl p-5 shadow-2xl w-[40rem] text-sm">
+          {/* Per-part breakdown */}
+          <h4 className="text-white font-semibold mb-2">Parts ({selectedMaterial.name})</h4>
+          <table className="w-full text-gray-300 mb-4">
+            <thead>
+              <tr className="text-xs text-gray-500 text-right">
+                <th className="text-left font-medium pb-1">Part</th>
+                <th className="font-medium pb-1">Volume</th>
+                <th className="font-medium pb-1">Surface</th>
+                <th className="font-medium pb-1">Shell / Infill</th>
+                <th className="font-medium pb-1">Mass</th>
+                <th className="font-medium pb-1">Filament</th>
+                <th className="font-medium pb-1">Time</th>
+                <th className="font-medium pb-1">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cost.parts.map(part => (
+                <tr key={part.name} className="text-right border-t border-white/5">
+                  <td className="text-left py-1">{ASSEMBLY_PART_LABELS[part.name]}</td>
+                  <td>{(part.volume / 1000).toFixed(1)} cm³</td>
+                  <td>{(part.surfaceArea / 100).toFixed(0)} cm²</td>
+                  <td>{(part.shellVolume / 1000).toFixed(1)} / {(part.infillVolume / 1000).toFixed(1)}</td>
+                  <td>{part.mass.toFixed(1)} g</td>
+                  <td>{part.filamentLength.toFixed(1)} m</td>
+                  <td>{formatHours(part.printTime)}</td>
+                  <td>${(part.materialCost + part.machineCost).toFixed(2)}</td>
+                </tr>
+              ))}
+              <tr className="text-right border-t border-white/20 text-white font-medium">
+                <td className="text-left py-1">Total</td>
+                <td>{(cost.volume / 1000).toFixed(1)} cm³</td>
+                <td></td>
+                <td></td>
+                <td>{cost.mass.toFixed(1)} g</td>
+                <td>{cost.filamentLength.toFixed(1)} m</td>
+                <td>{formatHours(cost.printTime)}</td>
+                <td>${(cost.materialCost + cost.machineCost).toFixed(2)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {/* Cost summary */}
+          <div className="grid grid-cols-5 gap-2 mb-4 text-center">
+            {([
+              ['Material', cost.materialCost],
+              ['Machine', cost.machineCost],
+              ['Labor', cost.laborCost],
+              ['Margin', cost.margin],
+              ['Total', cost.totalCost]
+            ] as const).map(([label, value]) => (
+              <div key={label} className="glass-input rounded-lg py-2">
+                <div className="text-xs text-gray-500">{label}</div>
+                <div className={label === 'Total' ? 'text-green-300 font-semibold' : 'text-gray-200'}>${value.toFixed(2)}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Per-material comparison */}
+          <h4 className="text-white font-semibold mb-2">By Material</h4>
+          <table className="w-full text-gray-300">
+            <thead>
+              <tr className="text-xs text-gray-500 text-right">
+                <th className="text-left font-medium pb-1">Material</th>
+                <th className="font-medium pb-1">Density</th>
+                <th className="font-medium pb-1">Mass</th>
+                <th className="font-medium pb-1">Spools</th>
+                <th className="font-medium pb-1">Material</th>
+                <th className="font-medium pb-1">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {materialCosts.map(({ material, cost: materialCost }) => (
+                <tr
+                  key={material.id}
+                  onClick={() => onMaterialChange?.(material)}
+                  className={`text-right border-t border-white/5 ${onMaterialChange ? 'cursor-pointer hover:bg-white/5' : ''} ${
+                    material.id === selectedMaterial.id ? 'text-purple-300' : ''
+                  }`}
+                >
+                  <td className="text-left py-1">{material.name}</td>
+                  <td>{material.density.toFixed(2)} g/cm³</td>
+                  <td>{materialCost.mass.toFixed(1)} g</td>
+                  <td>{materialCost.spools.toFixed(2)}</td>
+                  <td>${materialCost.materialCost.toFixed(2)}</td>
+                  <td>${materialCost.totalCost.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
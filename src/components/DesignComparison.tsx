@@ -0,0 +1,157 @@
+/**
+ * DesignComparison Component
+ * Key numbers and beamwidth / DI curves of the live design against the
+ * pinned ones
+ */
+
+import React, { useMemo } from 'react';
+import { DriverMountParams, HornProfileParams } from '../lib/types';
+import { DirectivityModel, DirectivityPoint, FrequencyPoint, FrequencyResponseData } from '../acoustic/types';
+import { DirectivityCalculator } from '../acoustic/analysis/DirectivityIndex';
+import { FrequencyResponseAnalyzer } from '../acoustic/analysis/FrequencyResponse';
+import { useDirectivityMaps } from '../acoustic/visualization/ContourPlot';
+import { FrequencyPlot, FrequencyPlotOverlay } from '../acoustic/visualization/FrequencyPlot';
+import { calculateDirectivityModel } from './horn-geometry/HornProfileGenerator';
+import { CostCalculationResult } from '../utils/costCalculator';
+
+// Beamwidth and DI curves at 1/3 octave from 100 Hz to 20 kHz
+const DIRECTIVITY_FREQUENCIES = Array.from({ length: 24 }, (_, i) => 100 * Math.pow(2, i / 3));
+
+/**
+ * One design in the comparison, live design first
+ */
+export interface DesignComparisonEntry {
+  id: string;
+  name: string;
+  color: string;
+  hornParams: HornProfileParams;
+  driverParams?: DriverMountParams;
+  response: FrequencyResponseData;
+  cost: CostCalculationResult;
+}
+
+interface DesignComparisonProps {
+  designs: DesignComparisonEntry[];
+  frequency: number; // Hz - where dispersion and DI are tabulated
+  width?: number;
+}
+
+export const DesignComparison: React.FC<DesignComparisonProps> = ({
+  designs,
+  frequency,
+  width = 350
+}) => {
+  // Two models per design, horizontal then vertical; the hook solves shared meridians once
+  const models = useMemo(() => designs.flatMap((design): DirectivityModel[] => [
+    calculateDirectivityModel(design.hornParams, 'horizontal', design.driverParams),
+    calculateDirectivityModel(design.hornParams, 'vertical', design.driverParams),
+  ]), [designs]);
+  const { maps, progress, error } = useDirectivityMaps(models);
+
+  const directivity = useMemo(() => designs.map((_, i): DirectivityPoint[] | null => {
+    const horizontal = maps[2 * i];
+    const vertical = maps[2 * i + 1];
+    return horizontal && vertical
+      ? DirectivityCalculator.calculateFromDirectivityMaps(horizontal, vertical, [...DIRECTIVITY_FREQUENCIES, frequency])
+      : null;
+  }), [designs, maps, frequency]);
+
+  const cutoffs = useMemo(
+    () => designs.map(design => FrequencyResponseAnalyzer.calculateResponseCutoff(design.response.response)),
+    [designs]
+  );
+
+  // One plot per quantity: the live design as the main curve, pinned ones as overlays
+  const curves = useMemo(() => {
+    const curve = (i: number, value: (point: DirectivityPoint) => number): FrequencyPoint[] =>
+      (directivity[i] ?? []).slice(0, DIRECTIVITY_FREQUENCIES.length).map(point => ({ frequency: point.frequency, spl: value(point) }));
+    const plot = (value: (point: DirectivityPoint) => number) => ({
+      main: curve(0, value),
+      overlays: designs.slice(1).map((design, i): FrequencyPlotOverlay => ({
+        points: curve(i + 1, value),
+        color: design.color,
+        label: design.name,
+      })),
+    });
+    return {
+      horizontal: plot(point => point.horizontalBeamwidth),
+      vertical: plot(point => point.verticalBeamwidth),
+      directivityIndex: plot(point => point.directivityIndex),
+    };
+  }, [designs, directivity]);
+
+  // Values at the analysis frequency, last in each design's list
+  const atFrequency = directivity.map(points => points?.[points.length - 1] ?? null);
+  const rows: Array<{ label: string; values: string[] }> = [
+    { label: 'Cutoff (−3 dB)', values: cutoffs.map(cutoff => `${cutoff.toFixed(0)} Hz`) },
+    { label: `Horizontal @ ${frequency} Hz`, values: atFrequency.map(point => point ? `${point.horizontalBeamwidth.toFixed(0)}°` : '--') },
+    { label: `Vertical @ ${frequency} Hz`, values: atFrequency.map(point => point ? `${point.verticalBeamwidth.toFixed(0)}°` : '--') },
+    { label: `DI @ ${frequency} Hz`, values: atFrequency.map(point => point ? `${point.directivityIndex.toFixed(1)} dB` : '--') },
+    { label: 'Mass', values: designs.map(design => `${design.cost.mass.toFixed(0)} g`) },
+    { label: 'Cost', values: designs.map(design => `$${design.cost.totalCost.toFixed(2)}`) },
+  ];
+
+  const directivityPlots = [
+    { key: 'horizontal', title: 'Horizontal Beamwidth (-6 dB)', label: 'Beamwidth (°)', min: 0, max: 180, step: 30 },
+    { key: 'vertical', title: 'Vertical Beamwidth (-6 dB)', label: 'Beamwidth (°)', min: 0, max: 180, step: 30 },
+    { key: 'directivityIndex', title: 'Directivity Index', label: 'DI (dB)', min: 0, max: 20, step: 5 },
+  ] as const;
+
+  return (
+    <div className="space-y-4">
+      <table className="w-full text-xs text-gray-300 table-fixed">
+        <thead>
+          <tr className="text-right">
+            <th className="w-1/4"></th>
+            {designs.map(design => (
+              <th key={design.id} className="font-medium pb-2 pl-1">
+                <div className="flex items-center justify-end space-x-1">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: design.color }}></span>
+                  <span className="truncate text-white" title={design.name}>{design.name}</span>
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="text-right border-t border-white/5">
+              <td className="text-left py-1 text-gray-400">{row.label}</td>
+              {row.values.map((value, i) => (
+                <td key={designs[i].id} className="pl-1">{value}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {progress !== undefined && (
+        <div className="text-xs text-gray-400">Solving BEM… {Math.round(progress * 100)}%</div>
+      )}
+      {error && (
+        <div className="text-xs text-red-300">BEM solve failed: {error}</div>
+      )}
+
+      {directivityPlots.map(plot => (
+        <FrequencyPlot
+          key={plot.key}
+          data={curves[plot.key].main}
+          overlays={curves[plot.key].overlays}
+          width={width}
+          height={200}
+          title={plot.title}
+          plotType="directivity"
+          yAxisLabel={plot.label}
+          showLegend
+          legendLabel={designs[0].name}
+          minDb={plot.min}
+          maxDb={plot.max}
+          yStep={plot.step}
+          minFreq={100}
+          color={designs[0].color}
+          backgroundColor="#0a0a0a"
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import { useRef, useState } from 'react';
+import { DriverMountParams, DriverSpec, DriverThreadSize } from '../types';
+import { DRIVER_THREADS } from '../constants';
+import {
+  createDriverSpecFromMount,
+  exportDriverLibrary,
+  getDefaultDriverLibrary,
+  importDriverLibrary
+} from '../utils/driverLibrary';
+
+interface DriverLibraryEditorProps {
+  drivers: DriverSpec[];
+  selectedDriver?: DriverSpec;
+  driverParams: DriverMountParams;
+  onDriversChange: (drivers: DriverSpec[]) => void;
+  onDriverSelect: (driver: DriverSpec) => void;
+}
+
+const NUMERIC_FIELDS = [
+  { key: 'exitDiameter', label: 'Exit Ø (mm)', min: 1, step: 0.1 },
+  { key: 'exitAngle', label: 'Exit Angle (°)', min: 0, step: 0.5 },
+  { key: 'flangeDiameter', label: 'Flange Ø (mm)', min: 1, step: 1 },
+  { key: 'boltCount', label: 'Bolts', min: 0, step: 1 },
+  { key: 'boltCircleDiameter', label: 'Bolt Circle Ø (mm)', min: 0, step: 0.1 },
+  { key: 'boltHoleDiameter', label: 'Bolt Hole Ø (mm)', min: 0, step: 0.1 }
+] as const;
+
+const PARAMETER_FIELDS = [
+  { key: 'fs', label: 'Fs (Hz)' },
+  { key: 'sensitivity', label: 'Sensitivity (dB)' },
+  { key: 'impedance', label: 'Impedance (Ω)' },
+  { key: 'powerHandling', label: 'Power (W)' },
+  { key: 'qts', label: 'Qts' },
+  { key: 'vas', label: 'Vas (L)' }
+] as const;
+
+export default function DriverLibraryEditor({
+  drivers,
+  selectedDriver,
+  driverParams,
+  onDriversChange,
+  onDriverSelect
+}: DriverLibraryEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateSelected = (changes: Partial<DriverSpec>) => {
+    if (!selectedDriver) return;
+    onDriversChange(drivers.map(driver =>
+      driver.id === selectedDriver.id ? { ...driver, ...changes } : driver
+    ));
+  };
+
+  // Blank datasheet fields are unknown rather than zero
+  const updateParameter = (key: typeof PARAMETER_FIELDS[number]['key'], value: string) => {
+    const parameters = { ...selectedDriver?.parameters };
+    if (value === '') {
+      delete parameters[key];
+    } else {
+      parameters[key] = Number(value);
+    }
+    updateSelected({ parameters: Object.keys(parameters).length > 0 ? parameters : undefined });
+  };
+
+  const addFromMount = () => {
+    const driver = createDriverSpecFromMount(driverParams, selectedDriver ? `${selectedDriver.name} (custom)` : 'Custom driver');
+    onDriversChange([...drivers, driver]);
+    onDriverSelect(driver);
+  };
+
+  const removeSelected = () => {
+    if (!selectedDriver || drivers.length <= 1) return;
+    onDriversChange(drivers.filter(driver => driver.id !== selectedDriver.id));
+  };
+
+  const resetLibrary = () => {
+    if (window.confirm('Replace the driver library with the built-in drivers?')) {
+      onDriversChange(getDefaultDriverLibrary());
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onDriversChange(importDriverLibrary(await file.text(), drivers));
+    } catch (error) {
+      console.error('Driver import failed:', error);
+      alert(`Driver import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="text-sm text-purple-300 hover:text-purple-200 transition-colors"
+      >
+        {isOpen ? 'Hide driver library' : 'Edit driver library'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          {selectedDriver && (
+            <>
+              <input
+                type="text"
+                value={selectedDriver.name}
+                onChange={(e) => updateSelected({ name: e.target.value })}
+                className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                placeholder="Driver name"
+              />
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Mount</label>
+                  <select
+                    value={selectedDriver.mountType}
+                    onChange={(e) => updateSelected({
+                      mountType: e.target.value as DriverSpec['mountType'],
+                      threadSize: e.target.value === 'screw-on' ? selectedDriver.threadSize || '1-3/8-18' : undefined
+                    })}
+                    className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none"
+                  >
+                    <option value="bolt-on" className="bg-gray-800 text-white">Bolt-on</option>
+                    <option value="screw-on" className="bg-gray-800 text-white">Screw-on</option>
+                  </select>
+                </div>
+                {selectedDriver.mountType === 'screw-on' && (
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Thread</label>
+                    <select
+                      value={selectedDriver.threadSize}
+                      onChange={(e) => updateSelected({ threadSize: e.target.value as DriverThreadSize })}
+                      className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none"
+                    >
+                      {(Object.keys(DRIVER_THREADS) as DriverThreadSize[]).map(size => (
+                        <option key={size} value={size} className="bg-gray-800 text-white">
+                          {DRIVER_THREADS[size].label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {NUMERIC_FIELDS.map(({ key, label, min, step }) => (
+                  <div key={key}>
+                    <label className="block text-xs text-gray-400 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min={min}
+                      step={step}
+                      value={selectedDriver[key]}
+                      onChange={(e) => updateSelected({ [key]: Math.max(min, Number(e.target.value)) })}
+                      className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {PARAMETER_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-xs text-gray-400 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      value={selectedDriver.parameters?.[key] ?? ''}
+                      onChange={(e) => updateParameter(key, e.target.value)}
+                      className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                      placeholder="—"
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              type="button"
+              onClick={addFromMount}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+              title="Add the current mount as a new driver"
+            >
+              Add
+            </button>
+            <button
+              type="button"
+              onClick={removeSelected}
+              disabled={!selectedDriver || drivers.length <= 1}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white disabled:opacity-40"
+            >
+              Delete
+            </button>
+            <button
+              type="button"
+              onClick={resetLibrary}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+            >
+              Reset
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+            >
+              Import JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => exportDriverLibrary(drivers)}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+            >
+              Export JSON
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
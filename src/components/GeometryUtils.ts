@@ -25,11 +25,19 @@ export {
   applyCsgOperations,
   createFastCSGHoles,
   subtractGeometries,
+  unionGeometries,
+  intersectGeometries,
   validateCSGInput,
   cleanupCSGGeometry,
   type CSGResult,
 } from "./geometry/CSGOperations";
 
+export {
+  repairMesh,
+  findOpenEdges,
+  countOpenEdges,
+} from "./geometry/MeshRepair";
+
 export {
   createRingGeometry,
   createRectangularRingGeometry,
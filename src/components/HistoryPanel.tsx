@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { DesignHistory } from '../utils/designHistory';
+
+interface HistoryPanelProps {
+  history: DesignHistory;
+  onJump: (index: number) => void;
+}
+
+export default function HistoryPanel({ history, onJump }: HistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const canUndo = history.index > 0;
+  const canRedo = history.index < history.entries.length - 1;
+
+  return (
+    <div className="relative flex items-center space-x-1">
+      <button
+        type="button"
+        onClick={() => onJump(history.index - 1)}
+        disabled={!canUndo}
+        className="glass-button px-3 py-3 rounded-xl text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        title={canUndo ? `Undo ${history.entries[history.index].label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={() => onJump(history.index + 1)}
+        disabled={!canRedo}
+        className="glass-button px-3 py-3 rounded-xl text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        title={canRedo ? `Redo ${history.entries[history.index + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="glass-button px-3 py-3 rounded-xl text-white"
+        title="History"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-20 glass-dark rounded-2xl p-3 shadow-2xl w-80 text-sm">
+          <div className="flex items-center justify-between px-2 pb-2 text-xs text-gray-400">
+            <span>History</span>
+            <span>{history.entries.length} step{history.entries.length === 1 ? '' : 's'}</span>
+          </div>
+          <div className="max-h-96 overflow-y-auto space-y-1">
+            {/* Newest first; steps after the current one can still be redone */}
+            {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+              <button
+                key={`${index}-${entry.time}`}
+                type="button"
+                onClick={() => onJump(index)}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-left transition-colors ${
+                  index === history.index
+                    ? 'bg-blue-500/20 text-blue-200'
+                    : index > history.index
+                      ? 'text-gray-500 hover:bg-white/5'
+                      : 'text-gray-300 hover:bg-white/5'
+                }`}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="ml-3 text-xs text-gray-500 shrink-0">{new Date(entry.time).toLocaleTimeString()}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
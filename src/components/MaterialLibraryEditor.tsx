@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { MaterialType } from '../types';
+import { createMaterial, getDefaultMaterialLibrary } from '../utils/materialLibrary';
+
+interface MaterialLibraryEditorProps {
+  materials: MaterialType[];
+  selectedMaterial: MaterialType;
+  onMaterialsChange: (materials: MaterialType[]) => void;
+  onMaterialChange: (material: MaterialType) => void;
+}
+
+const NUMERIC_FIELDS = [
+  { key: 'density', label: 'Density (g/cm³)', min: 0.1, step: 0.01 },
+  { key: 'costPerKg', label: 'Cost ($/kg)', min: 0, step: 1 },
+  { key: 'spoolWeight', label: 'Spool (g)', min: 1, step: 50 },
+  { key: 'minWallThickness', label: 'Min Wall (mm)', min: 0.1, step: 0.1 },
+  { key: 'maxOverhang', label: 'Max Overhang (°)', min: 0, step: 5 },
+  { key: 'heatDeflectionTemp', label: 'HDT (°C)', min: 0, step: 5 }
+] as const;
+
+export default function MaterialLibraryEditor({
+  materials,
+  selectedMaterial,
+  onMaterialsChange,
+  onMaterialChange
+}: MaterialLibraryEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const updateSelected = (changes: Partial<MaterialType>) => {
+    onMaterialsChange(materials.map(material =>
+      material.id === selectedMaterial.id ? { ...material, ...changes } : material
+    ));
+  };
+
+  const addMaterial = () => {
+    const material = createMaterial(selectedMaterial);
+    onMaterialsChange([...materials, material]);
+    onMaterialChange(material);
+  };
+
+  const removeSelected = () => {
+    if (materials.length <= 1) return;
+    onMaterialsChange(materials.filter(material => material.id !== selectedMaterial.id));
+  };
+
+  const resetLibrary = () => {
+    if (window.confirm('Replace the material library with the built-in materials?')) {
+      onMaterialsChange(getDefaultMaterialLibrary());
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="text-sm text-purple-300 hover:text-purple-200 transition-colors"
+      >
+        {isOpen ? 'Hide material library' : 'Edit material library'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          <div className="flex items-center space-x-3">
+            <input
+              type="color"
+              value={selectedMaterial.color}
+              onChange={(e) => updateSelected({ color: e.target.value })}
+              className="w-10 h-10 rounded-lg bg-transparent cursor-pointer"
+              title="Preview color"
+            />
+            <input
+              type="text"
+              value={selectedMaterial.name}
+              onChange={(e) => updateSelected({ name: e.target.value })}
+              className="flex-1 px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+              placeholder="Material name"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {NUMERIC_FIELDS.map(({ key, label, min, step }) => (
+              <div key={key}>
+                <label className="block text-xs text-gray-400 mb-1">{label}</label>
+                <input
+                  type="number"
+                  min={min}
+                  step={step}
+                  value={selectedMaterial[key]}
+                  onChange={(e) => updateSelected({ [key]: Math.max(min, Number(e.target.value)) })}
+                  className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              type="button"
+              onClick={addMaterial}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+            >
+              Duplicate
+            </button>
+            <button
+              type="button"
+              onClick={removeSelected}
+              disabled={materials.length <= 1}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white disabled:opacity-40"
+            >
+              Delete
+            </button>
+            <button
+              type="button"
+              onClick={resetLibrary}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -63,14 +63,14 @@ const OptimizedHornGeometry = React.memo(({
   );
   
   const hornGeometry = useMemo(() => {
-    const cacheKey = `horn_${JSON.stringify(hornParams)}_${performanceMode}`;
+    const cacheKey = `horn_${JSON.stringify(hornParams)}_${JSON.stringify(driverParams.throatAdapter)}_${driverParams.throatDiameter}_${performanceMode}`;
     
     return getCachedGeometry(cacheKey, () => {
       const startTime = performance.now();
       
       const geometry = hornParams.roundMouth
-        ? createOptimizedCircularHorn(hornParams, perfSettings.hornSteps)
-        : createOptimizedRectangularHorn(hornParams, perfSettings.hornSteps);
+        ? createOptimizedCircularHorn(hornParams, perfSettings.hornSteps, driverParams)
+        : createOptimizedRectangularHorn(hornParams, perfSettings.hornSteps, driverParams);
       
       const elapsed = performance.now() - startTime;
       if (elapsed > HORN_GEOMETRY_CONSTANTS.PERFORMANCE_WARNING_THRESHOLD_MS) {
@@ -80,7 +80,7 @@ const OptimizedHornGeometry = React.memo(({
       geometryRefs.current.push(geometry);
       return geometry;
     });
-  }, [hornParams, performanceMode, perfSettings]);
+  }, [hornParams, driverParams, performanceMode, perfSettings]);
   
   const plateGeometries = useMemo(() => {
     if (!showMountingPlate) return null;
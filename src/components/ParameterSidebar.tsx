@@ -1,6 +1,13 @@
-import { HornProfileParams, MountPlateParams, DriverMountParams, MaterialType } from '../types';
-import { MATERIALS } from '../constants';
-import { ProfileType, getProfileDisplayName } from '../profiles';
+import { useRef } from 'react';
+import { HornProfileParams, MountPlateParams, DriverMountParams, MaterialType, DriverSpec, PrintSettings, SegmentationParams, SegmentKeyType, CrossSectionShape, CrossSectionShapeParams, MouthTerminationParams, ThroatAdapterParams, DriverThreadParams, DriverThreadSize } from '../types';
+import { DEFAULT_CROSS_SECTION, DEFAULT_MOUTH_TERMINATION, DEFAULT_THROAT_ADAPTER, DEFAULT_DRIVER_THREAD, DRIVER_THREADS } from '../constants';
+import { ManufacturabilityIssue } from '../utils/manufacturability';
+import MaterialLibraryEditor from './MaterialLibraryEditor';
+import DriverLibraryEditor from './DriverLibraryEditor';
+import { ProfileType, getProfileDisplayName, createCustomProfileFrom, CustomProfileInterpolation, DEFAULT_CUSTOM_PROFILE } from '../profiles';
+import { calculateFlareProfile } from './horn-geometry/HornProfileGenerator';
+import { MIN_DOWEL_WALL_THICKNESS } from './horn-geometry/HornSegmentation';
+import { importProfileFile } from '../utils/profileImport';
 
 interface ParameterSidebarProps {
   hornParams: HornProfileParams;
@@ -13,8 +20,18 @@ interface ParameterSidebarProps {
   onPlateParamsChange: (params: MountPlateParams) => void;
   onDriverParamsChange: (params: DriverMountParams) => void;
   onMaterialChange: (material: MaterialType) => void;
+  materialLibrary: MaterialType[];
+  onMaterialLibraryChange: (materials: MaterialType[]) => void;
+  driverLibrary: DriverSpec[];
+  onDriverLibraryChange: (drivers: DriverSpec[]) => void;
+  onDriverSelect: (driver: DriverSpec) => void;
+  manufacturabilityIssues: ManufacturabilityIssue[];
+  printSettings: PrintSettings;
+  onPrintSettingsChange: (settings: PrintSettings) => void;
   onToggleMountingPlate: (show: boolean) => void;
   onToggleDriverMount: (show: boolean) => void;
+  segmentationParams: SegmentationParams;
+  onSegmentationParamsChange: (params: SegmentationParams) => void;
   performanceMode?: 'high' | 'medium' | 'low';
   onPerformanceModeChange?: (mode: 'high' | 'medium' | 'low') => void;
   showPerformanceMonitor?: boolean;
@@ -32,13 +49,75 @@ export default function ParameterSidebar({
   onPlateParamsChange,
   onDriverParamsChange,
   onMaterialChange,
+  materialLibrary,
+  onMaterialLibraryChange,
+  driverLibrary,
+  onDriverLibraryChange,
+  onDriverSelect,
+  manufacturabilityIssues,
+  printSettings,
+  onPrintSettingsChange,
   onToggleMountingPlate,
   onToggleDriverMount,
+  segmentationParams,
+  onSegmentationParamsChange,
   performanceMode = 'high',
   onPerformanceModeChange,
   showPerformanceMonitor = false,
   onTogglePerformanceMonitor
 }: ParameterSidebarProps) {
+  const crossSection = hornParams.crossSection || DEFAULT_CROSS_SECTION;
+  const updateCrossSection = (changes: Partial<CrossSectionShapeParams>) => onHornParamsChange({
+    ...hornParams,
+    crossSection: { ...crossSection, ...changes }
+  });
+  // Switching an axis to the custom profile starts it from that axis' current shape
+  const selectProfile = (axis: 'flareType' | 'heightFlareType', type: ProfileType | undefined) => {
+    const previous = (axis === 'heightFlareType' && hornParams.heightFlareType) || hornParams.flareType;
+    const mouthRadius = (axis === 'heightFlareType' ? hornParams.mouthHeight || hornParams.mouthWidth : hornParams.mouthWidth) / 2;
+    const seed = type === ProfileType.CUSTOM && !hornParams.customProfile && previous !== ProfileType.CUSTOM &&
+      mouthRadius > hornParams.throatDiameter / 2
+      ? createCustomProfileFrom(calculateFlareProfile(hornParams, previous, mouthRadius))
+      : hornParams.customProfile;
+    onHornParamsChange({ ...hornParams, [axis]: type, customProfile: seed });
+  };
+  const customProfile = hornParams.customProfile || DEFAULT_CUSTOM_PROFILE;
+  // The imported profile is only offered once there is a contour to follow
+  const profileTypes = Object.values(ProfileType).filter(type => type !== ProfileType.IMPORTED || hornParams.importedProfile);
+  const contourInputRef = useRef<HTMLInputElement>(null);
+  const handleContourImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { hornParams: imported, notes } = importProfileFile(await file.text(), file.name, hornParams);
+      onHornParamsChange(imported);
+      if (notes.length > 0) {
+        alert(`Profile imported:\n${notes.join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Profile import failed:', error);
+      alert(`Profile import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  const usesCustomProfile = [hornParams.flareType, hornParams.roundMouth ? undefined : hornParams.heightFlareType]
+    .includes(ProfileType.CUSTOM);
+  const mouthTermination = hornParams.mouthTermination || DEFAULT_MOUTH_TERMINATION;
+  const updateMouthTermination = (changes: Partial<MouthTerminationParams>) => onHornParamsChange({
+    ...hornParams,
+    mouthTermination: { ...mouthTermination, ...changes }
+  });
+  const selectedDriver = driverLibrary.find(driver => driver.id === driverParams.driverId);
+  const driverThread = driverParams.thread || DEFAULT_DRIVER_THREAD;
+  const updateDriverThread = (changes: Partial<DriverThreadParams>) => onDriverParamsChange({
+    ...driverParams,
+    thread: { ...driverThread, ...changes }
+  });
+
+  const throatAdapter = driverParams.throatAdapter || DEFAULT_THROAT_ADAPTER;
+  const updateThroatAdapter = (changes: Partial<ThroatAdapterParams>) => onDriverParamsChange({
+    ...driverParams,
+    throatAdapter: { ...throatAdapter, ...changes }
+  });
+
   return (
     <div className="w-[28rem] glass-dark rounded-r-3xl m-4 ml-0 flex flex-col h-[calc(100vh-2rem)] shadow-2xl">
       {/* Header */}
@@ -68,26 +147,180 @@ export default function ParameterSidebar({
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 Horn Type
               </label>
-              <select
-                value={hornParams.flareType}
-                onChange={(e) => onHornParamsChange({ 
-                  ...hornParams, 
-                  flareType: e.target.value as ProfileType 
-                })}
-                className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
-              >
-                {Object.values(ProfileType).map(type => (
-                  <option key={type} value={type} className="bg-gray-800 text-white">
-                    {getProfileDisplayName(type)}
-                  </option>
-                ))}
-              </select>
+              <div className="flex space-x-2">
+                <select
+                  value={hornParams.flareType}
+                  onChange={(e) => selectProfile('flareType', e.target.value as ProfileType)}
+                  className="flex-1 px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                >
+                  {profileTypes.map(type => (
+                    <option key={type} value={type} className="bg-gray-800 text-white">
+                      {getProfileDisplayName(type)}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => contourInputRef.current?.click()}
+                  className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+                  title="Import a contour: CSV of x, r in mm, or a DXF polyline or spline (X along the axis, Y as radius)"
+                >
+                  Import…
+                </button>
+              </div>
+              <input
+                ref={contourInputRef}
+                type="file"
+                accept=".csv,.txt,.dxf"
+                onChange={(e) => {
+                  handleContourImport(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              {hornParams.importedProfile && [hornParams.flareType, hornParams.roundMouth ? undefined : hornParams.heightFlareType].includes(ProfileType.IMPORTED) && (
+                <p className="mt-2 text-xs text-gray-400">
+                  Contour {hornParams.importedProfile.name}, {hornParams.importedProfile.points.length} points, stretched to the throat, mouth and length.
+                </p>
+              )}
             </div>
 
+            {/* Vertical Profile - rectangular horns can flare differently on each axis */}
+            {!hornParams.roundMouth && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Vertical Profile
+                </label>
+                <select
+                  value={hornParams.heightFlareType || ''}
+                  onChange={(e) => selectProfile('heightFlareType', (e.target.value || undefined) as ProfileType | undefined)}
+                  className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                >
+                  <option value="" className="bg-gray-800 text-white">
+                    Same as horizontal
+                  </option>
+                  {profileTypes.map(type => (
+                    <option key={type} value={type} className="bg-gray-800 text-white">
+                      {getProfileDisplayName(type)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Custom Profile - points are dragged on the 2D profile */}
+            {usesCustomProfile && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Custom Curve
+                </label>
+                <div className="flex space-x-2">
+                  <select
+                    value={customProfile.interpolation}
+                    onChange={(e) => onHornParamsChange({
+                      ...hornParams,
+                      customProfile: { ...customProfile, interpolation: e.target.value as CustomProfileInterpolation }
+                    })}
+                    className="flex-1 px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                  >
+                    <option value="monotone" className="bg-gray-800 text-white">Monotone cubic (through points)</option>
+                    <option value="bezier" className="bg-gray-800 text-white">Bezier (points pull the curve)</option>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => onHornParamsChange({
+                      ...hornParams,
+                      customProfile: { ...DEFAULT_CUSTOM_PROFILE, interpolation: customProfile.interpolation }
+                    })}
+                    className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+                    title="Back to the default control points"
+                  >
+                    Reset
+                  </button>
+                </div>
+                <p className="mt-2 text-xs text-gray-400">
+                  {customProfile.points.length} control point{customProfile.points.length === 1 ? '' : 's'}. Drag them in the 2D view; double-click to add or remove one.
+                </p>
+              </div>
+            )}
+
+            {/* Cross-Section - round throat blending into the mouth shape */}
+            {!hornParams.roundMouth && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Cross-Section
+                </label>
+                <div className="flex space-x-1">
+                  {([
+                    ['rectangle', 'Rectangle'],
+                    ['rounded-rectangle', 'Rounded'],
+                    ['superellipse', 'Superellipse']
+                  ] as [CrossSectionShape, string][]).map(([shape, label]) => (
+                    <button
+                      key={shape}
+                      type="button"
+                      onClick={() => updateCrossSection({ shape })}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                        crossSection.shape === shape
+                          ? 'glass-button text-white'
+                          : 'text-gray-400 hover:text-gray-300 hover:bg-white/5'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {crossSection.shape !== 'rectangle' && (
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    {crossSection.shape === 'rounded-rectangle' ? (
+                      <div>
+                        <label className="block text-xs text-gray-400 mb-1">Mouth Corner Radius (mm)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={crossSection.mouthCornerRadius}
+                          onChange={(e) => updateCrossSection({ mouthCornerRadius: Math.max(0, Number(e.target.value)) })}
+                          className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                        />
+                      </div>
+                    ) : (
+                      <div>
+                        <label className="block text-xs text-gray-400 mb-1">Mouth Exponent</label>
+                        <input
+                          type="number"
+                          min="2"
+                          max="20"
+                          step="0.5"
+                          value={crossSection.mouthExponent}
+                          onChange={(e) => updateCrossSection({ mouthExponent: Math.min(20, Math.max(2, Number(e.target.value))) })}
+                          className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">Morph Length (%)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="5"
+                        value={Math.round(crossSection.morphEnd * 100)}
+                        onChange={(e) => updateCrossSection({ morphEnd: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                        className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Cutoff Frequency - show for certain profiles */}
-            {(hornParams.flareType === ProfileType.LE_CLEACH || 
-              hornParams.flareType === ProfileType.JMLC || 
-              hornParams.flareType === ProfileType.SPHERICAL_WAVE) && (
+            {[hornParams.flareType, hornParams.roundMouth ? undefined : hornParams.heightFlareType].some(type =>
+              type === ProfileType.LE_CLEACH || 
+              type === ProfileType.JMLC || 
+              type === ProfileType.SPHERICAL_WAVE) && (
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
                   Cutoff Frequency (Hz)
@@ -230,6 +463,69 @@ export default function ParameterSidebar({
               <div className="text-sm text-orange-300 mt-2 font-medium">{hornParams.wallThickness}mm thick</div>
             </div>
 
+            {/* Mouth Lip - toroidal roll-back replacing the end of the flare */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-gray-300">
+                  Mouth Roll-Back
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={mouthTermination.enabled}
+                    onChange={(e) => updateMouthTermination({ enabled: e.target.checked })}
+                    className="sr-only"
+                  />
+                  <div className={`relative w-11 h-6 rounded-full transition-all duration-200 ease-in-out ${
+                    mouthTermination.enabled ? 'bg-blue-600 shadow-lg' : 'bg-gray-600'
+                  }`}>
+                    <div className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-all duration-200 ease-in-out transform ${
+                      mouthTermination.enabled ? 'translate-x-5 scale-105' : 'translate-x-0 scale-100'
+                    } shadow-md`}></div>
+                  </div>
+                </label>
+              </div>
+
+              {mouthTermination.enabled && (
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Radius (mm)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={mouthTermination.radius}
+                      onChange={(e) => updateMouthTermination({ radius: Math.max(1, Number(e.target.value)) })}
+                      className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Wrap (°)</label>
+                    <input
+                      type="number"
+                      min="90"
+                      max="270"
+                      step="5"
+                      value={mouthTermination.wrapAngle}
+                      onChange={(e) => updateMouthTermination({ wrapAngle: Math.min(270, Math.max(90, Number(e.target.value))) })}
+                      className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Blend (mm)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={mouthTermination.blendLength}
+                      onChange={(e) => updateMouthTermination({ blendLength: Math.max(0, Number(e.target.value)) })}
+                      className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Acoustic Analysis Divider */}
             <div className="border-t border-white/10 pt-4 mt-4">
               <div className="flex items-center justify-between mb-3">
@@ -693,20 +989,59 @@ export default function ParameterSidebar({
             </label>
           </div>
           <div className={`transition-all duration-300 ease-in-out overflow-hidden ${
-            showDriverMount ? 'max-h-[600px] opacity-100' : 'max-h-0 opacity-0'
+            showDriverMount ? 'max-h-[1600px] opacity-100' : 'max-h-0 opacity-0'
           }`}>
             <div className={`space-y-4 transition-all duration-300 ease-in-out ${
               showDriverMount ? 'pt-2' : 'pt-0'
             }`}>
               
-              {/* Mount Type */}
+              {/* Driver Catalog - fills the mount and horn throat */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Driver
+              </label>
+              <select
+                value={selectedDriver?.id ?? ''}
+                onChange={(e) => {
+                  const driver = driverLibrary.find(d => d.id === e.target.value);
+                  if (driver) onDriverSelect(driver);
+                }}
+                className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+              >
+                <option value="" disabled className="bg-gray-800 text-white">
+                  Custom
+                </option>
+                {driverLibrary.map(driver => (
+                  <option key={driver.id} value={driver.id} className="bg-gray-800 text-white">
+                    {driver.name}
+                  </option>
+                ))}
+              </select>
+              <DriverLibraryEditor
+                drivers={driverLibrary}
+                selectedDriver={selectedDriver}
+                driverParams={driverParams}
+                onDriversChange={onDriverLibraryChange}
+                onDriverSelect={onDriverSelect}
+              />
+            </div>
+
+            {/* Mount Type */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 Mount Type
               </label>
-              <div className="glass-button px-4 py-2 rounded-lg text-center">
-                <span className="text-white font-medium">Bolt-on Mount</span>
-              </div>
+              <select
+                value={driverParams.type}
+                onChange={(e) => onDriverParamsChange({
+                  ...driverParams,
+                  type: e.target.value as DriverMountParams['type']
+                })}
+                className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+              >
+                <option value="bolt-on" className="bg-gray-800 text-white">Bolt-on Mount</option>
+                <option value="screw-on" className="bg-gray-800 text-white">Screw-on Mount</option>
+              </select>
             </div>
 
             {/* Driver Parameters */}
@@ -756,56 +1091,334 @@ export default function ParameterSidebar({
               />
             </div>
 
+            {/* Thread Parameters - internal thread in a collar behind the flange */}
+            {driverParams.type === 'screw-on' && (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Thread
+                  </label>
+                  <select
+                    value={driverThread.size}
+                    onChange={(e) => updateDriverThread({ size: e.target.value as DriverThreadSize })}
+                    className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                  >
+                    {(Object.keys(DRIVER_THREADS) as DriverThreadSize[]).map(size => (
+                      <option key={size} value={size} className="bg-gray-800 text-white">
+                        {DRIVER_THREADS[size].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      Thread Length (mm)
+                    </label>
+                    <input
+                      type="number"
+                      min="2"
+                      value={driverThread.length}
+                      onChange={(e) => updateDriverThread({ length: Number(e.target.value) })}
+                      className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      Clearance (mm)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.05"
+                      value={driverThread.clearance}
+                      onChange={(e) => updateDriverThread({ clearance: Number(e.target.value) })}
+                      className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Bolt Parameters */}
-            <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-3">
+            {driverParams.type === 'bolt-on' && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      Bolt Count
+                    </label>
+                    <input
+                      type="number"
+                      min="3"
+                      max="8"
+                      value={driverParams.boltCount}
+                      onChange={(e) => onDriverParamsChange({ 
+                        ...driverParams, 
+                        boltCount: Number(e.target.value) 
+                      })}
+                      className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      Bolt Hole Ø (mm)
+                    </label>
+                    <input
+                      type="number"
+                      value={driverParams.boltHoleDiameter}
+                      onChange={(e) => onDriverParamsChange({ 
+                        ...driverParams, 
+                        boltHoleDiameter: Number(e.target.value) 
+                      })}
+                      className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-1">
-                    Bolt Count
+                    Bolt Circle Ø (mm)
                   </label>
                   <input
                     type="number"
-                    min="3"
-                    max="8"
-                    value={driverParams.boltCount}
+                    value={driverParams.boltCircleDiameter}
                     onChange={(e) => onDriverParamsChange({ 
                       ...driverParams, 
-                      boltCount: Number(e.target.value) 
+                      boltCircleDiameter: Number(e.target.value) 
                     })}
                     className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
                   />
                 </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-1">
-                    Bolt Hole Ø (mm)
-                  </label>
+              </div>
+            )}
+
+            {/* Throat Adapter - blends the driver exit (Throat Ø) into the horn profile */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-gray-300">
+                  Throat Adapter
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={throatAdapter.enabled}
+                    onChange={(e) => updateThroatAdapter({ enabled: e.target.checked })}
+                    className="sr-only"
+                  />
+                  <div className={`relative w-11 h-6 rounded-full transition-all duration-200 ease-in-out ${
+                    throatAdapter.enabled ? 'bg-blue-600 shadow-lg' : 'bg-gray-600'
+                  }`}>
+                    <div className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-all duration-200 ease-in-out transform ${
+                      throatAdapter.enabled ? 'translate-x-5 scale-105' : 'translate-x-0 scale-100'
+                    } shadow-md`}></div>
+                  </div>
+                </label>
+              </div>
+
+              {throatAdapter.enabled && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Exit Half-Angle (°)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="60"
+                      step="0.5"
+                      value={throatAdapter.exitAngle}
+                      onChange={(e) => updateThroatAdapter({ exitAngle: Math.min(60, Math.max(0, Number(e.target.value))) })}
+                      className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Length (mm)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={throatAdapter.length}
+                      onChange={(e) => updateThroatAdapter({ length: Math.max(1, Number(e.target.value)) })}
+                      className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          </div>
+        </div>
+
+        {/* Print Segmentation Section */}
+        <div className={`glass-section transition-all duration-300 ease-in-out ${
+          segmentationParams.enabled ? 'p-5' : 'px-5 py-3'
+        }`}>
+          <div className={`flex items-center justify-between transition-all duration-300 ease-in-out ${
+            segmentationParams.enabled ? 'mb-4' : 'mb-0'
+          }`}>
+            <div className={`flex items-center space-x-2 transition-opacity duration-200 ${
+              segmentationParams.enabled ? 'opacity-100' : 'opacity-70'
+            }`}>
+              <div className={`w-2 h-2 rounded-full transition-all duration-200 ${
+                segmentationParams.enabled ? 'bg-orange-400 shadow-sm' : 'bg-gray-500'
+              }`}></div>
+              <h3 className="text-base font-semibold text-white">Segment for Printing</h3>
+            </div>
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={segmentationParams.enabled}
+                onChange={(e) => onSegmentationParamsChange({
+                  ...segmentationParams,
+                  enabled: e.target.checked
+                })}
+                className="sr-only"
+              />
+              <div className={`relative w-11 h-6 rounded-full transition-all duration-200 ease-in-out ${
+                segmentationParams.enabled ? 'bg-blue-600 shadow-lg' : 'bg-gray-600'
+              }`}>
+                <div className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-all duration-200 ease-in-out transform ${
+                  segmentationParams.enabled ? 'translate-x-5 scale-105' : 'translate-x-0 scale-100'
+                } shadow-md`}></div>
+              </div>
+            </label>
+          </div>
+          <div className={`transition-all duration-300 ease-in-out overflow-hidden ${
+            segmentationParams.enabled ? 'max-h-[800px] opacity-100' : 'max-h-0 opacity-0'
+          }`}>
+            <div className={`space-y-4 transition-all duration-300 ease-in-out ${
+              segmentationParams.enabled ? 'pt-2' : 'pt-0'
+            }`}>
+
+            {/* Bed Volume */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Bed Volume W × D × H (mm)
+              </label>
+              <div className="grid grid-cols-3 gap-3">
+                {(['bedWidth', 'bedDepth', 'bedHeight'] as const).map((key) => (
                   <input
+                    key={key}
                     type="number"
-                    value={driverParams.boltHoleDiameter}
-                    onChange={(e) => onDriverParamsChange({ 
-                      ...driverParams, 
-                      boltHoleDiameter: Number(e.target.value) 
+                    min="50"
+                    value={segmentationParams[key]}
+                    onChange={(e) => onSegmentationParamsChange({
+                      ...segmentationParams,
+                      [key]: Number(e.target.value)
                     })}
                     className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
                   />
-                </div>
+                ))}
               </div>
+            </div>
+
+            {/* Cut Layout */}
+            <div className="grid grid-cols-2 gap-3">
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">
-                  Bolt Circle Ø (mm)
+                  Axial Slices
                 </label>
                 <input
                   type="number"
-                  value={driverParams.boltCircleDiameter}
-                  onChange={(e) => onDriverParamsChange({ 
-                    ...driverParams, 
-                    boltCircleDiameter: Number(e.target.value) 
+                  min="0"
+                  max="20"
+                  value={segmentationParams.axialSegments}
+                  onChange={(e) => onSegmentationParamsChange({
+                    ...segmentationParams,
+                    axialSegments: Math.max(0, Math.round(Number(e.target.value)))
                   })}
                   className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Radial Split
+                </label>
+                <select
+                  value={segmentationParams.radialSegments}
+                  onChange={(e) => onSegmentationParamsChange({
+                    ...segmentationParams,
+                    radialSegments: Number(e.target.value) as SegmentationParams['radialSegments']
+                  })}
+                  className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                >
+                  <option value={0} className="bg-gray-800 text-white">Auto</option>
+                  <option value={1} className="bg-gray-800 text-white">None</option>
+                  <option value={2} className="bg-gray-800 text-white">Halves</option>
+                  <option value={4} className="bg-gray-800 text-white">Quarters</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 -mt-2">0 slices = fit to bed height; Auto split = fit to bed footprint</p>
+
+            {/* Alignment Keys */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Alignment Keys
+              </label>
+              <div className="grid grid-cols-2 gap-1">
+                {([
+                  ['dovetail', 'Dovetail'],
+                  ['tongue-groove', 'Tongue & Groove'],
+                  ['dowel', 'Dowel Pins'],
+                  ['none', 'None']
+                ] as [SegmentKeyType, string][]).map(([keyType, label]) => (
+                  <button
+                    key={keyType}
+                    type="button"
+                    onClick={() => onSegmentationParamsChange({ ...segmentationParams, keyType })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                      segmentationParams.keyType === keyType
+                        ? 'glass-button text-white'
+                        : 'text-gray-400 hover:text-gray-300 hover:bg-white/5'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {segmentationParams.keyType === 'dowel' && hornParams.wallThickness < MIN_DOWEL_WALL_THICKNESS && (
+                <p className="text-xs text-yellow-300 mt-2">
+                  Walls under {MIN_DOWEL_WALL_THICKNESS.toFixed(1)}mm can't hold a dowel: the horn wall gets dovetails and dowels only go in the plate
+                </p>
+              )}
+            </div>
+
+            {segmentationParams.keyType !== 'none' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    {segmentationParams.keyType === 'dowel' ? 'Dowel Ø (mm)' : 'Key Size (mm)'}
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="0.5"
+                    value={segmentationParams.keySize}
+                    onChange={(e) => onSegmentationParamsChange({
+                      ...segmentationParams,
+                      keySize: Number(e.target.value)
+                    })}
+                    className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Clearance (mm)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.05"
+                    value={segmentationParams.keyClearance}
+                    onChange={(e) => onSegmentationParamsChange({
+                      ...segmentationParams,
+                      keyClearance: Number(e.target.value)
+                    })}
+                    className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                  />
+                </div>
+              </div>
+            )}
             </div>
-          </div>
           </div>
         </div>
 
@@ -900,20 +1513,88 @@ export default function ParameterSidebar({
               Printing Material
             </label>
             <select
-              value={selectedMaterial.name}
+              value={selectedMaterial.id}
               onChange={(e) => {
-                const material = MATERIALS.find(m => m.name === e.target.value)!;
+                const material = materialLibrary.find(m => m.id === e.target.value)!;
                 onMaterialChange(material);
               }}
               className="w-full px-4 py-2.5 glass-input rounded-lg text-white outline-none placeholder-gray-400"
             >
-              {MATERIALS.map((material) => (
-                <option key={material.name} value={material.name} className="bg-gray-800 text-white">
-                  {material.name} (${material.costPerGram.toFixed(3)}/g)
+              {materialLibrary.map((material) => (
+                <option key={material.id} value={material.id} className="bg-gray-800 text-white">
+                  {material.name} (${material.costPerKg.toFixed(0)}/kg)
                 </option>
               ))}
             </select>
+            <MaterialLibraryEditor
+              materials={materialLibrary}
+              selectedMaterial={selectedMaterial}
+              onMaterialsChange={onMaterialLibraryChange}
+              onMaterialChange={onMaterialChange}
+            />
           </div>
+
+          {/* Print Settings */}
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Print Settings
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              {([
+                { key: 'nozzleDiameter', label: 'Nozzle (mm)', min: 0.1, step: 0.1 },
+                { key: 'layerHeight', label: 'Layer (mm)', min: 0.04, step: 0.04 },
+                { key: 'printSpeed', label: 'Speed (mm/s)', min: 5, step: 5 },
+                { key: 'wallLoops', label: 'Walls', min: 1, step: 1 },
+                { key: 'filamentDiameter', label: 'Filament Ø (mm)', min: 1, step: 0.05 }
+              ] as const).map(({ key, label, min, step }) => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-400 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min={min}
+                    step={step}
+                    value={printSettings[key]}
+                    onChange={(e) => onPrintSettingsChange({
+                      ...printSettings,
+                      [key]: Math.max(min, Number(e.target.value))
+                    })}
+                    className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Infill (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={Math.round(printSettings.infillDensity * 100)}
+                  onChange={(e) => onPrintSettingsChange({
+                    ...printSettings,
+                    infillDensity: Math.min(100, Math.max(0, Number(e.target.value))) / 100
+                  })}
+                  className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Manufacturability */}
+          {manufacturabilityIssues.length > 0 && (
+            <ul className="mt-4 space-y-2 text-xs">
+              {manufacturabilityIssues.map((issue, index) => (
+                <li
+                  key={index}
+                  className={`px-3 py-2 rounded-lg ${
+                    issue.severity === 'error' ? 'bg-red-500/10 text-red-300' : 'bg-yellow-500/10 text-yellow-300'
+                  }`}
+                >
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
 
@@ -1,28 +1,121 @@
-import { useEffect, useRef, useMemo } from 'react';
-import { HornProfileParams } from '../types';
-import { getProfile, getProfileDisplayName } from '../profiles';
+import React, { useEffect, useRef, useMemo } from 'react';
+import { HornProfileParams, DriverMountParams, PinnedDesign } from '../types';
+import {
+  getProfileDisplayName,
+  calculateProfileShape,
+  calculateExpansionCutoff,
+  sanitizeCustomPoints,
+  CustomProfilePoint,
+  ProfileType,
+  DEFAULT_CUSTOM_PROFILE,
+  MAX_CUSTOM_PROFILE_POINTS,
+  CUSTOM_PROFILE_POINT_SPACING
+} from '../profiles';
+import { calculateFlareProfile, calculateWallStations, createRectangularAxisSamplers, resolveMouthParams } from './horn-geometry/HornProfileGenerator';
+import { getMouthTermination } from './horn-geometry/MouthTermination';
+import { getThroatAdapter, getThroatAdapterLength } from './horn-geometry/ThroatAdapter';
 
 interface Profile2DViewProps {
   hornParams: HornProfileParams;
+  driverParams?: DriverMountParams;
+  comparisons?: PinnedDesign[]; // pinned designs drawn over the profile in their colors
+  onHornParamsChange?: (params: HornProfileParams) => void; // enables dragging custom profile points
   onToggle3D: () => void;
 }
 
-export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewProps) {
+interface ProfileCurve {
+  x: number;       // mm along the axis
+  radius: number;  // mm
+}
+
+interface ProfileCurves {
+  width: ProfileCurve[];
+  height: ProfileCurve[] | null; // rectangular horns only
+  outer: ProfileCurve[];
+  followsWall: boolean;          // curves traced from the wall rings
+}
+
+interface CanvasLayout {
+  padding: number;
+  xScale: number;  // px per mm
+  yScale: number;  // px per mm
+  centerY: number; // px of the horn axis
+}
+
+const NO_COMPARISONS: PinnedDesign[] = [];
+const HANDLE_RADIUS = 6;      // px
+const HANDLE_HIT_RADIUS = 10; // px
+
+/**
+ * Interior and exterior curves of a horn. A throat adapter or a rolled-back
+ * lip changes the wall away from the flare profile, so the wall rings are
+ * traced instead.
+ */
+function calculateProfileCurves(hornParams: HornProfileParams, driverParams?: DriverMountParams): ProfileCurves {
+  const wallStations = getMouthTermination(hornParams) || getThroatAdapterLength(hornParams.length, driverParams) > 0
+    ? calculateWallStations(hornParams, 100, driverParams)
+    : null;
+
+  if (wallStations) {
+    return {
+      width: wallStations.map(station => ({ x: station.z, radius: station.halfWidth })),
+      height: hornParams.roundMouth ? null : wallStations.map(station => ({ x: station.z, radius: station.halfHeight })),
+      outer: wallStations.map(station => ({ x: station.outerZ, radius: station.outerHalfWidth })),
+      followsWall: true
+    };
+  }
+
+  const { mouthWidth, length, flareType } = hornParams;
+  const width = calculateFlareProfile(hornParams, flareType, mouthWidth / 2);
+
+  // Rectangular horns flare separately in height; draw that axis as a second curve
+  let height: ProfileCurve[] | null = null;
+  if (!hornParams.roundMouth) {
+    const sampler = createRectangularAxisSamplers(hornParams).height;
+    height = Array.from({ length: 101 }, (_, i) => ({
+      x: (i / 100) * length,
+      radius: sampler(i / 100)
+    }));
+  }
+
+  return {
+    width,
+    height,
+    outer: width.map(point => ({ x: point.x, radius: point.radius + hornParams.wallThickness })),
+    followsWall: false
+  };
+}
+
+export default function Profile2DView({ hornParams, driverParams, comparisons = NO_COMPARISONS, onHornParamsChange, onToggle3D }: Profile2DViewProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const layoutRef = useRef<CanvasLayout | null>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const termination = getMouthTermination(hornParams);
+  const adapter = getThroatAdapter(driverParams);
+  const adapterLength = getThroatAdapterLength(hornParams.length, driverParams);
   
-  // Calculate the horn profile points
-  const profilePoints = useMemo(() => {
-    const { throatDiameter, mouthWidth, length, flareType, cutoffFrequency } = hornParams;
-    
-    return getProfile(flareType, {
-      throatRadius: throatDiameter / 2,
-      mouthRadius: mouthWidth / 2,
-      length,
-      segments: 100,
-      cutoffFrequency
-    });
+  const curves = useMemo(() => calculateProfileCurves(hornParams, driverParams), [hornParams, driverParams]);
+  const { width: profilePoints, height: heightProfilePoints, outer: outerProfilePoints } = curves;
+
+  // The axis drawn with the custom profile: width, or the height of a rectangular horn
+  const customAxis = useMemo(() => {
+    const throatRadius = hornParams.throatDiameter / 2;
+    const mouthRadius = hornParams.flareType === ProfileType.CUSTOM
+      ? hornParams.mouthWidth / 2
+      : !hornParams.roundMouth && hornParams.heightFlareType === ProfileType.CUSTOM
+        ? (hornParams.mouthHeight || hornParams.mouthWidth) / 2
+        : null;
+    if (mouthRadius === null || mouthRadius <= throatRadius) return null;
+
+    const custom = hornParams.customProfile || DEFAULT_CUSTOM_PROFILE;
+    const shape = calculateProfileShape(calculateFlareProfile(hornParams, ProfileType.CUSTOM, mouthRadius));
+    return { throatRadius, mouthRadius, custom, points: sanitizeCustomPoints(custom.points), shape };
   }, [hornParams]);
 
+  const comparisonCurves = useMemo(() => comparisons.map(design => ({
+    design,
+    curves: calculateProfileCurves(design.state.hornParams, design.state.driverParams)
+  })), [comparisons]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -45,13 +138,21 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
     const graphWidth = rect.width - padding * 2;
     const graphHeight = rect.height - padding * 2;
 
-    // Find min/max values for scaling
-    const maxRadius = Math.max(...profilePoints.map(p => p.radius));
-    const maxX = hornParams.length;
+    // Find min/max values for scaling, over the pinned designs as well
+    const maxRadius = Math.max(
+      ...profilePoints.map(p => p.radius),
+      ...(heightProfilePoints || []).map(p => p.radius),
+      ...comparisonCurves.flatMap(({ curves }) => [...curves.width, ...(curves.height || [])].map(p => p.radius))
+    );
+    const maxX = Math.max(
+      curves.followsWall ? Math.max(...profilePoints.map(p => p.x)) : hornParams.length,
+      ...comparisonCurves.flatMap(({ curves }) => curves.width.map(p => p.x))
+    );
 
     // Scale factors
     const xScale = graphWidth / maxX;
     const yScale = (graphHeight / 2) / maxRadius; // Scale to use half height for each direction
+    layoutRef.current = { padding, xScale, yScale, centerY: rect.height / 2 };
 
     // Draw grid
     ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
@@ -91,6 +192,31 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
     ctx.lineTo(padding, rect.height - padding);
     ctx.stroke();
 
+    // Pinned designs underneath: width solid, height dashed
+    comparisonCurves.forEach(({ design, curves }) => {
+      ctx.strokeStyle = design.color;
+      ctx.lineWidth = 2;
+      [curves.width, curves.height].forEach((points, axis) => {
+        if (!points) return;
+        ctx.setLineDash(axis === 0 ? [] : [6, 4]);
+        [-1, 1].forEach(side => {
+          ctx.beginPath();
+          points.forEach((point, index) => {
+            const x = padding + point.x * xScale;
+            const y = rect.height / 2 + side * point.radius * yScale;
+            
+            if (index === 0) {
+              ctx.moveTo(x, y);
+            } else {
+              ctx.lineTo(x, y);
+            }
+          });
+          ctx.stroke();
+        });
+      });
+      ctx.setLineDash([]);
+    });
+
     // Draw profile (upper half)
     ctx.strokeStyle = '#3b82f6';
     ctx.lineWidth = 3;
@@ -122,6 +248,61 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
     });
     ctx.stroke();
 
+    // Draw vertical profile of rectangular horns
+    if (heightProfilePoints) {
+      ctx.strokeStyle = '#f59e0b';
+      ctx.lineWidth = 2;
+      
+      [-1, 1].forEach(side => {
+        ctx.beginPath();
+        heightProfilePoints.forEach((point, index) => {
+          const x = padding + point.x * xScale;
+          const y = rect.height / 2 + side * point.radius * yScale;
+          
+          if (index === 0) {
+            ctx.moveTo(x, y);
+          } else {
+            ctx.lineTo(x, y);
+          }
+        });
+        ctx.stroke();
+      });
+    }
+
+    // Draw the throat adapter over the start of the interior curves
+    if (adapterLength > 0) {
+      ctx.strokeStyle = '#ec4899';
+      ctx.lineWidth = 3;
+      
+      [profilePoints, heightProfilePoints].forEach(points => {
+        const adapterPoints = (points || []).filter(point => point.x <= adapterLength + 1e-6);
+        [-1, 1].forEach(side => {
+          ctx.beginPath();
+          adapterPoints.forEach((point, index) => {
+            const x = padding + point.x * xScale;
+            const y = rect.height / 2 + side * point.radius * yScale;
+            
+            if (index === 0) {
+              ctx.moveTo(x, y);
+            } else {
+              ctx.lineTo(x, y);
+            }
+          });
+          ctx.stroke();
+        });
+      });
+      
+      // Where the adapter hands over to the profile
+      ctx.strokeStyle = 'rgba(236, 72, 153, 0.5)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(padding + adapterLength * xScale, padding);
+      ctx.lineTo(padding + adapterLength * xScale, rect.height - padding);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
     // Draw wall thickness if visible
     if (hornParams.wallThickness > 0) {
       ctx.strokeStyle = '#ef4444';
@@ -130,9 +311,9 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
       
       // Upper outer wall
       ctx.beginPath();
-      profilePoints.forEach((point, index) => {
+      outerProfilePoints.forEach((point, index) => {
         const x = padding + point.x * xScale;
-        const y = rect.height / 2 - (point.radius + hornParams.wallThickness) * yScale;
+        const y = rect.height / 2 - point.radius * yScale;
         
         if (index === 0) {
           ctx.moveTo(x, y);
@@ -144,9 +325,9 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
       
       // Lower outer wall
       ctx.beginPath();
-      profilePoints.forEach((point, index) => {
+      outerProfilePoints.forEach((point, index) => {
         const x = padding + point.x * xScale;
-        const y = rect.height / 2 + (point.radius + hornParams.wallThickness) * yScale;
+        const y = rect.height / 2 + point.radius * yScale;
         
         if (index === 0) {
           ctx.moveTo(x, y);
@@ -199,12 +380,146 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
     ctx.textAlign = 'left';
     ctx.fillText(`Throat: ${hornParams.throatDiameter.toFixed(1)}mm`, padding + 10, rect.height / 2 - profilePoints[0].radius * yScale - 10);
     
-    // Mouth diameter
+    // Mouth diameter, at the front of a rolled-back lip
     ctx.textAlign = 'right';
-    const lastPoint = profilePoints[profilePoints.length - 1];
-    ctx.fillText(`Mouth: ${hornParams.mouthWidth.toFixed(1)}mm`, rect.width - padding - 10, rect.height / 2 - lastPoint.radius * yScale - 10);
+    const mouthPoint = profilePoints.reduce((front, point) => point.x > front.x ? point : front);
+    ctx.fillText(`Mouth: ${resolveMouthParams(hornParams).mouthWidth.toFixed(1)}mm`, rect.width - padding - 10, rect.height / 2 - mouthPoint.radius * yScale - 10);
+
+    // Custom profile handles on the upper half, between the pinned throat and mouth
+    if (customAxis) {
+      const toCanvas = (point: CustomProfilePoint) => ({
+        x: padding + point.x * hornParams.length * xScale,
+        y: rect.height / 2 - (customAxis.throatRadius + point.r * (customAxis.mouthRadius - customAxis.throatRadius)) * yScale
+      });
+      const polygon = [{ x: 0, r: 0 }, ...customAxis.points, { x: 1, r: 1 }].map(toCanvas);
+
+      // Bezier points pull the curve rather than lie on it, so show what they pull
+      if (customAxis.custom.interpolation === 'bezier') {
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        polygon.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      ctx.fillStyle = '#10b981';
+      [polygon[0], polygon[polygon.length - 1]].forEach(point => {
+        ctx.fillRect(point.x - 4, point.y - 4, 8, 8);
+      });
+
+      ctx.fillStyle = '#ffffff';
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 2;
+      polygon.slice(1, -1).forEach(point => {
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, HANDLE_RADIUS, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      });
+    }
+
+  }, [curves, profilePoints, heightProfilePoints, outerProfilePoints, comparisonCurves, adapterLength, customAxis, hornParams]);
+
+  const editable = customAxis !== null && onHornParamsChange !== undefined;
+
+  const canvasPosition = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // Normalized profile coordinates under a canvas position, and back
+  const toProfilePoint = (position: { x: number; y: number }): CustomProfilePoint | null => {
+    const layout = layoutRef.current;
+    if (!layout || !customAxis) return null;
+    return {
+      x: (position.x - layout.padding) / layout.xScale / hornParams.length,
+      r: ((layout.centerY - position.y) / layout.yScale - customAxis.throatRadius) / (customAxis.mouthRadius - customAxis.throatRadius)
+    };
+  };
+
+  const findHandle = (position: { x: number; y: number }): number => {
+    const layout = layoutRef.current;
+    if (!layout || !customAxis) return -1;
+    return customAxis.points.findIndex(point => Math.hypot(
+      layout.padding + point.x * hornParams.length * layout.xScale - position.x,
+      layout.centerY - (customAxis.throatRadius + point.r * (customAxis.mouthRadius - customAxis.throatRadius)) * layout.yScale - position.y
+    ) <= HANDLE_HIT_RADIUS);
+  };
 
-  }, [profilePoints, hornParams]);
+  const updateCustomPoints = (points: CustomProfilePoint[]) => {
+    if (!customAxis || !onHornParamsChange) return;
+    onHornParamsChange({ ...hornParams, customProfile: { ...customAxis.custom, points } });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!editable) return;
+    const index = findHandle(canvasPosition(e));
+    if (index < 0) return;
+    dragIndexRef.current = index;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.style.cursor = 'grabbing';
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!editable || !customAxis) return;
+    const position = canvasPosition(e);
+    const index = dragIndexRef.current;
+    if (index === null) {
+      e.currentTarget.style.cursor = findHandle(position) >= 0 ? 'grab' : '';
+      return;
+    }
+
+    const target = toProfilePoint(position);
+    if (!target) return;
+    // Keep the point between its neighbours so dragging never reorders them
+    const { points } = customAxis;
+    const minX = (index > 0 ? points[index - 1].x : 0) + CUSTOM_PROFILE_POINT_SPACING;
+    const maxX = (index < points.length - 1 ? points[index + 1].x : 1) - CUSTOM_PROFILE_POINT_SPACING;
+    updateCustomPoints(points.map((point, i) => i === index
+      ? { x: Math.min(maxX, Math.max(minX, target.x)), r: Math.min(1, Math.max(0, target.r)) }
+      : point));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragIndexRef.current === null) return;
+    dragIndexRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    e.currentTarget.style.cursor = 'grab';
+  };
+
+  // Double-click a point to remove it, or empty space to add one there
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!editable || !customAxis) return;
+    const position = canvasPosition(e);
+    const index = findHandle(position);
+    if (index >= 0) {
+      updateCustomPoints(customAxis.points.filter((_, i) => i !== index));
+      return;
+    }
+
+    const target = toProfilePoint(position);
+    if (!target || target.x <= 0 || target.x >= 1 || customAxis.points.length >= MAX_CUSTOM_PROFILE_POINTS) return;
+    updateCustomPoints(sanitizeCustomPoints([...customAxis.points, target]));
+  };
+
+  // Expansion rate and wall curvature of the custom curve, for the shape readout
+  const shapeSummary = useMemo(() => {
+    if (!customAxis) return null;
+    const { shape } = customAxis;
+    const tightest = shape.reduce((best, point) => Math.abs(point.curvature) > Math.abs(best.curvature) ? point : best);
+    const maxExpansion = Math.max(...shape.map(point => Math.abs(point.expansionRate)), 1e-9);
+    const maxCurvature = Math.max(Math.abs(tightest.curvature), 1e-9);
+    const plotX = (x: number) => (x / hornParams.length) * 200;
+    return {
+      throat: shape[0],
+      mouth: shape[shape.length - 1],
+      tightest,
+      expansionPath: shape.map(point => `${plotX(point.x).toFixed(1)},${(30 - (point.expansionRate / maxExpansion) * 28).toFixed(1)}`).join(' '),
+      curvaturePath: shape.map(point => `${plotX(point.x).toFixed(1)},${(30 - (point.curvature / maxCurvature) * 28).toFixed(1)}`).join(' ')
+    };
+  }, [customAxis, hornParams.length]);
 
   return (
     <div className="flex-1 flex flex-col gradient-bg relative">
@@ -214,14 +529,24 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
           <h2 className="text-xl font-bold text-white mb-2">2D Horn Profile</h2>
           <p className="text-sm text-gray-400">
             {getProfileDisplayName(hornParams.flareType)} Profile
+            {heightProfilePoints && ` × ${getProfileDisplayName(hornParams.heightFlareType || hornParams.flareType)}`}
           </p>
           <div className="mt-3 space-y-1 text-xs text-gray-300">
             <div>Length: {hornParams.length}mm</div>
             <div>Throat: {hornParams.throatDiameter}mm</div>
-            <div>Mouth: {hornParams.mouthWidth}mm</div>
+            <div>Mouth: {hornParams.mouthWidth}mm{heightProfilePoints && ` × ${hornParams.mouthHeight || hornParams.mouthWidth}mm`}</div>
+            {hornParams.importedProfile && [hornParams.flareType, heightProfilePoints && hornParams.heightFlareType].includes(ProfileType.IMPORTED) && (
+              <div>Contour: {hornParams.importedProfile.name}</div>
+            )}
             {hornParams.cutoffFrequency && (
               <div>Cutoff: {hornParams.cutoffFrequency}Hz</div>
             )}
+            {adapter && driverParams && (
+              <div>Adapter: {driverParams.throatDiameter}mm exit at {adapter.exitAngle}°, {adapterLength}mm long</div>
+            )}
+            {termination && (
+              <div>Lip: R{termination.radius}mm × {termination.wrapAngle}°</div>
+            )}
           </div>
         </div>
       </div>
@@ -230,7 +555,12 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
       <canvas
         ref={canvasRef}
         className="flex-1 w-full h-full"
-        style={{ minHeight: '400px' }}
+        style={{ minHeight: '400px', touchAction: editable ? 'none' : undefined }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
       />
 
       {/* Legend - moved to top right to avoid overlap */}
@@ -238,17 +568,74 @@ export default function Profile2DView({ hornParams, onToggle3D }: Profile2DViewP
         <div className="space-y-1">
           <div className="flex items-center space-x-2">
             <div className="w-4 h-0.5 bg-blue-500"></div>
-            <span className="text-gray-300">Interior Profile</span>
+            <span className="text-gray-300">{heightProfilePoints ? 'Interior Width' : 'Interior Profile'}</span>
           </div>
+          {heightProfilePoints && (
+            <div className="flex items-center space-x-2">
+              <div className="w-4 h-0.5 bg-amber-500"></div>
+              <span className="text-gray-300">Interior Height</span>
+            </div>
+          )}
+          {adapterLength > 0 && (
+            <div className="flex items-center space-x-2">
+              <div className="w-4 h-0.5 bg-pink-500"></div>
+              <span className="text-gray-300">Throat Adapter</span>
+            </div>
+          )}
           {hornParams.wallThickness > 0 && (
             <div className="flex items-center space-x-2">
               <div className="w-4 h-0.5 bg-red-500 border-dashed"></div>
               <span className="text-gray-300">Exterior Wall</span>
             </div>
           )}
+          {editable && (
+            <div className="flex items-center space-x-2">
+              <div className="w-2.5 h-2.5 rounded-full bg-white border-2 border-blue-500"></div>
+              <span className="text-gray-300">Control Points</span>
+            </div>
+          )}
+          {comparisons.map(design => (
+            <div key={design.id} className="flex items-center space-x-2">
+              <div className="w-4 h-0.5" style={{ backgroundColor: design.color }}></div>
+              <span className="text-gray-300">{design.name}</span>
+            </div>
+          ))}
         </div>
       </div>
 
+      {/* Shape of the custom curve along the horn */}
+      {customAxis && shapeSummary && (
+        <div className="absolute bottom-4 right-4 glass-dark rounded-lg p-3 text-xs text-gray-300 w-64">
+          <div className="font-medium text-white mb-2">Custom Profile Shape</div>
+          <svg viewBox="0 0 200 60" className="w-full h-14 mb-2">
+            <line x1="0" y1="30" x2="200" y2="30" stroke="rgba(255, 255, 255, 0.2)" strokeWidth="1" />
+            <polyline points={shapeSummary.expansionPath} fill="none" stroke="#3b82f6" strokeWidth="1.5" />
+            <polyline points={shapeSummary.curvaturePath} fill="none" stroke="#f59e0b" strokeWidth="1.5" strokeDasharray="4 3" />
+          </svg>
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span className="text-blue-400">Expansion (throat)</span>
+              <span>{(shapeSummary.throat.expansionRate * 1000).toFixed(1)} /m ≈ {calculateExpansionCutoff(shapeSummary.throat.expansionRate).toFixed(0)} Hz</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-blue-400">Expansion (mouth)</span>
+              <span>{(shapeSummary.mouth.expansionRate * 1000).toFixed(1)} /m</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-amber-400">Tightest bend</span>
+              <span>
+                {Math.abs(shapeSummary.tightest.curvature) > 1e-6
+                  ? `R ${(1 / Math.abs(shapeSummary.tightest.curvature)).toFixed(0)}mm at ${shapeSummary.tightest.x.toFixed(0)}mm`
+                  : 'straight'}
+              </span>
+            </div>
+          </div>
+          {editable && (
+            <div className="mt-2 text-gray-500">Drag points; double-click to add or remove.</div>
+          )}
+        </div>
+      )}
+
       {/* View Toggle Buttons - moved to bottom left */}
       <div className="absolute bottom-4 left-4 z-10 flex flex-col gap-2">
         <button
@@ -0,0 +1,117 @@
+import { useRef, useState } from 'react';
+import { AppState, MaterialType, ProjectInfo } from '../types';
+import { exportProjectFile, importProjectFile } from '../utils/projectFile';
+
+interface ProjectMenuProps {
+  appState: AppState;
+  projectInfo: ProjectInfo;
+  materialLibrary: MaterialType[];
+  onProjectInfoChange: (info: ProjectInfo) => void;
+  onProjectOpen: (state: AppState, info: ProjectInfo) => void;
+}
+
+export default function ProjectMenu({
+  appState,
+  projectInfo,
+  materialLibrary,
+  onProjectInfoChange,
+  onProjectOpen
+}: ProjectMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    try {
+      onProjectInfoChange(exportProjectFile(appState, projectInfo));
+    } catch (error) {
+      console.error('Project save failed:', error);
+      alert(`Project save failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleOpen = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { state, info, notes } = importProjectFile(await file.text(), materialLibrary);
+      onProjectOpen(state, info);
+      if (notes.length > 0) {
+        alert(`Project opened:\n${notes.join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Project open failed:', error);
+      alert(`Project open failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="glass-button px-4 py-3 rounded-xl font-medium text-white flex items-center space-x-2 shadow-lg hover:shadow-xl transition-all duration-300"
+        title="Save or open a .horn.json project"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+        </svg>
+        <span className="max-w-[10rem] truncate">{projectInfo.name || 'Project'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-20 glass-dark rounded-2xl p-5 shadow-2xl w-80 text-sm space-y-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Name</label>
+            <input
+              type="text"
+              value={projectInfo.name}
+              onChange={(e) => onProjectInfoChange({ ...projectInfo, name: e.target.value })}
+              className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400"
+              placeholder="Project name"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Notes</label>
+            <textarea
+              value={projectInfo.notes}
+              onChange={(e) => onProjectInfoChange({ ...projectInfo, notes: e.target.value })}
+              rows={4}
+              className="w-full px-3 py-2 glass-input rounded-lg text-white outline-none placeholder-gray-400 resize-none"
+              placeholder="Driver, measurements, revisions…"
+            />
+          </div>
+          <div className="text-xs text-gray-500">
+            Created {new Date(projectInfo.createdAt).toLocaleString()}
+            <br />
+            Saved {projectInfo.modifiedAt === projectInfo.createdAt ? 'never' : new Date(projectInfo.modifiedAt).toLocaleString()}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+            >
+              Open…
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="px-3 py-2 rounded-lg text-sm font-medium glass-button text-gray-300 hover:text-white"
+            >
+              Save .horn.json
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              handleOpen(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useMemo, useEffect, useState } from "react";
+import * as THREE from "three";
+import {
+  SegmentationResult,
+  SegmentationWorkerRequest,
+  SegmentationWorkerResponse,
+  deserializeSegmentation,
+  disposeSegments,
+} from "./horn-geometry/HornSegmentation";
+import { getHornMaterial } from "./horn-geometry/MaterialFactory";
+
+interface SegmentedHornPreviewProps {
+  result: SegmentationResult;
+  explodeDistance?: number; // mm between neighbouring pieces
+}
+
+const OVERSIZE_COLOR = "#ef4444";
+const SPLIT_DELAY = 300; // ms - edits restart the split after a short pause
+
+/**
+ * Printable pieces for a design, cut in a worker. Edits restart the split
+ * after a short pause while the previous pieces stay up; a null request
+ * clears them.
+ */
+export const useSegmentedAssembly = (request: SegmentationWorkerRequest | null) => {
+  const [result, setResult] = useState<SegmentationResult | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!request) {
+      setResult(null);
+      setPending(false);
+      return;
+    }
+
+    let worker: Worker | null = null;
+    setPending(true);
+
+    const timer = window.setTimeout(() => {
+      worker = new Worker(new URL("./horn-geometry/SegmentationWorker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = (event: MessageEvent<SegmentationWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === "result") {
+          setResult(deserializeSegmentation(message.result));
+        } else {
+          setError(message.message);
+        }
+        setPending(false);
+      };
+      // Load failures and uncaught errors arrive here instead of as a message
+      const fail = (message: string) => {
+        setError(message);
+        setPending(false);
+        worker?.terminate();
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        fail(event.message || "Splitting stopped unexpectedly");
+      };
+      worker.onmessageerror = () => fail("Splitting sent a result that could not be read");
+      worker.postMessage(request);
+    }, SPLIT_DELAY);
+
+    return () => {
+      window.clearTimeout(timer);
+      worker?.terminate();
+    };
+  }, [request]);
+
+  useEffect(() => () => {
+    if (result) disposeSegments(result);
+  }, [result]);
+
+  return { result, pending, error };
+};
+
+/** Exploded view of the printable pieces; pieces that exceed the bed are shown in red */
+const SegmentedHornPreview = React.memo(({
+  result,
+  explodeDistance = 30,
+}: SegmentedHornPreviewProps) => {
+  const oversizeMaterial = useMemo(
+    () => new THREE.MeshStandardMaterial({
+      color: OVERSIZE_COLOR,
+      metalness: 0.1,
+      roughness: 0.6,
+      side: THREE.DoubleSide,
+    }),
+    []
+  );
+
+  useEffect(() => () => oversizeMaterial.dispose(), [oversizeMaterial]);
+
+  return (
+    <group>
+      {result.segments.map(segment => (
+        <mesh
+          key={segment.id}
+          geometry={segment.geometry}
+          position={[
+            segment.sectorDirection[0] * explodeDistance,
+            segment.sectorDirection[1] * explodeDistance,
+            segment.sliceIndex * explodeDistance,
+          ]}
+          castShadow
+          receiveShadow
+          material={segment.fitsBed ? getHornMaterial() : oversizeMaterial}
+        />
+      ))}
+    </group>
+  );
+});
+
+SegmentedHornPreview.displayName = "SegmentedHornPreview";
+
+export default SegmentedHornPreview;
@@ -1,6 +1,6 @@
 import * as THREE from "three";
 import { CSG } from "three-csg-ts";
-import { Brush, Evaluator, SUBTRACTION } from "three-bvh-csg";
+import { Brush, Evaluator, ADDITION, SUBTRACTION, INTERSECTION } from "three-bvh-csg";
 import { BoltPosition, HoleParams, createMergedBoltHoles } from "./BoltPatternUtils";
 
 export interface CSGResult {
@@ -115,6 +115,90 @@ export function subtractGeometries(
   }
 }
 
+export function unionGeometries(
+  geometries: THREE.BufferGeometry[]
+): CSGResult {
+  if (geometries.length === 0) {
+    return {
+      geometry: new THREE.BufferGeometry(),
+      success: false,
+      error: "No geometries to union",
+    };
+  }
+  
+  try {
+    const evaluator = new Evaluator();
+    evaluator.attributes = ["position", "normal"];
+    evaluator.useGroups = false;
+    
+    let resultBrush = new Brush(geometries[0].clone());
+    resultBrush.updateMatrixWorld();
+    
+    for (const addGeom of geometries.slice(1)) {
+      const addBrush = new Brush(addGeom.clone());
+      addBrush.updateMatrixWorld();
+      
+      const tempResult = evaluator.evaluate(resultBrush, addBrush, ADDITION);
+      
+      resultBrush.geometry.dispose();
+      addBrush.geometry.dispose();
+      
+      resultBrush = new Brush(tempResult.geometry);
+      resultBrush.updateMatrixWorld();
+    }
+    
+    return {
+      geometry: resultBrush.geometry,
+      success: true,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.warn("Geometry union failed:", errorMessage);
+    
+    return {
+      geometry: geometries[0].clone(),
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+export function intersectGeometries(
+  baseGeometry: THREE.BufferGeometry,
+  clipGeometry: THREE.BufferGeometry
+): CSGResult {
+  try {
+    const evaluator = new Evaluator();
+    evaluator.attributes = ["position", "normal"];
+    evaluator.useGroups = false;
+    
+    const baseBrush = new Brush(baseGeometry.clone());
+    baseBrush.updateMatrixWorld();
+    
+    const clipBrush = new Brush(clipGeometry.clone());
+    clipBrush.updateMatrixWorld();
+    
+    const result = evaluator.evaluate(baseBrush, clipBrush, INTERSECTION);
+    
+    baseBrush.geometry.dispose();
+    clipBrush.geometry.dispose();
+    
+    return {
+      geometry: result.geometry,
+      success: true,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.warn("Geometry intersection failed:", errorMessage);
+    
+    return {
+      geometry: baseGeometry.clone(),
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
 export function validateCSGInput(mesh: THREE.Mesh): boolean {
   if (!mesh.geometry) {
     console.error("Mesh has no geometry");
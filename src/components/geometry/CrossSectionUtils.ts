@@ -1,4 +1,5 @@
 import { GEOMETRY_CONSTANTS } from "./constants";
+import { CrossSectionShape, CrossSectionShapeParams } from "../../types";
 
 export interface CrossSectionProfile {
   vertices: Array<{ x: number; y: number }>;
@@ -137,6 +138,137 @@ function createRectangleVertices(
   ];
 }
 
+/**
+ * Section shape at one station of a shaped rectangular horn
+ */
+export interface SectionOutlineShape {
+  shape: CrossSectionShape;
+  cornerRadius: number; // mm (rounded-rectangle)
+  exponent: number;     // superellipse exponent
+}
+
+// Rounded-rectangle corners get this many times their share of outline points
+const CORNER_POINT_WEIGHT = 6;
+const MIN_CORNER_RADIUS = 0.5; // mm - keeps "sharp" corners from collapsing onto one point
+const STRAIGHT_EPSILON = 1e-6;
+
+/**
+ * Blend from a round throat (corner radius = half the section, exponent 2)
+ * to the mouth shape over the first `morphEnd` of the length
+ */
+export function interpolateSectionShape(
+  params: CrossSectionShapeParams,
+  halfWidth: number,
+  halfHeight: number,
+  t: number
+): SectionOutlineShape {
+  const morphT = params.morphEnd > 0 ? Math.min(1, t / params.morphEnd) : 1;
+  const blend = morphT * morphT * (3 - 2 * morphT);
+  const maxRadius = Math.min(halfWidth, halfHeight);
+  
+  return {
+    shape: params.shape,
+    cornerRadius: maxRadius + blend * (Math.min(params.mouthCornerRadius, maxRadius) - maxRadius),
+    exponent: 2 + blend * (Math.max(2, params.mouthExponent) - 2),
+  };
+}
+
+/**
+ * Closed outline, counter-clockwise from +x. Every station yields the same
+ * point count so neighbouring rings can be lofted index by index.
+ */
+export function generateSectionOutline(
+  halfWidth: number,
+  halfHeight: number,
+  section: SectionOutlineShape,
+  pointsPerQuadrant: number
+): Array<{ x: number; y: number }> {
+  // First quadrant from (halfWidth, 0) to (0, halfHeight); the others mirror it
+  const quadrant = section.shape === "superellipse"
+    ? superellipseQuadrant(halfWidth, halfHeight, section.exponent, pointsPerQuadrant)
+    : roundedRectangleQuadrant(
+        halfWidth,
+        halfHeight,
+        section.shape === "rectangle" ? 0 : section.cornerRadius,
+        pointsPerQuadrant
+      );
+  
+  const outline: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i < pointsPerQuadrant; i++) outline.push(quadrant[i]);
+  for (let i = pointsPerQuadrant; i > 0; i--) outline.push({ x: -quadrant[i].x, y: quadrant[i].y });
+  for (let i = 0; i < pointsPerQuadrant; i++) outline.push({ x: -quadrant[i].x, y: -quadrant[i].y });
+  for (let i = pointsPerQuadrant; i > 0; i--) outline.push({ x: quadrant[i].x, y: -quadrant[i].y });
+  
+  return outline;
+}
+
+/**
+ * Outer wall section: rounded rectangles offset exactly, superellipses keep
+ * their exponent, which is close to a true offset for walls thin relative to the section
+ */
+export function offsetSectionShape(section: SectionOutlineShape, wallThickness: number): SectionOutlineShape {
+  return section.shape === "rounded-rectangle"
+    ? { ...section, cornerRadius: section.cornerRadius + wallThickness }
+    : section;
+}
+
+function superellipseQuadrant(a: number, b: number, exponent: number, segments: number) {
+  const points: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = (i / segments) * (Math.PI / 2);
+    points.push({
+      x: a * Math.pow(Math.cos(angle), 2 / exponent),
+      y: b * Math.pow(Math.sin(angle), 2 / exponent),
+    });
+  }
+  return points;
+}
+
+/**
+ * Side, corner arc and top of one quadrant. The arc always gets at least two
+ * segments so corners stay resolved however long the straight sides are.
+ */
+function roundedRectangleQuadrant(a: number, b: number, radius: number, segments: number) {
+  const r = Math.min(Math.max(radius, MIN_CORNER_RADIUS), a, b);
+  const side = b - r;
+  const top = a - r;
+  const straight = side + top;
+  const weightedArc = (Math.PI / 2) * r * CORNER_POINT_WEIGHT;
+  
+  let arcSegments = segments;
+  let sideSegments = 0;
+  let topSegments = 0;
+  
+  if (straight > STRAIGHT_EPSILON) {
+    arcSegments = Math.min(segments - 2, Math.max(2, Math.round((segments * weightedArc) / (straight + weightedArc))));
+    const remaining = segments - arcSegments;
+    
+    if (side <= STRAIGHT_EPSILON) {
+      topSegments = remaining;
+    } else if (top <= STRAIGHT_EPSILON) {
+      sideSegments = remaining;
+    } else {
+      sideSegments = Math.min(remaining - 1, Math.max(1, Math.round((remaining * side) / straight)));
+      topSegments = remaining - sideSegments;
+    }
+  }
+  
+  const points: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i < sideSegments; i++) {
+    points.push({ x: a, y: (side * i) / sideSegments });
+  }
+  for (let i = 0; i < arcSegments; i++) {
+    const angle = (i / arcSegments) * (Math.PI / 2);
+    points.push({ x: a - r + r * Math.cos(angle), y: b - r + r * Math.sin(angle) });
+  }
+  for (let i = 0; i < topSegments; i++) {
+    points.push({ x: a - r - (top * i) / topSegments, y: b });
+  }
+  points.push({ x: 0, y: b });
+  
+  return points;
+}
+
 export function generateCrossSectionVertices(
   crossSection: CrossSectionProfile,
   z: number
@@ -0,0 +1,369 @@
+import * as THREE from "three";
+
+const MAX_REPAIR_PASSES = 8;
+
+/**
+ * Closes the cracks booleans leave in a welded, indexed mesh. Faces with
+ * no area are dropped and vertices closer than the tolerance across a
+ * crack are merged. Then wherever a vertex sits on the open edge of a
+ * neighbouring face (a T-junction) that face is split at the vertex, so
+ * both sides of the seam share the same edges. Doubled faces are removed,
+ * any holes left, typically single missing slivers, are filled, and faces
+ * with no area are folded away without reopening the mesh.
+ *
+ * @param geometry Indexed geometry with welded positions
+ * @param tolerance Distance (mm) within which a vertex counts as on an edge
+ */
+export function repairMesh(geometry: THREE.BufferGeometry, tolerance: number): THREE.BufferGeometry {
+  const position = geometry.getAttribute("position");
+  const vertices = Array.from({ length: position.count }, (_, i) => new THREE.Vector3().fromBufferAttribute(position, i));
+  let triangles = dropDuplicateTriangles(dropDegenerateTriangles(
+    geometry.index ? Array.from(geometry.index.array) : vertices.map((_, i) => i), vertices, tolerance
+  ));
+
+  let previousOpen = Infinity;
+  for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+    let open = findOpenEdges(triangles);
+    // Splits that only trade one sliver for another stop making progress
+    if (open.length === 0 || open.length >= previousOpen) break;
+    previousOpen = open.length;
+
+    // Vertices across a crack closer than the tolerance were kept apart by the weld grid
+    const merged = mergeNearbyBoundaryVertices(triangles, vertices, open, tolerance);
+    if (merged !== triangles) {
+      triangles = merged;
+      open = findOpenEdges(triangles);
+      if (open.length === 0) break;
+    }
+
+    const boundary = [...new Set(open.flatMap(([u, v]) => [u, v]))];
+    const split: number[] = [];
+    const splitTriangles = new Set<number>();
+
+    for (const [u, v, triangle] of open) {
+      if (splitTriangles.has(triangle)) continue;
+
+      const onEdge = verticesOnSegment(vertices, boundary, u, v, tolerance);
+      if (onEdge.length === 0) continue;
+
+      const corners = triangles.slice(triangle * 3, triangle * 3 + 3);
+      const apex = corners.find(corner => corner !== u && corner !== v)!;
+      const chain = [u, ...onEdge, v];
+      for (let i = 0; i + 1 < chain.length; i++) {
+        split.push(chain[i], chain[i + 1], apex);
+      }
+      splitTriangles.add(triangle);
+    }
+
+    if (splitTriangles.size === 0) break;
+
+    const kept: number[] = [];
+    for (let t = 0; t < triangles.length / 3; t++) {
+      if (!splitTriangles.has(t)) kept.push(triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]);
+    }
+    triangles = dropDuplicateTriangles(dropDegenerateTriangles([...kept, ...split], vertices, tolerance));
+  }
+
+  triangles = removeSlivers(fillHoles(triangles, vertices), vertices, tolerance);
+
+  const repaired = new THREE.BufferGeometry();
+  repaired.setAttribute("position", position.clone());
+  repaired.setIndex(triangles);
+  return repaired;
+}
+
+/**
+ * Directed edges without a matching face walking them the other way, as
+ * [from, to, triangle]. A closed mesh has none: every edge is walked once
+ * each way, or as often each way where faces meet along it.
+ */
+export function findOpenEdges(triangles: ArrayLike<number>): Array<[number, number, number]> {
+  const edges = new Map<string, number[]>();
+  for (let i = 0; i < triangles.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const key = `${triangles[i + k]},${triangles[i + ((k + 1) % 3)]}`;
+      edges.set(key, [...(edges.get(key) ?? []), i / 3]);
+    }
+  }
+
+  const open: Array<[number, number, number]> = [];
+  for (const [key, faces] of edges) {
+    const [u, v] = key.split(",").map(Number);
+    const matched = edges.get(`${v},${u}`)?.length ?? 0;
+    for (const triangle of faces.slice(matched)) open.push([u, v, triangle]);
+  }
+  return open;
+}
+
+/**
+ * Number of open edges in a geometry, welding positions first so split
+ * vertices along a seam don't count as cracks
+ */
+export function countOpenEdges(geometry: THREE.BufferGeometry, tolerance: number): number {
+  const position = geometry.getAttribute("position");
+  const ids = new Map<string, number>();
+  const weld = (i: number) => {
+    const key = [position.getX(i), position.getY(i), position.getZ(i)].map(value => Math.round(value / tolerance)).join(",");
+    if (!ids.has(key)) ids.set(key, ids.size);
+    return ids.get(key)!;
+  };
+
+  const triangles: number[] = [];
+  const count = geometry.index ? geometry.index.count : position.count;
+  for (let i = 0; i < count; i++) {
+    triangles.push(weld(geometry.index ? geometry.index.getX(i) : i));
+  }
+  return findOpenEdges(triangles).length;
+}
+
+/**
+ * Removes faces listed twice: one copy if both face the same way, both if
+ * they face opposite ways, as they then bound nothing
+ */
+function dropDuplicateTriangles(triangles: number[]): number[] {
+  const faces = new Map<string, number[]>();
+  for (let i = 0; i < triangles.length; i += 3) {
+    const key = triangles.slice(i, i + 3).sort((a, b) => a - b).join(",");
+    faces.set(key, [...(faces.get(key) ?? []), i]);
+  }
+
+  const kept: number[] = [];
+  for (const copies of faces.values()) {
+    // Same winding when a rotation of one matches the other
+    const [a, b] = copies.map(i => triangles.slice(i, i + 3));
+    const aligned = b && [0, 1, 2].some(r => a.every((vertex, k) => vertex === b[(k + r) % 3]));
+    if (copies.length === 1 || (copies.length === 2 && aligned)) {
+      kept.push(...a);
+    } else if (copies.length > 2) {
+      kept.push(...a);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Closes each loop of open edges with faces wound against the faces around
+ * it. Boundaries that touch themselves are split into simple loops at the
+ * shared vertex; chains that never close are left.
+ */
+function fillHoles(triangles: number[], vertices: THREE.Vector3[]): number[] {
+  const outgoing = new Map<number, number[]>();
+  for (const [u, v] of findOpenEdges(triangles)) outgoing.set(u, [...(outgoing.get(u) ?? []), v]);
+
+  const filled = [...triangles];
+  for (const start of [...outgoing.keys()]) {
+    const path = [start];
+    while (outgoing.get(path[path.length - 1])?.length) {
+      const vertex = outgoing.get(path[path.length - 1])!.pop()!;
+      const seen = path.indexOf(vertex);
+      if (seen < 0) {
+        path.push(vertex);
+        continue;
+      }
+
+      const loop = path.splice(seen + 1);
+      loop.unshift(vertex);
+      filled.push(...clipEars(loop, vertices));
+      if (path.length === 1 && !outgoing.get(start)?.length) break;
+    }
+  }
+  return filled;
+}
+
+/**
+ * Triangulates a loop by cutting off its widest corner each time, so runs
+ * of collinear vertices are bridged instead of fanned into slivers
+ */
+function clipEars(loop: number[], vertices: THREE.Vector3[]): number[] {
+  const faces: number[] = [];
+  const remaining = [...loop];
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+  const area = (i: number) => {
+    const a = vertices[remaining[(i + remaining.length - 1) % remaining.length]];
+    ab.subVectors(vertices[remaining[i]], a);
+    ac.subVectors(vertices[remaining[(i + 1) % remaining.length]], a);
+    return ab.cross(ac).length();
+  };
+
+  while (remaining.length >= 3) {
+    let ear = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (area(i) > area(ear)) ear = i;
+    }
+    const previous = remaining[(ear + remaining.length - 1) % remaining.length];
+    const next = remaining[(ear + 1) % remaining.length];
+    faces.push(previous, next, remaining[ear]);
+    remaining.splice(ear, 1);
+  }
+  return faces;
+}
+
+/**
+ * Merges vertices on open edges that lie within the tolerance of each
+ * other, returning the same array when there are none
+ */
+function mergeNearbyBoundaryVertices(
+  triangles: number[],
+  vertices: THREE.Vector3[],
+  open: Array<[number, number, number]>,
+  tolerance: number
+): number[] {
+  const target = new Map<number, number>();
+  const resolve = (vertex: number): number => {
+    const next = target.get(vertex);
+    return next === undefined ? vertex : resolve(next);
+  };
+
+  // Hash on a tolerance-sized grid; near neighbours share a cell or touch one
+  const cells = new Map<string, number[]>();
+  const cellOf = (vertex: number) => vertices[vertex].toArray().map(value => Math.floor(value / tolerance));
+  const boundary = [...new Set(open.flatMap(([u, v]) => [u, v]))].sort((a, b) => a - b);
+
+  for (const vertex of boundary) {
+    const [x, y, z] = cellOf(vertex);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const other of cells.get(`${x + dx},${y + dy},${z + dz}`) ?? []) {
+            const a = resolve(vertex);
+            const b = resolve(other);
+            if (a !== b && vertices[vertex].distanceTo(vertices[other]) <= tolerance) {
+              target.set(Math.max(a, b), Math.min(a, b));
+            }
+          }
+        }
+      }
+    }
+    const key = `${x},${y},${z}`;
+    cells.set(key, [...(cells.get(key) ?? []), vertex]);
+  }
+  if (target.size === 0) return triangles;
+
+  return dropDuplicateTriangles(dropDegenerateTriangles(triangles.map(resolve), vertices, tolerance));
+}
+
+/**
+ * Removes faces with no area while keeping the mesh closed. A face with a
+ * side shorter than the tolerance has that side collapsed; one with a
+ * vertex on its long side is flipped with the face across that side, where
+ * that leaves both with area.
+ */
+function removeSlivers(triangles: number[], vertices: THREE.Vector3[], tolerance: number): number[] {
+  let faces = triangles;
+  for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+    const edges = new Map<string, number[]>();
+    for (let i = 0; i < faces.length; i += 3) {
+      for (let k = 0; k < 3; k++) {
+        const key = `${faces[i + k]},${faces[i + ((k + 1) % 3)]}`;
+        edges.set(key, [...(edges.get(key) ?? []), i]);
+      }
+    }
+
+    const touched = new Set<number>();
+    const collapse = new Map<number, number>();
+    const next = [...faces];
+    for (let i = 0; i < faces.length; i += 3) {
+      if (touched.has(i) || !isSliver(faces, i, vertices, tolerance)) continue;
+
+      // Rotate so p0-p1 is the longest side
+      const corners = faces.slice(i, i + 3);
+      const side = (k: number) => vertices[corners[k]].distanceTo(vertices[corners[(k + 1) % 3]]);
+      const longest = [0, 1, 2].reduce((best, k) => (side(k) > side(best) ? k : best), 0);
+      const [p0, p1, p2] = [0, 1, 2].map(k => corners[(longest + k) % 3]);
+
+      const shortest = Math.min(side((longest + 1) % 3), side((longest + 2) % 3));
+      if (shortest <= tolerance) {
+        const end = vertices[p2].distanceTo(vertices[p0]) <= vertices[p2].distanceTo(vertices[p1]) ? p0 : p1;
+        if (!collapse.has(p2) && !collapse.has(end)) collapse.set(p2, end);
+        continue;
+      }
+
+      const across = edges.get(`${p1},${p0}`);
+      if (across?.length !== 1 || touched.has(across[0])) continue;
+      const j = across[0];
+      const x = faces.slice(j, j + 3).find(corner => corner !== p0 && corner !== p1)!;
+      const flipped = [p0, x, p2, p2, x, p1];
+      if (x === p2 || isSliver(flipped, 0, vertices, tolerance) || isSliver(flipped, 3, vertices, tolerance)) continue;
+
+      touched.add(i).add(j);
+      next.splice(i, 3, ...flipped.slice(0, 3));
+      next.splice(j, 3, ...flipped.slice(3));
+    }
+    if (touched.size === 0 && collapse.size === 0) break;
+
+    const resolve = (vertex: number): number => {
+      const target = collapse.get(vertex);
+      return target === undefined ? vertex : resolve(target);
+    };
+    faces = dropRepeatedCorners(next.map(resolve));
+  }
+
+  // A face with no area is still better than a hole
+  return findOpenEdges(faces).length > findOpenEdges(triangles).length ? triangles : faces;
+}
+
+function isSliver(triangles: number[], i: number, vertices: THREE.Vector3[], tolerance: number): boolean {
+  const [a, b, c] = [triangles[i], triangles[i + 1], triangles[i + 2]].map(vertex => vertices[vertex]);
+  const longest = Math.max(a.distanceTo(b), a.distanceTo(c), b.distanceTo(c));
+  return new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a)).length() <= tolerance * 0.1 * longest;
+}
+
+function dropRepeatedCorners(triangles: number[]): number[] {
+  const kept: number[] = [];
+  for (let i = 0; i < triangles.length; i += 3) {
+    const [a, b, c] = [triangles[i], triangles[i + 1], triangles[i + 2]];
+    if (a !== b && b !== c && c !== a) kept.push(a, b, c);
+  }
+  return kept;
+}
+
+function dropDegenerateTriangles(triangles: number[], vertices: THREE.Vector3[], tolerance: number): number[] {
+  const kept: number[] = [];
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+
+  for (let i = 0; i < triangles.length; i += 3) {
+    const [a, b, c] = [triangles[i], triangles[i + 1], triangles[i + 2]];
+    if (a === b || b === c || c === a) continue;
+
+    // Height over the longest side below the tolerance: a sliver with no area
+    ab.subVectors(vertices[b], vertices[a]);
+    ac.subVectors(vertices[c], vertices[a]);
+    const longest = Math.max(ab.length(), ac.length(), vertices[b].distanceTo(vertices[c]));
+    if (ab.cross(ac).length() <= tolerance * 0.1 * longest) continue;
+
+    kept.push(a, b, c);
+  }
+  return kept;
+}
+
+/**
+ * Candidate vertices lying on the segment u-v, ordered from u
+ */
+function verticesOnSegment(
+  vertices: THREE.Vector3[],
+  candidates: number[],
+  u: number,
+  v: number,
+  tolerance: number
+): number[] {
+  const start = vertices[u];
+  const direction = new THREE.Vector3().subVectors(vertices[v], start);
+  const length = direction.length();
+  if (length <= tolerance) return [];
+  direction.divideScalar(length);
+
+  const found: Array<{ vertex: number; t: number }> = [];
+  const offset = new THREE.Vector3();
+  for (const vertex of candidates) {
+    if (vertex === u || vertex === v) continue;
+    offset.subVectors(vertices[vertex], start);
+    const t = offset.dot(direction);
+    if (t <= tolerance || t >= length - tolerance) continue;
+    // Off the line by no more than a face counted as having no area
+    if (offset.addScaledVector(direction, -t).length() <= tolerance * 0.1) found.push({ vertex, t });
+  }
+
+  return found.sort((a, b) => a.t - b.t).map(({ vertex }) => vertex);
+}
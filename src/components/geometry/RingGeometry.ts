@@ -14,6 +14,7 @@ export interface RectangularRingParams {
   innerWidth: number;
   innerHeight: number;
   thickness: number;
+  innerOutline?: Array<{ x: number; y: number }>; // counter-clockwise; replaces the inner rectangle
 }
 
 export function createRingGeometry(params: RingGeometryParams): THREE.BufferGeometry {
@@ -44,10 +45,12 @@ export function createRingGeometry(params: RingGeometryParams): THREE.BufferGeom
 export function createRectangularRingGeometry(
   params: RectangularRingParams
 ): THREE.BufferGeometry {
-  const { outerWidth, outerHeight, innerWidth, innerHeight, thickness } = params;
+  const { outerWidth, outerHeight, innerWidth, innerHeight, thickness, innerOutline } = params;
   
   const shape = createRectangularShape(outerWidth, outerHeight);
-  const hole = createRectangularPath(innerWidth, innerHeight);
+  const hole = innerOutline
+    ? createOutlinePath(innerOutline)
+    : createRectangularPath(innerWidth, innerHeight);
   shape.holes.push(hole);
   
   const geometry = new THREE.ExtrudeGeometry(shape, {
@@ -229,4 +232,16 @@ export function validateRectangularRingParameters(params: RectangularRingParams)
   }
   
   return true;
-}
\ No newline at end of file
+}
+
+function createOutlinePath(outline: Array<{ x: number; y: number }>): THREE.Path {
+  // Holes wind clockwise
+  const points = [...outline].reverse();
+  const path = new THREE.Path();
+  
+  path.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach(point => path.lineTo(point.x, point.y));
+  path.lineTo(points[0].x, points[0].y);
+  
+  return path;
+}
@@ -3,4 +3,4 @@ export * from "./BoltPatternUtils";
 export * from "./CrossSectionUtils";
 export * from "./CSGOperations";
 export * from "./RingGeometry";
-export * from "./GeometryCache";
\ No newline at end of file
+export * from "./GeometryCache";export * from "./MeshRepair";
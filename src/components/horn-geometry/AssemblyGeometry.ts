@@ -0,0 +1,158 @@
+import * as THREE from "three";
+import * as BufferGeometryUtils from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { HornProfileParams, MountPlateParams, DriverMountParams } from "../../types";
+import { repairMesh, unionGeometries } from "../GeometryUtils";
+import { HORN_GEOMETRY_CONSTANTS, DetailLevel } from "./HornGeometryConstants";
+import {
+  createOptimizedCircularHorn,
+  createOptimizedRectangularHorn,
+} from "./HornProfileGenerator";
+import { createOptimizedPlate } from "./PlateGeometryGenerator";
+import { createOptimizedDriver } from "./DriverGeometryGenerator";
+
+export type AssemblyPartName = "horn" | "plate" | "driver";
+
+export const ASSEMBLY_PART_LABELS: Record<AssemblyPartName, string> = {
+  horn: "Horn",
+  plate: "Mounting Plate",
+  driver: "Driver Flange",
+};
+
+export interface AssemblyPart {
+  name: AssemblyPartName;
+  geometry: THREE.BufferGeometry;
+}
+
+export interface AssemblyOptions {
+  includeMountingPlate: boolean;
+  includeDriverMount: boolean;
+  detailLevel?: DetailLevel;
+  enableHoles?: boolean;
+}
+
+const WELD_TOLERANCE = 1e-3; // mm
+const REPAIR_TOLERANCE = 0.01; // mm - cracks and slivers narrower than this are closed
+const CONTACT_OFFSET = 0.01; // mm - parts flush with the horn's ends are moved this far past them
+
+/**
+ * Builds the assembly parts with the same generators the viewport uses,
+ * so exports and measurements match what is rendered.
+ */
+export function createAssemblyParts(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: AssemblyOptions
+): AssemblyPart[] {
+  const detailLevel = options.detailLevel || "high";
+  const enableHoles = options.enableHoles ?? true;
+  const { hornSteps } = HORN_GEOMETRY_CONSTANTS.PERFORMANCE_SETTINGS[detailLevel];
+
+  const parts: AssemblyPart[] = [
+    {
+      name: "horn",
+      geometry: hornParams.roundMouth
+        ? createOptimizedCircularHorn(hornParams, hornSteps, driverParams)
+        : createOptimizedRectangularHorn(hornParams, hornSteps, driverParams),
+    },
+  ];
+
+  if (options.includeMountingPlate) {
+    parts.push({
+      name: "plate",
+      geometry: createOptimizedPlate(plateParams, hornParams, detailLevel, enableHoles),
+    });
+  }
+
+  if (options.includeDriverMount) {
+    parts.push({
+      name: "driver",
+      geometry: createOptimizedDriver(driverParams, detailLevel, enableHoles),
+    });
+  }
+
+  return parts;
+}
+
+/**
+ * Strips a geometry down to welded positions so parts from different
+ * generators (indexed, non-indexed, CSG output) can be merged and exported.
+ */
+export function prepareGeometryForExport(
+  geometry: THREE.BufferGeometry
+): THREE.BufferGeometry {
+  const source = geometry.index ? geometry.toNonIndexed() : geometry.clone();
+
+  const positionOnly = new THREE.BufferGeometry();
+  positionOnly.setAttribute("position", source.getAttribute("position"));
+  source.dispose();
+
+  const welded = BufferGeometryUtils.mergeVertices(positionOnly, WELD_TOLERANCE);
+  positionOnly.dispose();
+
+  const repaired = repairMesh(welded, REPAIR_TOLERANCE);
+  welded.dispose();
+
+  repaired.computeVertexNormals();
+  repaired.computeBoundingBox();
+
+  return repaired;
+}
+
+/**
+ * Merges all parts into a single solid with a boolean union. If the union
+ * fails, parts whose bounds don't touch are kept as separate shells; parts
+ * that overlap can't be exported as one watertight solid, so this throws.
+ */
+export function mergeAssemblyParts(parts: AssemblyPart[]): THREE.BufferGeometry {
+  const prepared = parts.map(part => prepareGeometryForExport(part.geometry));
+
+  if (prepared.length === 1) {
+    return prepared[0];
+  }
+
+  // Faces level with the horn's ends leave the union coplanar slivers, so a
+  // flange or plate flush with an end is set just past it
+  const base = prepared[0].boundingBox!;
+  for (const geometry of prepared.slice(1)) {
+    const box = geometry.boundingBox!;
+    if (Math.abs(box.min.z - base.min.z) < REPAIR_TOLERANCE) {
+      geometry.translate(0, 0, -CONTACT_OFFSET);
+    } else if (Math.abs(box.max.z - base.max.z) < REPAIR_TOLERANCE) {
+      geometry.translate(0, 0, CONTACT_OFFSET);
+    }
+  }
+
+  const union = unionGeometries(prepared);
+
+  if (union.success) {
+    prepared.forEach(geometry => geometry.dispose());
+    const welded = prepareGeometryForExport(union.geometry);
+    union.geometry.dispose();
+    return welded;
+  }
+
+  union.geometry.dispose();
+  const boxes = prepared.map(geometry => geometry.boundingBox!);
+  const overlapping = boxes.some((box, i) => boxes.slice(i + 1).some(other => box.intersectsBox(other)));
+  if (overlapping) {
+    prepared.forEach(geometry => geometry.dispose());
+    throw new Error(`Parts overlap and could not be joined into one solid: ${union.error ?? "union failed"}`);
+  }
+
+  const merged = BufferGeometryUtils.mergeGeometries(prepared);
+  prepared.forEach(geometry => geometry.dispose());
+
+  if (!merged) {
+    throw new Error("Failed to merge assembly geometry");
+  }
+
+  merged.computeVertexNormals();
+  merged.computeBoundingBox();
+
+  return merged;
+}
+
+export function disposeAssemblyParts(parts: AssemblyPart[]): void {
+  parts.forEach(part => part.geometry.dispose());
+}
@@ -7,12 +7,38 @@ import {
   BoltPosition,
 } from "../GeometryUtils";
 import { HORN_GEOMETRY_CONSTANTS, DetailLevel } from "./HornGeometryConstants";
+import { DEFAULT_DRIVER_THREAD, DRIVER_THREADS } from "../../constants";
+
+const THREAD_DEPTH_PER_PITCH = 1.0825; // major minus minor diameter of a 60° ISO / Unified thread
+const THREAD_CREST = 0.25; // internal thread flat at the minor diameter, fraction of the pitch
+const THREAD_ROOT = 0.125; // internal thread flat at the major diameter
+const THREAD_FLANK = (1 - THREAD_CREST - THREAD_ROOT) / 2;
+const MIN_COLLAR_WALL = 1; // mm of collar outside the thread roots
+const MIN_SHOULDER = 0.5; // mm of seating face inside the thread crests
+
+/**
+ * Resolved threaded collar of a screw-on mount. Radii include the print
+ * clearance; the collar runs from -length to 0 behind the seating face.
+ */
+export interface DriverThreadGeometry {
+  majorRadius: number;
+  minorRadius: number;
+  pitch: number;
+  length: number;
+  outerRadius: number;
+  boreRadius: number;
+}
 
 export function createOptimizedDriver(
   driverParams: DriverMountParams,
   detailLevel: DetailLevel,
   enableHoles: boolean
 ): THREE.BufferGeometry {
+  const thread = getDriverThread(driverParams);
+  if (thread) {
+    return createThreadedDriverGeometry(driverParams, thread, detailLevel);
+  }
+  
   const baseGeometry = createBaseDriverGeometry(driverParams);
   const driverZ = 0;
   baseGeometry.translate(0, 0, driverZ);
@@ -44,6 +70,106 @@ function createBaseDriverGeometry(
   });
 }
 
+/**
+ * Thread of a screw-on mount, null for bolt-on drivers
+ */
+export function getDriverThread(driverParams: DriverMountParams): DriverThreadGeometry | null {
+  if (driverParams.type !== "screw-on") {
+    return null;
+  }
+  
+  const thread = driverParams.thread || DEFAULT_DRIVER_THREAD;
+  const { majorDiameter, pitch } = DRIVER_THREADS[thread.size];
+  const clearance = Math.max(thread.clearance, 0);
+  const majorRadius = majorDiameter / 2 + clearance;
+  const minorRadius = (majorDiameter - THREAD_DEPTH_PER_PITCH * pitch) / 2 + clearance;
+  
+  return {
+    majorRadius,
+    minorRadius,
+    pitch,
+    length: Math.max(thread.length, pitch),
+    outerRadius: Math.max(driverParams.flangeDiameter / 2, majorRadius + MIN_COLLAR_WALL),
+    boreRadius: Math.min(driverParams.throatDiameter / 2, minorRadius - MIN_SHOULDER),
+  };
+}
+
+/**
+ * Seating flange with a threaded collar behind it. Every angular column
+ * walks the same closed (r, z) loop - outer wall, front face, bore, seating
+ * shoulder, then the internal thread back to the rear face - so the columns
+ * stitch into one closed shell with the thread as a right-hand helix.
+ */
+function createThreadedDriverGeometry(
+  driverParams: DriverMountParams,
+  thread: DriverThreadGeometry,
+  detailLevel: DetailLevel
+): THREE.BufferGeometry {
+  const { samplesPerPitch, segments } = getThreadResolution(detailLevel);
+  const threadRings = Math.max(2, Math.ceil((thread.length / thread.pitch) * samplesPerPitch));
+  const loopSize = threadRings + 5;
+  
+  const vertices: number[] = [];
+  const indices: number[] = [];
+  
+  for (let j = 0; j < segments; j++) {
+    const turn = j / segments;
+    const cos = Math.cos(turn * Math.PI * 2);
+    const sin = Math.sin(turn * Math.PI * 2);
+    const loop: [number, number][] = [
+      [thread.outerRadius, -thread.length],
+      [thread.outerRadius, driverParams.flangeThickness],
+      [thread.boreRadius, driverParams.flangeThickness],
+      [thread.boreRadius, 0],
+    ];
+    
+    for (let k = 0; k <= threadRings; k++) {
+      const z = -thread.length * (k / threadRings);
+      loop.push([calculateInternalThreadRadius(thread, z / thread.pitch - turn), z]);
+    }
+    
+    loop.forEach(([r, z]) => vertices.push(r * cos, r * sin, z));
+  }
+  
+  for (let j = 0; j < segments; j++) {
+    const current = j * loopSize;
+    const next = ((j + 1) % segments) * loopSize;
+    
+    for (let i = 0; i < loopSize; i++) {
+      const following = (i + 1) % loopSize;
+      indices.push(current + i, next + i, current + following);
+      indices.push(current + following, next + i, next + following);
+    }
+  }
+  
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(vertices, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  
+  return geometry;
+}
+
+/**
+ * Basic 60° internal thread profile over one pitch: crest flat at the minor
+ * diameter, rising flank, root flat at the major diameter, falling flank
+ */
+function calculateInternalThreadRadius(thread: DriverThreadGeometry, phase: number): number {
+  const u = phase - Math.floor(phase);
+  const depth = thread.majorRadius - thread.minorRadius;
+  
+  if (u < THREAD_CREST) {
+    return thread.minorRadius;
+  }
+  if (u < THREAD_CREST + THREAD_FLANK) {
+    return thread.minorRadius + depth * ((u - THREAD_CREST) / THREAD_FLANK);
+  }
+  if (u < THREAD_CREST + THREAD_FLANK + THREAD_ROOT) {
+    return thread.majorRadius;
+  }
+  return thread.majorRadius - depth * ((u - THREAD_CREST - THREAD_FLANK - THREAD_ROOT) / THREAD_FLANK);
+}
+
 function addBoltHolesToDriver(
   baseGeometry: THREE.BufferGeometry,
   driverParams: DriverMountParams,
@@ -82,7 +208,7 @@ function addBoltHolesToDriver(
   }
 }
 
-function calculateDriverHolePositions(
+export function calculateDriverHolePositions(
   driverParams: DriverMountParams,
   driverZ: number
 ): BoltPosition[] {
@@ -118,4 +244,13 @@ function getSegmentsForDetailLevel(detailLevel: DetailLevel): number {
     low: 4,
   };
   return segmentMap[detailLevel];
-}
\ No newline at end of file
+}
+
+function getThreadResolution(detailLevel: DetailLevel): { samplesPerPitch: number; segments: number } {
+  const resolutionMap = {
+    high: { samplesPerPitch: 16, segments: 96 },
+    medium: { samplesPerPitch: 12, segments: 64 },
+    low: { samplesPerPitch: 8, segments: 48 },
+  };
+  return resolutionMap[detailLevel];
+}
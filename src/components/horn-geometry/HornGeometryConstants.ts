@@ -15,6 +15,9 @@ export const HORN_GEOMETRY_CONSTANTS = {
   
   // Geometry segments
   LATHE_SEGMENTS: 32,
+  SECTION_POINTS_PER_QUADRANT: 16, // rounded-rectangle and superellipse horn sections
+  LIP_STEPS: 24, // stations around a rolled-back mouth lip
+  ADAPTER_STEPS: 8, // stations along a driver throat adapter
   
   // Performance modes
   PERFORMANCE_SETTINGS: {
@@ -1,40 +1,36 @@
 import * as THREE from "three";
-import { HornProfileParams } from "../../types";
+import { HornProfileParams, DriverMountParams } from "../../types";
 import { calculateRadii } from "../GeometryUtils";
+import {
+  interpolateSectionShape,
+  generateSectionOutline,
+  offsetSectionShape,
+  SectionOutlineShape,
+} from "../geometry/CrossSectionUtils";
 import { HORN_GEOMETRY_CONSTANTS } from "./HornGeometryConstants";
+import { createLipPoints, getFlareLength, getMouthTermination } from "./MouthTermination";
+import { applyThroatAdapter, getThroatAdapterLength } from "./ThroatAdapter";
 import { getProfile, ProfileType } from "../../profiles";
+import { ProfilePoint } from "../../profiles/types";
+import { ApertureParams, BEMMeridian, DirectivityModel } from "../../acoustic/types";
+
+const SLOPE_STEP = 0.01; // normalized step for the flare slope where a lip starts
 
 export function createOptimizedCircularHorn(
   params: HornProfileParams,
-  steps: number
+  steps: number,
+  driverParams?: DriverMountParams
 ): THREE.BufferGeometry {
-  const { throatDiameter, mouthWidth, length, flareType, wallThickness, cutoffFrequency } = params;
+  const stations = calculateWallStations(params, steps, driverParams);
   
-  const outerPoints: THREE.Vector2[] = [];
-  const innerPoints: THREE.Vector2[] = [];
+  const outerPoints = stations.map(station => new THREE.Vector2(station.outerHalfWidth, station.outerZ));
   
-  for (let i = 0; i <= steps; i++) {
-    const t = i / steps;
-    const z = t * length;
-    
-    const interiorRadius = calculateInteriorRadius(
-      throatDiameter / 2,
-      mouthWidth / 2,
-      t,
-      flareType,
-      length,
-      cutoffFrequency
-    );
-    
-    const { innerRadius, outerRadius } = calculateRadii(interiorRadius, wallThickness);
-    
-    outerPoints.push(new THREE.Vector2(outerRadius, z));
-    innerPoints.push(new THREE.Vector2(innerRadius, z));
+  for (let i = stations.length - 1; i >= 0; i--) {
+    outerPoints.push(new THREE.Vector2(stations[i].halfWidth, stations[i].z));
   }
   
-  for (let i = steps; i >= 0; i--) {
-    outerPoints.push(innerPoints[i]);
-  }
+  // Close the throat annulus so the lathed wall is a closed shell
+  outerPoints.push(outerPoints[0].clone());
   
   const geometry = new THREE.LatheGeometry(
     outerPoints,
@@ -47,44 +43,106 @@ export function createOptimizedCircularHorn(
 
 export function createOptimizedRectangularHorn(
   params: HornProfileParams,
-  steps: number
+  steps: number,
+  driverParams?: DriverMountParams
 ): THREE.BufferGeometry {
-  const { throatDiameter, mouthWidth, mouthHeight, length, flareType, wallThickness } = params;
-  const finalMouthHeight = mouthHeight || mouthWidth;
+  if (hasShapedCrossSection(params)) {
+    return createShapedRectangularHorn(params, steps, driverParams);
+  }
+  
+  const stations = calculateWallStations(params, steps, driverParams);
+  const last = stations.length - 1;
   
   const geometry = new THREE.BufferGeometry();
   const vertices: number[] = [];
   const indices: number[] = [];
   const uvs: number[] = [];
   
-  for (let i = 0; i <= steps; i++) {
-    const t = i / steps;
-    const z = t * length;
+  stations.forEach((station, i) => {
+    vertices.push(...createRectangularCrossSection(station).vertices);
+    uvs.push(...createUVs(i / last, 8));
     
-    const { widthScale, heightScale } = calculateScaleFactors(
-      throatDiameter,
-      mouthWidth,
-      finalMouthHeight,
-      t,
-      flareType
-    );
+    if (i > 0) {
+      indices.push(...generateRectangularFaces(i, i === 1, i === last));
+    }
+  });
+  
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(vertices, 3));
+  geometry.setAttribute("uv", new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  
+  return geometry;
+}
+
+/**
+ * Rectangular horn whose section morphs from a circle at the throat to a
+ * rounded rectangle or superellipse at the mouth
+ */
+function createShapedRectangularHorn(
+  params: HornProfileParams,
+  steps: number,
+  driverParams?: DriverMountParams
+): THREE.BufferGeometry {
+  const { wallThickness } = params;
+  const stations = calculateWallStations(params, steps, driverParams);
+  const last = stations.length - 1;
+  const pointsPerQuadrant = HORN_GEOMETRY_CONSTANTS.SECTION_POINTS_PER_QUADRANT;
+  const ringSize = pointsPerQuadrant * 4;
+  
+  const vertices: number[] = [];
+  const uvs: number[] = [];
+  
+  stations.forEach((station, i) => {
+    const section = station.section!;
     
-    const crossSection = createRectangularCrossSection(
-      throatDiameter,
-      widthScale,
-      heightScale,
-      wallThickness,
-      z
+    const outer = generateSectionOutline(
+      station.outerHalfWidth,
+      station.outerHalfHeight,
+      offsetSectionShape(section, wallThickness),
+      pointsPerQuadrant
     );
+    const inner = generateSectionOutline(station.halfWidth, station.halfHeight, section, pointsPerQuadrant);
     
-    vertices.push(...crossSection.vertices);
-    uvs.push(...createUVs(t, 8));
+    for (const point of outer) {
+      vertices.push(point.x, point.y, station.outerZ);
+    }
+    for (const point of inner) {
+      vertices.push(point.x, point.y, station.z);
+    }
+    uvs.push(...createUVs(i / last, ringSize * 2));
+  });
+  
+  const indices: number[] = [];
+  const ring = (i: number) => i * ringSize * 2;
+  
+  for (let i = 1; i <= last; i++) {
+    const prev = ring(i - 1);
+    const curr = ring(i);
     
-    if (i > 0) {
-      indices.push(...generateRectangularFaces(i));
+    for (let j = 0; j < ringSize; j++) {
+      const next = (j + 1) % ringSize;
+      
+      // Outer wall faces away from the axis, inner wall toward it
+      indices.push(prev + j, prev + next, curr + next);
+      indices.push(prev + j, curr + next, curr + j);
+      indices.push(prev + ringSize + j, curr + ringSize + next, prev + ringSize + next);
+      indices.push(prev + ringSize + j, curr + ringSize + j, curr + ringSize + next);
     }
   }
   
+  // Annular caps close the wall at the throat and mouth
+  const throat = ring(0);
+  const mouth = ring(last);
+  for (let j = 0; j < ringSize; j++) {
+    const next = (j + 1) % ringSize;
+    indices.push(throat + j, throat + ringSize + j, throat + next);
+    indices.push(throat + next, throat + ringSize + j, throat + ringSize + next);
+    indices.push(mouth + j, mouth + next, mouth + ringSize + j);
+    indices.push(mouth + next, mouth + ringSize + next, mouth + ringSize + j);
+  }
+  
+  const geometry = new THREE.BufferGeometry();
   geometry.setAttribute("position", new THREE.Float32BufferAttribute(vertices, 3));
   geometry.setAttribute("uv", new THREE.Float32BufferAttribute(uvs, 2));
   geometry.setIndex(indices);
@@ -93,137 +151,401 @@ export function createOptimizedRectangularHorn(
   return geometry;
 }
 
-function calculateInteriorRadius(
-  throatRadius: number,
-  mouthRadius: number,
-  t: number,
-  flareType: string | ProfileType,
-  length: number,
-  cutoffFrequency?: number
-): number {
-  // Handle legacy string types
-  if (flareType === "exponential") {
-    flareType = ProfileType.EXPONENTIAL;
-  } else if (flareType === "conical") {
-    flareType = ProfileType.CONICAL;
+/**
+ * One ring of the horn wall. The interior ring is planar at z and the
+ * exterior ring at outerZ; the two only differ around a rolled-back lip.
+ */
+export interface HornWallStation {
+  z: number;
+  halfWidth: number;
+  halfHeight: number;
+  outerZ: number;
+  outerHalfWidth: number;
+  outerHalfHeight: number;
+  section: SectionOutlineShape | null; // interior section of shaped rectangular horns
+}
+
+/**
+ * Wall rings from throat to mouth: the driver's throat adapter when it has
+ * one, `steps` stations along the flare, then the lip rings when the mouth
+ * has a rolled-back termination
+ */
+export function calculateWallStations(
+  params: HornProfileParams,
+  steps: number,
+  driverParams?: DriverMountParams
+): HornWallStation[] {
+  const { length, wallThickness } = params;
+  const { width, height } = createInteriorSamplers(params, driverParams);
+  const termination = getMouthTermination(params);
+  const adapterEnd = getThroatAdapterLength(length, driverParams) / length;
+  const flareEnd = getFlareLength(params) / length;
+  const flareSteps = termination || adapterEnd > 0
+    ? Math.max(2, Math.round(steps * (flareEnd - adapterEnd)))
+    : steps;
+  
+  // The adapter is short against the flare, so it gets its own stations
+  const positions: number[] = [];
+  if (adapterEnd > 0) {
+    const adapterSteps = HORN_GEOMETRY_CONSTANTS.ADAPTER_STEPS;
+    for (let i = 0; i < adapterSteps; i++) {
+      positions.push((i / adapterSteps) * adapterEnd);
+    }
+  }
+  for (let i = 0; i <= flareSteps; i++) {
+    positions.push(adapterEnd + (i / flareSteps) * (flareEnd - adapterEnd));
+  }
+  
+  const stations: HornWallStation[] = [];
+  
+  for (const t of positions) {
+    const halfWidth = width(t);
+    const halfHeight = height(t);
+    
+    stations.push({
+      z: t * length,
+      halfWidth,
+      halfHeight,
+      outerZ: t * length,
+      outerHalfWidth: calculateRadii(halfWidth, wallThickness).outerRadius,
+      outerHalfHeight: calculateRadii(halfHeight, wallThickness).outerRadius,
+      section: getSectionShape(params, halfWidth, halfHeight, t),
+    });
   }
   
-  // Use the new profile system
-  const profile = getProfile(flareType as ProfileType, {
-    throatRadius,
+  if (!termination) {
+    return stations;
+  }
+  
+  const start = stations[stations.length - 1];
+  const slope = (sampler: (t: number) => number) =>
+    (sampler(flareEnd) - sampler(flareEnd - SLOPE_STEP)) / (SLOPE_STEP * length);
+  
+  const lip = createLipPoints(
+    termination,
+    start.z,
+    { halfExtent: start.halfWidth, slope: slope(width) },
+    { halfExtent: start.halfHeight, slope: slope(height) },
+    wallThickness,
+    HORN_GEOMETRY_CONSTANTS.LIP_STEPS
+  );
+  
+  // The lip keeps the section shape where it starts, with rounded corners
+  // growing by the narrower axis' offset so they stay concentric
+  for (const point of lip) {
+    stations.push({
+      ...point,
+      section: start.section && offsetSectionShape(
+        start.section,
+        Math.min(point.halfWidth - start.halfWidth, point.halfHeight - start.halfHeight)
+      ),
+    });
+  }
+  
+  return stations;
+}
+
+/**
+ * Horn parameters as seen by parts fitted to the mouth. A rolled-back lip
+ * moves the mouth plane to the front of the lip, where it is also wider.
+ */
+export function resolveMouthParams(params: HornProfileParams): HornProfileParams {
+  if (!getMouthTermination(params)) {
+    return params;
+  }
+  
+  const apex = calculateWallStations(params, 1).reduce((front, station) => station.z > front.z ? station : front);
+  
+  return {
+    ...params,
+    length: apex.z,
+    mouthWidth: apex.halfWidth * 2,
+    mouthHeight: params.mouthHeight === undefined ? undefined : apex.halfHeight * 2,
+    crossSection: params.crossSection && apex.section
+      ? { ...params.crossSection, mouthCornerRadius: apex.section.cornerRadius, mouthExponent: apex.section.exponent }
+      : params.crossSection,
+    mouthTermination: undefined,
+  };
+}
+
+/**
+ * Flare profile of one axis out to mouthRadius, with the horn's settings
+ * for the profiles that take them (cutoff, drawn or imported curve)
+ */
+export function calculateFlareProfile(
+  params: HornProfileParams,
+  flareType: ProfileType,
+  mouthRadius: number,
+  segments: number = 100
+): ProfilePoint[] {
+  return getProfile(flareType, {
+    throatRadius: params.throatDiameter / 2,
     mouthRadius,
-    length,
-    segments: 100,
-    cutoffFrequency
+    length: params.length,
+    segments,
+    cutoffFrequency: params.cutoffFrequency,
+    customProfile: params.customProfile,
+    importedProfile: params.importedProfile
   });
+}
+
+/**
+ * Interior profile from the throat to the mouth plane for the acoustic
+ * models. Rectangular horns report the radius of a circle with the same
+ * area as their section, so the duct carries the true cross-section area.
+ */
+export function calculateAcousticProfile(
+  params: HornProfileParams,
+  driverParams?: DriverMountParams,
+  steps: number = 100
+): ProfilePoint[] {
+  if (params.roundMouth && !getMouthTermination(params) && getThroatAdapterLength(params.length, driverParams) === 0) {
+    return calculateFlareProfile(params, params.flareType, params.mouthWidth / 2, steps);
+  }
   
-  // Find the radius at position t * length
-  const targetX = t * length;
+  const profile: ProfilePoint[] = [];
+  for (const station of calculateWallStations(params, steps, driverParams)) {
+    if (profile.length > 0 && station.z <= profile[profile.length - 1].x) break;
+    profile.push({
+      x: station.z,
+      radius: params.roundMouth ? station.halfWidth : Math.sqrt(calculateSectionArea(station) / Math.PI),
+    });
+  }
+  return profile;
+}
+
+/**
+ * Wall in the horizontal or vertical plane for the axisymmetric BEM, lip
+ * included. A rectangular horn is treated as round with that axis' extents.
+ */
+export function calculateWallMeridian(
+  params: HornProfileParams,
+  axis: "horizontal" | "vertical",
+  driverParams?: DriverMountParams,
+  steps: number = 60
+): BEMMeridian {
+  const stations = calculateWallStations(params, steps, driverParams);
+  const vertical = axis === "vertical" && !params.roundMouth;
   
-  // Find the closest point in the profile
-  let closestPoint = profile[0];
-  for (const point of profile) {
-    if (point.x >= targetX) {
-      closestPoint = point;
-      break;
-    }
+  return {
+    inner: stations.map(station => ({
+      x: station.z,
+      radius: vertical ? station.halfHeight : station.halfWidth,
+    })),
+    outer: stations.map(station => ({
+      x: station.outerZ,
+      radius: vertical ? station.outerHalfHeight : station.outerHalfWidth,
+    })),
+  };
+}
+
+/**
+ * Mouth of a rectangular horn as an aperture in one axis' plane: its extent
+ * at the front of any lip, and the distance behind the mouth to where the
+ * final flare meets the axis, which sets the curvature of the wavefront
+ */
+export function calculateMouthAperture(
+  params: HornProfileParams,
+  axis: "horizontal" | "vertical",
+  driverParams?: DriverMountParams
+): ApertureParams {
+  const samplers = createInteriorSamplers(params, driverParams);
+  const sampler = axis === "vertical" ? samplers.height : samplers.width;
+  const flareEnd = getFlareLength(params) / params.length;
+  const halfExtent = sampler(flareEnd);
+  const slope = (halfExtent - sampler(flareEnd - SLOPE_STEP)) / (SLOPE_STEP * params.length);
+  const mouth = resolveMouthParams(params);
+  
+  return {
+    size: axis === "vertical" ? mouth.mouthHeight ?? mouth.mouthWidth : mouth.mouthWidth,
+    wavefrontRadius: slope > 0 ? halfExtent / slope : undefined,
+  };
+}
+
+/**
+ * Directivity model for one plane: round horns are solved with the BEM,
+ * rectangular ones radiate from their mouth aperture in each plane
+ */
+export function calculateDirectivityModel(
+  params: HornProfileParams,
+  axis: "horizontal" | "vertical",
+  driverParams?: DriverMountParams
+): DirectivityModel {
+  return params.roundMouth
+    ? { type: "bem", meridian: calculateWallMeridian(params, axis, driverParams) }
+    : { type: "aperture", aperture: calculateMouthAperture(params, axis, driverParams) };
+}
+
+/**
+ * Interior area of a rectangular horn station
+ */
+function calculateSectionArea(station: HornWallStation): number {
+  if (!station.section) {
+    return 4 * station.halfWidth * station.halfHeight;
+  }
+  
+  const outline = generateSectionOutline(
+    station.halfWidth,
+    station.halfHeight,
+    station.section,
+    HORN_GEOMETRY_CONSTANTS.SECTION_POINTS_PER_QUADRANT
+  );
+  let area = 0;
+  outline.forEach((point, i) => {
+    const next = outline[(i + 1) % outline.length];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Rectangular horn with a rounded-rectangle or superellipse section
+ */
+export function hasShapedCrossSection(params: HornProfileParams): boolean {
+  return !params.roundMouth && !!params.crossSection && params.crossSection.shape !== "rectangle";
+}
+
+/**
+ * Section shape of a shaped rectangular horn, or null for round horns and
+ * plain rectangles
+ */
+export function getSectionShape(
+  params: HornProfileParams,
+  halfWidth: number,
+  halfHeight: number,
+  t: number
+): SectionOutlineShape | null {
+  if (!hasShapedCrossSection(params)) {
+    return null;
   }
+  return interpolateSectionShape(params.crossSection!, halfWidth, halfHeight, t);
+}
+
+/**
+ * Interior outline polygon at normalized position t, counter-clockwise
+ */
+export function calculateInteriorOutline(
+  params: HornProfileParams,
+  t: number,
+  driverParams?: DriverMountParams,
+  pointsPerQuadrant: number = HORN_GEOMETRY_CONSTANTS.SECTION_POINTS_PER_QUADRANT
+): Array<{ x: number; y: number }> {
+  const { halfWidth, halfHeight } = calculateInteriorHalfExtents(params, t, driverParams);
   
-  return closestPoint.radius;
+  if (params.roundMouth) {
+    return generateSectionOutline(halfWidth, halfHeight, { shape: "superellipse", cornerRadius: 0, exponent: 2 }, pointsPerQuadrant);
+  }
+  
+  const section = getSectionShape(params, halfWidth, halfHeight, t);
+  if (!section) {
+    return [
+      { x: halfWidth, y: -halfHeight },
+      { x: halfWidth, y: halfHeight },
+      { x: -halfWidth, y: halfHeight },
+      { x: -halfWidth, y: -halfHeight },
+    ];
+  }
+  
+  return generateSectionOutline(halfWidth, halfHeight, section, pointsPerQuadrant);
 }
 
-function calculateScaleFactors(
-  throatDiameter: number,
-  mouthWidth: number,
-  mouthHeight: number,
+/**
+ * Interior half-width and half-height of the horn at normalized position t,
+ * matching the cross-sections used by the mesh generators above.
+ */
+export function calculateInteriorHalfExtents(
+  params: HornProfileParams,
   t: number,
-  flareType: string | ProfileType
-) {
-  // Convert legacy strings to ProfileType
-  if (typeof flareType === 'string') {
-    if (flareType === 'exponential') {
-      flareType = ProfileType.EXPONENTIAL;
-    } else if (flareType === 'conical') {
-      flareType = ProfileType.CONICAL;
-    }
+  driverParams?: DriverMountParams
+): { halfWidth: number; halfHeight: number } {
+  const { width, height } = createInteriorSamplers(params, driverParams);
+  return { halfWidth: width(t), halfHeight: height(t) };
+}
+
+/**
+ * Interior half-extent samplers for either horn type; a round horn follows
+ * the width profile on both axes. A throat adapter replaces the start of both.
+ */
+function createInteriorSamplers(params: HornProfileParams, driverParams?: DriverMountParams): {
+  width: (t: number) => number;
+  height: (t: number) => number;
+} {
+  const { mouthWidth, length, flareType } = params;
+  const radius = params.roundMouth
+    ? createProfileSampler(params, flareType, mouthWidth / 2)
+    : null;
+  const flare = radius ? { width: radius, height: radius } : createRectangularAxisSamplers(params);
+  
+  return {
+    width: applyThroatAdapter(flare.width, length, driverParams),
+    height: applyThroatAdapter(flare.height, length, driverParams),
+  };
+}
+
+/**
+ * Interior half-extent along each axis of a rectangular horn as a function of
+ * normalized position. Width follows `flareType` out to mouthWidth and height
+ * follows `heightFlareType` (or `flareType`) out to mouthHeight.
+ */
+export function createRectangularAxisSamplers(params: HornProfileParams): {
+  width: (t: number) => number;
+  height: (t: number) => number;
+} {
+  const { mouthWidth, mouthHeight, flareType, heightFlareType } = params;
+  
+  return {
+    width: createProfileSampler(params, flareType, mouthWidth / 2),
+    height: createProfileSampler(params, heightFlareType || flareType, (mouthHeight || mouthWidth) / 2),
+  };
+}
+
+/**
+ * Generate the profile once and interpolate it, so a rectangular horn does not
+ * rebuild both axis profiles for every cross-section
+ */
+function createProfileSampler(
+  params: HornProfileParams,
+  flareType: ProfileType,
+  mouthRadius: number
+): (t: number) => number {
+  const throatRadius = params.throatDiameter / 2;
+  const { length } = params;
+  
+  // An axis that does not flare (mouth no wider than the throat) has no
+  // profile to follow; taper it linearly instead
+  if (mouthRadius <= throatRadius) {
+    return (t) => throatRadius + t * (mouthRadius - throatRadius);
   }
   
-  // Use the profile library to get the radius at position t
-  const throatRadius = throatDiameter / 2;
-  const mouthWidthRadius = mouthWidth / 2;
-  const mouthHeightRadius = mouthHeight / 2;
-  
-  // For rectangular horns, we need to calculate width and height scales
-  // based on the profile curve
-  switch (flareType) {
-    case ProfileType.CONICAL:
-      return {
-        widthScale: 1 + t * ((mouthWidth / throatDiameter) - 1),
-        heightScale: 1 + t * ((mouthHeight / throatDiameter) - 1),
-      };
+  const profile = calculateFlareProfile(params, flareType, mouthRadius);
+  
+  return (t) => {
+    const targetX = t * length;
     
-    case ProfileType.EXPONENTIAL:
-    case ProfileType.MODIFIED_EXPONENTIAL:
-      return {
-        widthScale: Math.pow(mouthWidth / throatDiameter, t),
-        heightScale: Math.pow(mouthHeight / throatDiameter, t),
-      };
+    if (targetX <= profile[0].x) return profile[0].radius;
     
-    case ProfileType.TRACTRIX:
-    case ProfileType.LE_CLEACH:
-    case ProfileType.JMLC:
-      // These profiles use more complex curves
-      // We'll calculate based on the profile's radius at position t
-      const profile = getProfile(flareType, {
-        throatRadius,
-        mouthRadius: mouthWidthRadius,
-        length: 1, // Normalized length
-        segments: 100
-      });
-      const pointIndex = Math.floor(t * (profile.length - 1));
-      const radiusAtT = profile[pointIndex].radius;
-      const scale = radiusAtT / throatRadius;
-      
-      return {
-        widthScale: scale * (mouthWidth / throatDiameter) / (mouthWidthRadius / throatRadius),
-        heightScale: scale * (mouthHeight / throatDiameter) / (mouthHeightRadius / throatRadius),
-      };
+    for (let i = 1; i < profile.length; i++) {
+      const b = profile[i];
+      if (b.x >= targetX) {
+        const a = profile[i - 1];
+        const span = b.x - a.x;
+        return span > 0 ? a.radius + ((targetX - a.x) / span) * (b.radius - a.radius) : b.radius;
+      }
+    }
     
-    default:
-      // For other profiles, use a smooth interpolation
-      const smoothT = t * t * (3 - 2 * t); // Smoothstep function
-      return {
-        widthScale: 1 + smoothT * ((mouthWidth / throatDiameter) - 1),
-        heightScale: 1 + smoothT * ((mouthHeight / throatDiameter) - 1),
-      };
-  }
+    return profile[profile.length - 1].radius;
+  };
 }
 
-function createRectangularCrossSection(
-  throatDiameter: number,
-  widthScale: number,
-  heightScale: number,
-  wallThickness: number,
-  z: number
-) {
-  const interiorWidth = (throatDiameter * widthScale) / 2;
-  const interiorHeight = (throatDiameter * heightScale) / 2;
-  
-  const { innerRadius: innerWidth, outerRadius: outerWidth } = calculateRadii(
-    interiorWidth,
-    wallThickness
-  );
-  const { innerRadius: innerHeight, outerRadius: outerHeight } = calculateRadii(
-    interiorHeight,
-    wallThickness
-  );
+function createRectangularCrossSection(station: HornWallStation) {
+  const { z, halfWidth: innerWidth, halfHeight: innerHeight, outerZ, outerHalfWidth: outerWidth, outerHalfHeight: outerHeight } = station;
   
   return {
     vertices: [
-      -outerWidth, -outerHeight, z,
-      outerWidth, -outerHeight, z,
-      outerWidth, outerHeight, z,
-      -outerWidth, outerHeight, z,
+      -outerWidth, -outerHeight, outerZ,
+      outerWidth, -outerHeight, outerZ,
+      outerWidth, outerHeight, outerZ,
+      -outerWidth, outerHeight, outerZ,
       -innerWidth, -innerHeight, z,
       innerWidth, -innerHeight, z,
       innerWidth, innerHeight, z,
@@ -240,7 +562,11 @@ function createUVs(t: number, count: number): number[] {
   return uvs;
 }
 
-function generateRectangularFaces(segmentIndex: number): number[] {
+function generateRectangularFaces(
+  segmentIndex: number,
+  capStart: boolean,
+  capEnd: boolean
+): number[] {
   const indices: number[] = [];
   const prev = (segmentIndex - 1) * 8;
   const curr = segmentIndex * 8;
@@ -249,18 +575,22 @@ function generateRectangularFaces(segmentIndex: number): number[] {
     const next = (j + 1) % 4;
     
     // Outer faces
-    indices.push(prev + j, curr + j, prev + next);
-    indices.push(curr + j, curr + next, prev + next);
+    indices.push(prev + j, prev + next, curr + j);
+    indices.push(curr + j, prev + next, curr + next);
     
     // Inner faces
-    indices.push(prev + 4 + j, prev + 4 + next, curr + 4 + j);
-    indices.push(curr + 4 + j, prev + 4 + next, curr + 4 + next);
+    indices.push(prev + 4 + j, curr + 4 + j, prev + 4 + next);
+    indices.push(curr + 4 + j, curr + 4 + next, prev + 4 + next);
     
-    // Connect walls
-    indices.push(prev + j, prev + 4 + j, prev + next);
-    indices.push(prev + 4 + j, prev + 4 + next, prev + next);
-    indices.push(curr + j, curr + next, curr + 4 + j);
-    indices.push(curr + 4 + j, curr + next, curr + 4 + next);
+    // Connect walls only at the throat and mouth so no faces sit inside the shell
+    if (capStart) {
+      indices.push(prev + j, prev + 4 + j, prev + next);
+      indices.push(prev + 4 + j, prev + 4 + next, prev + next);
+    }
+    if (capEnd) {
+      indices.push(curr + j, curr + next, curr + 4 + j);
+      indices.push(curr + 4 + j, curr + next, curr + 4 + next);
+    }
   }
   
   return indices;
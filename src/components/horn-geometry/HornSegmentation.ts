@@ -0,0 +1,923 @@
+import * as THREE from "three";
+import {
+  HornProfileParams,
+  MountPlateParams,
+  DriverMountParams,
+  SegmentationParams,
+} from "../../types";
+import { intersectGeometries, subtractGeometries, unionGeometries } from "../GeometryUtils";
+import { calculateInteriorHalfExtents, calculateInteriorOutline } from "./HornProfileGenerator";
+import { getFlareLength } from "./MouthTermination";
+import {
+  createAssemblyParts,
+  mergeAssemblyParts,
+  prepareGeometryForExport,
+  disposeAssemblyParts,
+  AssemblyOptions,
+  AssemblyPart,
+} from "./AssemblyGeometry";
+
+export interface HornSegment {
+  id: string;
+  sliceIndex: number;
+  sectorIndex: number;
+  sectorDirection: [number, number]; // sign of the sector in x/y, used to explode the preview
+  geometry: THREE.BufferGeometry;
+  size: THREE.Vector3;
+  fitsBed: boolean;
+}
+
+export interface DowelSpec {
+  diameter: number; // mm
+  length: number;   // mm
+  count: number;
+}
+
+export interface SegmentationResult {
+  segments: HornSegment[];
+  axialSegments: number;
+  keyCount: number;
+  dowels?: DowelSpec;
+  warnings: string[];
+}
+
+export interface SegmentationWorkerRequest {
+  hornParams: HornProfileParams;
+  plateParams: MountPlateParams;
+  driverParams: DriverMountParams;
+  options: AssemblyOptions;
+  segmentation: SegmentationParams;
+}
+
+/**
+ * A segmentation result as plain arrays, so it can leave the worker
+ */
+export interface SerializedSegmentation extends Omit<SegmentationResult, "segments"> {
+  segments: Array<Omit<HornSegment, "geometry" | "size"> & {
+    size: [number, number, number];
+    position: Float32Array;
+    normal: Float32Array;
+    index: Uint32Array | null;
+  }>;
+}
+
+/**
+ * Messages posted back by the segmentation worker
+ */
+export type SegmentationWorkerResponse =
+  | { type: "result"; result: SerializedSegmentation }
+  | { type: "error"; message: string };
+
+interface SectorBounds {
+  direction: [number, number];
+  min: [number, number];
+  max: [number, number];
+}
+
+interface PieceSlot {
+  segment: HornSegment;
+  zMin: number;
+  zMax: number;
+  sector: SectorBounds;
+  additions: THREE.BufferGeometry[];
+  subtractions: THREE.BufferGeometry[];
+}
+
+interface SliceLayout {
+  sliceIndex: number;
+  zMin: number;
+  zMax: number;
+  cuts: CutPlane[]; // cuts around the axis
+}
+
+interface CutPlane {
+  axis: 0 | 1;  // the cut is x = value (0) or y = value (1)
+  value: number;
+}
+
+interface KeySite {
+  position: THREE.Vector3;
+  across: THREE.Vector3; // crosses the cut, from the male piece to the female piece
+  normal: THREE.Vector3; // wall normal at the site
+  thickness: number;     // material the key sits in, along the normal
+}
+
+type KeyType = SegmentationParams["keyType"];
+
+const CLIP_MARGIN = 10; // mm - clip boxes reach past the assembly bounds
+const KEY_OVERLAP = 1; // mm - keys sink into their own piece so unions stay solid
+const KEY_INSET = 0.05; // mm - keeps key faces off the wall surfaces to avoid coplanar booleans
+const MIN_DOWEL_WALL = 0.6; // mm - material left either side of a dowel hole
+const MIN_DOWEL_DIAMETER = 1; // mm
+const FIT_TOLERANCE = 0.5; // mm - CSG round-off on pieces cut exactly to bed size
+const CUT_OFFSET = 0.05; // mm - moves cut planes off the axis, stations and bolt-hole centres
+const MAX_FIT_ATTEMPTS = 6;
+const MIN_KEY_COS = 0.5; // cuts meeting the wall more obliquely than 60° get no key there
+
+// Thinnest wall a dowel hole fits in; thinner walls get dovetails instead
+export const MIN_DOWEL_WALL_THICKNESS = MIN_DOWEL_DIAMETER + 2 * MIN_DOWEL_WALL;
+
+// Columns x rows around the axis, by piece count; auto mode takes the first that fits
+const GRID_CANDIDATES: Array<[number, number]> = [
+  [1, 1], [2, 1], [1, 2], [2, 2], [3, 2], [2, 3], [3, 3],
+  [4, 3], [3, 4], [4, 4], [5, 4], [4, 5], [5, 5],
+];
+const MANUAL_GRIDS: Record<number, [number, number]> = { 1: [1, 1], 2: [2, 1], 4: [2, 2] };
+
+/**
+ * Builds the assembly and splits it into pieces that fit the print bed.
+ * Slices are cut across the axis first, then each slice is split into a
+ * grid of pieces around the axis until its footprint fits.
+ */
+export function createSegmentedAssembly(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: AssemblyOptions,
+  segmentation: SegmentationParams
+): SegmentationResult {
+  const parts = createAssemblyParts(hornParams, plateParams, driverParams, options);
+
+  try {
+    return segmentAssemblyParts(parts, hornParams, segmentation, driverParams);
+  } finally {
+    disposeAssemblyParts(parts);
+  }
+}
+
+/**
+ * Cuts the assembly parts into bed-sized pieces and adds alignment keys on
+ * every cut face. The split is an estimate until the keyed pieces have been
+ * measured, so in auto mode any piece still over the bed adds another slice
+ * or another row or column of pieces to its slice and the split is redone.
+ */
+export function segmentAssemblyParts(
+  parts: AssemblyPart[],
+  hornParams: HornProfileParams,
+  segmentation: SegmentationParams,
+  driverParams?: DriverMountParams
+): SegmentationResult {
+  const prepared = parts.map(part => ({ ...part, geometry: prepareGeometryForExport(part.geometry) }));
+  const bounds = new THREE.Box3();
+  prepared.forEach(part => bounds.union(part.geometry.boundingBox!));
+
+  const keyDepth = getKeyDepth(segmentation);
+  const autoSlices = !(segmentation.axialSegments > 0);
+  const autoGrid = !(segmentation.radialSegments > 0);
+  let sliceCount = autoSlices
+    ? Math.max(1, Math.ceil((bounds.max.z - bounds.min.z) / Math.max(1, segmentation.bedHeight - keyDepth)))
+    : Math.round(segmentation.axialSegments);
+  const gridSteps = new Map<number, number>(); // extra grid candidates per slice beyond the estimate
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const result = splitAssembly(prepared, bounds, sliceCount, gridSteps, hornParams, segmentation, driverParams);
+      const oversized = result.segments.filter(segment => !segment.fitsBed);
+      if (oversized.length === 0) return result;
+
+      let refined = false;
+      if (attempt < MAX_FIT_ATTEMPTS) {
+        if (autoSlices && oversized.some(segment => segment.size.z > segmentation.bedHeight + FIT_TOLERANCE)) {
+          sliceCount++;
+          gridSteps.clear();
+          refined = true;
+        } else if (autoGrid) {
+          for (const sliceIndex of new Set(oversized.map(segment => segment.sliceIndex))) {
+            const step = gridSteps.get(sliceIndex) ?? 0;
+            if (result.gridIndices[sliceIndex] + 1 < GRID_CANDIDATES.length) {
+              gridSteps.set(sliceIndex, step + 1);
+              refined = true;
+            }
+          }
+        }
+      }
+
+      if (!refined) {
+        result.warnings.unshift(
+          `No split fits the ${segmentation.bedWidth}×${segmentation.bedDepth}×${segmentation.bedHeight}mm bed; ` +
+          `${oversized.length} piece${oversized.length === 1 ? "" : "s"} too large to export`
+        );
+        return result;
+      }
+      disposeSegments(result);
+    }
+  } finally {
+    disposeAssemblyParts(prepared);
+  }
+}
+
+export function disposeSegments(result: SegmentationResult): void {
+  result.segments.forEach(segment => segment.geometry.dispose());
+}
+
+export function serializeSegmentation(result: SegmentationResult): SerializedSegmentation {
+  return {
+    ...result,
+    segments: result.segments.map(({ geometry, size, ...segment }) => ({
+      ...segment,
+      size: [size.x, size.y, size.z],
+      position: geometry.getAttribute("position").array as Float32Array,
+      normal: geometry.getAttribute("normal").array as Float32Array,
+      index: geometry.index ? Uint32Array.from(geometry.index.array) : null,
+    })),
+  };
+}
+
+export function deserializeSegmentation(data: SerializedSegmentation): SegmentationResult {
+  return {
+    ...data,
+    segments: data.segments.map(({ size, position, normal, index, ...segment }) => {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute("position", new THREE.BufferAttribute(position, 3));
+      geometry.setAttribute("normal", new THREE.BufferAttribute(normal, 3));
+      if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+      geometry.computeBoundingBox();
+      geometry.computeBoundingSphere();
+      return { ...segment, geometry, size: new THREE.Vector3(...size) };
+    }),
+  };
+}
+
+/**
+ * One split of the assembly: every part is clipped on its own and the
+ * clipped parts are merged per piece, which keeps the booleans on clean
+ * closed meshes. Keys sit on the wall mid-surface so they work on thin
+ * horn walls too, and in the plate wherever a cut crosses it.
+ */
+function splitAssembly(
+  prepared: AssemblyPart[],
+  bounds: THREE.Box3,
+  sliceCount: number,
+  gridSteps: Map<number, number>,
+  hornParams: HornProfileParams,
+  segmentation: SegmentationParams,
+  driverParams?: DriverMountParams
+): SegmentationResult & { gridIndices: number[] } {
+  const warnings: string[] = [];
+  const keyDepth = getKeyDepth(segmentation);
+  const sliceHeight = (bounds.max.z - bounds.min.z) / sliceCount;
+  const reach = Math.max(
+    Math.abs(bounds.min.x), Math.abs(bounds.max.x),
+    Math.abs(bounds.min.y), Math.abs(bounds.max.y)
+  ) + CLIP_MARGIN;
+
+  const slots: PieceSlot[] = [];
+  const layouts: SliceLayout[] = [];
+  const gridIndices: number[] = [];
+
+  for (let sliceIndex = 0; sliceIndex < sliceCount; sliceIndex++) {
+    const zMin = sliceIndex === 0 ? bounds.min.z : bounds.min.z + sliceIndex * sliceHeight + CUT_OFFSET;
+    const zMax = sliceIndex === sliceCount - 1 ? bounds.max.z : bounds.min.z + (sliceIndex + 1) * sliceHeight + CUT_OFFSET;
+    const clipMin = sliceIndex === 0 ? zMin - CLIP_MARGIN : zMin;
+    const clipMax = sliceIndex === sliceCount - 1 ? zMax + CLIP_MARGIN : zMax;
+
+    const box = measureSlice(prepared, clipMin, clipMax, reach);
+    const gridIndex = Math.min(
+      GRID_CANDIDATES.length - 1,
+      chooseGridIndex(box, hornParams, segmentation, keyDepth) + (gridSteps.get(sliceIndex) ?? 0)
+    );
+    gridIndices.push(gridIndex);
+
+    const [columns, rows] = GRID_CANDIDATES[gridIndex];
+    const { sectors, cuts } = createGrid(columns, rows, box, reach);
+    layouts.push({ sliceIndex, zMin, zMax, cuts });
+
+    for (const [sectorIndex, sector] of sectors.entries()) {
+      const id = sectors.length > 1 ? `S${sliceIndex + 1}-${String.fromCharCode(65 + sectorIndex)}` : `S${sliceIndex + 1}`;
+      const clipBox = createClipBox([sector.min[0], sector.min[1], clipMin], [sector.max[0], sector.max[1], clipMax]);
+      const geometry = clipParts(prepared, clipBox, id, warnings);
+      clipBox.dispose();
+
+      if (!geometry) continue;
+
+      slots.push({
+        segment: {
+          id,
+          sliceIndex,
+          sectorIndex,
+          sectorDirection: sector.direction,
+          geometry,
+          size: new THREE.Vector3(),
+          fitsBed: true,
+        },
+        zMin,
+        zMax,
+        sector,
+        additions: [],
+        subtractions: [],
+      });
+    }
+  }
+
+  const candidates = [
+    ...createAxialKeySites(slots, hornParams, driverParams),
+    ...createWallKeySites(layouts, hornParams, keyDepth, driverParams),
+    ...createPlateKeySites(layouts, prepared.find(part => part.name === "plate"), segmentation, keyDepth),
+  ];
+
+  // Keys whose footprint lands wholly on one piece either side of their cut
+  const placed = candidates.flatMap(site => {
+    const male = findKeySlot(slots, site, -1, segmentation);
+    const female = findKeySlot(slots, site, 1, segmentation);
+    return male && female && male !== female ? [{ site, male, female }] : [];
+  });
+
+  const hostsDowel = (site: KeySite) => site.thickness >= MIN_DOWEL_WALL_THICKNESS;
+  const dowels = segmentation.keyType === "dowel"
+    ? createDowelSpec(placed.filter(({ site }) => hostsDowel(site)).map(({ site }) => site.thickness), segmentation.keySize)
+    : undefined;
+
+  let keyCount = 0;
+  let dovetailFallbacks = 0;
+  if (segmentation.keyType !== "none") {
+    for (const { site, male, female } of placed) {
+      let keyType: KeyType = segmentation.keyType;
+      if (keyType === "dowel" && !(dowels && hostsDowel(site))) {
+        keyType = "dovetail";
+        dovetailFallbacks++;
+      }
+
+      const keys = createKeyGeometries(site, segmentation, keyType, dowels);
+      male.additions.push(...keys.male);
+      male.subtractions.push(...keys.maleCuts);
+      female.subtractions.push(...keys.female);
+      keyCount++;
+    }
+  }
+
+  if (dowels) {
+    dowels.count = keyCount - dovetailFallbacks;
+  }
+  if (dovetailFallbacks > 0) {
+    warnings.push(
+      `Walls under ${MIN_DOWEL_WALL_THICKNESS.toFixed(1)}mm are too thin for dowels; ` +
+      `${dovetailFallbacks} dovetail key${dovetailFallbacks === 1 ? "" : "s"} used there instead`
+    );
+  }
+  if (segmentation.keyType !== "none" && keyCount === 0 && slots.length > 1) {
+    warnings.push("No cut has room for alignment keys");
+  }
+
+  const segments = slots.map(slot => {
+    const geometry = applyKeys(slot, warnings);
+    const prepared = prepareGeometryForExport(geometry);
+    geometry.dispose();
+
+    prepared.boundingBox!.getSize(slot.segment.size);
+    slot.segment.geometry = prepared;
+    slot.segment.fitsBed = fitsBed(slot.segment.size, segmentation);
+
+    if (!slot.segment.fitsBed) {
+      const { x, y, z } = slot.segment.size;
+      warnings.push(`Piece ${slot.segment.id} (${x.toFixed(0)}×${y.toFixed(0)}×${z.toFixed(0)}mm) does not fit the bed`);
+    }
+
+    return slot.segment;
+  });
+
+  return { segments, axialSegments: sliceCount, keyCount, dowels, warnings, gridIndices };
+}
+
+/**
+ * Bounds of everything between two heights
+ */
+function measureSlice(parts: AssemblyPart[], clipMin: number, clipMax: number, reach: number): THREE.Box3 {
+  const clipBox = createClipBox([-reach, -reach, clipMin], [reach, reach, clipMax]);
+  const box = new THREE.Box3();
+
+  for (const part of parts) {
+    const clipped = intersectGeometries(part.geometry, clipBox);
+    clipped.geometry.computeBoundingBox();
+    if (clipped.success && !clipped.geometry.boundingBox!.isEmpty()) {
+      box.union(clipped.geometry.boundingBox!);
+    }
+    clipped.geometry.dispose();
+  }
+  clipBox.dispose();
+
+  return box;
+}
+
+/**
+ * Fewest pieces around the axis whose footprint fits the bed, counting the
+ * keys that stand proud of each cut. A fixed radial split is used as set.
+ */
+function chooseGridIndex(
+  box: THREE.Box3,
+  hornParams: HornProfileParams,
+  segmentation: SegmentationParams,
+  keyDepth: number
+): number {
+  if (segmentation.radialSegments > 0) {
+    const [columns, rows] = MANUAL_GRIDS[segmentation.radialSegments] ?? MANUAL_GRIDS[1];
+    return GRID_CANDIDATES.findIndex(([c, r]) => c === columns && r === rows);
+  }
+  if (box.isEmpty()) return 0;
+
+  // Dowels leave flush faces, unless thin walls turn them into dovetails
+  const flush = segmentation.keyType === "none" ||
+    (segmentation.keyType === "dowel" && hornParams.wallThickness >= MIN_DOWEL_WALL_THICKNESS);
+  const keyAllowance = flush ? 0 : keyDepth;
+  const width = box.max.x - box.min.x;
+  const depth = box.max.y - box.min.y;
+
+  const index = GRID_CANDIDATES.findIndex(([columns, rows]) => footprintFits(
+    width / columns + (columns > 1 ? keyAllowance : 0),
+    depth / rows + (rows > 1 ? keyAllowance : 0),
+    segmentation
+  ));
+  return index >= 0 ? index : GRID_CANDIDATES.length - 1;
+}
+
+/**
+ * Clips every part to one piece's box and merges what is left
+ */
+function clipParts(
+  parts: AssemblyPart[],
+  clipBox: THREE.BufferGeometry,
+  id: string,
+  warnings: string[]
+): THREE.BufferGeometry | undefined {
+  const clipped: AssemblyPart[] = [];
+
+  for (const part of parts) {
+    const result = intersectGeometries(part.geometry, clipBox);
+    if (!result.success) {
+      warnings.push(`Piece ${id} could not be cut from the ${part.name}: ${result.error}`);
+    }
+    if (result.geometry.getAttribute("position").count === 0) {
+      result.geometry.dispose();
+      continue;
+    }
+    clipped.push({ name: part.name, geometry: result.geometry });
+  }
+
+  if (clipped.length === 0) return undefined;
+
+  try {
+    return mergeAssemblyParts(clipped);
+  } catch (error) {
+    warnings.push(`Piece ${id} could not be joined: ${error instanceof Error ? error.message : "Unknown error"}`);
+    return undefined;
+  } finally {
+    disposeAssemblyParts(clipped);
+  }
+}
+
+/**
+ * Pieces of a columns x rows split of the slice footprint. Cuts divide the
+ * footprint evenly, so halves and quarters of a centred horn still cut
+ * through the axis. Pieces run in a serpentine from -x,-y, and their
+ * explode direction is ±1 at the outer edges.
+ */
+function createGrid(
+  columns: number,
+  rows: number,
+  box: THREE.Box3,
+  reach: number
+): { sectors: SectorBounds[]; cuts: CutPlane[] } {
+  const min = box.isEmpty() ? [-reach, -reach] : [box.min.x, box.min.y];
+  const max = box.isEmpty() ? [reach, reach] : [box.max.x, box.max.y];
+  const edges = [columns, rows].map((count, axis) => [
+    -reach,
+    ...Array.from({ length: count - 1 }, (_, i) => min[axis] + ((i + 1) * (max[axis] - min[axis])) / count + CUT_OFFSET),
+    reach,
+  ]);
+  const direction = (i: number, count: number) => (count > 1 ? (2 * i) / (count - 1) - 1 : 0);
+
+  const sectors: SectorBounds[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let step = 0; step < columns; step++) {
+      const column = row % 2 === 0 ? step : columns - 1 - step;
+      sectors.push({
+        direction: [direction(column, columns), direction(row, rows)],
+        min: [edges[0][column], edges[1][row]],
+        max: [edges[0][column + 1], edges[1][row + 1]],
+      });
+    }
+  }
+
+  const cuts = edges.flatMap((values, axis) =>
+    values.slice(1, -1).map(value => ({ axis: axis as 0 | 1, value }))
+  );
+  return { sectors, cuts };
+}
+
+/**
+ * Key sites on each cut across the axis. Sites avoid the x = 0 and y = 0
+ * planes so they never land on a cut around the axis.
+ */
+function createAxialKeySites(slots: PieceSlot[], hornParams: HornProfileParams, driverParams?: DriverMountParams): KeySite[] {
+  const sliceTops = new Set(
+    slots.filter(slot => slots.some(other => other.segment.sliceIndex === slot.segment.sliceIndex + 1)).map(slot => slot.zMax)
+  );
+  const sites: KeySite[] = [];
+  const up = new THREE.Vector3(0, 0, 1);
+  const thickness = hornParams.wallThickness;
+
+  for (const z of sliceTops) {
+    // Keys follow the flare; a rolled-back lip is left unkeyed
+    if (z <= 0 || z >= getFlareLength(hornParams)) continue;
+
+    const { halfWidth, halfHeight } = calculateInteriorHalfExtents(hornParams, z / hornParams.length, driverParams);
+    const mid = hornParams.wallThickness / 2;
+
+    if (hornParams.roundMouth) {
+      for (let i = 0; i < 4; i++) {
+        const angle = Math.PI / 4 + (i * Math.PI) / 2;
+        const normal = new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0);
+        sites.push({ position: normal.clone().multiplyScalar(halfWidth + mid).setZ(z), across: up, normal, thickness });
+      }
+      continue;
+    }
+
+    // Quarter points of each side, projected onto the (possibly rounded) wall
+    const outline = calculateInteriorOutline(hornParams, z / hornParams.length, driverParams);
+    for (const sx of [-1, 1]) {
+      for (const sy of [-1, 1]) {
+        for (const target of [[(sx * halfWidth) / 2, sy * halfHeight], [sx * halfWidth, (sy * halfHeight) / 2]]) {
+          const { point, normal } = projectOntoOutline(outline, target[0], target[1]);
+          sites.push({
+            position: point.addScaledVector(normal, mid).setZ(z),
+            across: up,
+            normal,
+            thickness,
+          });
+        }
+      }
+    }
+  }
+
+  return sites;
+}
+
+/**
+ * Where the ray from the axis towards (x, y) crosses the outline, with the
+ * outward normal of the edge it hits
+ */
+function projectOntoOutline(
+  outline: Array<{ x: number; y: number }>,
+  x: number,
+  y: number
+): { point: THREE.Vector3; normal: THREE.Vector3 } {
+  const direction = new THREE.Vector2(x, y).normalize();
+  let best = { distance: Infinity, point: new THREE.Vector3(x, y, 0), normal: new THREE.Vector3(x, y, 0).normalize() };
+
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % outline.length];
+    const edge = new THREE.Vector2(b.x - a.x, b.y - a.y);
+    const denominator = direction.x * edge.y - direction.y * edge.x;
+    if (Math.abs(denominator) < 1e-12) continue;
+
+    // Solve a + s * edge = distance * direction
+    const distance = (a.x * edge.y - a.y * edge.x) / denominator;
+    const s = (a.x * direction.y - a.y * direction.x) / denominator;
+    if (distance > 0 && s >= 0 && s <= 1 && distance < best.distance) {
+      best = {
+        distance,
+        point: new THREE.Vector3(direction.x * distance, direction.y * distance, 0),
+        normal: new THREE.Vector3(edge.y, -edge.x, 0).normalize(),
+      };
+    }
+  }
+
+  return { point: best.point, normal: best.normal };
+}
+
+/**
+ * Key sites where each cut around the axis crosses the horn wall, spaced
+ * along the slice height. The key lies in the cut plane, so it follows the
+ * wall normal turned into that plane; cuts that graze the wall are skipped.
+ */
+function createWallKeySites(
+  layouts: SliceLayout[],
+  hornParams: HornProfileParams,
+  keyDepth: number,
+  driverParams?: DriverMountParams
+): KeySite[] {
+  const sites: KeySite[] = [];
+  const mid = hornParams.wallThickness / 2;
+
+  for (const layout of layouts) {
+    if (layout.cuts.length === 0) continue;
+
+    const zMin = Math.max(layout.zMin, 0);
+    const zMax = Math.min(layout.zMax, getFlareLength(hornParams));
+    const span = zMax - zMin;
+    const keysPerCut = Math.min(3, Math.floor(span / (keyDepth * 4)));
+
+    for (let k = 1; k <= keysPerCut; k++) {
+      const z = zMin + (k * span) / (keysPerCut + 1);
+      const outline = calculateInteriorOutline(hornParams, z / hornParams.length, driverParams);
+
+      for (const cut of layout.cuts) {
+        const across = cut.axis === 0 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+
+        for (const { point, normal } of crossOutline(outline, cut)) {
+          const inPlane = normal.clone().addScaledVector(across, -normal.dot(across));
+          const cos = inPlane.length();
+          if (cos < MIN_KEY_COS) continue;
+          inPlane.divideScalar(cos);
+
+          sites.push({
+            position: point.addScaledVector(inPlane, mid / cos).setZ(z),
+            across,
+            normal: inPlane,
+            thickness: hornParams.wallThickness,
+          });
+        }
+      }
+    }
+  }
+
+  return sites;
+}
+
+/**
+ * Points where a cut plane crosses the outline, with the outward normal of
+ * the edge crossed there
+ */
+function crossOutline(
+  outline: Array<{ x: number; y: number }>,
+  cut: CutPlane
+): Array<{ point: THREE.Vector3; normal: THREE.Vector3 }> {
+  const crossings: Array<{ point: THREE.Vector3; normal: THREE.Vector3 }> = [];
+  const coordinate = (p: { x: number; y: number }) => (cut.axis === 0 ? p.x : p.y) - cut.value;
+
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % outline.length];
+    const ca = coordinate(a);
+    const cb = coordinate(b);
+    if (ca === cb || ca * cb > 0 || cb === 0) continue;
+
+    const s = ca / (ca - cb);
+    const point = new THREE.Vector3(a.x + s * (b.x - a.x), a.y + s * (b.y - a.y), 0);
+    const normal = new THREE.Vector3(b.y - a.y, a.x - b.x, 0).normalize();
+    if (normal.dot(point) < 0) normal.negate();
+    crossings.push({ point, normal });
+  }
+
+  return crossings;
+}
+
+/**
+ * Key sites in the mounting plate where a cut around the axis crosses it,
+ * one in the middle of each stretch with solid plate either side of the cut
+ * and two on long stretches. Bolt holes and the mouth opening break the
+ * stretches, so keys stay clear of them.
+ */
+function createPlateKeySites(
+  layouts: SliceLayout[],
+  plate: AssemblyPart | undefined,
+  segmentation: SegmentationParams,
+  keyDepth: number
+): KeySite[] {
+  if (!plate || segmentation.keyType === "none") return [];
+
+  const box = plate.geometry.boundingBox!;
+  const layout = layouts.find(slice => box.min.z >= slice.zMin && box.max.z <= slice.zMax);
+  if (!layout || layout.cuts.length === 0) return [];
+
+  const { keySize, keyClearance: clearance } = segmentation;
+  const halfWidth = getKeyHalfWidth(segmentation) + clearance + KEY_OVERLAP;
+  const acrossReach = keyDepth + clearance + KEY_OVERLAP;
+  const step = keySize / 2;
+  const z = (box.min.z + box.max.z) / 2;
+  const normal = new THREE.Vector3(0, 0, 1);
+  const isSolid = createSolidTest(plate.geometry);
+  const sites: KeySite[] = [];
+
+  for (const cut of layout.cuts) {
+    const across = cut.axis === 0 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+    const from = cut.axis === 0 ? box.min.y : box.min.x;
+    const to = cut.axis === 0 ? box.max.y : box.max.x;
+    const pointAt = (t: number, offset: number) => cut.axis === 0
+      ? new THREE.Vector3(cut.value + offset, t, z)
+      : new THREE.Vector3(t, cut.value + offset, z);
+
+    const stretch: number[] = [];
+    const placeKeys = () => {
+      const length = stretch.length > 0 ? stretch[stretch.length - 1] - stretch[0] : -1;
+      const count = length >= keySize * 6 ? 2 : length >= 0 ? 1 : 0;
+      for (let k = 1; k <= count; k++) {
+        sites.push({
+          position: pointAt(stretch[0] + (k * length) / (count + 1), 0),
+          across,
+          normal,
+          thickness: box.max.z - box.min.z,
+        });
+      }
+      stretch.length = 0;
+    };
+
+    for (let t = from + halfWidth; t <= to - halfWidth; t += step) {
+      const solid = [-halfWidth, 0, halfWidth].every(a =>
+        [-acrossReach, acrossReach].every(b => isSolid(pointAt(t + a, b)))
+      );
+      if (solid) {
+        stretch.push(t);
+      } else {
+        placeKeys();
+      }
+    }
+    placeKeys();
+  }
+
+  return sites;
+}
+
+/**
+ * Inside test for a closed mesh: a ray from inside crosses its surface an
+ * odd number of times. The ray is skewed so it doesn't run along edges.
+ */
+function createSolidTest(geometry: THREE.BufferGeometry): (point: THREE.Vector3) => boolean {
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }));
+  const raycaster = new THREE.Raycaster();
+  const direction = new THREE.Vector3(0.31, 0.17, 0.93).normalize();
+
+  return (point: THREE.Vector3) => {
+    raycaster.set(point, direction);
+    let crossings = 0;
+    let last = -Infinity;
+    for (const hit of raycaster.intersectObject(mesh, false)) {
+      if (hit.distance - last > 1e-6) crossings++;
+      last = hit.distance;
+    }
+    return crossings % 2 === 1;
+  };
+}
+
+/**
+ * The piece a key's footprint lands on, on the male (-1) or female (1)
+ * side of its cut, or undefined if another cut runs through it
+ */
+function findKeySlot(
+  slots: PieceSlot[],
+  site: KeySite,
+  side: -1 | 1,
+  segmentation: SegmentationParams
+): PieceSlot | undefined {
+  const along = new THREE.Vector3().crossVectors(site.normal, site.across);
+  const halfWidth = getKeyHalfWidth(segmentation) + segmentation.keyClearance;
+  const depth = getKeyDepth(segmentation) + segmentation.keyClearance;
+  let found: PieceSlot | undefined;
+
+  for (const a of [-halfWidth, 0, halfWidth]) {
+    for (const b of [0.5, depth]) {
+      const slot = findSlot(slots, site.position.clone().addScaledVector(site.across, side * b).addScaledVector(along, a));
+      if (!slot || (found && slot !== found)) return undefined;
+      found = slot;
+    }
+  }
+
+  return found;
+}
+
+interface KeyGeometries {
+  male: THREE.BufferGeometry[];
+  maleCuts: THREE.BufferGeometry[];
+  female: THREE.BufferGeometry[];
+}
+
+/**
+ * Key solids in the site frame: x crosses the cut, y runs along it and
+ * z follows the wall normal.
+ */
+function createKeyGeometries(
+  site: KeySite,
+  segmentation: SegmentationParams,
+  keyType: KeyType,
+  dowels?: DowelSpec
+): KeyGeometries {
+  const { keySize, keyClearance: clearance } = segmentation;
+  const depth = getKeyDepth(segmentation);
+  const along = new THREE.Vector3().crossVectors(site.normal, site.across);
+  const frame = new THREE.Matrix4()
+    .makeBasis(site.across, along, site.normal)
+    .setPosition(site.position);
+
+  const place = (geometry: THREE.BufferGeometry) => geometry.applyMatrix4(frame);
+
+  if (keyType === "dowel" && dowels) {
+    const hole = () => {
+      const radius = dowels.diameter / 2 + clearance;
+      const geometry = new THREE.CylinderGeometry(radius, radius, dowels.length + 2 * clearance, 16);
+      geometry.rotateZ(Math.PI / 2);
+      return place(geometry);
+    };
+    return { male: [], maleCuts: [hole()], female: [hole()] };
+  }
+
+  if (keyType === "tongue-groove") {
+    const thickness = site.thickness / 2;
+    const tongue = new THREE.BoxGeometry(depth + KEY_OVERLAP, keySize * 2, thickness);
+    tongue.translate((depth - KEY_OVERLAP) / 2, 0, 0);
+
+    const groove = new THREE.BoxGeometry(
+      depth + clearance + KEY_OVERLAP,
+      keySize * 2 + 2 * clearance,
+      thickness + 2 * clearance
+    );
+    groove.translate((depth + clearance - KEY_OVERLAP) / 2, 0, 0);
+
+    return { male: [place(tongue)], maleCuts: [], female: [place(groove)] };
+  }
+
+  // Dovetail: a puzzle tab in the wall plane, narrow at the cut and wide at its tip
+  const dovetail = (grow: number, thickness: number) => {
+    const neck = keySize * 0.6 / 2 + grow;
+    const head = keySize / 2 + grow;
+    const shape = new THREE.Shape([
+      new THREE.Vector2(-KEY_OVERLAP, -neck),
+      new THREE.Vector2(0, -neck),
+      new THREE.Vector2(depth + grow, -head),
+      new THREE.Vector2(depth + grow, head),
+      new THREE.Vector2(0, neck),
+      new THREE.Vector2(-KEY_OVERLAP, neck),
+    ]);
+    const geometry = new THREE.ExtrudeGeometry(shape, { depth: thickness, bevelEnabled: false });
+    geometry.translate(0, 0, -thickness / 2);
+    return place(geometry);
+  };
+
+  return {
+    male: [dovetail(0, site.thickness - 2 * KEY_INSET)],
+    maleCuts: [],
+    female: [dovetail(clearance, site.thickness + 2 * KEY_OVERLAP)],
+  };
+}
+
+function applyKeys(slot: PieceSlot, warnings: string[]): THREE.BufferGeometry {
+  let geometry = slot.segment.geometry;
+
+  if (slot.additions.length > 0) {
+    const union = unionGeometries([geometry, ...slot.additions]);
+    slot.additions.forEach(addition => addition.dispose());
+    if (union.success) {
+      geometry.dispose();
+      geometry = union.geometry;
+    } else {
+      union.geometry.dispose();
+      warnings.push(`Keys could not be added to piece ${slot.segment.id}`);
+    }
+  }
+
+  if (slot.subtractions.length > 0) {
+    const result = subtractGeometries(geometry, slot.subtractions);
+    if (result.success) {
+      geometry.dispose();
+      geometry = result.geometry;
+    } else {
+      result.geometry.dispose();
+      warnings.push(`Key recesses could not be cut into piece ${slot.segment.id}`);
+    }
+  }
+
+  return geometry;
+}
+
+function findSlot(slots: PieceSlot[], point: THREE.Vector3): PieceSlot | undefined {
+  return slots.find(slot =>
+    point.z >= slot.zMin && point.z <= slot.zMax &&
+    point.x >= slot.sector.min[0] && point.x <= slot.sector.max[0] &&
+    point.y >= slot.sector.min[1] && point.y <= slot.sector.max[1]
+  );
+}
+
+/**
+ * One dowel size for every site thick enough to take one
+ */
+function createDowelSpec(thicknesses: number[], keySize: number): DowelSpec | undefined {
+  if (thicknesses.length === 0) return undefined;
+  const diameter = Math.min(keySize, Math.min(...thicknesses) - 2 * MIN_DOWEL_WALL);
+  if (diameter < MIN_DOWEL_DIAMETER) return undefined;
+
+  return { diameter, length: Math.max(6, diameter * 4), count: 0 };
+}
+
+function getKeyDepth(segmentation: SegmentationParams): number {
+  return segmentation.keyType === "tongue-groove" ? segmentation.keySize * 0.75 : segmentation.keySize;
+}
+
+// Half the key's width along its cut
+function getKeyHalfWidth(segmentation: SegmentationParams): number {
+  return segmentation.keyType === "tongue-groove" ? segmentation.keySize : segmentation.keySize / 2;
+}
+
+function createClipBox(min: [number, number, number], max: [number, number, number]): THREE.BufferGeometry {
+  const box = new THREE.BoxGeometry(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+  box.translate((min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2);
+  return box;
+}
+
+function footprintFits(a: number, b: number, segmentation: SegmentationParams): boolean {
+  const bedWidth = segmentation.bedWidth + FIT_TOLERANCE;
+  const bedDepth = segmentation.bedDepth + FIT_TOLERANCE;
+  return (a <= bedWidth && b <= bedDepth) || (a <= bedDepth && b <= bedWidth);
+}
+
+function fitsBed(size: THREE.Vector3, segmentation: SegmentationParams): boolean {
+  return footprintFits(size.x, size.y, segmentation) && size.z <= segmentation.bedHeight + FIT_TOLERANCE;
+}
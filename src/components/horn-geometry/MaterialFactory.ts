@@ -4,11 +4,32 @@ import { HORN_GEOMETRY_CONSTANTS } from "./HornGeometryConstants";
 let hornMaterial: THREE.MeshStandardMaterial | null = null;
 let plateMaterial: THREE.MeshStandardMaterial | null = null;
 let driverMaterial: THREE.MeshStandardMaterial | null = null;
+let printColor: string | null = null;
+
+// Plate and flange are shaded darker than the horn so the parts stay distinguishable
+const PART_SHADE = { horn: 1, plate: 0.7, driver: 0.85 } as const;
+
+function getPartColor(part: keyof typeof PART_SHADE): THREE.ColorRepresentation {
+  if (!printColor) {
+    return HORN_GEOMETRY_CONSTANTS.MATERIALS[part].color;
+  }
+  return new THREE.Color(printColor).multiplyScalar(PART_SHADE[part]);
+}
+
+/**
+ * Tint the preview with the selected print material's color
+ */
+export function setPrintMaterialColor(color: string | null): void {
+  printColor = color;
+  hornMaterial?.color.set(getPartColor("horn"));
+  plateMaterial?.color.set(getPartColor("plate"));
+  driverMaterial?.color.set(getPartColor("driver"));
+}
 
 export function getHornMaterial(): THREE.MeshStandardMaterial {
   if (!hornMaterial) {
     hornMaterial = new THREE.MeshStandardMaterial({
-      color: HORN_GEOMETRY_CONSTANTS.MATERIALS.horn.color,
+      color: getPartColor("horn"),
       metalness: HORN_GEOMETRY_CONSTANTS.MATERIALS.horn.metalness,
       roughness: HORN_GEOMETRY_CONSTANTS.MATERIALS.horn.roughness,
       side: THREE.DoubleSide,
@@ -20,7 +41,7 @@ export function getHornMaterial(): THREE.MeshStandardMaterial {
 export function getPlateMaterial(): THREE.MeshStandardMaterial {
   if (!plateMaterial) {
     plateMaterial = new THREE.MeshStandardMaterial({
-      color: HORN_GEOMETRY_CONSTANTS.MATERIALS.plate.color,
+      color: getPartColor("plate"),
       metalness: HORN_GEOMETRY_CONSTANTS.MATERIALS.plate.metalness,
       roughness: HORN_GEOMETRY_CONSTANTS.MATERIALS.plate.roughness,
     });
@@ -31,7 +52,7 @@ export function getPlateMaterial(): THREE.MeshStandardMaterial {
 export function getDriverMaterial(): THREE.MeshStandardMaterial {
   if (!driverMaterial) {
     driverMaterial = new THREE.MeshStandardMaterial({
-      color: HORN_GEOMETRY_CONSTANTS.MATERIALS.driver.color,
+      color: getPartColor("driver"),
       metalness: HORN_GEOMETRY_CONSTANTS.MATERIALS.driver.metalness,
       roughness: HORN_GEOMETRY_CONSTANTS.MATERIALS.driver.roughness,
     });
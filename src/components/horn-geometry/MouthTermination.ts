@@ -0,0 +1,133 @@
+import { HornProfileParams, MouthTerminationParams } from "../../types";
+
+const DEG = Math.PI / 180;
+const MIN_WRAP_ANGLE = 90;
+const MAX_WRAP_ANGLE = 270;
+const MAX_START_ANGLE = 85 * DEG; // flare walls steeper than this are treated as 85° where the lip starts
+const MIN_RADIUS_PER_WALL = 1.5; // the outer lip surface folds once the radius nears the wall thickness
+
+/**
+ * Where the lip meets the flare on one axis: interior half-extent and the
+ * wall slope dr/dz there
+ */
+export interface LipAxisStart {
+  halfExtent: number;
+  slope: number;
+}
+
+/**
+ * One ring of the lip. The interior ring is planar at z; the exterior ring is
+ * planar at outerZ, which moves behind z as the lip rolls back.
+ */
+export interface LipPoint {
+  z: number;
+  halfWidth: number;
+  halfHeight: number;
+  outerZ: number;
+  outerHalfWidth: number;
+  outerHalfHeight: number;
+}
+
+/**
+ * Termination settings when the horn has an enabled mouth lip
+ */
+export function getMouthTermination(params: HornProfileParams): MouthTerminationParams | null {
+  const termination = params.mouthTermination;
+  return termination && termination.enabled && termination.radius > 0 ? termination : null;
+}
+
+/**
+ * Axial length of the flare, i.e. where a lip takes over from it
+ */
+export function getFlareLength(params: HornProfileParams): number {
+  const termination = getMouthTermination(params);
+  return termination
+    ? params.length - Math.min(Math.max(termination.blendLength, 0), params.length * 0.9)
+    : params.length;
+}
+
+/**
+ * Toroidal lip rings following the flare from zStart. Each axis turns on a
+ * circular arc tangent to its flare; the height axis uses its own radius up
+ * to the apex so both axes reach 90° at the same z and the rings stay planar,
+ * then both roll back together on the lip radius. The start ring is not
+ * included.
+ */
+export function createLipPoints(
+  termination: MouthTerminationParams,
+  zStart: number,
+  width: LipAxisStart,
+  height: LipAxisStart,
+  wallThickness: number,
+  steps: number
+): LipPoint[] {
+  const radius = Math.max(termination.radius, wallThickness * MIN_RADIUS_PER_WALL);
+  const wrap = Math.min(Math.max(termination.wrapAngle, MIN_WRAP_ANGLE), MAX_WRAP_ANGLE) * DEG;
+  const widthStart = Math.min(Math.atan(Math.max(width.slope, 0)), MAX_START_ANGLE);
+  const heightStart = Math.min(Math.atan(Math.max(height.slope, 0)), MAX_START_ANGLE);
+  const heightRadius = radius * (1 - Math.sin(widthStart)) / (1 - Math.sin(heightStart));
+
+  const apexZ = zStart + radius * (1 - Math.sin(widthStart));
+  const apexWidth = width.halfExtent + radius * Math.cos(widthStart);
+  const apexHeight = height.halfExtent + heightRadius * Math.cos(heightStart);
+
+  // Put a ring exactly on the apex so the mouth plane is represented
+  const risingSteps = Math.max(1, Math.round(steps * (Math.PI / 2 - widthStart) / (wrap - widthStart)));
+  const fallingSteps = wrap > Math.PI / 2 ? Math.max(1, steps - risingSteps) : 0;
+
+  const points: LipPoint[] = [];
+  const push = (z: number, halfWidth: number, widthAngle: number, halfHeight: number, heightAngle: number) => {
+    const widthOffset = offsetLipWall(widthAngle, widthStart, wallThickness);
+    const heightOffset = offsetLipWall(heightAngle, heightStart, wallThickness);
+    points.push({
+      z,
+      halfWidth,
+      halfHeight,
+      outerZ: z + widthOffset.dz,
+      outerHalfWidth: halfWidth + widthOffset.dr,
+      outerHalfHeight: halfHeight + heightOffset.dr,
+    });
+  };
+
+  for (let i = 1; i <= risingSteps; i++) {
+    const angle = widthStart + (Math.PI / 2 - widthStart) * (i / risingSteps);
+    const z = zStart + radius * (Math.sin(angle) - Math.sin(widthStart));
+    const heightAngle = Math.asin(Math.min(1, Math.sin(heightStart) + (z - zStart) / heightRadius));
+    push(
+      z,
+      width.halfExtent + radius * (Math.cos(widthStart) - Math.cos(angle)),
+      angle,
+      height.halfExtent + heightRadius * (Math.cos(heightStart) - Math.cos(heightAngle)),
+      heightAngle
+    );
+  }
+
+  for (let i = 1; i <= fallingSteps; i++) {
+    const angle = Math.PI / 2 + (wrap - Math.PI / 2) * (i / fallingSteps);
+    push(
+      apexZ + radius * (Math.sin(angle) - 1),
+      apexWidth - radius * Math.cos(angle),
+      angle,
+      apexHeight - radius * Math.cos(angle),
+      angle
+    );
+  }
+
+  return points;
+}
+
+/**
+ * Wall offset (z, r) at a lip angle. The flare's wall is offset radially, so
+ * the offset swings onto the lip normal by the apex; the exterior surface
+ * neither steps where the lip starts nor folds around it.
+ */
+function offsetLipWall(angle: number, startAngle: number, wallThickness: number): { dz: number; dr: number } {
+  const span = Math.PI / 2 - startAngle;
+  const s = span > 0 ? Math.min(1, Math.max(0, (angle - startAngle) / span)) : 1;
+  const blend = s * s * (3 - 2 * s);
+  const dz = -blend * Math.sin(angle);
+  const dr = 1 - blend + blend * Math.cos(angle);
+  const length = Math.hypot(dz, dr);
+
+  return { dz: (dz / length) * wallThickness, dr: (dr / length) * wallThickness };
+}
@@ -10,13 +10,16 @@ import {
   BoltPosition,
 } from "../GeometryUtils";
 import { HORN_GEOMETRY_CONSTANTS, DetailLevel } from "./HornGeometryConstants";
+import { calculateInteriorOutline, hasShapedCrossSection, resolveMouthParams } from "./HornProfileGenerator";
 
 export function createOptimizedPlate(
   plateParams: MountPlateParams,
-  hornParams: HornProfileParams,
+  horn: HornProfileParams,
   detailLevel: DetailLevel,
   enableHoles: boolean
 ): THREE.BufferGeometry {
+  // The plate sits on the mouth plane, at the front of a rolled-back lip
+  const hornParams = resolveMouthParams(horn);
   const baseGeometry = createBasePlateGeometry(plateParams, hornParams);
   const plateZ = hornParams.length;
   baseGeometry.translate(0, 0, plateZ - plateParams.thickness);
@@ -59,6 +62,7 @@ function createRectangularPlateGeometry(
     innerWidth: hornParams.mouthWidth,
     innerHeight: hornParams.mouthHeight || hornParams.mouthWidth,
     thickness: plateParams.thickness,
+    innerOutline: hasShapedCrossSection(hornParams) ? calculateInteriorOutline(hornParams, 1) : undefined,
   });
 }
 
@@ -75,7 +79,7 @@ function createCircularPlateGeometry(
   });
 }
 
-function calculateRectangularPlateDimensions(
+export function calculateRectangularPlateDimensions(
   plateParams: MountPlateParams,
   hornParams: HornProfileParams
 ) {
@@ -94,7 +98,7 @@ function calculateRectangularPlateDimensions(
   return { outerWidth, outerHeight };
 }
 
-function calculateCircularPlateRadii(
+export function calculateCircularPlateRadii(
   plateParams: MountPlateParams,
   hornParams: HornProfileParams
 ) {
@@ -151,7 +155,7 @@ function addBoltHolesToPlate(
   }
 }
 
-function calculatePlateHolePositions(
+export function calculatePlateHolePositions(
   plateParams: MountPlateParams,
   hornParams: HornProfileParams,
   plateZ: number
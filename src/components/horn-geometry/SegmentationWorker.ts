@@ -0,0 +1,30 @@
+/**
+ * Segmentation Worker
+ * Cuts the assembly into printable pieces off the main thread; the boolean
+ * cuts take around a second, too long to run on every edit
+ */
+
+import {
+  createSegmentedAssembly,
+  serializeSegmentation,
+  SegmentationWorkerRequest,
+  SegmentationWorkerResponse,
+} from "./HornSegmentation";
+
+const post = (message: SegmentationWorkerResponse, transfer: Transferable[] = []) =>
+  (self as unknown as Worker).postMessage(message, transfer);
+
+self.onmessage = (event: MessageEvent<SegmentationWorkerRequest>) => {
+  const { hornParams, plateParams, driverParams, options, segmentation } = event.data;
+
+  try {
+    const result = serializeSegmentation(
+      createSegmentedAssembly(hornParams, plateParams, driverParams, options, segmentation)
+    );
+    const buffers = result.segments.flatMap(segment => [segment.position.buffer, segment.normal.buffer, segment.index?.buffer])
+      .filter((buffer): buffer is ArrayBuffer => buffer instanceof ArrayBuffer);
+    post({ type: "result", result }, [...new Set(buffers)]);
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : "Unknown error" });
+  }
+};
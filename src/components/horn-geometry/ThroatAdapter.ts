@@ -0,0 +1,66 @@
+import { DriverMountParams, ThroatAdapterParams } from "../../types";
+
+const DEG = Math.PI / 180;
+const MAX_LENGTH_FRACTION = 0.5; // of the horn length
+const MAX_EXIT_ANGLE = 60; // degrees
+const MIN_HALF_EXTENT = 0.5; // mm
+const SLOPE_STEP = 0.005; // normalized step for the profile slope where the adapter joins
+
+/**
+ * Adapter settings when the driver has an enabled throat adapter
+ */
+export function getThroatAdapter(driverParams?: DriverMountParams): ThroatAdapterParams | null {
+  const adapter = driverParams?.throatAdapter;
+  return adapter && adapter.enabled && adapter.length > 0 ? adapter : null;
+}
+
+/**
+ * Axial length of the adapter section, 0 without one
+ */
+export function getThroatAdapterLength(hornLength: number, driverParams?: DriverMountParams): number {
+  const adapter = getThroatAdapter(driverParams);
+  return adapter ? Math.min(adapter.length, hornLength * MAX_LENGTH_FRACTION) : 0;
+}
+
+/**
+ * Replace the start of a half-extent sampler with a cubic blend that leaves
+ * the driver exit at its diameter and half-angle and meets the profile with
+ * matching radius and slope, so the wall is tangent-continuous at both ends
+ */
+export function applyThroatAdapter(
+  sampler: (t: number) => number,
+  hornLength: number,
+  driverParams?: DriverMountParams
+): (t: number) => number {
+  const adapter = getThroatAdapter(driverParams);
+  const adapterLength = getThroatAdapterLength(hornLength, driverParams);
+  if (!adapter || adapterLength <= 0) {
+    return sampler;
+  }
+
+  const end = adapterLength / hornLength;
+  const startRadius = driverParams!.throatDiameter / 2;
+  const startTangent = Math.tan(Math.min(Math.max(adapter.exitAngle, 0), MAX_EXIT_ANGLE) * DEG) * adapterLength;
+  const endRadius = sampler(end);
+  const endSlope = (sampler(end + SLOPE_STEP) - sampler(Math.max(0, end - SLOPE_STEP))) /
+    ((end + SLOPE_STEP - Math.max(0, end - SLOPE_STEP)) * hornLength);
+  const endTangent = endSlope * adapterLength;
+
+  return (t) => {
+    if (t >= end) {
+      return sampler(t);
+    }
+
+    // Cubic Hermite over the adapter, tangents scaled to its length
+    const u = Math.max(0, t) / end;
+    const u2 = u * u;
+    const u3 = u2 * u;
+    const radius =
+      (2 * u3 - 3 * u2 + 1) * startRadius +
+      (u3 - 2 * u2 + u) * startTangent +
+      (-2 * u3 + 3 * u2) * endRadius +
+      (u3 - u2) * endTangent;
+
+    return Math.max(radius, MIN_HALF_EXTENT);
+  };
+}
@@ -2,4 +2,6 @@ export * from "./HornGeometryConstants";
 export * from "./HornProfileGenerator";
 export * from "./PlateGeometryGenerator";
 export * from "./DriverGeometryGenerator";
-export * from "./MaterialFactory";
\ No newline at end of file
+export * from "./MaterialFactory";
+export * from "./AssemblyGeometry";
+export * from "./HornSegmentation";
@@ -1,12 +1,52 @@
-import { MaterialType } from '../types';
+import { MaterialType, DriverThreadSize, DriverSpec } from '../types';
 import { ProfileType } from '../profiles/types';
 
-// Material Costs Reference Data from PRP
+// Built-in material library; users can edit it and it is persisted locally
 export const MATERIALS: MaterialType[] = [
-  { name: 'PLA', density: 1.25, costPerGram: 0.10 },
-  { name: 'PETG', density: 1.25, costPerGram: 0.12 },  
-  { name: 'ABS', density: 1.04, costPerGram: 0.10 },
-  { name: 'Resin', density: 1.1, costPerGram: 1.50 }
+  {
+    id: 'pla',
+    name: 'PLA',
+    density: 1.25,
+    costPerKg: 100,
+    spoolWeight: 1000,
+    minWallThickness: 0.8,
+    maxOverhang: 45,
+    heatDeflectionTemp: 55,
+    color: '#9aa5b1'
+  },
+  {
+    id: 'petg',
+    name: 'PETG',
+    density: 1.25,
+    costPerKg: 120,
+    spoolWeight: 1000,
+    minWallThickness: 0.8,
+    maxOverhang: 40,
+    heatDeflectionTemp: 70,
+    color: '#5b8fb9'
+  },
+  {
+    id: 'abs',
+    name: 'ABS',
+    density: 1.04,
+    costPerKg: 100,
+    spoolWeight: 1000,
+    minWallThickness: 1.0,
+    maxOverhang: 40,
+    heatDeflectionTemp: 95,
+    color: '#8c8c8c'
+  },
+  {
+    id: 'resin',
+    name: 'Resin',
+    density: 1.1,
+    costPerKg: 1500,
+    spoolWeight: 1000,
+    minWallThickness: 0.6,
+    maxOverhang: 30,
+    heatDeflectionTemp: 50,
+    color: '#c9b79c'
+  }
 ];
 
 // Horn Types Reference Data from PRP
@@ -27,6 +67,22 @@ export const DEFAULT_HORN_PARAMS = {
   wallThickness: 2 // mm - default wall thickness for hollow horns
 };
 
+// Default cross-section morph for rectangular horns
+export const DEFAULT_CROSS_SECTION = {
+  shape: 'rectangle' as const,
+  mouthCornerRadius: 20, // mm
+  mouthExponent: 4,
+  morphEnd: 0.5
+};
+
+// Default rolled-back mouth lip
+export const DEFAULT_MOUTH_TERMINATION = {
+  enabled: false,
+  radius: 25, // mm
+  wrapAngle: 180, // degrees
+  blendLength: 20 // mm
+};
+
 // Default values for mounting plate
 export const DEFAULT_PLATE_PARAMS = {
   type: 'rect' as const,
@@ -51,6 +107,113 @@ export const DEFAULT_DRIVER_PARAMS = {
   boltCircleDiameter: 40
 };
 
+// Screw-on driver threads: major diameter and pitch of the driver's external thread (mm)
+export const DRIVER_THREADS: Record<DriverThreadSize, { label: string; majorDiameter: number; pitch: number }> = {
+  '1-3/8-18': { label: '1-3/8"-18 TPI', majorDiameter: 34.925, pitch: 25.4 / 18 },
+  'M30x1.5': { label: 'M30 × 1.5', majorDiameter: 30, pitch: 1.5 },
+  'M35x1.5': { label: 'M35 × 1.5', majorDiameter: 35, pitch: 1.5 },
+  'M36x1.5': { label: 'M36 × 1.5', majorDiameter: 36, pitch: 1.5 },
+  'M40x1.5': { label: 'M40 × 1.5', majorDiameter: 40, pitch: 1.5 },
+  'M45x1.5': { label: 'M45 × 1.5', majorDiameter: 45, pitch: 1.5 }
+};
+
+// Default threaded collar for screw-on drivers
+export const DEFAULT_DRIVER_THREAD = {
+  size: '1-3/8-18' as const,
+  length: 12, // mm
+  clearance: 0.2 // mm
+};
+
+// Built-in driver catalog: common exit sizes and flange patterns; users can add their own drivers
+export const DRIVERS: DriverSpec[] = [
+  {
+    id: '1in-screw-on',
+    name: '1" exit, 1-3/8"-18 screw-on',
+    mountType: 'screw-on',
+    exitDiameter: 25.4,
+    exitAngle: 0,
+    threadSize: '1-3/8-18',
+    boltCount: 0,
+    boltCircleDiameter: 0,
+    boltHoleDiameter: 0,
+    flangeDiameter: 50.8
+  },
+  {
+    id: '1in-2-bolt-76',
+    name: '1" exit, 2 × M6 on 76 mm',
+    mountType: 'bolt-on',
+    exitDiameter: 25.4,
+    exitAngle: 0,
+    boltCount: 2,
+    boltCircleDiameter: 76,
+    boltHoleDiameter: 6.5,
+    flangeDiameter: 100
+  },
+  {
+    id: '1in-4-bolt-76',
+    name: '1" exit, 4 × M6 on 76 mm',
+    mountType: 'bolt-on',
+    exitDiameter: 25.4,
+    exitAngle: 0,
+    boltCount: 4,
+    boltCircleDiameter: 76,
+    boltHoleDiameter: 6.5,
+    flangeDiameter: 100
+  },
+  {
+    id: '1.4in-4-bolt-101',
+    name: '1.4" exit, 4 × M6 on 101.6 mm',
+    mountType: 'bolt-on',
+    exitDiameter: 35.6,
+    exitAngle: 0,
+    boltCount: 4,
+    boltCircleDiameter: 101.6,
+    boltHoleDiameter: 6.5,
+    flangeDiameter: 130
+  },
+  {
+    id: '2in-4-bolt-101',
+    name: '2" exit, 4 × 1/4" on 101.6 mm',
+    mountType: 'bolt-on',
+    exitDiameter: 50.8,
+    exitAngle: 0,
+    boltCount: 4,
+    boltCircleDiameter: 101.6,
+    boltHoleDiameter: 6.6,
+    flangeDiameter: 130
+  }
+];
+
+// Default driver-exit blend at the horn throat
+export const DEFAULT_THROAT_ADAPTER = {
+  enabled: false,
+  exitAngle: 5, // degrees
+  length: 20 // mm
+};
+
+// Default values for print segmentation (typical 220mm bed)
+export const DEFAULT_SEGMENTATION_PARAMS = {
+  enabled: false,
+  bedWidth: 220,
+  bedDepth: 220,
+  bedHeight: 250,
+  axialSegments: 0,
+  radialSegments: 0 as const,
+  keyType: 'dovetail' as const,
+  keySize: 8,
+  keyClearance: 0.2
+};
+
+// Default slicer settings for cost and print-time estimates
+export const DEFAULT_PRINT_SETTINGS = {
+  nozzleDiameter: 0.4,
+  layerHeight: 0.2,
+  printSpeed: 60,
+  wallLoops: 3,
+  infillDensity: 0.15,
+  filamentDiameter: 1.75
+};
+
 // Performance settings for different quality modes
 export const PERFORMANCE_SETTINGS = {
   HIGH: { 
@@ -1,6 +1,6 @@
 // Temporary type definitions while hornLib.ts is being fixed
 
-import { ProfileType } from '../profiles/types';
+import { CustomProfileParams, ImportedProfileParams, ProfileType } from '../profiles/types';
 
 export interface HornProfileParams {
   throatDiameter: number;       // mm
@@ -8,7 +8,12 @@ export interface HornProfileParams {
   mouthHeight?: number;         // mm (for rectangular horns)
   length: number;               // mm
   flareType: ProfileType;       // Use ProfileType enum only
+  heightFlareType?: ProfileType; // vertical profile of rectangular horns (defaults to flareType)
+  crossSection?: CrossSectionShapeParams; // rectangular horns only; sharp rectangle when absent
+  mouthTermination?: MouthTerminationParams; // rolled-back lip at the mouth; plain mouth when absent
   cutoffFrequency?: number;     // Hz (for certain profiles)
+  customProfile?: CustomProfileParams; // control points when either axis uses the custom profile
+  importedProfile?: ImportedProfileParams; // contour when either axis uses the imported profile
   roundMouth: boolean;          // true = circular horn
   segments: number;             // radial segments
   wallThickness: number;        // mm - wall thickness
@@ -32,6 +37,22 @@ export interface HornProfileParams {
   calculatedLength?: number;        // mm
 }
 
+export type CrossSectionShape = 'rectangle' | 'rounded-rectangle' | 'superellipse';
+
+export interface CrossSectionShapeParams {
+  shape: CrossSectionShape;
+  mouthCornerRadius: number; // mm - corner radius reached at the mouth (rounded-rectangle)
+  mouthExponent: number;     // superellipse exponent reached at the mouth (2 = ellipse)
+  morphEnd: number;          // 0-1 - fraction of the length over which the round throat blends into the mouth shape
+}
+
+export interface MouthTerminationParams {
+  enabled: boolean;
+  radius: number;      // mm - toroidal radius of the lip
+  wrapAngle: number;   // degrees - wall angle from the axis where the lip ends (90 = flat flange, 180 = rolled back)
+  blendLength: number; // mm - distance back from the mouth where the lip takes over from the flare
+}
+
 export interface MountPlateParams {
   type: 'rect' | 'circle';
   width?: number;       // for rect
@@ -48,11 +69,42 @@ export interface MountPlateParams {
 }
 
 export interface DriverMountParams {
-  type: 'bolt-on';
+  type: 'bolt-on' | 'screw-on';
+  driverId?: string;            // catalog driver the mount was filled from
   throatDiameter: number;       // mm
   flangeDiameter: number;       // mm
   flangeThickness: number;      // mm
-  boltCount: number;
-  boltHoleDiameter: number;
-  boltCircleDiameter: number;
-}
\ No newline at end of file
+  boltCount: number;            // bolt-on only
+  boltHoleDiameter: number;     // bolt-on only
+  boltCircleDiameter: number;   // bolt-on only
+  thread?: DriverThreadParams;  // screw-on only; standard 1-3/8"-18 collar when absent
+  throatAdapter?: ThroatAdapterParams; // blends the driver exit into the horn profile; horn starts at its own throat when absent
+}
+
+export type DriverThreadSize = '1-3/8-18' | 'M30x1.5' | 'M35x1.5' | 'M36x1.5' | 'M40x1.5' | 'M45x1.5';
+
+export interface DriverThreadParams {
+  size: DriverThreadSize;
+  length: number;    // mm - depth of the threaded collar behind the seating face
+  clearance: number; // mm - radial allowance added to the internal thread so printed parts screw together
+}
+
+export interface ThroatAdapterParams {
+  enabled: boolean;
+  exitAngle: number; // degrees - half-angle of the driver exit (0 = parallel bore)
+  length: number;    // mm - axial length over which the driver exit blends into the profile
+}
+
+export type SegmentKeyType = 'none' | 'dowel' | 'dovetail' | 'tongue-groove';
+
+export interface SegmentationParams {
+  enabled: boolean;             // split the assembly into printable pieces
+  bedWidth: number;             // mm - printer bed X
+  bedDepth: number;             // mm - printer bed Y
+  bedHeight: number;            // mm - printer build height Z
+  axialSegments: number;        // slices along the horn axis, 0 = fit to bed height
+  radialSegments: 0 | 1 | 2 | 4; // pieces around the axis, 0 = fit to bed footprint
+  keyType: SegmentKeyType;
+  keySize: number;              // mm - key width / dowel diameter
+  keyClearance: number;         // mm - gap between mating key faces
+}
@@ -0,0 +1,168 @@
+import {
+  CustomProfileInterpolation,
+  CustomProfileParams,
+  CustomProfilePoint,
+  ProfileParameters,
+  ProfilePoint,
+  validateProfileParameters
+} from './types';
+
+export const MAX_CUSTOM_PROFILE_POINTS = 8;
+export const CUSTOM_PROFILE_POINT_SPACING = 0.02; // normalized length kept between neighbouring points
+
+// Used until the design has points of its own: a gentle exponential-like flare
+export const DEFAULT_CUSTOM_PROFILE: CustomProfileParams = {
+  interpolation: 'monotone',
+  points: [
+    { x: 0.3, r: 0.1 },
+    { x: 0.6, r: 0.35 },
+    { x: 0.85, r: 0.7 }
+  ]
+};
+
+/**
+ * Control points inside the horn, sorted and spaced along it, with radii
+ * between throat and mouth. Anything unreadable is dropped, so a mangled
+ * design still gives a usable curve.
+ */
+export function sanitizeCustomPoints(points: CustomProfilePoint[]): CustomProfilePoint[] {
+  const sorted = points
+    .filter(point => isFinite(point.x) && isFinite(point.r))
+    .map(point => ({
+      x: Math.min(1 - CUSTOM_PROFILE_POINT_SPACING, Math.max(CUSTOM_PROFILE_POINT_SPACING, point.x)),
+      r: Math.min(1, Math.max(0, point.r))
+    }))
+    .sort((a, b) => a.x - b.x);
+
+  const spaced: CustomProfilePoint[] = [];
+  for (const point of sorted) {
+    const previous = spaced[spaced.length - 1];
+    if (!previous || point.x - previous.x >= CUSTOM_PROFILE_POINT_SPACING) spaced.push(point);
+  }
+  return spaced.slice(0, MAX_CUSTOM_PROFILE_POINTS);
+}
+
+/**
+ * Monotone cubic (Fritsch-Carlson) through the knots: it never overshoots
+ * them, so the wall can't dip below the throat or bulge past the mouth
+ */
+function createMonotoneInterpolator(knots: CustomProfilePoint[]): (x: number) => number {
+  const n = knots.length;
+  const secants = knots.slice(1).map((knot, i) => (knot.r - knots[i].r) / (knot.x - knots[i].x));
+  const tangents = knots.map((_, i) => {
+    if (i === 0) return secants[0];
+    if (i === n - 1) return secants[n - 2];
+    return secants[i - 1] * secants[i] > 0 ? (secants[i - 1] + secants[i]) / 2 : 0;
+  });
+
+  secants.forEach((secant, i) => {
+    if (secant === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      return;
+    }
+    const a = tangents[i] / secant;
+    const b = tangents[i + 1] / secant;
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude);
+      tangents[i] = scale * a * secant;
+      tangents[i + 1] = scale * b * secant;
+    }
+  });
+
+  return (x) => {
+    let i = 0;
+    while (i < n - 2 && x > knots[i + 1].x) i++;
+    const h = knots[i + 1].x - knots[i].x;
+    const t = (x - knots[i].x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * knots[i].r +
+      (t3 - 2 * t2 + t) * h * tangents[i] +
+      (-2 * t3 + 3 * t2) * knots[i + 1].r +
+      (t3 - t2) * h * tangents[i + 1];
+  };
+}
+
+/**
+ * Bezier curve with the knots as its control polygon. Sorted control x
+ * keeps the curve moving forward, so it is sampled finely and read back
+ * as radius against position.
+ */
+function createBezierInterpolator(knots: CustomProfilePoint[], samples: number): (x: number) => number {
+  const curve: CustomProfilePoint[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    // de Casteljau
+    let level = knots;
+    while (level.length > 1) {
+      level = level.slice(1).map((point, j) => ({
+        x: level[j].x + t * (point.x - level[j].x),
+        r: level[j].r + t * (point.r - level[j].r)
+      }));
+    }
+    curve.push(level[0]);
+  }
+
+  return (x) => {
+    const i = Math.max(1, curve.findIndex(point => point.x >= x));
+    const a = curve[i - 1];
+    const b = curve[Math.min(i, curve.length - 1)];
+    const span = b.x - a.x;
+    return span > 0 ? a.r + ((x - a.x) / span) * (b.r - a.r) : b.r;
+  };
+}
+
+/**
+ * Calculates a user-drawn horn profile
+ * The throat and mouth radii stay pinned; control points in between are
+ * normalized to the length and to the throat-to-mouth radius span
+ *
+ * @param params Profile parameters
+ * @returns Array of profile points along the horn axis
+ */
+export function customProfile(params: ProfileParameters): ProfilePoint[] {
+  validateProfileParameters(params);
+
+  const { throatRadius, mouthRadius, length, segments = 100, customProfile: custom = DEFAULT_CUSTOM_PROFILE } = params;
+  const knots = [{ x: 0, r: 0 }, ...sanitizeCustomPoints(Array.isArray(custom.points) ? custom.points : []), { x: 1, r: 1 }];
+  const interpolate = custom.interpolation === 'bezier'
+    ? createBezierInterpolator(knots, segments * 4)
+    : createMonotoneInterpolator(knots);
+
+  const points: ProfilePoint[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    points.push({ x: t * length, radius: throatRadius + (mouthRadius - throatRadius) * interpolate(t) });
+  }
+
+  return points;
+}
+
+/**
+ * Control points that follow an existing profile, so switching to a custom
+ * profile starts from the shape the horn already has
+ */
+export function createCustomProfileFrom(
+  profile: ProfilePoint[],
+  interpolation: CustomProfileInterpolation = 'monotone',
+  count: number = 3
+): CustomProfileParams {
+  const throat = profile[0];
+  const mouth = profile[profile.length - 1];
+  const span = mouth.radius - throat.radius;
+  if (profile.length < 2 || span <= 0) return { ...DEFAULT_CUSTOM_PROFILE, interpolation };
+
+  const points = Array.from({ length: count }, (_, i) => {
+    const x = (i + 1) / (count + 1);
+    const targetX = throat.x + x * (mouth.x - throat.x);
+    const j = Math.max(1, profile.findIndex(point => point.x >= targetX));
+    const a = profile[j - 1];
+    const b = profile[j];
+    const radius = b.x > a.x ? a.radius + ((targetX - a.x) / (b.x - a.x)) * (b.radius - a.radius) : b.radius;
+    return { x, r: (radius - throat.radius) / span };
+  });
+
+  return { interpolation, points: sanitizeCustomPoints(points) };
+}
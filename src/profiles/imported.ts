@@ -0,0 +1,43 @@
+import { ProfileParameters, ProfilePoint, sanitizeProfilePoints, validateProfileParameters } from './types';
+import { conicalProfile } from './conical';
+
+/**
+ * Calculates a horn profile from an imported contour
+ * The contour is stretched so its first point lands on the throat and its
+ * last on the mouth, then resampled at evenly spaced stations:
+ * radius(x) = throatRadius + (mouthRadius - throatRadius) * shape(x / length)
+ *
+ * @param params Profile parameters
+ * @returns Array of profile points along the horn axis
+ */
+export function importedProfile(params: ProfileParameters): ProfilePoint[] {
+  validateProfileParameters(params);
+
+  const { throatRadius, mouthRadius, length, segments = 100, importedProfile: imported } = params;
+  const contour = sanitizeProfilePoints(imported && Array.isArray(imported.points) ? imported.points : []);
+  const throat = contour[0];
+  const mouth = contour[contour.length - 1];
+
+  if (contour.length < 2 || mouth.radius <= throat.radius) {
+    console.warn('Imported profile has no usable contour, falling back to conical');
+    return conicalProfile(params);
+  }
+
+  const points: ProfilePoint[] = [];
+  let j = 1;
+
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    const targetX = throat.x + t * (mouth.x - throat.x);
+    while (j < contour.length - 1 && contour[j].x < targetX) j++;
+
+    const a = contour[j - 1];
+    const b = contour[j];
+    const radius = a.radius + ((targetX - a.x) / (b.x - a.x)) * (b.radius - a.radius);
+    const shape = (radius - throat.radius) / (mouth.radius - throat.radius);
+
+    points.push({ x: t * length, radius: throatRadius + (mouthRadius - throatRadius) * shape });
+  }
+
+  return sanitizeProfilePoints(points);
+}
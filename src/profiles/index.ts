@@ -16,6 +16,8 @@ import { leCleachProfile } from './leCleach';
 import { jmlcProfile } from './jmlc';
 import { oblateSpheroidProfile } from './oblateSpheroid';
 import { sphericalWaveProfile } from './sphericalWave';
+import { customProfile } from './custom';
+import { importedProfile } from './imported';
 
 // Export all profile functions
 export { conicalProfile } from './conical';
@@ -27,6 +29,10 @@ export { leCleachProfile } from './leCleach';
 export { jmlcProfile } from './jmlc';
 export { oblateSpheroidProfile } from './oblateSpheroid';
 export { sphericalWaveProfile } from './sphericalWave';
+export { customProfile, createCustomProfileFrom, sanitizeCustomPoints, DEFAULT_CUSTOM_PROFILE, MAX_CUSTOM_PROFILE_POINTS, CUSTOM_PROFILE_POINT_SPACING } from './custom';
+export { importedProfile } from './imported';
+export { calculateProfileShape, calculateExpansionCutoff } from './shape';
+export type { ProfileShapePoint } from './shape';
 
 // Import types for factory function
 import { ProfileType, ProfileParameters, ProfilePoint } from './types';
@@ -69,6 +75,12 @@ export function getProfile(type: ProfileType, params: ProfileParameters): Profil
     case ProfileType.SPHERICAL_WAVE:
       return sphericalWaveProfile(params);
       
+    case ProfileType.CUSTOM:
+      return customProfile(params);
+      
+    case ProfileType.IMPORTED:
+      return importedProfile(params);
+      
     default:
       // Fallback to exponential if unknown type
       console.warn(`Unknown profile type: ${type}, falling back to exponential`);
@@ -101,6 +113,8 @@ export function getProfileDisplayName(type: ProfileType): string {
     [ProfileType.JMLC]: 'JMLC (Modified Le Cléac\'h)',
     [ProfileType.OBLATE_SPHEROID]: 'Oblate Spheroid',
     [ProfileType.SPHERICAL_WAVE]: 'Spherical Wave',
+    [ProfileType.CUSTOM]: 'Custom (Drawn)',
+    [ProfileType.IMPORTED]: 'Imported Contour',
   };
   
   return displayNames[type] || type;
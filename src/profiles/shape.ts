@@ -0,0 +1,50 @@
+import { ProfilePoint } from './types';
+
+const SPEED_OF_SOUND = 343000; // mm/s
+
+export interface ProfileShapePoint {
+  x: number;             // mm from the throat
+  radius: number;        // mm
+  slope: number;         // dr/dx
+  curvature: number;     // 1/mm - signed, positive where the wall bends outward
+  expansionRate: number; // 1/mm - d(ln S)/dx, the local flare constant
+}
+
+/**
+ * Slope, wall curvature and area expansion rate along a profile, by finite
+ * differences over its (possibly uneven) spacing
+ */
+export function calculateProfileShape(points: ProfilePoint[]): ProfileShapePoint[] {
+  const n = points.length;
+  if (n < 3) {
+    return points.map(point => ({ ...point, slope: 0, curvature: 0, expansionRate: 0 }));
+  }
+
+  const secondDerivatives = points.map((_, i) => {
+    const j = Math.min(n - 2, Math.max(1, i));
+    const h1 = points[j].x - points[j - 1].x;
+    const h2 = points[j + 1].x - points[j].x;
+    return 2 * ((points[j + 1].radius - points[j].radius) / h2 - (points[j].radius - points[j - 1].radius) / h1) / (h1 + h2);
+  });
+
+  return points.map((point, i) => {
+    const a = points[Math.max(0, i - 1)];
+    const b = points[Math.min(n - 1, i + 1)];
+    const slope = (b.radius - a.radius) / (b.x - a.x);
+    return {
+      x: point.x,
+      radius: point.radius,
+      slope,
+      curvature: secondDerivatives[i] / Math.pow(1 + slope * slope, 1.5),
+      expansionRate: (2 * slope) / point.radius
+    };
+  });
+}
+
+/**
+ * Cutoff of an exponential horn with the given flare constant (1/mm), the
+ * frequency below which a section expanding at that rate stops loading
+ */
+export function calculateExpansionCutoff(expansionRate: number): number {
+  return (expansionRate * SPEED_OF_SOUND) / (4 * Math.PI);
+}
@@ -12,7 +12,9 @@ export enum ProfileType {
   OBLATE_SPHEROID = 'oblateSpheroid',
   PARABOLIC = 'parabolic',
   HYPERBOLIC_EXPONENTIAL = 'hyperbolicExponential',
-  SPHERICAL_WAVE = 'sphericalWave'
+  SPHERICAL_WAVE = 'sphericalWave',
+  CUSTOM = 'custom',
+  IMPORTED = 'imported'
 }
 
 export interface ProfilePoint {
@@ -20,12 +22,31 @@ export interface ProfilePoint {
   radius: number; // Radius at this point (mm)
 }
 
+export type CustomProfileInterpolation = 'monotone' | 'bezier';
+
+export interface CustomProfilePoint {
+  x: number; // 0-1 - fraction of the length from the throat
+  r: number; // 0-1 - fraction of the way from throat to mouth radius
+}
+
+export interface CustomProfileParams {
+  interpolation: CustomProfileInterpolation; // monotone cubic through the points, or Bezier with them as control points
+  points: CustomProfilePoint[];              // between the throat (0, 0) and mouth (1, 1), which stay pinned
+}
+
+export interface ImportedProfileParams {
+  name: string;          // file the contour came from
+  points: ProfilePoint[]; // contour as read, throat first; rescaled to the horn's throat, mouth and length
+}
+
 export interface ProfileParameters {
   throatRadius: number;    // mm
   mouthRadius: number;     // mm
   length: number;          // mm
   segments?: number;       // Number of points to generate (default: 100)
   cutoffFrequency?: number; // Hz (for certain profiles like Le Cléac'h)
+  customProfile?: CustomProfileParams; // control points of the custom profile
+  importedProfile?: ImportedProfileParams; // contour of the imported profile
 }
 
 export type ProfileFunction = (params: ProfileParameters) => ProfilePoint[];
@@ -51,11 +72,20 @@ export function validateProfileParameters(params: ProfileParameters): void {
 
 /**
  * Ensures profile points are valid
- * Handles NaN/Infinity and ensures monotonic increase
+ * Handles NaN/Infinity and ensures monotonic increase along the axis
  */
 export function sanitizeProfilePoints(points: ProfilePoint[]): ProfilePoint[] {
-  return points.filter(point => {
+  const valid = points.filter(point => {
     return isFinite(point.x) && isFinite(point.radius) && 
            point.radius > 0;
   });
+  
+  // Points that don't move forward along the axis would fold the wall back
+  const increasing: ProfilePoint[] = [];
+  for (const point of valid) {
+    if (increasing.length === 0 || point.x > increasing[increasing.length - 1].x) {
+      increasing.push(point);
+    }
+  }
+  return increasing;
 }
\ No newline at end of file
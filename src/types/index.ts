@@ -1,4 +1,5 @@
-import { HornProfileParams, MountPlateParams, DriverMountParams } from '../lib/types';
+import { HornProfileParams, MountPlateParams, DriverMountParams, SegmentationParams, SegmentKeyType, CrossSectionShape, CrossSectionShapeParams, MouthTerminationParams, ThroatAdapterParams, DriverThreadSize, DriverThreadParams } from '../lib/types';
+import { DriverParameters } from '../acoustic/types';
 
 // Central type definitions
 export interface AppState {
@@ -8,13 +9,66 @@ export interface AppState {
   selectedMaterial: MaterialType;
   showMountingPlate: boolean;
   showDriverMount: boolean;
+  segmentationParams: SegmentationParams;
+  printSettings: PrintSettings;
+}
+
+export interface ProjectInfo {
+  name: string;
+  notes: string;
+  createdAt: string;  // ISO timestamp
+  modifiedAt: string; // ISO timestamp - last save
+}
+
+// Contents of a .horn.json project file
+export interface ProjectFile extends ProjectInfo {
+  format: 'horn-designer-project';
+  version: number;    // schema version, see utils/projectFile
+  design: AppState;
+}
+
+// Design held next to the live one for comparison
+export interface PinnedDesign {
+  id: string;
+  name: string;
+  color: string;      // hex, used for its curves, profile and 3D ghost
+  state: AppState;
 }
 
 export interface MaterialType {
+  id: string;
+  name: string;
+  density: number;            // g/cm³
+  costPerKg: number;          // $/kg
+  spoolWeight: number;        // g of material per spool or bottle
+  minWallThickness: number;   // mm - thinnest wall that prints reliably
+  maxOverhang: number;        // degrees from vertical printable without supports
+  heatDeflectionTemp: number; // °C
+  color: string;              // hex, used for the 3D preview and 3MF display color
+}
+
+export interface DriverSpec {
+  id: string;
   name: string;
-  density: number; // g/mm³
-  costPerGram: number; // $/gram
+  mountType: DriverMountParams['type'];
+  exitDiameter: number;       // mm
+  exitAngle: number;          // degrees - half-angle of the exit bore (0 = parallel)
+  threadSize?: DriverThreadSize; // screw-on only
+  boltCount: number;          // bolt-on only
+  boltCircleDiameter: number; // mm - bolt-on only
+  boltHoleDiameter: number;   // mm - bolt-on only
+  flangeDiameter: number;     // mm
+  parameters?: Partial<Omit<DriverParameters, 'throatDiameter'>>; // datasheet values, when known
+}
+
+export interface PrintSettings {
+  nozzleDiameter: number;   // mm
+  layerHeight: number;      // mm
+  printSpeed: number;       // mm/s - average extrusion speed
+  wallLoops: number;        // perimeters on every surface
+  infillDensity: number;    // 0-1
+  filamentDiameter: number; // mm
 }
 
 // Re-export hornLib types for convenience
-export type { HornProfileParams, MountPlateParams, DriverMountParams };
\ No newline at end of file
+export type { HornProfileParams, MountPlateParams, DriverMountParams, SegmentationParams, SegmentKeyType, CrossSectionShape, CrossSectionShapeParams, MouthTerminationParams, ThroatAdapterParams, DriverThreadSize, DriverThreadParams };
\ No newline at end of file
@@ -0,0 +1,185 @@
+import * as THREE from 'three';
+import { MaterialType, HornProfileParams, MountPlateParams, DriverMountParams, PrintSettings } from '../types';
+import { DEFAULT_PRINT_SETTINGS } from '../constants';
+import {
+  createAssemblyParts,
+  disposeAssemblyParts,
+  AssemblyOptions,
+  AssemblyPartName,
+} from '../components/horn-geometry/AssemblyGeometry';
+
+export interface GeometryMeasurement {
+  volume: number;      // mm³ (signed, from the closed mesh)
+  surfaceArea: number; // mm²
+}
+
+export interface PartMeasurement extends GeometryMeasurement {
+  name: AssemblyPartName;
+}
+
+export interface PartCostBreakdown extends PartMeasurement {
+  shellVolume: number;    // mm³ printed as perimeters
+  infillVolume: number;   // mm³ printed as infill
+  mass: number;           // grams
+  filamentLength: number; // metres
+  printTime: number;      // hours
+  materialCost: number;   // $
+  machineCost: number;    // $
+}
+
+export interface CostCalculationResult {
+  parts: PartCostBreakdown[];
+  volume: number;         // mm³
+  mass: number;           // grams
+  filamentLength: number; // metres
+  printTime: number;      // hours
+  spools: number;         // fraction of the material's spool or bottle
+  materialCost: number;   // $
+  machineCost: number;    // $
+  laborCost: number;      // $
+  margin: number;         // $
+  totalCost: number;      // $
+}
+
+// Cost calculation parameters
+const LINE_WIDTH_FACTOR = 1.125; // extrusion width relative to the nozzle
+const TRAVEL_OVERHEAD = 1.2; // travel moves, retractions and layer changes
+const MACHINE_COST_PER_HOUR = 2.0; // $/hour of printer time
+const LABOR_COST_BASE = 5.0; // $5 base labor cost
+const MARGIN_PERCENTAGE = 0.3; // 30% margin
+
+/**
+ * Signed volume (divergence theorem) and surface area of a triangle mesh
+ */
+export function measureGeometry(geometry: THREE.BufferGeometry): GeometryMeasurement {
+  const position = geometry.getAttribute('position');
+  const index = geometry.index;
+  const count = index ? index.count : position.count;
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const edge = new THREE.Vector3();
+  const cross = new THREE.Vector3();
+  let volume = 0;
+  let surfaceArea = 0;
+
+  for (let i = 0; i < count; i += 3) {
+    a.fromBufferAttribute(position, index ? index.getX(i) : i);
+    b.fromBufferAttribute(position, index ? index.getX(i + 1) : i + 1);
+    c.fromBufferAttribute(position, index ? index.getX(i + 2) : i + 2);
+
+    volume += a.dot(cross.crossVectors(b, c)) / 6;
+    surfaceArea += cross.subVectors(b, a).cross(edge.subVectors(c, a)).length() / 2;
+  }
+
+  return { volume, surfaceArea };
+}
+
+/**
+ * Measure each part of the assembly as it is rendered
+ */
+export function measureAssembly(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: AssemblyOptions
+): PartMeasurement[] {
+  const parts = createAssemblyParts(hornParams, plateParams, driverParams, options);
+
+  try {
+    return parts.map(part => ({ name: part.name, ...measureGeometry(part.geometry) }));
+  } finally {
+    disposeAssemblyParts(parts);
+  }
+}
+
+/**
+ * Split a part into perimeter shell and infill, then derive mass,
+ * filament use and print time from the slicer settings
+ */
+export function calculatePartCost(
+  measurement: PartMeasurement,
+  material: MaterialType,
+  settings: PrintSettings = DEFAULT_PRINT_SETTINGS
+): PartCostBreakdown {
+  const volume = Math.abs(measurement.volume);
+  const lineWidth = settings.nozzleDiameter * LINE_WIDTH_FACTOR;
+
+  // Thin walls end up solid: the perimeters from both faces meet
+  const shellVolume = Math.min(volume, measurement.surfaceArea * settings.wallLoops * lineWidth);
+  const infillVolume = (volume - shellVolume) * settings.infillDensity;
+  const printedVolume = shellVolume + infillVolume;
+
+  // FORMULA: mass = volume * material.density (convert mm³ to cm³ first)
+  const mass = (printedVolume / 1000) * material.density;
+
+  const filamentArea = Math.PI * Math.pow(settings.filamentDiameter / 2, 2);
+  const filamentLength = printedVolume / filamentArea / 1000;
+
+  const volumetricFlow = lineWidth * settings.layerHeight * settings.printSpeed; // mm³/s
+  const printTime = (printedVolume / volumetricFlow) * TRAVEL_OVERHEAD / 3600;
+
+  return {
+    ...measurement,
+    volume,
+    shellVolume,
+    infillVolume,
+    mass,
+    filamentLength,
+    printTime,
+    materialCost: (mass / 1000) * material.costPerKg,
+    machineCost: printTime * MACHINE_COST_PER_HOUR,
+  };
+}
+
+/**
+ * Calculate total cost including materials, machine time, labor, and margin
+ */
+export function calculateCostFromMeasurements(
+  measurements: PartMeasurement[],
+  material: MaterialType,
+  settings: PrintSettings = DEFAULT_PRINT_SETTINGS
+): CostCalculationResult {
+  const parts = measurements.map(measurement => calculatePartCost(measurement, material, settings));
+  const sum = (key: keyof Omit<PartCostBreakdown, 'name'>) =>
+    parts.reduce((total, part) => total + part[key], 0);
+
+  const mass = sum('mass');
+  const materialCost = sum('materialCost');
+  const machineCost = sum('machineCost');
+  const laborCost = LABOR_COST_BASE;
+
+  // FORMULA: margin on everything before it
+  const subtotal = materialCost + machineCost + laborCost;
+  const margin = subtotal * MARGIN_PERCENTAGE;
+
+  return {
+    parts,
+    volume: sum('volume'),
+    mass,
+    filamentLength: sum('filamentLength'),
+    printTime: sum('printTime'),
+    spools: mass / material.spoolWeight,
+    materialCost,
+    machineCost,
+    laborCost,
+    margin,
+    totalCost: subtotal + margin,
+  };
+}
+
+/**
+ * Calculate cost from the assembly geometry
+ */
+export function calculateCost(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  material: MaterialType,
+  options: AssemblyOptions,
+  settings: PrintSettings = DEFAULT_PRINT_SETTINGS
+): CostCalculationResult {
+  const measurements = measureAssembly(hornParams, plateParams, driverParams, options);
+  return calculateCostFromMeasurements(measurements, material, settings);
+}
@@ -0,0 +1,48 @@
+export interface DelimitedRow {
+  cells: string[];  // split on the file's delimiters, for headers and column positions
+  values: number[]; // every number on the line, NaN where a field isn't one
+}
+
+const NUMBER_LINE = /^\s*[-+]?\.?\d/;
+
+/**
+ * Whether a line separates its columns with commas: a line that is one
+ * comma-joined field ("1000,85"), a comma followed by a space, more than one
+ * comma in a field, or a comma next to a decimal point ("1000.5,85.2")
+ */
+function hasCommaColumns(line: string): boolean {
+  const fields = line.trim().split(/[\s;]+/);
+  return (fields.length === 1 && fields[0].includes(',')) ||
+    /,\s/.test(line) ||
+    fields.some(field => field.split(',').length > 2 || (field.includes(',') && field.includes('.')));
+}
+
+/**
+ * Whether a file writes decimals with a comma, as spreadsheets and
+ * measurement tools do in many locales. Decided once per file: when no
+ * line uses commas between columns, so every column is separated by
+ * whitespace or semicolons ("1000,5;85,2", "20\t85,2"), each comma between
+ * digits is a decimal mark.
+ */
+function usesDecimalComma(text: string): boolean {
+  const data = text.split(/\r?\n/).filter(line => NUMBER_LINE.test(line));
+  return !data.some(hasCommaColumns) && data.some(line => /\d,\d/.test(line));
+}
+
+/**
+ * Lines of a text export of numeric columns, with the delimiter and the
+ * decimal mark detected once for the whole file. Numbers may be separated
+ * by whitespace, commas or semicolons; cells split on commas, semicolons
+ * and tabs only, so a header cell can contain spaces.
+ */
+export function readDelimitedRows(text: string): DelimitedRow[] {
+  const decimalComma = usesDecimalComma(text);
+
+  return text.split(/\r?\n/).map(raw => {
+    const line = decimalComma ? raw.replace(/(\d),(\d)/g, '$1.$2') : raw;
+    return {
+      cells: line.split(decimalComma ? /[;\t]/ : /[,;\t]/).map(cell => cell.trim()),
+      values: line.trim().split(/[\s,;]+/).filter(Boolean).map(Number),
+    };
+  });
+}
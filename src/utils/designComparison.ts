@@ -0,0 +1,102 @@
+import { AppState, PinnedDesign } from '../types';
+import { getProfileDisplayName } from '../profiles';
+import { resolveMouthParams } from '../components/horn-geometry/HornProfileGenerator';
+import {
+  calculateCircularPlateRadii,
+  calculateRectangularPlateDimensions
+} from '../components/horn-geometry/PlateGeometryGenerator';
+import { calculateCost, CostCalculationResult } from './costCalculator';
+
+// The live design plus up to three pinned ones
+export const MAX_PINNED_DESIGNS = 3;
+
+// Pinned designs take the first free color
+export const COMPARISON_COLORS = ['#a855f7', '#06b6d4', '#facc15'];
+
+// The live design in comparison tables and legends
+export const CURRENT_DESIGN_NAME = 'Current';
+export const CURRENT_DESIGN_COLOR = '#3b82f6';
+
+const SIDE_BY_SIDE_GAP = 50; // mm between neighbouring assemblies
+
+// Pinned designs never change, so each is measured once
+const costCache = new WeakMap<AppState, CostCalculationResult>();
+
+/**
+ * Design in a comparison with its print cost
+ */
+export interface ComparedDesign {
+  id: string;
+  name: string;
+  color: string;
+  state: AppState;
+  cost: CostCalculationResult;
+}
+
+export type ComparisonLayout = 'side-by-side' | 'ghost';
+
+/**
+ * Snapshot of the design to compare against later, named after its flare
+ * and mouth unless a name is given
+ */
+export function createPinnedDesign(state: AppState, pinned: PinnedDesign[], name?: string): PinnedDesign {
+  const { hornParams } = state;
+  const mouth = hornParams.roundMouth
+    ? `Ø${hornParams.mouthWidth}`
+    : `${hornParams.mouthWidth}×${hornParams.mouthHeight || hornParams.mouthWidth}`;
+
+  return {
+    id: `pinned-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name ?? `${getProfileDisplayName(hornParams.flareType)} ${mouth}mm`,
+    color: COMPARISON_COLORS.find(color => !pinned.some(design => design.color === color)) ?? COMPARISON_COLORS[0],
+    state
+  };
+}
+
+/**
+ * Print cost of a pinned design with its own material and print settings
+ */
+export function calculateDesignCost(state: AppState): CostCalculationResult {
+  let cost = costCache.get(state);
+  if (!cost) {
+    cost = calculateCost(
+      state.hornParams,
+      state.plateParams,
+      state.driverParams,
+      state.selectedMaterial,
+      { includeMountingPlate: state.showMountingPlate, includeDriverMount: state.showDriverMount },
+      state.printSettings
+    );
+    costCache.set(state, cost);
+  }
+  return cost;
+}
+
+/**
+ * Widest extent of the rendered assembly across the horn axis, mm
+ */
+function calculateAssemblyWidth(state: AppState): number {
+  const mouth = resolveMouthParams(state.hornParams);
+  const hornWidth = Math.max(mouth.mouthWidth, mouth.mouthHeight || mouth.mouthWidth) + 2 * state.hornParams.wallThickness;
+  if (!state.showMountingPlate) return hornWidth;
+
+  const plateWidth = state.plateParams.type === 'circle'
+    ? 2 * calculateCircularPlateRadii(state.plateParams, mouth).outerRadius
+    : calculateRectangularPlateDimensions(state.plateParams, mouth).outerWidth;
+  return Math.max(hornWidth, plateWidth);
+}
+
+/**
+ * X offsets (mm) that line the designs up side by side, centered on the origin
+ */
+export function calculateSideBySideOffsets(states: AppState[]): number[] {
+  const widths = states.map(calculateAssemblyWidth);
+  const total = widths.reduce((sum, width) => sum + width, 0) + SIDE_BY_SIDE_GAP * (widths.length - 1);
+
+  let left = -total / 2;
+  return widths.map(width => {
+    const offset = left + width / 2;
+    left += width + SIDE_BY_SIDE_GAP;
+    return offset;
+  });
+}
@@ -0,0 +1,135 @@
+import { AppState } from '../types';
+
+/**
+ * Parts of the design that undo and redo restore; view toggles, print
+ * settings and segmentation stay as they are
+ */
+export type HistorySnapshot = Pick<AppState, 'hornParams' | 'plateParams' | 'driverParams' | 'selectedMaterial'>;
+
+// 'design' is a change to all of them at once, such as loading a pinned design
+export type HistorySection = 'horn' | 'plate' | 'driver' | 'material' | 'design';
+
+export interface HistoryEntry {
+  snapshot: HistorySnapshot;
+  label: string;
+  key: string;                // section and changed fields; repeats within the window coalesce
+  time: number;               // ms since epoch of the latest edit in the step
+}
+
+export interface DesignHistory {
+  entries: HistoryEntry[];    // oldest first
+  index: number;              // entry the design currently matches
+}
+
+export const HISTORY_LIMIT = 100;
+const COALESCE_WINDOW = 1000; // ms between edits of the same fields that form one step
+
+const SECTION_LABELS: Record<HistorySection, string> = {
+  horn: 'Horn',
+  plate: 'Plate',
+  driver: 'Driver',
+  material: 'Material',
+  design: 'Design'
+};
+
+const SECTION_KEYS: Record<Exclude<HistorySection, 'design'>, keyof HistorySnapshot> = {
+  horn: 'hornParams',
+  plate: 'plateParams',
+  driver: 'driverParams',
+  material: 'selectedMaterial'
+};
+
+const createSnapshot = (state: HistorySnapshot): HistorySnapshot => ({
+  hornParams: state.hornParams,
+  plateParams: state.plateParams,
+  driverParams: state.driverParams,
+  selectedMaterial: state.selectedMaterial
+});
+
+/**
+ * History holding only the given design
+ */
+export function createHistory(state: HistorySnapshot, label: string = 'Initial design'): DesignHistory {
+  return {
+    entries: [{ snapshot: createSnapshot(state), label, key: '', time: Date.now() }],
+    index: 0
+  };
+}
+
+// "mouthWidth" → "mouth width"
+const humanize = (field: string) => field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+
+function formatValue(value: unknown): string | null {
+  if (typeof value === 'number') return String(Number(value.toFixed(2)));
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  if (typeof value === 'string') return value;
+  return null;
+}
+
+/**
+ * Fields of one section that differ; derived `calculated*` horn values
+ * don't count as edits
+ */
+function changedFields(section: HistorySection, before: HistorySnapshot, after: HistorySnapshot): string[] {
+  if (section === 'design') {
+    return (Object.keys(before) as Array<keyof HistorySnapshot>)
+      .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+  }
+  if (section === 'material') {
+    return before.selectedMaterial.id === after.selectedMaterial.id &&
+      JSON.stringify(before.selectedMaterial) === JSON.stringify(after.selectedMaterial)
+      ? []
+      : ['id'];
+  }
+  const previous = before[SECTION_KEYS[section]] as unknown as Record<string, unknown>;
+  const next = after[SECTION_KEYS[section]] as unknown as Record<string, unknown>;
+  return [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+    .filter(field => !field.startsWith('calculated'))
+    .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .sort();
+}
+
+function describeChange(section: HistorySection, fields: string[], snapshot: HistorySnapshot): string {
+  if (section === 'material') {
+    return `${SECTION_LABELS.material}: ${snapshot.selectedMaterial.name}`;
+  }
+  if (section === 'design') {
+    return `${SECTION_LABELS.design}: ${fields.length} part${fields.length === 1 ? '' : 's'} changed`;
+  }
+  if (fields.length === 1) {
+    const value = formatValue((snapshot[SECTION_KEYS[section]] as unknown as Record<string, unknown>)[fields[0]]);
+    return `${SECTION_LABELS[section]}: ${humanize(fields[0])}${value === null ? '' : ` → ${value}`}`;
+  }
+  return fields.length === 2
+    ? `${SECTION_LABELS[section]}: ${humanize(fields[0])}, ${humanize(fields[1])}`
+    : `${SECTION_LABELS[section]}: ${fields.length} settings`;
+}
+
+/**
+ * History with an edit to one section added after the current entry,
+ * dropping any redo steps. A repeat of the previous edit's fields within
+ * the coalesce window, such as a slider drag, replaces it instead.
+ */
+export function recordHistory(
+  history: DesignHistory,
+  section: HistorySection,
+  state: HistorySnapshot,
+  time: number,
+  label?: string
+): DesignHistory {
+  const current = history.entries[history.index];
+  const snapshot = createSnapshot(state);
+  const fields = changedFields(section, current.snapshot, snapshot);
+  if (fields.length === 0) return history;
+
+  const key = `${section}:${fields.join(',')}`;
+  const entry: HistoryEntry = { snapshot, label: label ?? describeChange(section, fields, snapshot), key, time };
+  const isLatest = history.index === history.entries.length - 1;
+
+  if (isLatest && history.index > 0 && current.key === key && time - current.time < COALESCE_WINDOW) {
+    return { entries: [...history.entries.slice(0, history.index), entry], index: history.index };
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), entry].slice(-HISTORY_LIMIT);
+  return { entries, index: entries.length - 1 };
+}
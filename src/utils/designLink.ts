@@ -0,0 +1,161 @@
+import { AppState, MaterialType } from '../types';
+import {
+  DEFAULT_DRIVER_PARAMS,
+  DEFAULT_HORN_PARAMS,
+  DEFAULT_PLATE_PARAMS,
+  DEFAULT_PRINT_SETTINGS,
+  DEFAULT_SEGMENTATION_PARAMS,
+  MATERIALS
+} from '../constants';
+import { parseMaterial } from './materialLibrary';
+
+/**
+ * Designs travel in the URL fragment as `#design=v<version>.<payload>`,
+ * the payload being base64url JSON of only what differs from the defaults.
+ * Fields added later are missing from older links and fall back to their
+ * defaults; `null` marks an optional field the design cleared. A format
+ * change bumps the version and adds a migration from the one before.
+ */
+export const DESIGN_LINK_VERSION = 1;
+
+const FRAGMENT_PATTERN = /^#?design=v(\d+)\.([A-Za-z0-9_-]*)$/;
+
+type Design = Record<string, unknown>;
+
+// Upgrades a decoded design from version n to n + 1
+const MIGRATIONS: Record<number, (design: Design) => Design> = {};
+
+type DesignState = Omit<AppState, 'selectedMaterial'>;
+
+/**
+ * Starting design for a session without a link
+ */
+export function createDefaultAppState(selectedMaterial: MaterialType): AppState {
+  return {
+    hornParams: DEFAULT_HORN_PARAMS,
+    plateParams: DEFAULT_PLATE_PARAMS,
+    driverParams: DEFAULT_DRIVER_PARAMS,
+    selectedMaterial,
+    showMountingPlate: true,
+    showDriverMount: true,
+    segmentationParams: DEFAULT_SEGMENTATION_PARAMS,
+    printSettings: DEFAULT_PRINT_SETTINGS
+  };
+}
+
+const isPlainObject = (value: unknown): value is Design =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Fields of value that differ from base, recursing into objects
+ */
+function diff(value: unknown, base: unknown): unknown {
+  if (isPlainObject(value) && isPlainObject(base)) {
+    const changes: Design = {};
+    for (const key of new Set([...Object.keys(value), ...Object.keys(base)])) {
+      if (value[key] === undefined) {
+        if (base[key] !== undefined) changes[key] = null;
+        continue;
+      }
+      const change = diff(value[key], base[key]);
+      if (change !== undefined) changes[key] = change;
+    }
+    return Object.keys(changes).length > 0 ? changes : undefined;
+  }
+  return JSON.stringify(value) === JSON.stringify(base) ? undefined : value;
+}
+
+/**
+ * Changes laid over base. A value whose type contradicts the default is
+ * dropped, so a mangled link can't put a string where a number belongs.
+ */
+function merge(base: unknown, changes: unknown): unknown {
+  if (!isPlainObject(changes)) {
+    if (base === undefined || base === null || typeof changes === typeof base) return changes;
+    return base;
+  }
+  if (base !== undefined && !isPlainObject(base)) return base;
+
+  const merged: Design = { ...(base as Design | undefined) };
+  for (const [key, change] of Object.entries(changes)) {
+    if (change === null) {
+      delete merged[key];
+    } else {
+      merged[key] = merge(merged[key], change);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Design from changes laid over the defaults, so designs saved before a
+ * field existed pick up its default
+ */
+export function applyDesignChanges(changes: Record<string, unknown>, selectedMaterial: MaterialType): AppState {
+  const { selectedMaterial: _, ...defaults } = createDefaultAppState(selectedMaterial);
+  return { ...(merge(defaults, changes) as DesignState), selectedMaterial };
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(payload: string): string {
+  const binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * URL fragment (without `#`) for a design; empty for the default design
+ */
+export function encodeDesignFragment(state: AppState): string {
+  const { selectedMaterial, ...design } = state;
+  const { selectedMaterial: _, ...defaults } = createDefaultAppState(selectedMaterial);
+  const changes = (diff(design, defaults) as Design | undefined) ?? {};
+
+  // Built-in materials go by id; anything else travels whole
+  const builtIn = MATERIALS.find(material => material.id === selectedMaterial.id);
+  if (builtIn && JSON.stringify(builtIn) === JSON.stringify(selectedMaterial)) {
+    if (selectedMaterial.id !== MATERIALS[0].id) changes.material = selectedMaterial.id;
+  } else {
+    changes.material = selectedMaterial;
+  }
+
+  return Object.keys(changes).length > 0
+    ? `design=v${DESIGN_LINK_VERSION}.${toBase64Url(JSON.stringify(changes))}`
+    : '';
+}
+
+/**
+ * Design from a URL fragment, or null when there is none or it can't be
+ * read. Materials referenced by id are looked up in the user's library
+ * first, then the built-in one.
+ */
+export function decodeDesignFragment(fragment: string, materials: MaterialType[]): AppState | null {
+  const match = fragment.match(FRAGMENT_PATTERN);
+  if (!match) return null;
+
+  try {
+    const version = Number(match[1]);
+    let changes: unknown = JSON.parse(fromBase64Url(match[2]));
+    if (!isPlainObject(changes)) return null;
+    if (version > DESIGN_LINK_VERSION) {
+      console.warn(`Design link v${version} is newer than this app (v${DESIGN_LINK_VERSION}); settings it adds may not apply`);
+    }
+    for (let from = version; from < DESIGN_LINK_VERSION; from++) {
+      changes = MIGRATIONS[from]?.(changes as Design) ?? changes;
+    }
+
+    const { material, ...design } = changes as Design;
+    const selectedMaterial = (typeof material === 'string' || material === undefined
+      ? [...materials, ...MATERIALS].find(entry => entry.id === (material ?? MATERIALS[0].id))
+      : parseMaterial(material)) ?? materials[0];
+    return applyDesignChanges(design, selectedMaterial);
+  } catch (error) {
+    console.warn('Failed to read design link:', error);
+    return null;
+  }
+}
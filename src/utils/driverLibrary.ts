@@ -0,0 +1,219 @@
+import { saveAs } from 'file-saver';
+import { DriverMountParams, DriverSpec, DriverThreadSize, HornProfileParams } from '../types';
+import { DriverParameters } from '../acoustic/types';
+import { DRIVERS, DRIVER_THREADS, DEFAULT_DRIVER_THREAD, DEFAULT_THROAT_ADAPTER } from '../constants';
+import { createFileTimestamp } from './stlExporter';
+
+const STORAGE_KEY = 'hornDesigner.driverLibrary';
+
+const NUMERIC_FIELDS = [
+  'exitDiameter',
+  'exitAngle',
+  'boltCount',
+  'boltCircleDiameter',
+  'boltHoleDiameter',
+  'flangeDiameter',
+] as const;
+
+const PARAMETER_FIELDS = ['fs', 'qts', 'vas', 'sensitivity', 'powerHandling', 'impedance'] as const;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Validate one stored or imported entry; anything malformed is dropped so a
+ * bad file can't put NaN diameters into the mount geometry
+ */
+function parseDriverSpec(value: unknown): DriverSpec | null {
+  if (!value || typeof value !== 'object') return null;
+  const entry = value as Record<string, unknown>;
+
+  if (typeof entry.id !== 'string' || typeof entry.name !== 'string') return null;
+  if (entry.mountType !== 'bolt-on' && entry.mountType !== 'screw-on') return null;
+  if (NUMERIC_FIELDS.some(field => !isFiniteNumber(entry[field]) || (entry[field] as number) < 0)) return null;
+  if ((entry.exitDiameter as number) <= 0 || (entry.flangeDiameter as number) <= 0) return null;
+
+  const threadSize = typeof entry.threadSize === 'string' && entry.threadSize in DRIVER_THREADS
+    ? entry.threadSize as DriverThreadSize
+    : undefined;
+  if (entry.mountType === 'screw-on' && !threadSize) return null;
+
+  const spec: DriverSpec = {
+    id: entry.id,
+    name: entry.name,
+    mountType: entry.mountType,
+    exitDiameter: entry.exitDiameter as number,
+    exitAngle: entry.exitAngle as number,
+    boltCount: Math.round(entry.boltCount as number),
+    boltCircleDiameter: entry.boltCircleDiameter as number,
+    boltHoleDiameter: entry.boltHoleDiameter as number,
+    flangeDiameter: entry.flangeDiameter as number,
+  };
+  if (threadSize) {
+    spec.threadSize = threadSize;
+  }
+
+  if (entry.parameters && typeof entry.parameters === 'object') {
+    const source = entry.parameters as Record<string, unknown>;
+    const parameters: Partial<Omit<DriverParameters, 'throatDiameter'>> = {};
+    PARAMETER_FIELDS.forEach(field => {
+      if (isFiniteNumber(source[field])) {
+        parameters[field] = source[field];
+      }
+    });
+    if (Object.keys(parameters).length > 0) {
+      spec.parameters = parameters;
+    }
+  }
+
+  return spec;
+}
+
+function parseDriverList(value: unknown): DriverSpec[] {
+  return Array.isArray(value)
+    ? value.map(parseDriverSpec).filter((driver): driver is DriverSpec => driver !== null)
+    : [];
+}
+
+export function getDefaultDriverLibrary(): DriverSpec[] {
+  return DRIVERS.map(driver => ({ ...driver }));
+}
+
+/**
+ * Load the user's driver library, falling back to the built-in catalog
+ */
+export function loadDriverLibrary(): DriverSpec[] {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (!stored) return getDefaultDriverLibrary();
+
+    const drivers = parseDriverList(JSON.parse(stored));
+    return drivers.length > 0 ? drivers : getDefaultDriverLibrary();
+  } catch (error) {
+    console.warn('Failed to load driver library:', error);
+    return getDefaultDriverLibrary();
+  }
+}
+
+export function saveDriverLibrary(drivers: DriverSpec[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(drivers));
+  } catch (error) {
+    console.warn('Failed to save driver library:', error);
+  }
+}
+
+/**
+ * New library entry, copied from an existing driver when given
+ */
+export function createDriverSpec(base: DriverSpec = DRIVERS[0], name: string = `${base.name} (custom)`): DriverSpec {
+  return {
+    ...base,
+    parameters: base.parameters && { ...base.parameters },
+    id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`,
+    name,
+  };
+}
+
+/**
+ * New library entry capturing the current mount, so tweaked or unlisted
+ * drivers can be saved
+ */
+export function createDriverSpecFromMount(driverParams: DriverMountParams, name: string): DriverSpec {
+  return createDriverSpec(
+    {
+      id: '',
+      name,
+      mountType: driverParams.type,
+      exitDiameter: driverParams.throatDiameter,
+      exitAngle: driverParams.throatAdapter?.exitAngle ?? DEFAULT_THROAT_ADAPTER.exitAngle,
+      threadSize: driverParams.type === 'screw-on' ? (driverParams.thread || DEFAULT_DRIVER_THREAD).size : undefined,
+      boltCount: driverParams.boltCount,
+      boltCircleDiameter: driverParams.boltCircleDiameter,
+      boltHoleDiameter: driverParams.boltHoleDiameter,
+      flangeDiameter: driverParams.flangeDiameter,
+    },
+    name
+  );
+}
+
+/**
+ * Merge drivers from a JSON file into the library. Accepts a bare array or
+ * an exported library; entries with a known id replace the existing one.
+ */
+export function importDriverLibrary(json: string, drivers: DriverSpec[]): DriverSpec[] {
+  const parsed: unknown = JSON.parse(json);
+  const imported = parseDriverList(
+    parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>).drivers
+      : parsed
+  );
+
+  if (imported.length === 0) {
+    throw new Error('No valid drivers found in file');
+  }
+
+  const byId = new Map(imported.map(driver => [driver.id, driver]));
+  const existingIds = new Set(drivers.map(driver => driver.id));
+  return [
+    ...drivers.map(driver => byId.get(driver.id) ?? driver),
+    ...imported.filter(driver => !existingIds.has(driver.id)),
+  ];
+}
+
+export function exportDriverLibrary(drivers: DriverSpec[]): void {
+  const json = JSON.stringify({ drivers }, null, 2);
+  saveAs(new Blob([json], { type: 'application/json' }), `horn_drivers_${createFileTimestamp()}.json`);
+}
+
+/**
+ * Mount and throat settings for a catalog driver. Flange thickness, thread
+ * length and clearance, whether the throat adapter is enabled, and the bolt
+ * pattern of screw-on drivers are kept.
+ */
+export function applyDriverSpec(
+  driver: DriverSpec,
+  driverParams: DriverMountParams,
+  hornParams: HornProfileParams
+): { driverParams: DriverMountParams; hornParams: HornProfileParams } {
+  const thread = driverParams.thread || DEFAULT_DRIVER_THREAD;
+  const throatAdapter = driverParams.throatAdapter || DEFAULT_THROAT_ADAPTER;
+
+  return {
+    driverParams: {
+      ...driverParams,
+      type: driver.mountType,
+      driverId: driver.id,
+      throatDiameter: driver.exitDiameter,
+      flangeDiameter: driver.flangeDiameter,
+      ...(driver.mountType === 'bolt-on' && {
+        boltCount: driver.boltCount,
+        boltHoleDiameter: driver.boltHoleDiameter,
+        boltCircleDiameter: driver.boltCircleDiameter,
+      }),
+      thread: driver.threadSize ? { ...thread, size: driver.threadSize } : driverParams.thread,
+      throatAdapter: { ...throatAdapter, exitAngle: driver.exitAngle },
+    },
+    hornParams: { ...hornParams, throatDiameter: driver.exitDiameter },
+  };
+}
+
+/**
+ * Full driver parameters for the acoustic models, or null when the entry
+ * lacks any of the datasheet values
+ */
+export function getDriverParameters(driver: DriverSpec): DriverParameters | null {
+  const parameters = driver.parameters;
+  if (!parameters || PARAMETER_FIELDS.some(field => parameters[field] === undefined)) {
+    return null;
+  }
+
+  return {
+    throatDiameter: driver.exitDiameter,
+    fs: parameters.fs!,
+    qts: parameters.qts!,
+    vas: parameters.vas!,
+    sensitivity: parameters.sensitivity!,
+    powerHandling: parameters.powerHandling!,
+    impedance: parameters.impedance!,
+  };
+}
@@ -0,0 +1,356 @@
+import { saveAs } from 'file-saver';
+import { DriverMountParams, DriverSpec, HornProfileParams } from '../types';
+import { ProfileType } from '../profiles/types';
+import { AIR_DENSITY, SPEED_OF_SOUND, WebsterParams } from '../acoustic/types';
+import { calculateAcousticProfile } from '../components/horn-geometry/HornProfileGenerator';
+import { getThroatAdapterLength } from '../components/horn-geometry/ThroatAdapter';
+import { getMouthTermination } from '../components/horn-geometry/MouthTermination';
+import { createFileTimestamp } from './stlExporter';
+
+/**
+ * Hornresp input records are `key=value` lines in `|` headed sections.
+ * Horn segments 12 to 45 run between areas S1-S5 (cm²); each segment's
+ * length (cm) is keyed by its flare (Con, Exp, Par, Tra) or by L12-L45,
+ * with the flare cutoff in F12-F45. Unused segments have zero length.
+ */
+export type HornrespFlare = 'Con' | 'Exp' | 'Par' | 'Tra';
+
+export interface HornrespSegment {
+  flare: HornrespFlare;
+  startArea: number; // cm²
+  endArea: number;   // cm²
+  length: number;    // cm
+  cutoff?: number;   // Hz - exponential and tractrix flares
+}
+
+const MAX_SEGMENTS = 4;
+const FLARE_KEYS: HornrespFlare[] = ['Con', 'Exp', 'Par', 'Tra'];
+const SEGMENT_NAMES = ['12', '23', '34', '45'];
+
+const FLARE_PROFILES: Record<HornrespFlare, ProfileType> = {
+  Con: ProfileType.CONICAL,
+  Exp: ProfileType.EXPONENTIAL,
+  Par: ProfileType.PARABOLIC,
+  Tra: ProfileType.TRACTRIX,
+};
+
+// Solid angle the mouth radiates into for each mouth load
+const RADIATION_ANGLES: Record<WebsterParams['boundaryCondition'], string> = {
+  infinite: '2.0 x Pi',
+  flanged: '2.0 x Pi',
+  finite: '4.0 x Pi',
+};
+
+/**
+ * Exponential flare cutoff (Hz) between two areas a length (cm) apart
+ */
+function calculateExponentialCutoff(startArea: number, endArea: number, length: number): number {
+  return (SPEED_OF_SOUND * Math.log(endArea / startArea)) / (4 * Math.PI * (length / 100));
+}
+
+const areaOf = (radius: number) => Math.PI * (radius / 10) ** 2; // mm radius to cm²
+
+// Stand-ins for a compression driver when the catalog has no datasheet value
+const DRIVER_DEFAULTS = {
+  fs: 800,             // Hz
+  qts: 0.4,
+  vas: 0.01,           // L
+  impedance: 8,        // ohm nominal
+  qms: 5,
+  le: 0.1,             // mH
+  compressionRatio: 4, // diaphragm area over exit area
+  reRatio: 0.8,        // voice coil resistance over nominal impedance
+};
+
+/**
+ * Hornresp's traditional driver parameters from the catalog's Fs, Qts, Vas
+ * and impedance. The diaphragm area, Qms, Le and Re aren't in the catalog
+ * and come from DRIVER_DEFAULTS, as does any missing datasheet value;
+ * `defaulted` names them for the record comment.
+ */
+function createDriverSection(
+  driver: DriverSpec | undefined,
+  throatDiameter: number
+): { lines: string[]; defaulted: string[] } {
+  const catalog = driver?.parameters ?? {};
+  const defaulted: string[] = [];
+  const valueOf = (field: 'fs' | 'qts' | 'vas' | 'impedance', label: string, unit: string = '') => {
+    if (catalog[field] !== undefined) return catalog[field]!;
+    defaulted.push(`${label}=${DRIVER_DEFAULTS[field]}${unit}`);
+    return DRIVER_DEFAULTS[field];
+  };
+  const fs = valueOf('fs', 'Fs', ' Hz');
+  const qts = valueOf('qts', 'Qts');
+  const vas = valueOf('vas', 'Vas', ' L');
+  const impedance = valueOf('impedance', 'Z', ' ohm');
+  defaulted.push(
+    `Sd=${DRIVER_DEFAULTS.compressionRatio} x exit area`,
+    `Qms=${DRIVER_DEFAULTS.qms}`,
+    `Le=${DRIVER_DEFAULTS.le} mH`,
+    `Re=${DRIVER_DEFAULTS.reRatio} x Z`
+  );
+
+  const sd = areaOf((driver?.exitDiameter ?? throatDiameter) / 2) * DRIVER_DEFAULTS.compressionRatio; // cm²
+  const qms = Math.max(DRIVER_DEFAULTS.qms, qts * 2);
+  const qes = 1 / (1 / qts - 1 / qms);
+  const re = impedance * DRIVER_DEFAULTS.reRatio;
+  const omega = 2 * Math.PI * fs;
+
+  // Vas = rho c² Sd² Cms and Fs = 1 / (2 pi sqrt(Mms Cms))
+  const cms = (vas / 1000) / (AIR_DENSITY * SPEED_OF_SOUND ** 2 * (sd / 1e4) ** 2); // m/N
+  const mms = 1 / (omega ** 2 * cms); // kg
+  const rms = (omega * mms) / qms;    // N·s/m
+  const bl = Math.sqrt((omega * mms * re) / qes);
+
+  // Hornresp writes two exponent digits, e.g. 1.25E-05
+  const exponent = (value: number) => value.toExponential(2).toUpperCase().replace(/E([+-])(\d)$/, (_, sign, digit) => `E${sign}0${digit}`);
+  return {
+    lines: [
+      '|TRADITIONAL DRIVER PARAMETER VALUES:',
+      '',
+      `Sd=${sd.toFixed(2)}`,
+      `Bl=${bl.toFixed(2)}`,
+      `Cms=${exponent(cms)}`,
+      `Rms=${rms.toFixed(2)}`,
+      `Mmd=${(mms * 1000).toFixed(2)}`,
+      `Le=${DRIVER_DEFAULTS.le.toFixed(2)}`,
+      `Re=${re.toFixed(2)}`,
+      'Nd=1',
+    ],
+    defaulted,
+  };
+}
+
+/**
+ * Horn segments for the current design. A plain round conical or
+ * exponential horn is one exact segment; anything else is split into four
+ * equal-length exponential segments through its area profile.
+ */
+export function createHornrespSegments(
+  hornParams: HornProfileParams,
+  driverParams?: DriverMountParams
+): HornrespSegment[] {
+  const profile = calculateAcousticProfile(hornParams, driverParams);
+  const throat = profile[0];
+  const mouth = profile[profile.length - 1];
+  const plain = hornParams.roundMouth &&
+    !getMouthTermination(hornParams) &&
+    getThroatAdapterLength(hornParams.length, driverParams) === 0;
+
+  if (plain && (hornParams.flareType === ProfileType.CONICAL || hornParams.flareType === ProfileType.EXPONENTIAL)) {
+    const startArea = areaOf(throat.radius);
+    const endArea = areaOf(mouth.radius);
+    const length = (mouth.x - throat.x) / 10;
+    return [hornParams.flareType === ProfileType.CONICAL
+      ? { flare: 'Con', startArea, endArea, length }
+      : { flare: 'Exp', startArea, endArea, length, cutoff: calculateExponentialCutoff(startArea, endArea, length) }];
+  }
+
+  const radiusAt = (x: number) => {
+    const i = Math.max(1, profile.findIndex(point => point.x >= x));
+    const a = profile[i - 1];
+    const b = profile[Math.min(i, profile.length - 1)];
+    return b.x > a.x ? a.radius + (b.radius - a.radius) * (x - a.x) / (b.x - a.x) : b.radius;
+  };
+
+  const segments: HornrespSegment[] = [];
+  for (let i = 0; i < MAX_SEGMENTS; i++) {
+    const start = throat.x + (mouth.x - throat.x) * i / MAX_SEGMENTS;
+    const end = throat.x + (mouth.x - throat.x) * (i + 1) / MAX_SEGMENTS;
+    const startArea = areaOf(radiusAt(start));
+    const endArea = areaOf(i === MAX_SEGMENTS - 1 ? mouth.radius : radiusAt(end));
+    const length = (end - start) / 10;
+
+    // An exponential segment can't narrow or stay parallel
+    segments.push(endArea > startArea * 1.0001
+      ? { flare: 'Exp', startArea, endArea, length, cutoff: calculateExponentialCutoff(startArea, endArea, length) }
+      : { flare: 'Con', startArea, endArea, length });
+  }
+  return segments;
+}
+
+/**
+ * Hornresp input record for the current design, with a driver section
+ * worked out from the selected driver's datasheet values. The comment
+ * lists every driver value that was filled in from a default.
+ */
+export function createHornrespRecord(
+  hornParams: HornProfileParams,
+  driverParams?: DriverMountParams,
+  driver?: DriverSpec,
+  mouthLoad: WebsterParams['boundaryCondition'] = 'infinite'
+): string {
+  const segments = createHornrespSegments(hornParams, driverParams);
+  const format = (value: number) => value.toFixed(2);
+
+  const driverSection = createDriverSection(driver, hornParams.throatDiameter);
+
+  const comment = [`${hornParams.flareType} horn, ${format(hornParams.length)} mm`];
+  if (driver) {
+    const { fs, qts, vas, sensitivity, impedance } = driver.parameters || {};
+    comment.push([
+      driver.name,
+      fs !== undefined && `Fs=${fs} Hz`,
+      qts !== undefined && `Qts=${qts}`,
+      vas !== undefined && `Vas=${vas} L`,
+      sensitivity !== undefined && `${sensitivity} dB`,
+      impedance !== undefined && `${impedance} ohm`,
+    ].filter(Boolean).join(' '));
+  }
+  comment.push(`Driver defaults: ${driverSection.defaulted.join(', ')}`);
+
+  const lines = [
+    'ID=0.00',
+    '',
+    `Comment=${comment.join('; ')}`,
+    '',
+    '|RADIATION, SOURCE AND MOUTH PARAMETER VALUES:',
+    '',
+    `Ang=${RADIATION_ANGLES[mouthLoad]}`,
+    'Eg=2.83',
+    'Rg=0.00',
+    'Cir=0.00',
+    '',
+    '|HORN PARAMETER VALUES:',
+    '',
+  ];
+
+  SEGMENT_NAMES.forEach((name, i) => {
+    const segment = segments[i];
+    lines.push(`S${i + 1}=${format(segment?.startArea ?? segments[i - 1]?.endArea ?? 0)}`);
+    lines.push(`S${i + 2}=${format(segment?.endArea ?? 0)}`);
+    if (segment) {
+      lines.push(`${segment.flare}=${format(segment.length)}`);
+      lines.push(`F${name}=${format(segment.cutoff ?? 0)}`);
+    } else {
+      lines.push(`L${name}=0.00`);
+      lines.push(`F${name}=0.00`);
+    }
+  });
+
+  lines.push('', ...driverSection.lines);
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function exportHornrespRecord(
+  hornParams: HornProfileParams,
+  driverParams?: DriverMountParams,
+  driver?: DriverSpec,
+  mouthLoad?: WebsterParams['boundaryCondition']
+): void {
+  const record = createHornrespRecord(hornParams, driverParams, driver, mouthLoad);
+  saveAs(new Blob([record], { type: 'text/plain' }), `horn_hornresp_${createFileTimestamp()}.txt`);
+}
+
+/**
+ * Horn segments of a Hornresp record, throat first. Flare-keyed lengths
+ * carry no segment number, so the lines are read in order.
+ */
+export function parseHornrespRecord(text: string): HornrespSegment[] {
+  const areas: number[] = [];
+  const lengths: Array<{ flare?: HornrespFlare; length: number }> = [];
+  const cutoffs: number[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^([A-Za-z]+)(\d*)\s*=\s*(.*)$/);
+    if (!match) continue;
+    const [, key, index, raw] = match;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) continue;
+
+    const segment = SEGMENT_NAMES.indexOf(index);
+    if (key === 'S' && index.length === 1) {
+      // Unused segments repeat their start area ahead of a zero end area
+      if (!(areas[Number(index) - 1] > 0)) areas[Number(index) - 1] = value;
+    } else if (key === 'L' && segment >= 0) {
+      lengths[segment] = { length: value };
+    } else if (key === 'F' && segment >= 0) {
+      cutoffs[segment] = value;
+    } else if (FLARE_KEYS.includes(key as HornrespFlare) && !index) {
+      lengths[lengths.length] = { flare: key as HornrespFlare, length: value };
+    }
+  }
+
+  const segments: HornrespSegment[] = [];
+  for (let i = 0; i < MAX_SEGMENTS; i++) {
+    const length = lengths[i]?.length ?? 0;
+    const startArea = areas[i];
+    const endArea = areas[i + 1];
+    if (!(length > 0) || !(startArea > 0) || !(endArea > 0)) break;
+
+    const cutoff = cutoffs[i] > 0 ? cutoffs[i] : undefined;
+    segments.push({
+      flare: lengths[i].flare ?? (cutoff ? 'Exp' : 'Con'),
+      startArea,
+      endArea,
+      length,
+      cutoff,
+    });
+  }
+  return segments;
+}
+
+/**
+ * Horn from a Hornresp record. One segment maps onto the matching profile;
+ * several become one profile of the longest segment's flare from S1 to the
+ * last area, and the notes say what was approximated. A rectangular design
+ * stays rectangular: its mouth keeps the current aspect ratio and is sized
+ * to the record's mouth area.
+ */
+export function importHornrespRecord(
+  text: string,
+  hornParams: HornProfileParams
+): { hornParams: HornProfileParams; notes: string[] } {
+  const segments = parseHornrespRecord(text);
+  if (segments.length === 0) {
+    throw new Error('No horn segments found in record');
+  }
+
+  const notes: string[] = [];
+  const throat = segments[0];
+  const mouth = segments[segments.length - 1];
+  const length = segments.reduce((total, segment) => total + segment.length, 0);
+  const main = segments.reduce((longest, segment) => segment.length > longest.length ? segment : longest);
+
+  if (segments.length > 1) {
+    notes.push(`${segments.length} segments (${segments.map(segment => segment.flare).join(', ')}) mapped to a single ${FLARE_PROFILES[main.flare]} profile`);
+  }
+  if (main.flare === 'Par' || main.flare === 'Tra') {
+    notes.push(`The ${FLARE_PROFILES[main.flare]} profile is fitted between the throat and mouth areas`);
+  }
+
+  const cutoff = main.flare === 'Exp'
+    ? calculateExponentialCutoff(throat.startArea, mouth.endArea, length)
+    : main.cutoff;
+  const diameterOf = (area: number) => 2 * Math.sqrt(area / Math.PI) * 10; // cm² to mm
+
+  const imported: HornProfileParams = {
+    ...hornParams,
+    throatDiameter: diameterOf(throat.startArea),
+    mouthWidth: diameterOf(mouth.endArea),
+    mouthHeight: undefined,
+    length: length * 10,
+    flareType: FLARE_PROFILES[main.flare],
+    heightFlareType: undefined,
+    cutoffFrequency: cutoff ? Math.round(cutoff) : hornParams.cutoffFrequency,
+    mouthTermination: hornParams.mouthTermination && { ...hornParams.mouthTermination, enabled: false },
+  };
+  if (hornParams.roundMouth) {
+    return { hornParams: imported, notes };
+  }
+
+  // Corner radii don't scale with the mouth, so the area is matched over a few passes
+  const aspect = (hornParams.mouthHeight || hornParams.mouthWidth) / hornParams.mouthWidth;
+  let width = Math.sqrt((mouth.endArea * 100) / aspect);
+  for (let pass = 0; pass < 3; pass++) {
+    const profile = calculateAcousticProfile({ ...imported, mouthWidth: width, mouthHeight: width * aspect }, undefined, 20);
+    width *= Math.sqrt(mouth.endArea / areaOf(profile[profile.length - 1].radius));
+  }
+  notes.push(`Mouth sized ${width.toFixed(1)} × ${(width * aspect).toFixed(1)} mm to the record's ${mouth.endArea.toFixed(1)} cm², keeping the design's aspect ratio`);
+
+  return {
+    hornParams: { ...imported, mouthWidth: width, mouthHeight: width * aspect },
+    notes,
+  };
+}
@@ -0,0 +1,96 @@
+import { HornProfileParams, MountPlateParams, DriverMountParams, MaterialType } from '../types';
+import { calculateInteriorHalfExtents } from '../components/horn-geometry/HornProfileGenerator';
+import { AssemblyOptions, AssemblyPartName, ASSEMBLY_PART_LABELS } from '../components/horn-geometry/AssemblyGeometry';
+
+export type ManufacturabilitySeverity = 'error' | 'warning';
+
+export interface ManufacturabilityIssue {
+  severity: ManufacturabilitySeverity;
+  part: AssemblyPartName;
+  message: string;
+}
+
+const OVERHANG_SAMPLES = 100;
+const DRIVER_OPERATING_TEMP = 60; // °C a compression driver's throat can reach under sustained power
+
+/**
+ * Steepest wall angle from the horn axis, i.e. the overhang when the horn is
+ * printed standing on its throat or its mouth.
+ */
+export function calculateMaxWallAngle(
+  hornParams: HornProfileParams,
+  driverParams?: DriverMountParams
+): { angle: number; z: number } {
+  let maxAngle = 0;
+  let maxZ = 0;
+  let previous = calculateInteriorHalfExtents(hornParams, 0, driverParams);
+
+  for (let i = 1; i <= OVERHANG_SAMPLES; i++) {
+    const t = i / OVERHANG_SAMPLES;
+    const current = calculateInteriorHalfExtents(hornParams, t, driverParams);
+    const dz = hornParams.length / OVERHANG_SAMPLES;
+    const rise = Math.max(
+      Math.abs(current.halfWidth - previous.halfWidth),
+      Math.abs(current.halfHeight - previous.halfHeight)
+    );
+    const angle = Math.atan2(rise, dz) * 180 / Math.PI;
+
+    if (angle > maxAngle) {
+      maxAngle = angle;
+      maxZ = t * hornParams.length;
+    }
+    previous = current;
+  }
+
+  return { angle: maxAngle, z: maxZ };
+}
+
+/**
+ * Check the configured parts against the print material's limits
+ */
+export function checkManufacturability(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  material: MaterialType,
+  options: AssemblyOptions
+): ManufacturabilityIssue[] {
+  const issues: ManufacturabilityIssue[] = [];
+
+  const checkThickness = (part: AssemblyPartName, thickness: number) => {
+    if (thickness < material.minWallThickness) {
+      issues.push({
+        severity: 'error',
+        part,
+        message: `${ASSEMBLY_PART_LABELS[part]} is ${thickness}mm thick; ${material.name} needs at least ${material.minWallThickness}mm`,
+      });
+    }
+  };
+
+  checkThickness('horn', hornParams.wallThickness);
+  if (options.includeMountingPlate) {
+    checkThickness('plate', plateParams.thickness);
+  }
+  if (options.includeDriverMount) {
+    checkThickness('driver', driverParams.flangeThickness);
+  }
+
+  const wall = calculateMaxWallAngle(hornParams, driverParams);
+  if (wall.angle > material.maxOverhang) {
+    issues.push({
+      severity: 'warning',
+      part: 'horn',
+      message: `Horn wall reaches ${wall.angle.toFixed(0)}° from vertical at z=${wall.z.toFixed(0)}mm; ${material.name} needs supports beyond ${material.maxOverhang}°`,
+    });
+  }
+
+  if (options.includeDriverMount && material.heatDeflectionTemp < DRIVER_OPERATING_TEMP) {
+    issues.push({
+      severity: 'warning',
+      part: 'driver',
+      message: `${material.name} softens at ${material.heatDeflectionTemp}°C; the driver flange can reach ${DRIVER_OPERATING_TEMP}°C at high power`,
+    });
+  }
+
+  return issues;
+}
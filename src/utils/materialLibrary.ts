@@ -0,0 +1,81 @@
+import { MaterialType } from '../types';
+import { MATERIALS } from '../constants';
+
+const STORAGE_KEY = 'hornDesigner.materialLibrary';
+
+const NUMERIC_FIELDS = [
+  'density',
+  'costPerKg',
+  'spoolWeight',
+  'minWallThickness',
+  'maxOverhang',
+  'heatDeflectionTemp',
+] as const;
+
+/**
+ * Validate one stored entry; anything malformed is dropped rather than
+ * letting NaN densities or prices reach the cost calculator
+ */
+export function parseMaterial(value: unknown): MaterialType | null {
+  if (!value || typeof value !== 'object') return null;
+  const entry = value as Record<string, unknown>;
+
+  if (typeof entry.id !== 'string' || typeof entry.name !== 'string') return null;
+  if (typeof entry.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(entry.color)) return null;
+  if (NUMERIC_FIELDS.some(field => typeof entry[field] !== 'number' || !Number.isFinite(entry[field]))) return null;
+  if ((entry.density as number) <= 0 || (entry.spoolWeight as number) <= 0) return null;
+
+  return {
+    id: entry.id,
+    name: entry.name,
+    density: entry.density as number,
+    costPerKg: entry.costPerKg as number,
+    spoolWeight: entry.spoolWeight as number,
+    minWallThickness: entry.minWallThickness as number,
+    maxOverhang: entry.maxOverhang as number,
+    heatDeflectionTemp: entry.heatDeflectionTemp as number,
+    color: entry.color,
+  };
+}
+
+export function getDefaultMaterialLibrary(): MaterialType[] {
+  return MATERIALS.map(material => ({ ...material }));
+}
+
+/**
+ * Load the user's material library, falling back to the built-in one
+ */
+export function loadMaterialLibrary(): MaterialType[] {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (!stored) return getDefaultMaterialLibrary();
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return getDefaultMaterialLibrary();
+
+    const materials = parsed.map(parseMaterial).filter((material): material is MaterialType => material !== null);
+    return materials.length > 0 ? materials : getDefaultMaterialLibrary();
+  } catch (error) {
+    console.warn('Failed to load material library:', error);
+    return getDefaultMaterialLibrary();
+  }
+}
+
+export function saveMaterialLibrary(materials: MaterialType[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(materials));
+  } catch (error) {
+    console.warn('Failed to save material library:', error);
+  }
+}
+
+/**
+ * New library entry, copied from an existing material when given
+ */
+export function createMaterial(base: MaterialType = MATERIALS[0], name: string = `${base.name} (custom)`): MaterialType {
+  return {
+    ...base,
+    id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`,
+    name,
+  };
+}
@@ -0,0 +1,171 @@
+import { DirectivityMap, FrequencyPoint, MeasurementData } from '../acoustic/types';
+import { readDelimitedRows } from './delimitedText';
+
+const IMPEDANCE_HEADER = /imped|ohm|\bz\b|\|z\|/i;
+
+/**
+ * Measurement from an FRD, ZMA, REW text or CSV file. Every format is
+ * columns of frequency, magnitude and optional phase (degrees) with
+ * comment or header lines mixed in, in either decimal notation; ZMA files
+ * and CSVs whose second column is headed as impedance are impedance,
+ * everything else SPL.
+ */
+export function parseMeasurementFile(text: string, name: string): MeasurementData {
+  let kind: MeasurementData['kind'] = /\.zma$/i.test(name) ? 'impedance' : 'response';
+  let hasPhase = false;
+  const points: FrequencyPoint[] = [];
+
+  for (const { cells, values: columns } of readDelimitedRows(text)) {
+    if (columns.length < 2 || columns.slice(0, 2).some(value => !Number.isFinite(value))) {
+      // A CSV header naming impedance as the second column
+      if (points.length === 0 && /\.csv$/i.test(name) && IMPEDANCE_HEADER.test(cells[1] ?? '')) {
+        kind = 'impedance';
+      }
+      continue;
+    }
+
+    const [frequency, magnitude, phase] = columns;
+    if (!(frequency > 0)) continue;
+    const hasPhaseColumn = Number.isFinite(phase);
+    hasPhase = hasPhase || hasPhaseColumn;
+
+    if (kind === 'impedance') {
+      const radians = (hasPhaseColumn ? phase : 0) * Math.PI / 180;
+      points.push({
+        frequency,
+        spl: 0,
+        phase: hasPhaseColumn ? phase : undefined,
+        impedance: { real: magnitude * Math.cos(radians), imaginary: magnitude * Math.sin(radians) },
+      });
+    } else {
+      points.push({ frequency, spl: magnitude, phase: hasPhaseColumn ? phase : undefined });
+    }
+  }
+
+  if (points.length < 2) {
+    throw new Error('No frequency data found in file');
+  }
+
+  points.sort((a, b) => a.frequency - b.frequency);
+  return { name, kind, points, hasPhase };
+}
+
+// Angle at the end of a file name: "hor 30", "H_-15deg", "polar_m45", "ver 350°".
+// A dash is the minus sign ("hor-15" is -15) unless another sign follows it.
+const FILE_ANGLE = /(?:^|[\s_]|-(?=[-+mp]\d)|(?=-))([-+mp]?)(\d+(?:\.\d+)?)\s*(?:deg|°)?$/i;
+const POLAR_STEPS_PER_OCTAVE = 12;
+
+/**
+ * Angle (degrees, above -180 up to 180) a measurement file name is tagged
+ * with; -180 is read as 180, the same direction
+ */
+function parseFileAngle(name: string): number | null {
+  const match = name.replace(/\.[^.]*$/, '').trim().match(FILE_ANGLE);
+  if (!match) return null;
+  const angle = Number(match[2]) * (match[1] === '-' || match[1].toLowerCase() === 'm' ? -1 : 1);
+  return angle > 180 ? angle - 360 : angle <= -180 ? angle + 360 : angle;
+}
+
+/**
+ * SPL at a frequency, linear in log frequency between samples
+ */
+function interpolateSPL(points: FrequencyPoint[], frequency: number): number {
+  let i = 1;
+  while (i < points.length - 1 && points[i].frequency < frequency) i++;
+  const a = points[i - 1];
+  const b = points[i];
+  const t = Math.log(frequency / a.frequency) / Math.log(b.frequency / a.frequency);
+  return a.spl + (b.spl - a.spl) * Math.min(1, Math.max(0, t));
+}
+
+/**
+ * Polar set in one plane as a map normalized to on-axis: either one
+ * response file per angle, tagged by name, or a single CSV with frequency
+ * in the first column and one SPL column per angle, headed by the angle.
+ * Responses are resampled at 1/12 octave over the range all angles cover.
+ */
+export function parsePolarMeasurement(files: Array<{ name: string; text: string }>): DirectivityMap {
+  const polars = files.length === 1 && /\.csv$/i.test(files[0].name)
+    ? parsePolarCSV(files[0].text)
+    : files.map(file => {
+      const angle = parseFileAngle(file.name);
+      if (angle === null) {
+        throw new Error(`No angle in file name ${file.name}`);
+      }
+      const measurement = parseMeasurementFile(file.text, file.name);
+      if (measurement.kind !== 'response') {
+        throw new Error(`${file.name} is not a response measurement`);
+      }
+      return { angle, source: file.name, points: measurement.points };
+    });
+
+  polars.sort((a, b) => a.angle - b.angle);
+  polars.forEach((polar, i) => {
+    const previous = polars[i - 1];
+    if (previous && previous.angle === polar.angle) {
+      throw new Error(`${previous.source} and ${polar.source} are both at ${polar.angle}°; keep one measurement per angle`);
+    }
+  });
+  const onAxis = polars.find(polar => polar.angle === 0);
+  if (!onAxis) {
+    throw new Error('No on-axis (0°) measurement found');
+  }
+  if (polars.length < 2) {
+    throw new Error('A polar set needs more than the on-axis measurement');
+  }
+
+  const minFrequency = Math.max(20, ...polars.map(polar => polar.points[0].frequency));
+  const maxFrequency = Math.min(20000, ...polars.map(polar => polar.points[polar.points.length - 1].frequency));
+  const steps = Math.floor(Math.log2(maxFrequency / minFrequency) * POLAR_STEPS_PER_OCTAVE);
+  if (!(steps >= 1)) {
+    throw new Error('Polar measurements share no frequency range');
+  }
+  const frequencies = Array.from({ length: steps + 1 }, (_, i) =>
+    minFrequency * Math.pow(2, i / POLAR_STEPS_PER_OCTAVE)
+  );
+
+  return {
+    frequencies,
+    angles: polars.map(polar => polar.angle),
+    levels: frequencies.map(frequency => {
+      const reference = interpolateSPL(onAxis.points, frequency);
+      return polars.map(polar => interpolateSPL(polar.points, frequency) - reference);
+    }),
+  };
+}
+
+/**
+ * Polars from a CSV whose header row names the angle of each SPL column
+ */
+function parsePolarCSV(text: string): Array<{ angle: number; source: string; points: FrequencyPoint[] }> {
+  let angles: number[] | null = null;
+  const polars: Array<{ angle: number; source: string; points: FrequencyPoint[] }> = [];
+
+  for (const { cells } of readDelimitedRows(text)) {
+    if (cells.length < 3) continue;
+
+    if (!angles) {
+      if (Number.isFinite(Number(cells[0]))) continue;
+      const headed = cells.slice(1).map(cell => parseFileAngle(cell.replace(/^["']|["']$/g, '')));
+      if (headed.every((angle): angle is number => angle !== null)) {
+        angles = headed;
+        angles.forEach((angle, i) => polars.push({ angle, source: `column "${cells[i + 1]}"`, points: [] }));
+      }
+      continue;
+    }
+
+    const values = cells.map(Number);
+    if (!(values[0] > 0)) continue;
+    polars.forEach((polar, i) => {
+      if (Number.isFinite(values[i + 1])) {
+        polar.points.push({ frequency: values[0], spl: values[i + 1] });
+      }
+    });
+  }
+
+  if (!angles || polars.some(polar => polar.points.length < 2)) {
+    throw new Error('No angle columns found in file');
+  }
+  polars.forEach(polar => polar.points.sort((a, b) => a.frequency - b.frequency));
+  return polars;
+}
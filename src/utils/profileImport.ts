@@ -0,0 +1,274 @@
+import { HornProfileParams } from '../types';
+import { ProfilePoint, ProfileType, sanitizeProfilePoints } from '../profiles';
+import { readDelimitedRows } from './delimitedText';
+
+const MAX_CONTOUR_POINTS = 200;   // kept in the design; denser contours are resampled
+const NARROWING_TOLERANCE = 0.1;  // mm the radius may dip, for rounding in exported contours
+
+// DXF $INSUNITS codes to millimetres
+const DXF_UNITS: Record<number, { scale: number; name: string }> = {
+  1: { scale: 25.4, name: 'inches' },
+  2: { scale: 304.8, name: 'feet' },
+  4: { scale: 1, name: 'millimetres' },
+  5: { scale: 10, name: 'centimetres' },
+  6: { scale: 1000, name: 'metres' }
+};
+
+const DIAMETER_HEADER = /diam|^\s*d\s*(\(|$)/i;
+
+interface ParsedContour {
+  points: ProfilePoint[];
+  notes: string[];
+}
+
+/**
+ * (x, r) pairs from a CSV or whitespace-separated text file in mm, with
+ * decimal points or decimal commas. Header and comment lines are skipped;
+ * a second column headed as diameter is halved.
+ */
+function parseCsvContour(text: string): ParsedContour {
+  const notes: string[] = [];
+  const points: ProfilePoint[] = [];
+  let diameter = false;
+
+  for (const { cells, values: columns } of readDelimitedRows(text)) {
+    if (columns.length < 2 || columns.slice(0, 2).some(value => !Number.isFinite(value))) {
+      if (points.length === 0 && DIAMETER_HEADER.test(cells[1] ?? '')) diameter = true;
+      continue;
+    }
+    points.push({ x: columns[0], radius: diameter ? columns[1] / 2 : columns[1] });
+  }
+
+  if (diameter) notes.push('Second column read as diameter');
+  return { points, notes };
+}
+
+/**
+ * Point on a (rational) B-spline by de Boor's algorithm
+ */
+function evaluateBSpline(
+  degree: number,
+  knots: number[],
+  control: ProfilePoint[],
+  weights: number[],
+  u: number
+): ProfilePoint {
+  const n = control.length;
+  let k = degree;
+  while (k < n - 1 && u >= knots[k + 1]) k++;
+
+  const d = Array.from({ length: degree + 1 }, (_, j) => {
+    const point = control[k - degree + j];
+    const w = weights[k - degree + j] ?? 1;
+    return { x: point.x * w, y: point.radius * w, w };
+  });
+
+  for (let r = 1; r <= degree; r++) {
+    for (let j = degree; j >= r; j--) {
+      const i = k - degree + j;
+      const span = knots[i + degree + 1 - r] - knots[i];
+      const alpha = span > 0 ? (u - knots[i]) / span : 0;
+      d[j] = {
+        x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+        y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+        w: (1 - alpha) * d[j - 1].w + alpha * d[j].w
+      };
+    }
+  }
+
+  return { x: d[degree].x / d[degree].w, radius: d[degree].y / d[degree].w };
+}
+
+/**
+ * Points along a DXF SPLINE: the exact curve from its control points and
+ * knots, or its fit points when those don't describe one
+ */
+function sampleSpline(codes: Array<[number, string]>, samples: number = MAX_CONTOUR_POINTS - 1): ProfilePoint[] {
+  const degree = Number(codes.find(([code]) => code === 71)?.[1] ?? 3);
+  const knots = codes.filter(([code]) => code === 40).map(([, value]) => Number(value));
+  const weights = codes.filter(([code]) => code === 41).map(([, value]) => Number(value));
+  const control = collectVertices(codes, 10, 20);
+  const fit = collectVertices(codes, 11, 21);
+
+  if (control.length > degree && knots.length === control.length + degree + 1) {
+    const start = knots[degree];
+    const end = knots[control.length];
+    return Array.from({ length: samples + 1 }, (_, i) =>
+      evaluateBSpline(degree, knots, control, weights, start + (i / samples) * (end - start))
+    );
+  }
+  return fit.length >= 2 ? fit : control;
+}
+
+/**
+ * Vertices from paired x / y group codes, in file order
+ */
+function collectVertices(codes: Array<[number, string]>, xCode: number, yCode: number): ProfilePoint[] {
+  const points: ProfilePoint[] = [];
+  let x: number | null = null;
+  for (const [code, value] of codes) {
+    if (code === xCode) {
+      x = Number(value);
+    } else if (code === yCode && x !== null) {
+      points.push({ x, radius: Number(value) });
+      x = null;
+    }
+  }
+  return points;
+}
+
+/**
+ * Contour from an ASCII DXF: the LWPOLYLINE, POLYLINE or SPLINE spanning
+ * the most length along X, or the LINE entities taken together. X runs
+ * along the horn axis and Y is the radius; curves that never change
+ * radius, such as a centre line, are passed over.
+ */
+function parseDxfContour(text: string): ParsedContour {
+  const notes: string[] = [];
+  const lines = text.split(/\r?\n/);
+  const pairs: Array<[number, string]> = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([Number(lines[i].trim()), lines[i + 1].trim()]);
+  }
+
+  // Entities as their group codes, each starting at a code 0
+  const entities: Array<{ type: string; codes: Array<[number, string]> }> = [];
+  let section = '';
+  let units = 0;
+  pairs.forEach(([code, value], i) => {
+    if (code === 0 && value === 'SECTION') {
+      section = pairs[i + 1]?.[1] ?? '';
+    } else if (code === 9 && value === '$INSUNITS') {
+      units = Number(pairs[i + 1]?.[1] ?? 0);
+    } else if (section === 'ENTITIES' && code === 0) {
+      entities.push({ type: value, codes: [] });
+    } else if (section === 'ENTITIES' && entities.length > 0) {
+      entities[entities.length - 1].codes.push([code, value]);
+    }
+  });
+
+  const candidates: ProfilePoint[][] = [];
+  const lineEnds: ProfilePoint[] = [];
+  let polyline: ProfilePoint[] | null = null;
+
+  for (const { type, codes } of entities) {
+    if (type === 'LWPOLYLINE') {
+      candidates.push(collectVertices(codes, 10, 20));
+    } else if (type === 'POLYLINE') {
+      polyline = [];
+      candidates.push(polyline);
+    } else if (type === 'VERTEX' && polyline) {
+      polyline.push(...collectVertices(codes, 10, 20));
+    } else if (type === 'SEQEND') {
+      polyline = null;
+    } else if (type === 'SPLINE') {
+      candidates.push(sampleSpline(codes));
+    } else if (type === 'LINE') {
+      lineEnds.push(...collectVertices(codes, 10, 20), ...collectVertices(codes, 11, 21));
+    }
+  }
+  if (lineEnds.length > 0) {
+    candidates.push([...lineEnds].sort((a, b) => a.x - b.x));
+  }
+
+  const span = (values: number[]) => values.length < 2 ? 0 : Math.max(...values) - Math.min(...values);
+  const xSpan = (points: ProfilePoint[]) => span(points.map(point => point.x));
+  const flaring = candidates.filter(points => span(points.map(point => Math.abs(point.radius))) > 0);
+  const contour = flaring.reduce<ProfilePoint[]>((best, points) =>
+    xSpan(points) > xSpan(best) || (xSpan(points) === xSpan(best) && points.length > best.length) ? points : best, []);
+
+  if (flaring.length > 1) {
+    notes.push(`${flaring.length} curves found; using the longest along X`);
+  }
+
+  const unit = DXF_UNITS[units];
+  if (!unit) notes.push('Drawing has no length unit; read as millimetres');
+  const scale = unit?.scale ?? 1;
+  if (unit && unit.scale !== 1) notes.push(`Drawing units are ${unit.name}; converted to millimetres`);
+
+  return { points: contour.map(point => ({ x: point.x * scale, radius: point.radius * scale })), notes };
+}
+
+/**
+ * Contour running throat to mouth from x = 0, checked to keep widening
+ */
+function normalizeContour(points: ProfilePoint[], notes: string[]): ProfilePoint[] {
+  let contour = points.map(point => ({ x: point.x, radius: Math.abs(point.radius) }));
+
+  // Drawn mouth first, or towards -X
+  if (contour.length >= 2 && contour[contour.length - 1].x < contour[0].x) {
+    contour = contour.reverse();
+  }
+  if (contour.length >= 2 && contour[contour.length - 1].radius < contour[0].radius) {
+    const end = contour[contour.length - 1].x;
+    contour = contour.map(point => ({ x: end - point.x, radius: point.radius })).reverse();
+    notes.push('Contour runs from the mouth; flipped to start at the throat');
+  }
+
+  contour = sanitizeProfilePoints(contour);
+  if (contour.length < 2) {
+    throw new Error('Fewer than two usable contour points found');
+  }
+
+  const throat = contour[0];
+  const mouth = contour[contour.length - 1];
+  if (mouth.radius <= throat.radius) {
+    throw new Error('Contour does not widen from throat to mouth');
+  }
+
+  let widest = throat.radius;
+  for (const point of contour) {
+    if (point.radius < widest - NARROWING_TOLERANCE) {
+      throw new Error(`Contour narrows at x = ${(point.x - throat.x).toFixed(1)} mm; only profiles that keep widening can be imported`);
+    }
+    widest = Math.max(widest, point.radius);
+  }
+
+  contour = contour.map(point => ({ x: point.x - throat.x, radius: point.radius }));
+  if (contour.length > MAX_CONTOUR_POINTS) {
+    notes.push(`${contour.length} points resampled to ${MAX_CONTOUR_POINTS}`);
+    const length = contour[contour.length - 1].x;
+    let j = 1;
+    contour = Array.from({ length: MAX_CONTOUR_POINTS }, (_, i) => {
+      const x = (i / (MAX_CONTOUR_POINTS - 1)) * length;
+      while (j < contour.length - 1 && contour[j].x < x) j++;
+      const a = contour[j - 1];
+      const b = contour[j];
+      return { x, radius: a.radius + ((x - a.x) / (b.x - a.x)) * (b.radius - a.radius) };
+    });
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return contour.map(point => ({ x: round(point.x), radius: round(point.radius) }));
+}
+
+/**
+ * Horn following a contour from another tool: an (x, r) CSV or a DXF
+ * polyline or spline. The throat, mouth width and length are taken from
+ * the contour and the flare switches to the imported profile; notes list
+ * what was assumed or converted along the way.
+ */
+export function importProfileFile(
+  text: string,
+  name: string,
+  hornParams: HornProfileParams
+): { hornParams: HornProfileParams; notes: string[] } {
+  const isDxf = /\.dxf$/i.test(name) || /^\s*0\s*\r?\n\s*SECTION/.test(text);
+  const { points, notes } = isDxf ? parseDxfContour(text) : parseCsvContour(text);
+  const contour = normalizeContour(points, notes);
+  const throat = contour[0];
+  const mouth = contour[contour.length - 1];
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    hornParams: {
+      ...hornParams,
+      throatDiameter: round(throat.radius * 2),
+      mouthWidth: round(mouth.radius * 2),
+      length: round(mouth.x),
+      flareType: ProfileType.IMPORTED,
+      importedProfile: { name, points: contour },
+    },
+    notes,
+  };
+}
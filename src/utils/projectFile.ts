@@ -0,0 +1,168 @@
+import { saveAs } from 'file-saver';
+import { AppState, MaterialType, ProjectFile, ProjectInfo } from '../types';
+import { ProfileType } from '../profiles/types';
+import { getProfileDisplayName } from '../profiles';
+import { MATERIALS } from '../constants';
+import { applyDesignChanges } from './designLink';
+import { parseMaterial } from './materialLibrary';
+import { createFileTimestamp } from './stlExporter';
+
+/**
+ * Schema version written to new project files. Version 0 is a bare
+ * `AppState` saved before project files existed, whose flare types may be
+ * legacy strings ("exponential", "le-cleach", "EXPONENTIAL") and whose
+ * material is the old `{ name, density, costPerGram }` shape.
+ */
+export const PROJECT_VERSION = 1;
+
+const PROJECT_FORMAT = 'horn-designer-project';
+
+type Project = Record<string, unknown>;
+
+/**
+ * Upgrades from version n to n + 1; each records what it changed in notes
+ */
+const MIGRATIONS: Record<number, (project: Project, notes: string[]) => Project> = {
+  0: (project, notes) => {
+    const design = (isObject(project.design) ? project.design : project) as Project;
+    const hornParams = isObject(design.hornParams) ? { ...design.hornParams } : undefined;
+    if (hornParams) {
+      for (const key of ['flareType', 'heightFlareType'] as const) {
+        if (hornParams[key] === undefined) continue;
+        const profile = parseProfileType(hornParams[key]);
+        if (profile !== hornParams[key]) {
+          notes.push(`${key} "${String(hornParams[key])}" converted to ${getProfileDisplayName(profile)}`);
+        }
+        hornParams[key] = profile;
+      }
+    }
+    const selectedMaterial = migrateLegacyMaterial(design.selectedMaterial, notes);
+    return {
+      ...(isObject(project.design) ? project : {}),
+      format: PROJECT_FORMAT,
+      design: { ...design, ...(hornParams && { hornParams }), selectedMaterial },
+    };
+  },
+};
+
+const isObject = (value: unknown): value is Project =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Profile type from a legacy flare string: an enum value or name in any
+ * case, with or without separators. Unknown flares fall back to exponential.
+ */
+function parseProfileType(value: unknown): ProfileType {
+  const normalized = String(value).replace(/[\s_-]/g, '').toLowerCase();
+  const match = (Object.keys(ProfileType) as Array<keyof typeof ProfileType>).find(name =>
+    ProfileType[name].toLowerCase() === normalized || name.replace(/_/g, '').toLowerCase() === normalized
+  );
+  return match ? ProfileType[match] : ProfileType.EXPONENTIAL;
+}
+
+/**
+ * Material from the pre-library `{ name, density, costPerGram }` shape. A
+ * built-in material of the same name is used at the density and price the
+ * design was costed with; any other becomes a new entry with the first
+ * built-in material's print limits and color.
+ */
+function migrateLegacyMaterial(value: unknown, notes: string[]): unknown {
+  if (!isObject(value) || typeof value.name !== 'string' || value.id !== undefined) return value;
+
+  const name = value.name.trim();
+  const known = MATERIALS.find(material => material.name.toLowerCase() === name.toLowerCase());
+  const base: MaterialType = known ?? {
+    ...MATERIALS[0],
+    id: `custom-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'material'}`,
+    name,
+  };
+  const density = typeof value.density === 'number' && value.density > 0 ? value.density : base.density;
+  const costPerKg = typeof value.costPerGram === 'number' && Number.isFinite(value.costPerGram)
+    ? Math.round(value.costPerGram * 100000) / 100
+    : base.costPerKg;
+
+  notes.push(known
+    ? `Material ${name} matched to the built-in ${known.name} at $${costPerKg}/kg`
+    : `Material ${name} added with ${MATERIALS[0].name}'s print limits and color`);
+  return { ...base, density, costPerKg };
+}
+
+export function createProjectInfo(name: string = 'Untitled horn'): ProjectInfo {
+  const now = new Date().toISOString();
+  return { name, notes: '', createdAt: now, modifiedAt: now };
+}
+
+export function createProjectFile(state: AppState, info: ProjectInfo): ProjectFile {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    ...info,
+    modifiedAt: new Date().toISOString(),
+    design: state,
+  };
+}
+
+/**
+ * Save the design as a .horn.json file; returns the info as saved
+ */
+export function exportProjectFile(state: AppState, info: ProjectInfo): ProjectInfo {
+  const project = createProjectFile(state, info);
+  const slug = info.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'horn_design';
+  saveAs(
+    new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' }),
+    `${slug}_${createFileTimestamp()}.horn.json`
+  );
+  const { name, notes, createdAt, modifiedAt } = project;
+  return { name, notes, createdAt, modifiedAt };
+}
+
+/**
+ * Design and project info from a .horn.json file, migrated to the current
+ * schema. Notes list what the migration changed.
+ */
+export function importProjectFile(
+  json: string,
+  materials: MaterialType[]
+): { state: AppState; info: ProjectInfo; notes: string[] } {
+  let project: unknown;
+  try {
+    project = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isObject(project) || (project.format !== PROJECT_FORMAT && !isObject(project.hornParams))) {
+    throw new Error('Not a horn project file');
+  }
+
+  const notes: string[] = [];
+  const version = project.format === PROJECT_FORMAT && typeof project.version === 'number' ? project.version : 0;
+  if (version > PROJECT_VERSION) {
+    notes.push(`Saved by a newer version (schema ${version}); settings it adds may not apply`);
+  }
+  for (let from = version; from < PROJECT_VERSION; from++) {
+    project = MIGRATIONS[from](project as Project, notes);
+  }
+
+  const { design, name, notes: projectNotes, createdAt, modifiedAt } = project as Project;
+  if (!isObject(design)) {
+    throw new Error('Project file has no design');
+  }
+
+  const { selectedMaterial, ...changes } = design;
+  const material = parseMaterial(selectedMaterial);
+  if (!material) {
+    notes.push(`Material not readable; using ${materials[0].name}`);
+  }
+
+  const fallback = createProjectInfo();
+  return {
+    state: applyDesignChanges(changes, material ?? materials[0]),
+    info: {
+      name: typeof name === 'string' ? name : fallback.name,
+      notes: typeof projectNotes === 'string' ? projectNotes : '',
+      createdAt: typeof createdAt === 'string' ? createdAt : fallback.createdAt,
+      modifiedAt: typeof modifiedAt === 'string' ? modifiedAt : fallback.modifiedAt,
+    },
+    notes,
+  };
+}
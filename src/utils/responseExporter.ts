@@ -0,0 +1,117 @@
+import { saveAs } from 'file-saver';
+import { ExportFormat, FrequencyResponseData } from '../acoustic/types';
+import { createFileTimestamp } from './stlExporter';
+
+// Text formats a simulated response is offered in; MATLAB files aren't written here
+export type ResponseExportFormat = Exclude<ExportFormat, ExportFormat.MATLAB>;
+
+// REW imports measurement text files by their .txt extension
+export const RESPONSE_EXPORT_FORMATS: Record<ResponseExportFormat, { label: string; filename: string; extension: string; type: string; note?: string }> = {
+  [ExportFormat.FRD]: { label: 'FRD (SPL + phase)', filename: 'horn_response', extension: 'frd', type: 'text/plain' },
+  [ExportFormat.ZMA]: {
+    label: 'ZMA (normalized throat impedance)',
+    filename: 'horn_impedance_normalized',
+    extension: 'zma',
+    type: 'text/plain',
+    note: 'Acoustic throat impedance as a multiple of ρc/S, not the driver\'s electrical impedance in ohms',
+  },
+  [ExportFormat.REW]: { label: 'REW text', filename: 'horn_response_rew', extension: 'txt', type: 'text/plain' },
+  [ExportFormat.CSV]: { label: 'CSV (all series)', filename: 'horn_response', extension: 'csv', type: 'text/csv' },
+  [ExportFormat.JSON]: { label: 'JSON (all series)', filename: 'horn_response', extension: 'json', type: 'application/json' },
+};
+
+// ZMA readers take the magnitude column as ohms, so the header says it isn't
+const IMPEDANCE_NOTE = [
+  'NORMALIZED throat acoustic impedance Z/(rho*c/S), dimensionless - not electrical ohms',
+  'Scale by rho*c/S and through the driver parameters before using as a driver impedance',
+];
+
+/**
+ * Magnitude (normalized) and phase (degrees) of a point's throat impedance
+ */
+function impedancePolar(impedance: { real: number; imaginary: number } | undefined): [number, number] {
+  if (!impedance) return [0, 0];
+  return [
+    Math.hypot(impedance.real, impedance.imaginary),
+    Math.atan2(impedance.imaginary, impedance.real) * 180 / Math.PI,
+  ];
+}
+
+/**
+ * Simulated response in one of the export formats. FRD, ZMA and REW files
+ * are plain columns after `*` comment lines, which crossover tools such as
+ * VituixCAD and REW skip; `description` goes in that header.
+ */
+export function createResponseFile(
+  data: FrequencyResponseData,
+  format: ResponseExportFormat,
+  description: string = 'Horn Designer simulation'
+): string {
+  const { response } = data;
+  const number = (value: number, digits: number) => value.toFixed(digits);
+
+  switch (format) {
+    case ExportFormat.FRD:
+      return [
+        `* ${description}`,
+        '* Freq(Hz) SPL(dB) Phase(degrees)',
+        ...response.map(point => `${number(point.frequency, 3)} ${number(point.spl, 3)} ${number(point.phase ?? 0, 3)}`),
+      ].join('\r\n') + '\r\n';
+
+    case ExportFormat.ZMA:
+      return [
+        `* ${description}`,
+        ...IMPEDANCE_NOTE.map(line => `* ${line}`),
+        '* Freq(Hz) Magnitude(normalized) Phase(degrees)',
+        ...response.map(point => {
+          const [magnitude, phase] = impedancePolar(point.impedance);
+          return `${number(point.frequency, 3)} ${number(magnitude, 5)} ${number(phase, 3)}`;
+        }),
+      ].join('\r\n') + '\r\n';
+
+    case ExportFormat.REW:
+      return [
+        `* ${description}`,
+        '* Source: Webster horn equation, 1 W into the throat at 1 m',
+        `* Dated: ${new Date().toLocaleString()}`,
+        '* Freq(Hz) SPL(dB) Phase(degrees)',
+        ...response.map(point => `${number(point.frequency, 6)}, ${number(point.spl, 3)}, ${number(point.phase ?? 0, 4)}`),
+      ].join('\n') + '\n';
+
+    case ExportFormat.CSV:
+      return [
+        'Frequency (Hz),SPL (dB),Phase (deg),Z real (rho*c/S),Z imaginary (rho*c/S),|Z| (rho*c/S),Z phase (deg)',
+        ...response.map(point => {
+          const [magnitude, phase] = impedancePolar(point.impedance);
+          return [
+            number(point.frequency, 3),
+            number(point.spl, 3),
+            number(point.phase ?? 0, 3),
+            number(point.impedance?.real ?? 0, 5),
+            number(point.impedance?.imaginary ?? 0, 5),
+            number(magnitude, 5),
+            number(phase, 3),
+          ].join(',');
+        }),
+      ].join('\n') + '\n';
+
+    case ExportFormat.JSON:
+      return JSON.stringify({
+        description,
+        cutoffFrequency: data.cutoffFrequency,
+        efficiency: data.efficiency,
+        throatCharacteristicImpedance: data.impedanceAtThroat?.real, // acoustic ohms; impedance series are normalized to it
+        response,
+      }, null, 2);
+  }
+}
+
+export function exportResponseData(
+  data: FrequencyResponseData,
+  format: ResponseExportFormat,
+  description?: string
+): void {
+  const { filename, extension, type } = RESPONSE_EXPORT_FORMATS[format];
+  const file = createResponseFile(data, format, description);
+  saveAs(new Blob([file], { type }), `${filename}_${createFileTimestamp()}.${extension}`);
+}
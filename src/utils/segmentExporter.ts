@@ -0,0 +1,112 @@
+import { zipSync, strToU8 } from 'three/examples/jsm/libs/fflate.module.js';
+import { saveAs } from 'file-saver';
+import { HornProfileParams, MountPlateParams, DriverMountParams, SegmentationParams } from '../types';
+import {
+  createSegmentedAssembly,
+  disposeSegments,
+  SegmentationResult,
+} from '../components/horn-geometry/HornSegmentation';
+import { AssemblyOptions } from '../components/horn-geometry/AssemblyGeometry';
+import { createGeometrySTL, createFileTimestamp, STLFormat } from './stlExporter';
+
+const KEY_LABELS: Record<SegmentationParams['keyType'], string> = {
+  'none': 'none',
+  'dowel': 'dowel pins',
+  'dovetail': 'dovetail tabs',
+  'tongue-groove': 'tongue and groove',
+};
+
+/**
+ * Build a ZIP with one STL per printable segment plus an assembly note.
+ * Segments keep their assembly coordinates so they line up when re-imported.
+ * Throws rather than export pieces that don't fit the bed.
+ */
+export function createSegmentedSTLArchive(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: AssemblyOptions,
+  segmentation: SegmentationParams,
+  format: STLFormat = 'binary'
+): Uint8Array {
+  const result = createSegmentedAssembly(hornParams, plateParams, driverParams, options, segmentation);
+
+  try {
+    const oversized = result.segments.filter(segment => !segment.fitsBed);
+    if (oversized.length > 0) {
+      const manual = segmentation.axialSegments > 0 || segmentation.radialSegments > 0;
+      throw new Error(
+        `${oversized.map(segment => segment.id).join(', ')} exceed the ` +
+        `${segmentation.bedWidth} x ${segmentation.bedDepth} x ${segmentation.bedHeight} mm bed` +
+        (manual ? '; set the slices and split to Auto so the pieces are sized to fit' : '')
+      );
+    }
+
+    const files: Record<string, Uint8Array> = {
+      'README.txt': strToU8(buildAssemblyNotes(result, segmentation)),
+    };
+
+    for (const segment of result.segments) {
+      const data = createGeometrySTL(segment.geometry, format);
+      files[`horn_${segment.id}.stl`] = typeof data === 'string' ? strToU8(data) : new Uint8Array(data);
+    }
+
+    return zipSync(files);
+  } finally {
+    disposeSegments(result);
+  }
+}
+
+/**
+ * Export every segment as its own STL inside a ZIP archive
+ */
+export function exportSegmentedAssembly(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: AssemblyOptions,
+  segmentation: SegmentationParams,
+  filename: string = generateSegmentArchiveFilename()
+): void {
+  try {
+    const data = createSegmentedSTLArchive(hornParams, plateParams, driverParams, options, segmentation);
+    saveAs(new Blob([data as BlobPart], { type: 'application/zip' }), filename);
+
+    console.log(`Segmented export successful: ${filename}`);
+  } catch (error) {
+    console.error('Segmented export failed:', error);
+    throw new Error(`Failed to export segments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export function generateSegmentArchiveFilename(baseName: string = 'horn_segments'): string {
+  return `${baseName}_${createFileTimestamp()}.zip`;
+}
+
+function buildAssemblyNotes(result: SegmentationResult, segmentation: SegmentationParams): string {
+  const lines = [
+    'Horn Designer - segmented print',
+    '',
+    `Bed: ${segmentation.bedWidth} x ${segmentation.bedDepth} x ${segmentation.bedHeight} mm`,
+    `Slices along the axis: ${result.axialSegments}`,
+    `Keys: ${KEY_LABELS[segmentation.keyType]} (${result.keyCount}), clearance ${segmentation.keyClearance} mm`,
+  ];
+
+  if (result.dowels) {
+    lines.push(
+      `Dowels: ${result.dowels.count} x ${result.dowels.diameter.toFixed(1)} mm dia, ${result.dowels.length.toFixed(1)} mm long`
+    );
+  }
+
+  lines.push('', 'Pieces (S = slice from the throat, A, B, ... = pieces around the axis):');
+  for (const segment of result.segments) {
+    const { x, y, z } = segment.size;
+    lines.push(`  ${segment.id}: ${x.toFixed(1)} x ${y.toFixed(1)} x ${z.toFixed(1)} mm`);
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push('', 'Warnings:', ...result.warnings.map(warning => `  - ${warning}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,151 @@
+/**
+ * Global B-spline curve interpolation (Piegl & Tiller, The NURBS Book, A9.1)
+ * Used to turn sampled horn stations into smooth surface control nets.
+ */
+
+import { KnotVector } from './StepWriter';
+
+export interface InterpolationBasis {
+  degree: number;
+  knots: number[];          // full knot vector with repeated end knots
+  parameters: number[];     // parameter of each interpolated point
+  matrix: number[][];       // basis matrix N[k][i] = N_i,p(u_k)
+}
+
+/**
+ * Build the interpolation basis for n + 1 points at the given parameters.
+ * Knots are placed by averaging so the system is always well conditioned.
+ */
+export function createInterpolationBasis(parameters: number[], degree: number = 3): InterpolationBasis {
+  const n = parameters.length - 1;
+  const p = Math.min(degree, n);
+
+  if (n < 1) {
+    throw new Error('At least two points are required for interpolation');
+  }
+
+  const knots: number[] = [];
+  for (let i = 0; i <= p; i++) knots.push(0);
+  for (let j = 1; j <= n - p; j++) {
+    let sum = 0;
+    for (let i = j; i <= j + p - 1; i++) sum += parameters[i];
+    knots.push(sum / p);
+  }
+  for (let i = 0; i <= p; i++) knots.push(1);
+
+  const matrix = parameters.map(u => {
+    const row = new Array(n + 1).fill(0);
+    const span = findSpan(n, p, u, knots);
+    const basis = basisFunctions(span, u, p, knots);
+    for (let i = 0; i <= p; i++) {
+      row[span - p + i] = basis[i];
+    }
+    return row;
+  });
+
+  return { degree: p, knots, parameters, matrix };
+}
+
+/**
+ * Solve for control values so the curve passes through every sample
+ */
+export function interpolateValues(basis: InterpolationBasis, values: number[]): number[] {
+  return solveLinearSystem(basis.matrix, values);
+}
+
+/**
+ * Convert a full knot vector to the distinct-value/multiplicity form STEP uses
+ */
+export function toKnotVector(knots: number[]): KnotVector {
+  const values: number[] = [];
+  const multiplicities: number[] = [];
+
+  for (const knot of knots) {
+    const last = values.length - 1;
+    if (last >= 0 && Math.abs(values[last] - knot) < 1e-12) {
+      multiplicities[last]++;
+    } else {
+      values.push(knot);
+      multiplicities.push(1);
+    }
+  }
+
+  return { values, multiplicities };
+}
+
+function findSpan(n: number, p: number, u: number, knots: number[]): number {
+  if (u >= knots[n + 1]) return n;
+
+  let low = p;
+  let high = n + 1;
+  let mid = Math.floor((low + high) / 2);
+
+  while (u < knots[mid] || u >= knots[mid + 1]) {
+    if (u < knots[mid]) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+    mid = Math.floor((low + high) / 2);
+  }
+
+  return mid;
+}
+
+function basisFunctions(span: number, u: number, p: number, knots: number[]): number[] {
+  const basis = [1];
+  const left: number[] = [];
+  const right: number[] = [];
+
+  for (let j = 1; j <= p; j++) {
+    left[j] = u - knots[span + 1 - j];
+    right[j] = knots[span + j] - u;
+    let saved = 0;
+
+    for (let r = 0; r < j; r++) {
+      const temp = basis[r] / (right[r + 1] + left[j - r]);
+      basis[r] = saved + right[r + 1] * temp;
+      saved = left[j - r] * temp;
+    }
+
+    basis[j] = saved;
+  }
+
+  return basis;
+}
+
+function solveLinearSystem(matrix: number[][], values: number[]): number[] {
+  const size = values.length;
+  const a = matrix.map(row => [...row]);
+  const b = [...values];
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+
+    if (Math.abs(a[pivot][col]) < 1e-14) {
+      throw new Error('Interpolation matrix is singular');
+    }
+
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < size; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const result = new Array(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < size; k++) sum -= a[row][k] * result[k];
+    result[row] = sum / a[row][row];
+  }
+
+  return result;
+}
@@ -0,0 +1,404 @@
+/**
+ * Boundary-representation builders for the STEP exporter
+ * - Lofted horn walls from cross-section stations (B-spline faces)
+ * - Extruded plates and flanges from 2D outlines (planar/cylindrical faces)
+ */
+
+import { StepWriter, Vec3, OrientedEdgeRef, KnotVector } from './StepWriter';
+import { createInterpolationBasis, interpolateValues, toKnotVector } from './BSplineInterpolation';
+
+export type SectionShape =
+  | { kind: 'circle'; radius: number }
+  | { kind: 'rectangle'; halfWidth: number; halfHeight: number }
+  | { kind: 'outline'; points: Point2D[] }; // counter-clockwise from +x, a multiple of four points
+
+/**
+ * One cross-section of the horn wall at axial position z (mm). The outer
+ * section sits at outerZ when given, e.g. around a rolled-back mouth lip.
+ */
+export interface WallStation {
+  z: number;
+  outerZ?: number;
+  inner: SectionShape;
+  outer: SectionShape;
+}
+
+export type Point2D = [number, number];
+
+export type Segment2D =
+  | { kind: 'line'; start: Point2D; end: Point2D }
+  | { kind: 'arc'; center: Point2D; radius: number; startAngle: number; endAngle: number; clockwise: boolean };
+
+export type Loop2D = Segment2D[];
+
+export interface Outline2D {
+  outer: Loop2D;   // counter-clockwise
+  holes: Loop2D[]; // clockwise
+}
+
+const PATCH_COUNT = 4;
+const QUARTER_WEIGHT = Math.SQRT1_2;
+const PLANAR_TOLERANCE = 1e-6; // mm
+
+interface PatchSection {
+  points: Vec3[];
+  weights?: number[];
+  spline?: { degree: number; knots: KnotVector }; // Bezier across the patch when absent
+}
+
+interface WallShell {
+  faces: number[];
+  throatEdges: number[];
+  mouthEdges: number[];
+  mouthVertices: number[];
+  mouthSections: PatchSection[];
+}
+
+/**
+ * Loft the horn wall between inner and outer cross-sections into a closed solid.
+ * Each wall is split into four patches so both circles (rational quadratic)
+ * and rectangles (linear) are represented exactly across the section; other
+ * outlines are interpolated per quadrant.
+ */
+export function buildLoftedWallSolid(writer: StepWriter, name: string, stations: WallStation[]): number {
+  if (stations.length < 2) {
+    throw new Error('At least two stations are required to loft the horn wall');
+  }
+
+  const outerZ = (station: WallStation) => station.outerZ ?? station.z;
+  const inner = buildWallShell(writer, stations, station => station.inner, station => station.z, true);
+  const outer = buildWallShell(writer, stations, station => station.outer, outerZ, false);
+
+  const throatZ = stations[0].z;
+  const mouth = stations[stations.length - 1];
+
+  const throatCap = writer.face(
+    writer.plane([0, 0, throatZ], [0, 0, -1], [1, 0, 0]),
+    reverseLoop(outer.throatEdges.map(edge => ({ edge, forward: true }))),
+    [inner.throatEdges.map(edge => ({ edge, forward: true }))],
+    true
+  );
+
+  const mouthCaps = Math.abs(outerZ(mouth) - mouth.z) < PLANAR_TOLERANCE
+    ? [
+      writer.face(
+        writer.plane([0, 0, mouth.z], [0, 0, 1], [1, 0, 0]),
+        outer.mouthEdges.map(edge => ({ edge, forward: true })),
+        [reverseLoop(inner.mouthEdges.map(edge => ({ edge, forward: true })))],
+        true
+      ),
+    ]
+    : buildRuledMouthCaps(writer, outer, inner);
+
+  return writer.solid(name, [...inner.faces, ...outer.faces, throatCap, ...mouthCaps]);
+}
+
+/**
+ * Ruled faces from the outer to the inner mouth edges, for walls whose two
+ * sides end at different z (the end of a rolled-back lip)
+ */
+function buildRuledMouthCaps(writer: StepWriter, outer: WallShell, inner: WallShell): number[] {
+  const radialEdges = outer.mouthVertices.map((vertex, patch) => {
+    const from = outer.mouthSections[patch].points[0];
+    const to = inner.mouthSections[patch].points[0];
+    return writer.edge(vertex, inner.mouthVertices[patch], writer.line(from, to), true);
+  });
+
+  return outer.mouthSections.map((section, patch) => {
+    const innerSection = inner.mouthSections[patch];
+    const vDegree = section.spline ? section.spline.degree : section.points.length - 1;
+    const vKnots = section.spline
+      ? section.spline.knots
+      : { values: [0, 1], multiplicities: [vDegree + 1, vDegree + 1] };
+    const surface = writer.bSplineSurface(
+      1,
+      vDegree,
+      [section.points, innerSection.points],
+      { values: [0, 1], multiplicities: [2, 2] },
+      vKnots,
+      section.weights ? [[...section.weights], [...section.weights]] : undefined
+    );
+
+    // Same sense as the planar cap: around the outer edge, in along the next
+    // radial edge, back along the inner edge
+    const loop: OrientedEdgeRef[] = [
+      { edge: outer.mouthEdges[patch], forward: true },
+      { edge: radialEdges[(patch + 1) % PATCH_COUNT], forward: true },
+      { edge: inner.mouthEdges[patch], forward: false },
+      { edge: radialEdges[patch], forward: false },
+    ];
+
+    // (inner - outer) x tangent points back down the axis
+    return writer.face(surface, loop, [], false);
+  });
+}
+
+function buildWallShell(
+  writer: StepWriter,
+  stations: WallStation[],
+  selectShape: (station: WallStation) => SectionShape,
+  selectZ: (station: WallStation) => number,
+  isInner: boolean
+): WallShell {
+  // sections[stationIndex][patchIndex]
+  const sections = stations.map(station => createPatchSections(selectShape(station), selectZ(station)));
+
+  // Chord-length parameters, since z turns back around a rolled-back lip
+  const chords = [0];
+  for (let i = 1; i < sections.length; i++) {
+    const a = sections[i - 1][0].points[0];
+    const b = sections[i][0].points[0];
+    chords.push(chords[i - 1] + Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]));
+  }
+  const basis = createInterpolationBasis(chords.map(chord => chord / chords[chords.length - 1]));
+  const uKnots = toKnotVector(basis.knots);
+  const interpolateColumn = (patch: number, column: number): Vec3[] => {
+    const samples = sections.map(stationSections => stationSections[patch].points[column]);
+    const xs = interpolateValues(basis, samples.map(point => point[0]));
+    const ys = interpolateValues(basis, samples.map(point => point[1]));
+    const zs = interpolateValues(basis, samples.map(point => point[2]));
+    return xs.map((x, i) => [x, ys[i], zs[i]] as Vec3);
+  };
+
+  const first = sections[0];
+  const last = sections[sections.length - 1];
+  const throatVertices = first.map(section => writer.vertex(section.points[0]));
+  const mouthVertices = last.map(section => writer.vertex(section.points[0]));
+
+  const longitudinalEdges = first.map((_, patch) => {
+    const controlPoints = interpolateColumn(patch, 0);
+    const curve = writer.bSplineCurve(basis.degree, controlPoints, uKnots);
+    return writer.edge(throatVertices[patch], mouthVertices[patch], curve, true);
+  });
+
+  const sectionEdge = (section: PatchSection, shape: SectionShape, z: number, start: number, end: number) => {
+    const from = section.points[0];
+    const to = section.points[section.points.length - 1];
+    const curve = shape.kind === 'circle'
+      ? writer.circle([0, 0, z], [0, 0, 1], [1, 0, 0], shape.radius)
+      : section.spline
+        ? writer.bSplineCurve(section.spline.degree, section.points, section.spline.knots)
+        : writer.line(from, to);
+    return writer.edge(start, end, curve, true);
+  };
+
+  const throatShape = selectShape(stations[0]);
+  const mouthShape = selectShape(stations[stations.length - 1]);
+  const throatEdges = first.map((section, patch) =>
+    sectionEdge(section, throatShape, selectZ(stations[0]), throatVertices[patch], throatVertices[(patch + 1) % PATCH_COUNT])
+  );
+  const mouthEdges = last.map((section, patch) =>
+    sectionEdge(section, mouthShape, selectZ(stations[stations.length - 1]), mouthVertices[patch], mouthVertices[(patch + 1) % PATCH_COUNT])
+  );
+
+  const faces = first.map((section, patch) => {
+    const columns = section.points.map((_, column) => interpolateColumn(patch, column));
+    const grid = columns[0].map((_, u) => columns.map(column => column[u]));
+    const vDegree = section.spline ? section.spline.degree : section.points.length - 1;
+    const vKnots = section.spline
+      ? section.spline.knots
+      : { values: [0, 1], multiplicities: [vDegree + 1, vDegree + 1] };
+    const weights = section.weights
+      ? grid.map(() => [...section.weights!])
+      : undefined;
+    const surface = writer.bSplineSurface(basis.degree, vDegree, grid, uKnots, vKnots, weights);
+
+    // Counter-clockwise in (u, v): throat→mouth, across the mouth, back, across the throat
+    const loop: OrientedEdgeRef[] = [
+      { edge: longitudinalEdges[patch], forward: true },
+      { edge: mouthEdges[patch], forward: true },
+      { edge: longitudinalEdges[(patch + 1) % PATCH_COUNT], forward: false },
+      { edge: throatEdges[patch], forward: false },
+    ];
+
+    // Surface normals point toward the axis; the outer wall faces the other way
+    return isInner
+      ? writer.face(surface, loop, [], true)
+      : writer.face(surface, reverseLoop(loop), [], false);
+  });
+
+  return { faces, throatEdges, mouthEdges, mouthVertices, mouthSections: last };
+}
+
+function createPatchSections(shape: SectionShape, z: number): PatchSection[] {
+  if (shape.kind === 'circle') {
+    const r = shape.radius;
+    return Array.from({ length: PATCH_COUNT }, (_, patch) => {
+      const angle = (patch * Math.PI) / 2;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      return {
+        points: [
+          [r * cos, r * sin, z],
+          [r * (cos - sin), r * (sin + cos), z],
+          [-r * sin, r * cos, z],
+        ],
+        weights: [1, QUARTER_WEIGHT, 1],
+      };
+    });
+  }
+
+  if (shape.kind === 'outline') {
+    return createOutlinePatchSections(shape.points, z);
+  }
+
+  const { halfWidth: w, halfHeight: h } = shape;
+  const corners: Vec3[] = [
+    [-w, -h, z],
+    [w, -h, z],
+    [w, h, z],
+    [-w, h, z],
+  ];
+
+  return corners.map((corner, patch) => ({
+    points: [corner, corners[(patch + 1) % PATCH_COUNT]],
+  }));
+}
+
+/**
+ * One interpolating B-spline per quadrant. The parameters are uniform so every
+ * station shares the same knots and the loft can interpolate control points.
+ */
+function createOutlinePatchSections(points: Point2D[], z: number): PatchSection[] {
+  const perPatch = points.length / PATCH_COUNT;
+  const basis = createInterpolationBasis(Array.from({ length: perPatch + 1 }, (_, i) => i / perPatch));
+  const knots = toKnotVector(basis.knots);
+
+  return Array.from({ length: PATCH_COUNT }, (_, patch) => {
+    const samples = Array.from({ length: perPatch + 1 }, (_, i) => points[(patch * perPatch + i) % points.length]);
+    const xs = interpolateValues(basis, samples.map(point => point[0]));
+    const ys = interpolateValues(basis, samples.map(point => point[1]));
+
+    return {
+      points: xs.map((x, i) => [x, ys[i], z] as Vec3),
+      spline: { degree: basis.degree, knots },
+    };
+  });
+}
+
+/**
+ * Extrude a 2D outline between z0 and z1 into a closed solid
+ */
+export function buildExtrudedSolid(
+  writer: StepWriter,
+  name: string,
+  outline: Outline2D,
+  z0: number,
+  z1: number
+): number {
+  const faces: number[] = [];
+  const bottomLoops: OrientedEdgeRef[][] = [];
+  const topLoops: OrientedEdgeRef[][] = [];
+
+  for (const loop of [outline.outer, ...outline.holes]) {
+    const starts = loop.map(segmentStart);
+    const bottomVertices = starts.map(([x, y]) => writer.vertex([x, y, z0]));
+    const topVertices = starts.map(([x, y]) => writer.vertex([x, y, z1]));
+
+    const verticalEdges = starts.map(([x, y], i) =>
+      writer.edge(bottomVertices[i], topVertices[i], writer.line([x, y, z0], [x, y, z1]), true)
+    );
+
+    const segmentEdge = (segment: Segment2D, i: number, z: number, vertices: number[]) => {
+      const next = (i + 1) % loop.length;
+      if (segment.kind === 'line') {
+        const curve = writer.line([...segment.start, z], [...segment.end, z]);
+        return writer.edge(vertices[i], vertices[next], curve, true);
+      }
+      const curve = writer.circle([...segment.center, z], [0, 0, 1], [1, 0, 0], segment.radius);
+      return writer.edge(vertices[i], vertices[next], curve, !segment.clockwise);
+    };
+
+    const bottomEdges = loop.map((segment, i) => segmentEdge(segment, i, z0, bottomVertices));
+    const topEdges = loop.map((segment, i) => segmentEdge(segment, i, z1, topVertices));
+
+    loop.forEach((segment, i) => {
+      const next = (i + 1) % loop.length;
+      const sideLoop: OrientedEdgeRef[] = [
+        { edge: bottomEdges[i], forward: true },
+        { edge: verticalEdges[next], forward: true },
+        { edge: topEdges[i], forward: false },
+        { edge: verticalEdges[i], forward: false },
+      ];
+
+      if (segment.kind === 'line') {
+        const dx = segment.end[0] - segment.start[0];
+        const dy = segment.end[1] - segment.start[1];
+        // Outward normal lies to the right of the direction of travel
+        const surface = writer.plane([...segment.start, z0], [dy, -dx, 0], [dx, dy, 0]);
+        faces.push(writer.face(surface, sideLoop, [], true));
+      } else {
+        const surface = writer.cylindricalSurface([...segment.center, z0], [0, 0, 1], [1, 0, 0], segment.radius);
+        faces.push(writer.face(surface, sideLoop, [], !segment.clockwise));
+      }
+    });
+
+    bottomLoops.push(reverseLoop(bottomEdges.map(edge => ({ edge, forward: true }))));
+    topLoops.push(topEdges.map(edge => ({ edge, forward: true })));
+  }
+
+  faces.push(
+    writer.face(writer.plane([0, 0, z0], [0, 0, -1], [1, 0, 0]), bottomLoops[0], bottomLoops.slice(1), true),
+    writer.face(writer.plane([0, 0, z1], [0, 0, 1], [1, 0, 0]), topLoops[0], topLoops.slice(1), true)
+  );
+
+  return writer.solid(name, faces);
+}
+
+/**
+ * Full circle as two half arcs (closed single-edge loops are poorly supported)
+ */
+export function circleLoop(center: Point2D, radius: number, clockwise: boolean): Loop2D {
+  const direction = clockwise ? -1 : 1;
+  return [0, 1].map(half => ({
+    kind: 'arc' as const,
+    center,
+    radius,
+    startAngle: direction * half * Math.PI,
+    endAngle: direction * (half + 1) * Math.PI,
+    clockwise,
+  }));
+}
+
+export function rectangleLoop(halfWidth: number, halfHeight: number, clockwise: boolean): Loop2D {
+  const corners: Point2D[] = [
+    [-halfWidth, -halfHeight],
+    [halfWidth, -halfHeight],
+    [halfWidth, halfHeight],
+    [-halfWidth, halfHeight],
+  ];
+  const ordered = clockwise ? [...corners].reverse() : corners;
+
+  return ordered.map((start, i) => ({
+    kind: 'line' as const,
+    start,
+    end: ordered[(i + 1) % ordered.length],
+  }));
+}
+
+/**
+ * Closed polygon through the given points (counter-clockwise input)
+ */
+export function polylineLoop(points: Point2D[], clockwise: boolean): Loop2D {
+  const ordered = clockwise ? [...points].reverse() : points;
+
+  return ordered.map((start, i) => ({
+    kind: 'line' as const,
+    start,
+    end: ordered[(i + 1) % ordered.length],
+  }));
+}
+
+function segmentStart(segment: Segment2D): Point2D {
+  if (segment.kind === 'line') {
+    return segment.start;
+  }
+  return [
+    segment.center[0] + segment.radius * Math.cos(segment.startAngle),
+    segment.center[1] + segment.radius * Math.sin(segment.startAngle),
+  ];
+}
+
+function reverseLoop(loop: OrientedEdgeRef[]): OrientedEdgeRef[] {
+  return [...loop].reverse().map(({ edge, forward }) => ({ edge, forward: !forward }));
+}
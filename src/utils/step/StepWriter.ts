@@ -0,0 +1,227 @@
+/**
+ * Minimal ISO 10303-21 (STEP Part 21) entity writer
+ * Only the entities needed for B-rep solids with B-spline, planar and
+ * cylindrical faces are covered.
+ */
+
+export type Vec3 = [number, number, number];
+
+export interface StepHeader {
+  name: string;
+  description: string;
+  author?: string;
+}
+
+export class StepWriter {
+  private entities: string[] = [];
+
+  /**
+   * Append an entity body and return its instance id
+   */
+  add(body: string): number {
+    this.entities.push(body);
+    return this.entities.length;
+  }
+
+  ref(id: number): string {
+    return `#${id}`;
+  }
+
+  cartesianPoint(point: Vec3): number {
+    return this.add(`CARTESIAN_POINT('',${formatTuple(point)})`);
+  }
+
+  direction(vector: Vec3): number {
+    return this.add(`DIRECTION('',${formatTuple(normalize(vector))})`);
+  }
+
+  axis2Placement(origin: Vec3, axis: Vec3, refDirection: Vec3): number {
+    const location = this.cartesianPoint(origin);
+    const axisId = this.direction(axis);
+    const refId = this.direction(refDirection);
+    return this.add(`AXIS2_PLACEMENT_3D('',#${location},#${axisId},#${refId})`);
+  }
+
+  line(start: Vec3, end: Vec3): number {
+    const delta: Vec3 = [end[0] - start[0], end[1] - start[1], end[2] - start[2]];
+    const magnitude = Math.hypot(...delta);
+    const point = this.cartesianPoint(start);
+    const dir = this.direction(delta);
+    const vector = this.add(`VECTOR('',#${dir},${formatReal(magnitude)})`);
+    return this.add(`LINE('',#${point},#${vector})`);
+  }
+
+  circle(center: Vec3, axis: Vec3, refDirection: Vec3, radius: number): number {
+    const placement = this.axis2Placement(center, axis, refDirection);
+    return this.add(`CIRCLE('',#${placement},${formatReal(radius)})`);
+  }
+
+  plane(origin: Vec3, normal: Vec3, refDirection: Vec3): number {
+    const placement = this.axis2Placement(origin, normal, refDirection);
+    return this.add(`PLANE('',#${placement})`);
+  }
+
+  cylindricalSurface(origin: Vec3, axis: Vec3, refDirection: Vec3, radius: number): number {
+    const placement = this.axis2Placement(origin, axis, refDirection);
+    return this.add(`CYLINDRICAL_SURFACE('',#${placement},${formatReal(radius)})`);
+  }
+
+  bSplineCurve(degree: number, controlPoints: Vec3[], knots: KnotVector): number {
+    const points = controlPoints.map(point => `#${this.cartesianPoint(point)}`);
+    return this.add(
+      `B_SPLINE_CURVE_WITH_KNOTS('',${degree},(${points.join(',')}),.UNSPECIFIED.,.F.,.F.,` +
+      `(${knots.multiplicities.join(',')}),(${knots.values.map(formatReal).join(',')}),.UNSPECIFIED.)`
+    );
+  }
+
+  /**
+   * B-spline surface; control points are indexed [u][v].
+   * When weights are given a rational complex entity is written.
+   */
+  bSplineSurface(
+    uDegree: number,
+    vDegree: number,
+    controlPoints: Vec3[][],
+    uKnots: KnotVector,
+    vKnots: KnotVector,
+    weights?: number[][]
+  ): number {
+    const grid = controlPoints
+      .map(row => `(${row.map(point => `#${this.cartesianPoint(point)}`).join(',')})`)
+      .join(',');
+    const knotData =
+      `(${uKnots.multiplicities.join(',')}),(${vKnots.multiplicities.join(',')}),` +
+      `(${uKnots.values.map(formatReal).join(',')}),(${vKnots.values.map(formatReal).join(',')}),.UNSPECIFIED.`;
+
+    if (!weights) {
+      return this.add(
+        `B_SPLINE_SURFACE_WITH_KNOTS('',${uDegree},${vDegree},(${grid}),.UNSPECIFIED.,.F.,.F.,.F.,${knotData})`
+      );
+    }
+
+    const weightData = weights.map(row => `(${row.map(formatReal).join(',')})`).join(',');
+    return this.add(
+      `(BOUNDED_SURFACE() B_SPLINE_SURFACE(${uDegree},${vDegree},(${grid}),.UNSPECIFIED.,.F.,.F.,.F.) ` +
+      `B_SPLINE_SURFACE_WITH_KNOTS(${knotData}) GEOMETRIC_REPRESENTATION_ITEM() ` +
+      `RATIONAL_B_SPLINE_SURFACE((${weightData})) REPRESENTATION_ITEM('') SURFACE())`
+    );
+  }
+
+  vertex(point: Vec3): number {
+    const pointId = this.cartesianPoint(point);
+    return this.add(`VERTEX_POINT('',#${pointId})`);
+  }
+
+  edge(startVertex: number, endVertex: number, curve: number, sameSense: boolean): number {
+    return this.add(`EDGE_CURVE('',#${startVertex},#${endVertex},#${curve},${formatBoolean(sameSense)})`);
+  }
+
+  edgeLoop(edges: OrientedEdgeRef[]): number {
+    const oriented = edges.map(
+      ({ edge, forward }) => `#${this.add(`ORIENTED_EDGE('',*,*,#${edge},${formatBoolean(forward)})`)}`
+    );
+    return this.add(`EDGE_LOOP('',(${oriented.join(',')}))`);
+  }
+
+  face(surface: number, outerLoop: OrientedEdgeRef[], innerLoops: OrientedEdgeRef[][], sameSense: boolean): number {
+    const bounds = [
+      this.add(`FACE_OUTER_BOUND('',#${this.edgeLoop(outerLoop)},.T.)`),
+      ...innerLoops.map(loop => this.add(`FACE_BOUND('',#${this.edgeLoop(loop)},.T.)`)),
+    ];
+    return this.add(
+      `ADVANCED_FACE('',(${bounds.map(id => `#${id}`).join(',')}),#${surface},${formatBoolean(sameSense)})`
+    );
+  }
+
+  solid(name: string, faces: number[]): number {
+    const shell = this.add(`CLOSED_SHELL('',(${faces.map(id => `#${id}`).join(',')}))`);
+    return this.add(`MANIFOLD_SOLID_BREP('${escapeString(name)}',#${shell})`);
+  }
+
+  /**
+   * Wrap the solids in the AP214 product structure with millimetre units
+   */
+  finish(header: StepHeader, solids: number[]): string {
+    const appContext = this.add(`APPLICATION_CONTEXT('automotive_design')`);
+    this.add(`APPLICATION_PROTOCOL_DEFINITION('international standard','automotive_design',2000,#${appContext})`);
+    const productContext = this.add(`PRODUCT_CONTEXT('',#${appContext},'mechanical')`);
+    const name = escapeString(header.name);
+    const product = this.add(`PRODUCT('${name}','${name}','${escapeString(header.description)}',(#${productContext}))`);
+    this.add(`PRODUCT_RELATED_PRODUCT_CATEGORY('part',$,(#${product}))`);
+    const formation = this.add(`PRODUCT_DEFINITION_FORMATION('','',#${product})`);
+    const definitionContext = this.add(`PRODUCT_DEFINITION_CONTEXT('part definition',#${appContext},'design')`);
+    const definition = this.add(`PRODUCT_DEFINITION('design','',#${formation},#${definitionContext})`);
+    const definitionShape = this.add(`PRODUCT_DEFINITION_SHAPE('','',#${definition})`);
+
+    const lengthUnit = this.add(`(LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(.MILLI.,.METRE.))`);
+    const angleUnit = this.add(`(NAMED_UNIT(*) PLANE_ANGLE_UNIT() SI_UNIT($,.RADIAN.))`);
+    const solidAngleUnit = this.add(`(NAMED_UNIT(*) SI_UNIT($,.STERADIAN.) SOLID_ANGLE_UNIT())`);
+    const uncertainty = this.add(
+      `UNCERTAINTY_MEASURE_WITH_UNIT(LENGTH_MEASURE(1.E-06),#${lengthUnit},'distance_accuracy_value','confusion accuracy')`
+    );
+    const geometricContext = this.add(
+      `(GEOMETRIC_REPRESENTATION_CONTEXT(3) GLOBAL_UNCERTAINTY_ASSIGNED_CONTEXT((#${uncertainty})) ` +
+      `GLOBAL_UNIT_ASSIGNED_CONTEXT((#${lengthUnit},#${angleUnit},#${solidAngleUnit})) REPRESENTATION_CONTEXT('',''))`
+    );
+
+    const origin = this.axis2Placement([0, 0, 0], [0, 0, 1], [1, 0, 0]);
+    const items = [origin, ...solids].map(id => `#${id}`).join(',');
+    const representation = this.add(
+      `ADVANCED_BREP_SHAPE_REPRESENTATION('${name}',(${items}),#${geometricContext})`
+    );
+    this.add(`SHAPE_DEFINITION_REPRESENTATION(#${definitionShape},#${representation})`);
+
+    const timestamp = new Date().toISOString().substring(0, 19);
+    const data = this.entities.map((body, index) => `#${index + 1}=${body};`).join('\n');
+
+    return [
+      'ISO-10303-21;',
+      'HEADER;',
+      `FILE_DESCRIPTION(('${escapeString(header.description)}'),'2;1');`,
+      `FILE_NAME('${name}','${timestamp}',('${escapeString(header.author || '')}'),(''),'Horn Designer','Horn Designer','');`,
+      `FILE_SCHEMA(('AUTOMOTIVE_DESIGN { 1 0 10303 214 1 1 1 1 }'));`,
+      'ENDSEC;',
+      'DATA;',
+      data,
+      'ENDSEC;',
+      'END-ISO-10303-21;',
+      '',
+    ].join('\n');
+  }
+}
+
+export interface KnotVector {
+  values: number[];
+  multiplicities: number[];
+}
+
+export interface OrientedEdgeRef {
+  edge: number;
+  forward: boolean;
+}
+
+/**
+ * Format a REAL literal; Part 21 requires a decimal point in every real
+ */
+export function formatReal(value: number): string {
+  const rounded = Number(value.toFixed(6));
+  const text = Object.is(rounded, -0) ? '0' : rounded.toString();
+  return text.includes('.') ? text : `${text}.`;
+}
+
+function formatTuple(values: Vec3): string {
+  return `(${values.map(formatReal).join(',')})`;
+}
+
+function formatBoolean(value: boolean): string {
+  return value ? '.T.' : '.F.';
+}
+
+function normalize(vector: Vec3): Vec3 {
+  const length = Math.hypot(...vector) || 1;
+  return [vector[0] / length, vector[1] / length, vector[2] / length];
+}
+
+function escapeString(value: string): string {
+  return value.replace(/'/g, "''");
+}
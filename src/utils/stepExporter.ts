@@ -0,0 +1,218 @@
+import { saveAs } from 'file-saver';
+import { HornProfileParams, MountPlateParams, DriverMountParams } from '../types';
+import { HORN_GEOMETRY_CONSTANTS } from '../components/horn-geometry/HornGeometryConstants';
+import {
+  calculateInteriorOutline,
+  calculateWallStations,
+  hasShapedCrossSection,
+  resolveMouthParams,
+} from '../components/horn-geometry/HornProfileGenerator';
+import { generateSectionOutline, offsetSectionShape } from '../components/geometry/CrossSectionUtils';
+import {
+  calculateCircularPlateRadii,
+  calculateRectangularPlateDimensions,
+  calculatePlateHolePositions,
+} from '../components/horn-geometry/PlateGeometryGenerator';
+import { calculateDriverHolePositions, getDriverThread } from '../components/horn-geometry/DriverGeometryGenerator';
+import { StepWriter } from './step/StepWriter';
+import {
+  buildLoftedWallSolid,
+  buildExtrudedSolid,
+  circleLoop,
+  rectangleLoop,
+  polylineLoop,
+  Outline2D,
+  Point2D,
+  SectionShape,
+  WallStation,
+} from './step/BrepBuilder';
+import { createFileTimestamp } from './stlExporter';
+
+export interface STEPExportOptions {
+  includeMountingPlate: boolean;
+  includeDriverMount: boolean;
+  stations?: number; // cross-sections sampled along the horn before fitting
+}
+
+/**
+ * Build a STEP AP214 file with the horn wall as lofted B-spline faces and
+ * the plate and driver flange as planar/cylindrical solids.
+ * Pure string output, so it runs in the browser and under Node.
+ */
+export function createAssemblySTEP(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: STEPExportOptions
+): string {
+  const writer = new StepWriter();
+  const stationCount = options.stations || HORN_GEOMETRY_CONSTANTS.PERFORMANCE_SETTINGS.high.hornSteps;
+
+  const solids = [
+    buildLoftedWallSolid(writer, 'Horn', createWallStations(hornParams, driverParams, stationCount)),
+  ];
+
+  if (options.includeMountingPlate) {
+    // The plate sits on the mouth plane, at the front of a rolled-back lip
+    const mouthParams = resolveMouthParams(hornParams);
+    const plateTop = mouthParams.length;
+    solids.push(
+      buildExtrudedSolid(
+        writer,
+        'Mounting Plate',
+        createPlateOutline(plateParams, mouthParams),
+        plateTop - plateParams.thickness,
+        plateTop
+      )
+    );
+  }
+
+  const thread = getDriverThread(driverParams);
+  if (options.includeDriverMount && thread) {
+    // The thread is carried as its minor-diameter bore, like a cosmetic thread in CAD
+    solids.push(
+      buildExtrudedSolid(
+        writer,
+        'Driver Flange',
+        createRingOutline(thread.outerRadius, thread.boreRadius),
+        0,
+        driverParams.flangeThickness
+      ),
+      buildExtrudedSolid(
+        writer,
+        'Driver Thread Collar',
+        createRingOutline(thread.outerRadius, thread.minorRadius),
+        -thread.length,
+        0
+      )
+    );
+  } else if (options.includeDriverMount) {
+    solids.push(
+      buildExtrudedSolid(
+        writer,
+        'Driver Flange',
+        createDriverOutline(driverParams),
+        0,
+        driverParams.flangeThickness
+      )
+    );
+  }
+
+  return writer.finish(
+    {
+      name: 'horn_assembly',
+      description: `${hornParams.flareType} horn, ${hornParams.roundMouth ? 'round' : 'rectangular'} mouth`,
+    },
+    solids
+  );
+}
+
+/**
+ * Export the horn assembly as a STEP file
+ */
+export function exportAssemblyToSTEP(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: STEPExportOptions,
+  filename: string = generateSTEPFilename()
+): void {
+  try {
+    const data = createAssemblySTEP(hornParams, plateParams, driverParams, options);
+    saveAs(new Blob([data], { type: 'application/step' }), filename);
+
+    console.log(`STEP export successful: ${filename}`);
+  } catch (error) {
+    console.error('STEP export failed:', error);
+    throw new Error(`Failed to export STEP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export function generateSTEPFilename(baseName: string = 'horn_assembly'): string {
+  return `${baseName}_${createFileTimestamp()}.step`;
+}
+
+function createWallStations(
+  hornParams: HornProfileParams,
+  driverParams: DriverMountParams,
+  stationCount: number
+): WallStation[] {
+  const pointsPerQuadrant = HORN_GEOMETRY_CONSTANTS.SECTION_POINTS_PER_QUADRANT;
+  const toPoints = (outline: Array<{ x: number; y: number }>) => outline.map(({ x, y }) => [x, y] as Point2D);
+
+  return calculateWallStations(hornParams, stationCount, driverParams).map(station => {
+    const { z, outerZ, section } = station;
+
+    if (section) {
+      return {
+        z,
+        outerZ,
+        inner: { kind: 'outline', points: toPoints(generateSectionOutline(station.halfWidth, station.halfHeight, section, pointsPerQuadrant)) },
+        outer: {
+          kind: 'outline',
+          points: toPoints(generateSectionOutline(
+            station.outerHalfWidth,
+            station.outerHalfHeight,
+            offsetSectionShape(section, hornParams.wallThickness),
+            pointsPerQuadrant
+          )),
+        },
+      };
+    }
+
+    const inner: SectionShape = hornParams.roundMouth
+      ? { kind: 'circle', radius: station.halfWidth }
+      : { kind: 'rectangle', halfWidth: station.halfWidth, halfHeight: station.halfHeight };
+    const outer: SectionShape = hornParams.roundMouth
+      ? { kind: 'circle', radius: station.outerHalfWidth }
+      : { kind: 'rectangle', halfWidth: station.outerHalfWidth, halfHeight: station.outerHalfHeight };
+
+    return { z, outerZ, inner, outer };
+  });
+}
+
+function createPlateOutline(plateParams: MountPlateParams, hornParams: HornProfileParams): Outline2D {
+  const boltHoles = calculatePlateHolePositions(plateParams, hornParams, hornParams.length).map(position =>
+    circleLoop([position.x, position.y], plateParams.boltHoleDiameter / 2, true)
+  );
+
+  if (hornParams.roundMouth) {
+    const { outerRadius, innerRadius } = calculateCircularPlateRadii(plateParams, hornParams);
+    return {
+      outer: circleLoop([0, 0], outerRadius, false),
+      holes: [circleLoop([0, 0], innerRadius, true), ...boltHoles],
+    };
+  }
+
+  const { outerWidth, outerHeight } = calculateRectangularPlateDimensions(plateParams, hornParams);
+  const mouthHeight = hornParams.mouthHeight || hornParams.mouthWidth;
+
+  const mouthHole = hasShapedCrossSection(hornParams)
+    ? polylineLoop(calculateInteriorOutline(hornParams, 1).map(({ x, y }) => [x, y] as Point2D), true)
+    : rectangleLoop(hornParams.mouthWidth / 2, mouthHeight / 2, true);
+
+  return {
+    outer: rectangleLoop(outerWidth / 2, outerHeight / 2, false),
+    holes: [mouthHole, ...boltHoles],
+  };
+}
+
+function createDriverOutline(driverParams: DriverMountParams): Outline2D {
+  const boltHoleDiameter =
+    driverParams.boltHoleDiameter || HORN_GEOMETRY_CONSTANTS.DEFAULT_DRIVER_BOLT_DIAMETER;
+  const boltHoles = calculateDriverHolePositions(driverParams, 0).map(position =>
+    circleLoop([position.x, position.y], boltHoleDiameter / 2, true)
+  );
+
+  return {
+    outer: circleLoop([0, 0], driverParams.flangeDiameter / 2, false),
+    holes: [circleLoop([0, 0], driverParams.throatDiameter / 2, true), ...boltHoles],
+  };
+}
+
+function createRingOutline(outerRadius: number, innerRadius: number): Outline2D {
+  return {
+    outer: circleLoop([0, 0], outerRadius, false),
+    holes: [circleLoop([0, 0], innerRadius, true)],
+  };
+}
@@ -0,0 +1,209 @@
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { saveAs } from 'file-saver';
+import * as THREE from 'three';
+import { HornProfileParams, MountPlateParams, DriverMountParams } from '../types';
+import {
+  createAssemblyParts,
+  mergeAssemblyParts,
+  disposeAssemblyParts,
+  AssemblyOptions,
+} from '../components/horn-geometry/AssemblyGeometry';
+import { countOpenEdges } from '../components/GeometryUtils';
+
+export type STLFormat = 'binary' | 'ascii';
+
+const OPEN_EDGE_TOLERANCE = 1e-3; // mm - vertices closer than this count as one
+
+export interface STLExportOptions extends AssemblyOptions {
+  format?: STLFormat;
+}
+
+/**
+ * Build the STL payload for the assembly shown in the viewport.
+ * Does not touch the DOM, so it can also run under Node.
+ */
+export function createAssemblySTL(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: STLExportOptions
+): ArrayBuffer | string {
+  const parts = createAssemblyParts(hornParams, plateParams, driverParams, options);
+
+  try {
+    const geometry = mergeAssemblyParts(parts);
+    const mesh = new THREE.Mesh(geometry);
+
+    if (!validateGeometryForSTL(mesh)) {
+      geometry.dispose();
+      throw new Error('Assembly geometry is not valid for STL export');
+    }
+
+    const result = geometryToSTL(mesh, options.format || 'binary');
+    geometry.dispose();
+
+    return result;
+  } finally {
+    disposeAssemblyParts(parts);
+  }
+}
+
+/**
+ * Export the horn assembly as an STL file
+ * Units are millimetres, matching the design parameters
+ */
+export function exportAssemblyToSTL(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  options: STLExportOptions,
+  filename: string = generateSTLFilename()
+): void {
+  try {
+    const result = createAssemblySTL(hornParams, plateParams, driverParams, options);
+    saveAs(createSTLBlob(result), filename);
+
+    console.log(`STL export successful: ${filename}`);
+  } catch (error) {
+    console.error('STL export failed:', error);
+    throw new Error(`Failed to export STL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Export an existing THREE.js mesh to STL
+ * Useful when you already have a constructed mesh
+ */
+export function exportMeshToSTL(
+  mesh: THREE.Mesh,
+  filename: string = 'export.stl',
+  format: STLFormat = 'binary'
+): void {
+  try {
+    mesh.updateMatrix();
+    saveAs(createSTLBlob(geometryToSTL(mesh, format)), filename);
+
+    console.log(`STL export successful: ${filename}`);
+  } catch (error) {
+    console.error('STL export failed:', error);
+    throw new Error(`Failed to export STL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * STL payload for a single geometry, e.g. one printable segment
+ */
+export function createGeometrySTL(geometry: THREE.BufferGeometry, format: STLFormat = 'binary'): ArrayBuffer | string {
+  const mesh = new THREE.Mesh(geometry);
+
+  if (!validateGeometryForSTL(mesh)) {
+    throw new Error('Geometry is not valid for STL export');
+  }
+
+  return geometryToSTL(mesh, format);
+}
+
+function geometryToSTL(mesh: THREE.Mesh, format: STLFormat): ArrayBuffer | string {
+  const exporter = new STLExporter();
+
+  if (format === 'ascii') {
+    return exporter.parse(mesh, { binary: false });
+  }
+
+  const result = exporter.parse(mesh, { binary: true });
+  return result.buffer.slice(result.byteOffset, result.byteOffset + result.byteLength) as ArrayBuffer;
+}
+
+function createSTLBlob(data: ArrayBuffer | string): Blob {
+  return typeof data === 'string'
+    ? new Blob([data], { type: 'text/plain' })
+    : new Blob([data], { type: 'application/octet-stream' });
+}
+
+/**
+ * Validate geometry before STL export
+ * Checks for common issues that might cause export problems, including
+ * open edges that would leave the printed part with holes
+ */
+export function validateGeometryForSTL(mesh: THREE.Mesh): boolean {
+  if (!mesh.geometry) {
+    console.warn('Mesh has no geometry');
+    return false;
+  }
+
+  const geometry = mesh.geometry;
+
+  // Check if geometry has vertices
+  const positionAttribute = geometry.getAttribute('position');
+  if (!positionAttribute || positionAttribute.count === 0) {
+    console.warn('Geometry has no vertices');
+    return false;
+  }
+
+  // Check if geometry has faces (triangles)
+  const triangleSource = geometry.index ? geometry.index.count : positionAttribute.count;
+  if (triangleSource % 3 !== 0) {
+    console.warn('Geometry vertex count is not divisible by 3 (not triangulated)');
+    return false;
+  }
+
+  // Check for NaN or infinite values
+  const positions = positionAttribute.array;
+  for (let i = 0; i < positions.length; i++) {
+    if (!isFinite(positions[i])) {
+      console.warn('Geometry contains NaN or infinite values');
+      return false;
+    }
+  }
+
+  // Compute bounding box to check for reasonable size
+  if (!geometry.boundingBox) {
+    geometry.computeBoundingBox();
+  }
+
+  if (geometry.boundingBox) {
+    const size = new THREE.Vector3();
+    geometry.boundingBox.getSize(size);
+
+    const maxDimension = Math.max(size.x, size.y, size.z);
+    const minDimension = Math.min(size.x, size.y, size.z);
+
+    if (maxDimension < 0.001) {
+      console.warn('Geometry is extremely small, may not export properly');
+      return false;
+    }
+
+    if (maxDimension > 100000) {
+      console.warn('Geometry is extremely large, may cause export issues');
+      return false;
+    }
+
+    if (minDimension <= 0) {
+      console.warn('Geometry has zero or negative dimensions');
+      return false;
+    }
+  }
+
+  // Every edge must be shared by a face on each side for the mesh to be watertight
+  const openEdges = countOpenEdges(geometry, OPEN_EDGE_TOLERANCE);
+  if (openEdges > 0) {
+    console.warn(`Geometry has ${openEdges} open edges and is not watertight`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Generate filename with timestamp
+ */
+export function generateSTLFilename(baseName: string = 'horn_assembly'): string {
+  return `${baseName}_${createFileTimestamp()}.stl`;
+}
+
+export function createFileTimestamp(): string {
+  return new Date().toISOString()
+    .replace(/[:.]/g, '-')
+    .replace('T', '_')
+    .substring(0, 19);
+}
@@ -0,0 +1,186 @@
+import { zipSync, strToU8 } from 'three/examples/jsm/libs/fflate.module.js';
+import { saveAs } from 'file-saver';
+import * as THREE from 'three';
+import { HornProfileParams, MountPlateParams, DriverMountParams, MaterialType } from '../types';
+import {
+  createAssemblyParts,
+  prepareGeometryForExport,
+  disposeAssemblyParts,
+  AssemblyOptions,
+  AssemblyPart,
+  ASSEMBLY_PART_LABELS,
+} from '../components/horn-geometry/AssemblyGeometry';
+import { createFileTimestamp } from './stlExporter';
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const HORN_NAMESPACE = 'http://hornDesigner/3mf/2024';
+const MODEL_PATH = '3D/3dmodel.model';
+
+/**
+ * Build a 3MF package with one named object per assembly part.
+ * Units are millimetres; the print material is written as a base
+ * material plus namespaced density/cost metadata.
+ */
+export function createAssembly3MF(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  material: MaterialType,
+  options: AssemblyOptions
+): Uint8Array {
+  const parts = createAssemblyParts(hornParams, plateParams, driverParams, options);
+
+  try {
+    const model = buildModelXml(parts, material);
+
+    return zipSync({
+      '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+      '_rels/.rels': strToU8(RELATIONSHIPS_XML),
+      [MODEL_PATH]: strToU8(model),
+    });
+  } finally {
+    disposeAssemblyParts(parts);
+  }
+}
+
+/**
+ * Export the horn assembly as a 3MF file
+ */
+export function exportAssemblyTo3MF(
+  hornParams: HornProfileParams,
+  plateParams: MountPlateParams,
+  driverParams: DriverMountParams,
+  material: MaterialType,
+  options: AssemblyOptions,
+  filename: string = generate3MFFilename()
+): void {
+  try {
+    const data = createAssembly3MF(hornParams, plateParams, driverParams, material, options);
+    const blob = new Blob([data as BlobPart], {
+      type: 'model/3mf',
+    });
+    saveAs(blob, filename);
+
+    console.log(`3MF export successful: ${filename}`);
+  } catch (error) {
+    console.error('3MF export failed:', error);
+    throw new Error(`Failed to export 3MF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export function generate3MFFilename(baseName: string = 'horn_assembly'): string {
+  return `${baseName}_${createFileTimestamp()}.3mf`;
+}
+
+function buildModelXml(parts: AssemblyPart[], material: MaterialType): string {
+  const materialId = 1;
+  const objects = parts.map((part, index) =>
+    buildObjectXml(part, index + 2, materialId, material)
+  );
+  const items = parts.map((_, index) => `    <item objectid="${index + 2}" />`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NAMESPACE}" xmlns:horn="${HORN_NAMESPACE}">`,
+    '  <metadata name="Application">Horn Designer</metadata>',
+    `  <metadata name="CreationDate">${new Date().toISOString().substring(0, 10)}</metadata>`,
+    `  <metadata name="horn:MaterialName">${escapeXml(material.name)}</metadata>`,
+    `  <metadata name="horn:MaterialDensity">${material.density}</metadata>`,
+    `  <metadata name="horn:MaterialDensityUnit">g/cm3</metadata>`,
+    `  <metadata name="horn:MaterialCostPerKg">${material.costPerKg}</metadata>`,
+    '  <resources>',
+    `    <basematerials id="${materialId}">`,
+    `      <base name="${escapeXml(material.name)}" displaycolor="${toDisplayColor(material.color)}" />`,
+    '    </basematerials>',
+    ...objects,
+    '  </resources>',
+    '  <build>',
+    ...items,
+    '  </build>',
+    '</model>',
+  ].join('\n');
+}
+
+function buildObjectXml(
+  part: AssemblyPart,
+  objectId: number,
+  materialId: number,
+  material: MaterialType
+): string {
+  const geometry = prepareGeometryForExport(part.geometry);
+  const mesh = geometryToMeshXml(geometry);
+  geometry.dispose();
+
+  return [
+    `    <object id="${objectId}" type="model" name="${ASSEMBLY_PART_LABELS[part.name]}" pid="${materialId}" pindex="0">`,
+    '      <metadatagroup>',
+    `        <metadata name="horn:Part">${part.name}</metadata>`,
+    `        <metadata name="horn:MaterialName">${escapeXml(material.name)}</metadata>`,
+    `        <metadata name="horn:MaterialDensity">${material.density}</metadata>`,
+    '      </metadatagroup>',
+    mesh,
+    '    </object>',
+  ].join('\n');
+}
+
+function geometryToMeshXml(geometry: THREE.BufferGeometry): string {
+  const position = geometry.getAttribute('position');
+  const index = geometry.index;
+  const lines: string[] = ['      <mesh>', '        <vertices>'];
+
+  for (let i = 0; i < position.count; i++) {
+    lines.push(
+      `          <vertex x="${formatNumber(position.getX(i))}" y="${formatNumber(position.getY(i))}" z="${formatNumber(position.getZ(i))}" />`
+    );
+  }
+
+  lines.push('        </vertices>', '        <triangles>');
+
+  const triangleCount = index ? index.count / 3 : position.count / 3;
+  for (let t = 0; t < triangleCount; t++) {
+    const v1 = index ? index.getX(t * 3) : t * 3;
+    const v2 = index ? index.getX(t * 3 + 1) : t * 3 + 1;
+    const v3 = index ? index.getX(t * 3 + 2) : t * 3 + 2;
+
+    // 3MF rejects degenerate triangles that reference the same vertex twice
+    if (v1 === v2 || v2 === v3 || v1 === v3) continue;
+
+    lines.push(`          <triangle v1="${v1}" v2="${v2}" v3="${v3}" />`);
+  }
+
+  lines.push('        </triangles>', '      </mesh>');
+
+  return lines.join('\n');
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
+
+function toDisplayColor(hex: string): string {
+  return `${hex.toUpperCase()}FF`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const CONTENT_TYPES_XML = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+  '  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml" />',
+  '  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml" />',
+  '</Types>',
+].join('\n');
+
+const RELATIONSHIPS_XML = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+  `  <Relationship Target="/${MODEL_PATH}" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel" />`,
+  '</Relationships>',
+].join('\n');
@@ -0,0 +1,59 @@
+/**
+ * Validation script for delimited number exports
+ * Checks that decimal commas and column separators are told apart per file
+ */
+
+import { parseMeasurementFile } from './measurementImport';
+
+console.log('🔢 Delimited Text Validation');
+console.log('============================\n');
+
+let allValid = true;
+
+function check(name: string, test: () => void): void {
+  try {
+    test();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    allValid = false;
+    console.error(`  ❌ ${name} failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// File text, and the first point's frequency, SPL and phase
+const decimalCases: Array<[string, string, number, number, number | undefined]> = [
+  ['semicolon, decimal comma', 'Freq;SPL\n1000,5;85,2\n2000;86,1\n', 1000.5, 85.2, undefined],
+  ['tab, decimal comma', '1000,5\t85,2\t-10,5\n2000\t86,1\t12\n', 1000.5, 85.2, -10.5],
+  ['tab, integer frequency, decimal comma SPL', '20\t85,2\n40\t86,1\n', 20, 85.2, undefined],
+  ['space, integer frequency and SPL, decimal comma phase', '20 85 -10,5\n40 86 12,25\n', 20, 85, -10.5],
+  ['comma, decimal point', 'Freq,SPL\n1000.5,85.2\n2000,86.1\n', 1000.5, 85.2, undefined],
+  ['comma and space, decimal point', '1000.5, 85.2, 3\n2000, 86.1, 4\n', 1000.5, 85.2, 3],
+  ['comma, integers', 'Freq,SPL\n1000,85\n2000,86\n', 1000, 85, undefined],
+];
+
+console.log('Decimal notation');
+for (const [name, text, frequency, spl, phase] of decimalCases) {
+  check(name, () => {
+    const [first] = parseMeasurementFile(text, 'test.csv').points;
+    if (first.frequency !== frequency || first.spl !== spl || first.phase !== phase) {
+      throw new Error(
+        `expected ${frequency} Hz, ${spl} dB, phase ${phase}; ` +
+        `got ${first.frequency} Hz, ${first.spl} dB, phase ${first.phase}`
+      );
+    }
+  });
+}
+
+// Final result
+console.log('\n============================');
+if (allValid) {
+  console.log('✅ Delimited text validated successfully!');
+} else {
+  console.error('❌ Some delimited text checks failed');
+  throw new Error('Validation failed');
+}
+
+// Export validation function for testing
+export function validateDelimitedText(): boolean {
+  return allValid;
+}
@@ -0,0 +1,79 @@
+/**
+ * Validation script for measurement import
+ * Checks angle tags in polar file names and duplicate angles
+ */
+
+import { parsePolarMeasurement } from './measurementImport';
+
+const response = (offset: number) => `* test\n1000 ${90 + offset}\n2000 ${91 + offset}\n4000 ${92 + offset}\n`;
+
+console.log('📈 Measurement Import Validation');
+console.log('================================\n');
+
+let allValid = true;
+
+function check(name: string, test: () => void): void {
+  try {
+    test();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    allValid = false;
+    console.error(`  ❌ ${name} failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// File names tagged with an angle, and the angle each should read as
+const angleCases: Array<[string, number]> = [
+  ['hor 30.frd', 30],
+  ['hor-15.frd', -15],
+  ['hor--15.frd', -15],
+  ['H_-15deg.txt', -15],
+  ['polar_m45.frd', -45],
+  ['polar_p45.frd', 45],
+  ['ver 350°.frd', -10],
+  ['hor -180.frd', 180],
+];
+
+console.log('Polar file angles');
+for (const [name, expected] of angleCases) {
+  check(`${name} -> ${expected}°`, () => {
+    const map = parsePolarMeasurement([
+      { name: 'hor 0.frd', text: response(0) },
+      { name, text: response(-3) },
+    ]);
+    const angle = map.angles.find(value => value !== 0);
+    if (angle !== expected) {
+      throw new Error(`expected ${expected}°, got ${angle}°`);
+    }
+  });
+}
+
+check('180° and -180° are rejected as the same angle', () => {
+  let message = '';
+  try {
+    parsePolarMeasurement([
+      { name: 'hor 0.frd', text: response(0) },
+      { name: 'hor 180.frd', text: response(-20) },
+      { name: 'hor -180.frd', text: response(-20) },
+    ]);
+  } catch (error) {
+    message = error instanceof Error ? error.message : String(error);
+  }
+  if (!message.includes('both at 180°')) {
+    throw new Error(`expected a duplicate angle error, got "${message}"`);
+  }
+});
+
+// Final result
+console.log('\n================================');
+if (allValid) {
+  console.log('✅ Measurement import validated successfully!');
+} else {
+  console.error('❌ Some measurement import checks failed');
+  throw new Error('Validation failed');
+}
+
+// Export validation function for testing
+export function validateMeasurementImport(): boolean {
+  return allValid;
+}
@@ -0,0 +1,57 @@
+/**
+ * Validation script for contour import
+ * Checks that CSV contours keep their radii in either decimal notation
+ */
+
+import { importProfileFile } from './profileImport';
+import { HornProfileParams } from '../types';
+import { ProfileType } from '../profiles';
+
+const hornParams = {
+  throatDiameter: 25,
+  mouthWidth: 300,
+  length: 300,
+  flareType: ProfileType.CONICAL,
+  roundMouth: true,
+} as HornProfileParams;
+
+console.log('📐 Contour Import Validation');
+console.log('============================\n');
+
+let allValid = true;
+
+// File text, and the radii it should import as
+const contourCases: Array<[string, string, number[]]> = [
+  ['tab, integer x, decimal comma radii', '0\t12,7\n10\t14,2\n100\t75\n', [12.7, 14.2, 75]],
+  ['semicolon, decimal comma', 'x;r\n0;12,5\n12,5;15,1\n100;75\n', [12.5, 15.1, 75]],
+  ['comma, decimal point', 'x,r\n0,12.5\n12.5,15.1\n100,75\n', [12.5, 15.1, 75]],
+  ['space, decimal point', '0 12.5\n12.5 15.1\n100 75\n', [12.5, 15.1, 75]],
+];
+
+for (const [name, text, radii] of contourCases) {
+  try {
+    const points = importProfileFile(text, 'contour.csv', hornParams).hornParams.importedProfile!.points;
+    const imported = points.map(point => point.radius);
+    if (imported.length !== radii.length || imported.some((radius, i) => Math.abs(radius - radii[i]) > 0.01)) {
+      throw new Error(`expected radii ${radii.join(', ')}, got ${imported.join(', ')}`);
+    }
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    allValid = false;
+    console.error(`  ❌ ${name} failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Final result
+console.log('\n============================');
+if (allValid) {
+  console.log('✅ Contour import validated successfully!');
+} else {
+  console.error('❌ Some contour import checks failed');
+  throw new Error('Validation failed');
+}
+
+// Export validation function for testing
+export function validateProfileImport(): boolean {
+  return allValid;
+}
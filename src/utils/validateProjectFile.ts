@@ -0,0 +1,75 @@
+/**
+ * Validation script for project files
+ * Checks that legacy (version 0) designs keep their material and flare
+ */
+
+import { importProjectFile } from './projectFile';
+import { createDefaultAppState } from './designLink';
+import { MATERIALS } from '../constants';
+import { ProfileType } from '../profiles/types';
+
+console.log('💾 Project File Validation');
+console.log('==========================\n');
+
+let allValid = true;
+
+function check(name: string, test: () => void): void {
+  try {
+    test();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    allValid = false;
+    console.error(`  ❌ ${name} failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// A bare AppState as saved before project files, with the old material shape
+function createLegacyFile(material: { name: string; density: number; costPerGram: number }): string {
+  const state = createDefaultAppState(MATERIALS[0]);
+  return JSON.stringify({
+    ...state,
+    hornParams: { ...state.hornParams, flareType: 'le-cleach' },
+    selectedMaterial: material,
+  });
+}
+
+console.log('Legacy files');
+check('PETG design reloads as PETG at its saved price', () => {
+  const { state } = importProjectFile(createLegacyFile({ name: 'PETG', density: 1.27, costPerGram: 0.12 }), MATERIALS);
+  const material = state.selectedMaterial;
+  if (material.id !== 'petg' || material.density !== 1.27 || material.costPerKg !== 120) {
+    throw new Error(`got ${material.id} at ${material.density} g/cm³ and $${material.costPerKg}/kg`);
+  }
+});
+
+check('unknown material is kept with default limits', () => {
+  const { state, notes } = importProjectFile(createLegacyFile({ name: 'Nylon', density: 1.14, costPerGram: 0.2 }), MATERIALS);
+  const material = state.selectedMaterial;
+  if (material.name !== 'Nylon' || material.costPerKg !== 200 || material.minWallThickness !== MATERIALS[0].minWallThickness) {
+    throw new Error(`got ${material.name} at $${material.costPerKg}/kg`);
+  }
+  if (!notes.some(note => note.includes('Nylon'))) {
+    throw new Error('no note about the material');
+  }
+});
+
+check('legacy flare string is converted', () => {
+  const { state } = importProjectFile(createLegacyFile({ name: 'PLA', density: 1.25, costPerGram: 0.1 }), MATERIALS);
+  if (state.hornParams.flareType !== ProfileType.LE_CLEACH) {
+    throw new Error(`got ${state.hornParams.flareType}`);
+  }
+});
+
+// Final result
+console.log('\n==========================');
+if (allValid) {
+  console.log('✅ Project files validated successfully!');
+} else {
+  console.error('❌ Some project file checks failed');
+  throw new Error('Validation failed');
+}
+
+// Export validation function for testing
+export function validateProjectFile(): boolean {
+  return allValid;
+}